@@ -56,7 +56,7 @@ type HandleContext = {
     data: Record<string, unknown>,
     options?: { excludePeerId?: string },
   ) => void;
-  syncGuildVoiceState: (roomId: string) => Promise<void>;
+  syncVoiceState: (roomId: string) => Promise<void>;
 };
 
 const ensureIdentified = (session: SignalingSession): void => {
@@ -131,7 +131,7 @@ const closePeerAndNotify = async (context: HandleContext): Promise<void> => {
   rooms.removeIfEmpty(room.id);
   session.joined = false;
 
-  await context.syncGuildVoiceState(room.id);
+  await context.syncVoiceState(room.id);
 };
 
 export const handleRequest = async (
@@ -218,7 +218,7 @@ export const handleRequest = async (
       { excludePeerId: peer.id },
     );
 
-    await context.syncGuildVoiceState(room.id);
+    await context.syncVoiceState(room.id);
 
     return {
       peerId: peer.id,
@@ -551,7 +551,7 @@ export const handleRequest = async (
       { excludePeerId: peer.id },
     );
 
-    await context.syncGuildVoiceState(room.id);
+    await context.syncVoiceState(room.id);
 
     return {
       peerId: peer.id,
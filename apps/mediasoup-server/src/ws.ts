@@ -20,7 +20,13 @@ type WsSession = {
 
 const toJson = (value: unknown): string => JSON.stringify(value);
 
-const parseGuildRoom = (roomId: string): { guildId: string; channelId: string } | null => {
+// Guild rooms are `guild:<guildId>:voice:<channelId>`; DM calls are `dm:<channelId>` and carry no guild.
+const parseVoiceRoom = (roomId: string): { guildId: string | null; channelId: string } | null => {
+  const dmMatch = roomId.match(/^dm:([^:]+)$/);
+  if (dmMatch) {
+    return { guildId: null, channelId: dmMatch[1] ?? "" };
+  }
+
   const match = roomId.match(/^guild:([^:]+):voice:([^:]+)$/);
   if (!match) {
     return null;
@@ -202,8 +208,8 @@ export const createWsServer = async (config: MediasoupConfig, rooms: RoomRegistr
   const sessionsByConnectionId = new Map<string, WsSession>();
   const sessionsByPeerId = new Map<string, WsSession>();
 
-  const syncGuildVoiceState = async (roomId: string): Promise<void> => {
-    const parsed = parseGuildRoom(roomId);
+  const syncVoiceState = async (roomId: string): Promise<void> => {
+    const parsed = parseVoiceRoom(roomId);
     if (!parsed) {
       return;
     }
@@ -282,7 +288,7 @@ export const createWsServer = async (config: MediasoupConfig, rooms: RoomRegistr
       debugVoice: config.debugVoice,
       log,
       notifyRoom,
-      syncGuildVoiceState,
+      syncVoiceState,
     });
   };
 
@@ -326,7 +332,7 @@ export const createWsServer = async (config: MediasoupConfig, rooms: RoomRegistr
           debugVoice: config.debugVoice,
           log,
           notifyRoom,
-          syncGuildVoiceState,
+          syncVoiceState,
         });
 
         if (session.peerId) {
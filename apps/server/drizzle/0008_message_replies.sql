@@ -0,0 +1,5 @@
+ALTER TABLE "messages"
+ADD COLUMN "referenced_message_id" text;
+--> statement-breakpoint
+
+CREATE INDEX "messages_referenced_message_id_idx" ON "messages" USING btree ("referenced_message_id");
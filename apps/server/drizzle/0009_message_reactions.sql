@@ -0,0 +1,29 @@
+CREATE TABLE "message_reactions" (
+  "message_id" text NOT NULL,
+  "channel_id" text NOT NULL,
+  "user_id" text NOT NULL,
+  "emoji" text NOT NULL,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT "message_reactions_pk" PRIMARY KEY("message_id", "user_id", "emoji")
+);
+--> statement-breakpoint
+
+ALTER TABLE "message_reactions"
+ADD CONSTRAINT "message_reactions_message_id_messages_id_fk"
+FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "message_reactions"
+ADD CONSTRAINT "message_reactions_channel_id_channels_id_fk"
+FOREIGN KEY ("channel_id") REFERENCES "public"."channels"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "message_reactions"
+ADD CONSTRAINT "message_reactions_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE INDEX "message_reactions_message_idx" ON "message_reactions" USING btree ("message_id");
+--> statement-breakpoint
+
+CREATE INDEX "message_reactions_message_emoji_idx" ON "message_reactions" USING btree ("message_id","emoji","created_at");
@@ -0,0 +1,18 @@
+ALTER TABLE "messages"
+ADD COLUMN "pinned" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+
+ALTER TABLE "messages"
+ADD COLUMN "pinned_at" timestamp with time zone;
+--> statement-breakpoint
+
+ALTER TABLE "messages"
+ADD COLUMN "pinned_by" text;
+--> statement-breakpoint
+
+ALTER TABLE "messages"
+ADD CONSTRAINT "messages_pinned_by_users_id_fk"
+FOREIGN KEY ("pinned_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE INDEX "messages_channel_pinned_idx" ON "messages" USING btree ("channel_id","pinned_at") WHERE "messages"."pinned" = true;
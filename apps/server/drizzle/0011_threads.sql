@@ -0,0 +1,82 @@
+ALTER TABLE "channels" DROP CONSTRAINT "channels_type_check";
+--> statement-breakpoint
+
+ALTER TABLE "channels" DROP CONSTRAINT "channels_guild_presence_check";
+--> statement-breakpoint
+
+ALTER TABLE "channels" DROP CONSTRAINT "channels_name_check";
+--> statement-breakpoint
+
+ALTER TABLE "channels"
+ADD COLUMN "owner_id" text;
+--> statement-breakpoint
+
+ALTER TABLE "channels"
+ADD COLUMN "starter_message_id" text;
+--> statement-breakpoint
+
+ALTER TABLE "channels"
+ADD COLUMN "archived" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+
+ALTER TABLE "channels"
+ADD COLUMN "auto_archive_duration" integer;
+--> statement-breakpoint
+
+ALTER TABLE "channels"
+ADD COLUMN "archive_timestamp" timestamp with time zone;
+--> statement-breakpoint
+
+ALTER TABLE "channels"
+ADD CONSTRAINT "channels_owner_id_users_id_fk"
+FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "channels"
+ADD CONSTRAINT "channels_starter_message_id_messages_id_fk"
+FOREIGN KEY ("starter_message_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE UNIQUE INDEX "channels_starter_message_id_unique" ON "channels" USING btree ("starter_message_id");
+--> statement-breakpoint
+
+ALTER TABLE "channels"
+ADD CONSTRAINT "channels_type_check" CHECK ("channels"."type" in (0, 1, 2, 4, 11, 12));
+--> statement-breakpoint
+
+ALTER TABLE "channels"
+ADD CONSTRAINT "channels_guild_presence_check" CHECK ((("channels"."type" in (0, 2, 4, 11, 12) and "channels"."guild_id" is not null) or ("channels"."type" = 1 and "channels"."guild_id" is null)));
+--> statement-breakpoint
+
+ALTER TABLE "channels"
+ADD CONSTRAINT "channels_thread_parent_check" CHECK (("channels"."type" not in (11, 12) or "channels"."parent_id" is not null));
+--> statement-breakpoint
+
+ALTER TABLE "channels"
+ADD CONSTRAINT "channels_name_check" CHECK ((("channels"."type" = 1 and "channels"."name" is null) or ("channels"."type" in (0, 2, 4, 11, 12) and "channels"."name" is not null)));
+--> statement-breakpoint
+
+CREATE TABLE "thread_members" (
+  "channel_id" text NOT NULL,
+  "user_id" text NOT NULL,
+  "joined_at" timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT "thread_members_pk" PRIMARY KEY("channel_id", "user_id")
+);
+--> statement-breakpoint
+
+ALTER TABLE "thread_members"
+ADD CONSTRAINT "thread_members_channel_id_channels_id_fk"
+FOREIGN KEY ("channel_id") REFERENCES "public"."channels"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "thread_members"
+ADD CONSTRAINT "thread_members_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE INDEX "thread_members_user_id_idx" ON "thread_members" USING btree ("user_id");
+--> statement-breakpoint
+
+UPDATE "guild_roles"
+SET "permissions" = (("permissions")::bigint | 377957122048)::text
+WHERE "id" = "guild_id";
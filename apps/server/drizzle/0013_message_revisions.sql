@@ -0,0 +1,24 @@
+CREATE TABLE "message_revisions" (
+  "id" text PRIMARY KEY NOT NULL,
+  "message_id" text NOT NULL,
+  "channel_id" text NOT NULL,
+  "content" text NOT NULL,
+  "mention_everyone" boolean DEFAULT false NOT NULL,
+  "mention_user_ids" text[] DEFAULT ARRAY[]::text[] NOT NULL,
+  "mention_role_ids" text[] DEFAULT ARRAY[]::text[] NOT NULL,
+  "mention_channel_ids" text[] DEFAULT ARRAY[]::text[] NOT NULL,
+  "edited_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+
+ALTER TABLE "message_revisions"
+ADD CONSTRAINT "message_revisions_message_id_messages_id_fk"
+FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "message_revisions"
+ADD CONSTRAINT "message_revisions_channel_id_channels_id_fk"
+FOREIGN KEY ("channel_id") REFERENCES "public"."channels"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE INDEX "message_revisions_message_idx" ON "message_revisions" USING btree ("message_id","edited_at");
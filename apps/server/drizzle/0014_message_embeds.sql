@@ -0,0 +1,13 @@
+ALTER TABLE "messages"
+ADD COLUMN "flags" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+
+ALTER TABLE "messages"
+ADD COLUMN "embeds" jsonb DEFAULT '[]'::jsonb NOT NULL;
+--> statement-breakpoint
+
+CREATE TABLE "link_embeds" (
+  "url" text PRIMARY KEY NOT NULL,
+  "embed" jsonb,
+  "fetched_at" timestamp with time zone DEFAULT now() NOT NULL
+);
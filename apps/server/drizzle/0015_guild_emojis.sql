@@ -0,0 +1,38 @@
+ALTER TYPE "public"."upload_session_kind" ADD VALUE 'emoji';
+--> statement-breakpoint
+
+ALTER TABLE "upload_sessions"
+ADD COLUMN "guild_id" text;
+--> statement-breakpoint
+
+ALTER TABLE "upload_sessions"
+ADD CONSTRAINT "upload_sessions_guild_id_guilds_id_fk"
+FOREIGN KEY ("guild_id") REFERENCES "public"."guilds"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE TABLE "guild_emojis" (
+  "id" text PRIMARY KEY NOT NULL,
+  "guild_id" text NOT NULL,
+  "name" text NOT NULL,
+  "animated" boolean DEFAULT false NOT NULL,
+  "s3_key" text NOT NULL,
+  "content_type" text,
+  "created_by" text,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+ALTER TABLE "guild_emojis"
+ADD CONSTRAINT "guild_emojis_guild_id_guilds_id_fk"
+FOREIGN KEY ("guild_id") REFERENCES "public"."guilds"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "guild_emojis"
+ADD CONSTRAINT "guild_emojis_created_by_users_id_fk"
+FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE UNIQUE INDEX "guild_emojis_guild_name_unique" ON "guild_emojis" USING btree ("guild_id","name");
+--> statement-breakpoint
+
+CREATE UNIQUE INDEX "guild_emojis_s3_key_unique" ON "guild_emojis" USING btree ("s3_key");
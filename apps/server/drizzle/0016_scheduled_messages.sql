@@ -0,0 +1,32 @@
+CREATE TYPE "public"."scheduled_message_status" AS ENUM('pending', 'sending', 'failed');
+--> statement-breakpoint
+
+CREATE TABLE "scheduled_messages" (
+  "id" text PRIMARY KEY NOT NULL,
+  "channel_id" text NOT NULL,
+  "author_id" text NOT NULL,
+  "content" text DEFAULT '' NOT NULL,
+  "attachment_upload_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "allowed_mentions" jsonb,
+  "scheduled_at" timestamp with time zone NOT NULL,
+  "status" "scheduled_message_status" DEFAULT 'pending' NOT NULL,
+  "failure_reason" text,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+  "updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+ALTER TABLE "scheduled_messages"
+ADD CONSTRAINT "scheduled_messages_channel_id_channels_id_fk"
+FOREIGN KEY ("channel_id") REFERENCES "public"."channels"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "scheduled_messages"
+ADD CONSTRAINT "scheduled_messages_author_id_users_id_fk"
+FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE INDEX "scheduled_messages_status_scheduled_at_idx" ON "scheduled_messages" USING btree ("status","scheduled_at");
+--> statement-breakpoint
+
+CREATE INDEX "scheduled_messages_author_id_idx" ON "scheduled_messages" USING btree ("author_id");
@@ -0,0 +1,18 @@
+CREATE TABLE "message_drafts" (
+  "user_id" text NOT NULL,
+  "channel_id" text NOT NULL,
+  "content" text DEFAULT '' NOT NULL,
+  "attachment_upload_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT "message_drafts_pk" PRIMARY KEY("user_id","channel_id")
+);
+--> statement-breakpoint
+
+ALTER TABLE "message_drafts"
+ADD CONSTRAINT "message_drafts_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "message_drafts"
+ADD CONSTRAINT "message_drafts_channel_id_channels_id_fk"
+FOREIGN KEY ("channel_id") REFERENCES "public"."channels"("id") ON DELETE cascade ON UPDATE no action;
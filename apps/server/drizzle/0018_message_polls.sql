@@ -0,0 +1,48 @@
+ALTER TABLE "messages"
+ADD COLUMN "type" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+
+CREATE TABLE "message_polls" (
+  "message_id" text PRIMARY KEY NOT NULL,
+  "channel_id" text NOT NULL,
+  "question" text NOT NULL,
+  "answers" jsonb NOT NULL,
+  "allow_multiselect" boolean DEFAULT false NOT NULL,
+  "expires_at" timestamp with time zone NOT NULL,
+  "finalized_at" timestamp with time zone
+);
+--> statement-breakpoint
+
+CREATE TABLE "poll_votes" (
+  "message_id" text NOT NULL,
+  "answer_id" integer NOT NULL,
+  "user_id" text NOT NULL,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT "poll_votes_pk" PRIMARY KEY("message_id","user_id","answer_id")
+);
+--> statement-breakpoint
+
+ALTER TABLE "message_polls"
+ADD CONSTRAINT "message_polls_message_id_messages_id_fk"
+FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "message_polls"
+ADD CONSTRAINT "message_polls_channel_id_channels_id_fk"
+FOREIGN KEY ("channel_id") REFERENCES "public"."channels"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "poll_votes"
+ADD CONSTRAINT "poll_votes_message_id_message_polls_message_id_fk"
+FOREIGN KEY ("message_id") REFERENCES "public"."message_polls"("message_id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "poll_votes"
+ADD CONSTRAINT "poll_votes_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE INDEX "message_polls_open_expires_at_idx" ON "message_polls" USING btree ("expires_at") WHERE "message_polls"."finalized_at" is null;
+--> statement-breakpoint
+
+CREATE INDEX "poll_votes_message_answer_idx" ON "poll_votes" USING btree ("message_id","answer_id");
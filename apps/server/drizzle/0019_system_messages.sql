@@ -0,0 +1,2 @@
+ALTER TABLE "guilds"
+ADD COLUMN "system_channel_flags" integer DEFAULT 0 NOT NULL;
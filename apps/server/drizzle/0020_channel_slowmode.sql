@@ -0,0 +1,2 @@
+ALTER TABLE "channels"
+ADD COLUMN "rate_limit_per_user" integer DEFAULT 0 NOT NULL;
@@ -0,0 +1,50 @@
+ALTER TABLE "channels" DROP CONSTRAINT "channels_type_check";
+--> statement-breakpoint
+
+ALTER TABLE "channels" DROP CONSTRAINT "channels_guild_presence_check";
+--> statement-breakpoint
+
+ALTER TABLE "channels" DROP CONSTRAINT "channels_name_check";
+--> statement-breakpoint
+
+ALTER TABLE "channels"
+ADD CONSTRAINT "channels_type_check" CHECK ("channels"."type" in (0, 1, 2, 4, 5, 11, 12));
+--> statement-breakpoint
+
+ALTER TABLE "channels"
+ADD CONSTRAINT "channels_guild_presence_check" CHECK ((("channels"."type" in (0, 2, 4, 5, 11, 12) and "channels"."guild_id" is not null) or ("channels"."type" = 1 and "channels"."guild_id" is null)));
+--> statement-breakpoint
+
+ALTER TABLE "channels"
+ADD CONSTRAINT "channels_name_check" CHECK ((("channels"."type" = 1 and "channels"."name" is null) or ("channels"."type" in (0, 2, 4, 5, 11, 12) and "channels"."name" is not null)));
+--> statement-breakpoint
+
+ALTER TABLE "messages"
+ADD COLUMN "crosspost_source" jsonb;
+--> statement-breakpoint
+
+CREATE TABLE "channel_follows" (
+  "source_channel_id" text NOT NULL,
+  "target_channel_id" text NOT NULL,
+  "user_id" text,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT "channel_follows_pk" PRIMARY KEY("source_channel_id","target_channel_id")
+);
+--> statement-breakpoint
+
+ALTER TABLE "channel_follows"
+ADD CONSTRAINT "channel_follows_source_channel_id_channels_id_fk"
+FOREIGN KEY ("source_channel_id") REFERENCES "public"."channels"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "channel_follows"
+ADD CONSTRAINT "channel_follows_target_channel_id_channels_id_fk"
+FOREIGN KEY ("target_channel_id") REFERENCES "public"."channels"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "channel_follows"
+ADD CONSTRAINT "channel_follows_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE INDEX "channel_follows_target_idx" ON "channel_follows" USING btree ("target_channel_id");
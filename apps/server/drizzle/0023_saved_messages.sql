@@ -0,0 +1,26 @@
+CREATE TABLE "saved_messages" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" text NOT NULL,
+  "message_id" text NOT NULL,
+  "channel_id" text NOT NULL,
+  "note" text,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+ALTER TABLE "saved_messages"
+ADD CONSTRAINT "saved_messages_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "saved_messages"
+ADD CONSTRAINT "saved_messages_message_id_messages_id_fk"
+FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "saved_messages"
+ADD CONSTRAINT "saved_messages_channel_id_channels_id_fk"
+FOREIGN KEY ("channel_id") REFERENCES "public"."channels"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE UNIQUE INDEX "saved_messages_user_message_unique" ON "saved_messages" USING btree ("user_id","message_id");
@@ -0,0 +1,30 @@
+CREATE TABLE "message_reminders" (
+  "id" text PRIMARY KEY NOT NULL,
+  "user_id" text NOT NULL,
+  "message_id" text NOT NULL,
+  "channel_id" text NOT NULL,
+  "remind_at" timestamp with time zone NOT NULL,
+  "fired_at" timestamp with time zone,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+ALTER TABLE "message_reminders"
+ADD CONSTRAINT "message_reminders_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "message_reminders"
+ADD CONSTRAINT "message_reminders_message_id_messages_id_fk"
+FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "message_reminders"
+ADD CONSTRAINT "message_reminders_channel_id_channels_id_fk"
+FOREIGN KEY ("channel_id") REFERENCES "public"."channels"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE UNIQUE INDEX "message_reminders_user_message_unique" ON "message_reminders" USING btree ("user_id","message_id");
+--> statement-breakpoint
+
+CREATE INDEX "message_reminders_remind_at_idx" ON "message_reminders" USING btree ("remind_at");
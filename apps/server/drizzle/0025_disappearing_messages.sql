@@ -0,0 +1,6 @@
+ALTER TABLE "channels"
+ADD COLUMN "message_ttl" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+
+ALTER TABLE "channel_members"
+ADD COLUMN "message_ttl" integer;
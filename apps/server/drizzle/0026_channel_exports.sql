@@ -0,0 +1,37 @@
+CREATE TYPE "public"."channel_export_format" AS ENUM('json', 'html', 'csv');
+--> statement-breakpoint
+
+CREATE TYPE "public"."channel_export_status" AS ENUM('pending', 'running', 'completed', 'failed');
+--> statement-breakpoint
+
+CREATE TABLE "channel_exports" (
+  "id" text PRIMARY KEY NOT NULL,
+  "channel_id" text NOT NULL,
+  "requested_by" text NOT NULL,
+  "format" "channel_export_format" NOT NULL,
+  "bundle_attachments" boolean DEFAULT false NOT NULL,
+  "after" timestamp with time zone,
+  "before" timestamp with time zone,
+  "status" "channel_export_status" DEFAULT 'pending' NOT NULL,
+  "s3_key" text,
+  "message_count" integer DEFAULT 0 NOT NULL,
+  "failure_reason" text,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+  "completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+
+ALTER TABLE "channel_exports"
+ADD CONSTRAINT "channel_exports_channel_id_channels_id_fk"
+FOREIGN KEY ("channel_id") REFERENCES "public"."channels"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "channel_exports"
+ADD CONSTRAINT "channel_exports_requested_by_users_id_fk"
+FOREIGN KEY ("requested_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE INDEX "channel_exports_status_created_at_idx" ON "channel_exports" USING btree ("status","created_at");
+--> statement-breakpoint
+
+CREATE INDEX "channel_exports_channel_requested_by_idx" ON "channel_exports" USING btree ("channel_id","requested_by");
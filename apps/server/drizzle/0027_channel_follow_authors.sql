@@ -0,0 +1,18 @@
+CREATE TABLE "channel_follow_authors" (
+  "source_channel_id" text PRIMARY KEY NOT NULL,
+  "user_id" text NOT NULL,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+ALTER TABLE "channel_follow_authors"
+ADD CONSTRAINT "channel_follow_authors_source_channel_id_channels_id_fk"
+FOREIGN KEY ("source_channel_id") REFERENCES "public"."channels"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "channel_follow_authors"
+ADD CONSTRAINT "channel_follow_authors_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE UNIQUE INDEX "channel_follow_authors_user_unique" ON "channel_follow_authors" USING btree ("user_id");
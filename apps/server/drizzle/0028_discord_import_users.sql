@@ -0,0 +1,13 @@
+CREATE TABLE "discord_import_users" (
+  "discord_user_id" text PRIMARY KEY NOT NULL,
+  "user_id" text NOT NULL,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+ALTER TABLE "discord_import_users"
+ADD CONSTRAINT "discord_import_users_user_id_users_id_fk"
+FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+CREATE UNIQUE INDEX "discord_import_users_user_unique" ON "discord_import_users" USING btree ("user_id");
@@ -0,0 +1,17 @@
+CREATE TABLE "discord_imports" (
+  "id" text PRIMARY KEY NOT NULL,
+  "guild_id" text NOT NULL,
+  "imported_by" text,
+  "last_message_id" text,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+
+ALTER TABLE "discord_imports"
+ADD CONSTRAINT "discord_imports_guild_id_guilds_id_fk"
+FOREIGN KEY ("guild_id") REFERENCES "public"."guilds"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+
+ALTER TABLE "discord_imports"
+ADD CONSTRAINT "discord_imports_imported_by_users_id_fk"
+FOREIGN KEY ("imported_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,71 @@
+import { eq } from "drizzle-orm";
+import { db } from "../src/db";
+import { users } from "../src/db/schema";
+import { discordExportSchema, importDiscordExports, type DiscordExport } from "../src/lib/discord-import";
+
+const usage = "Usage: bun ./scripts/import-discord.ts --owner <userId> <export.json> [more exports...]";
+
+const parseArgs = (args: string[]): { ownerId: string; files: string[] } => {
+  const ownerIndex = args.indexOf("--owner");
+  const ownerId = ownerIndex === -1 ? undefined : args[ownerIndex + 1];
+  if (!ownerId) {
+    throw new Error(usage);
+  }
+
+  const files = args.filter((_, index) => index !== ownerIndex && index !== ownerIndex + 1);
+  if (files.length === 0) {
+    throw new Error(usage);
+  }
+
+  return { ownerId, files };
+};
+
+const readExport = async (path: string): Promise<DiscordExport> => {
+  const parsed = discordExportSchema.safeParse(await Bun.file(path).json());
+  if (!parsed.success) {
+    throw new Error(`${path} is not a DiscordChatExporter JSON export: ${parsed.error.issues[0]?.message ?? "invalid"}`);
+  }
+  return parsed.data;
+};
+
+const run = async (): Promise<void> => {
+  const { ownerId, files } = parseArgs(process.argv.slice(2));
+
+  const owner = await db.query.users.findFirst({ where: eq(users.id, ownerId) });
+  if (!owner) {
+    throw new Error(`Owner ${ownerId} does not exist.`);
+  }
+
+  const exports: DiscordExport[] = [];
+  for (const file of files) {
+    exports.push(await readExport(file));
+    console.log(`Read ${file}`);
+  }
+
+  const result = await importDiscordExports(exports, ownerId);
+  if (typeof result === "string") {
+    throw new Error(result);
+  }
+
+  console.log(
+    `Imported guild ${result.guild_id}: ${result.channel_count} channels, ${result.role_count} roles, ${result.message_count} messages, ${result.placeholder_user_count} placeholder users.`,
+  );
+  if (result.skipped_channels.length > 0) {
+    console.log(`Skipped unsupported channels: ${result.skipped_channels.join(", ")}`);
+  }
+  if (result.skipped_message_count > 0) {
+    console.log(`Skipped ${result.skipped_message_count} system messages.`);
+  }
+  for (const warning of result.warnings) {
+    console.warn(`Warning: ${warning}`);
+  }
+};
+
+run()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
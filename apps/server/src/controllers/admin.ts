@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { env } from "../env";
+import { badRequest, forbidden, json, parseJson, requireAuth } from "../http";
+import { discordExportSchema, importDiscordExports } from "../lib/discord-import";
+import { buildGuildCreateEvent, emitToUsers } from "../runtime";
+
+// A single channel dump or the dumps of several channels from the same guild.
+const importDiscordSchema = z.union([discordExportSchema, z.array(discordExportSchema).min(1)]);
+
+const isAdminUser = (userId: string): boolean => env.ADMIN_USER_IDS.includes(userId);
+
+export const importDiscordGuild = async (request: Request): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  if (!isAdminUser(me.id)) {
+    return forbidden(request);
+  }
+
+  const parsed = importDiscordSchema.safeParse(await parseJson<unknown>(request));
+  if (!parsed.success) {
+    return badRequest(request, "Invalid DiscordChatExporter JSON.");
+  }
+
+  const result = await importDiscordExports(Array.isArray(parsed.data) ? parsed.data : [parsed.data], me.id);
+  if (typeof result === "string") {
+    return badRequest(request, result);
+  }
+
+  const guildEvent = await buildGuildCreateEvent(result.guild_id, me.id);
+  if (guildEvent) {
+    emitToUsers([me.id], "GUILD_CREATE", guildEvent);
+  }
+
+  return json(request, result, { status: 201 });
+};
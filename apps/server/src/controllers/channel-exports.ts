@@ -0,0 +1,435 @@
+import type { ChannelExportPayload } from "@edgewire/types";
+import type { BunRequest } from "bun";
+import { and, asc, count, desc, eq, gt, gte, inArray, lt, lte, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db";
+import { channelExports, guilds, messageAttachments, messageRevisions, messages } from "../db/schema";
+import { badRequest, forbidden, json, notFound, parseJson, requireAuth } from "../http";
+import { createExportRenderer, toExportMessage, type ExportEdit } from "../lib/channel-export";
+import { isNonMessageChannelType } from "../lib/channel-types";
+import { PermissionBits } from "../lib/permissions";
+import { hasChannelPermission } from "../lib/permission-service";
+import { canAccessChannel, emitToUsers, hydrateMessagePayloads, nextId, type ChannelRow } from "../runtime";
+import { deleteObject, makeObjectKey, openObjectWriter, presignGet, readObject } from "../storage/s3";
+
+type ChannelExportRow = typeof channelExports.$inferSelect;
+type AttachmentRow = typeof messageAttachments.$inferSelect;
+
+const CHANNEL_EXPORT_LIST_LIMIT = 25;
+const CHANNEL_EXPORT_ACTIVE_LIMIT = 3;
+const CHANNEL_EXPORT_PAGE_SIZE = 100;
+const CHANNEL_EXPORT_BATCH_SIZE = 2;
+// Larger files stay as links even in bundled exports, so one video can't balloon the artifact.
+const BUNDLED_ATTACHMENT_MAX_BYTES = 8 * 1024 * 1024;
+
+const createChannelExportSchema = z.object({
+  format: z.enum(["json", "html", "csv"]),
+  after: z.string().datetime({ offset: true }).optional(),
+  before: z.string().datetime({ offset: true }).optional(),
+  bundle_attachments: z.boolean().optional(),
+});
+
+const toChannelExportPayload = (row: ChannelExportRow, guildId: string | null): ChannelExportPayload => ({
+  id: row.id,
+  channel_id: row.channelId,
+  guild_id: guildId,
+  format: row.format,
+  bundle_attachments: row.bundleAttachments,
+  after: row.after?.toISOString() ?? null,
+  before: row.before?.toISOString() ?? null,
+  status: row.status,
+  message_count: row.messageCount,
+  failure_reason: row.failureReason,
+  download_url:
+    row.status === "completed" && row.s3Key
+      ? presignGet(row.s3Key, {
+          contentDisposition: `attachment; filename="${row.s3Key.split("/").pop() ?? "export"}"`,
+        })
+      : null,
+  created_at: row.createdAt.toISOString(),
+  completed_at: row.completedAt?.toISOString() ?? null,
+});
+
+// Exports are a bulk read of history, so they need the same permissions as paging through it.
+const canExportChannel = async (userId: string, channelId: string): Promise<ChannelRow | string | null> => {
+  if (!(await hasChannelPermission(userId, channelId, PermissionBits.VIEW_CHANNEL))) {
+    return null;
+  }
+
+  if (!(await hasChannelPermission(userId, channelId, PermissionBits.READ_MESSAGE_HISTORY))) {
+    return "Missing READ_MESSAGE_HISTORY.";
+  }
+
+  const access = await canAccessChannel(userId, channelId);
+  return access?.channel ?? null;
+};
+
+const resolveExportableChannel = async (
+  request: Request,
+  userId: string,
+  channelId: string | undefined,
+): Promise<ChannelRow | Response> => {
+  if (!channelId) {
+    return badRequest(request, "Invalid channel id.");
+  }
+
+  const channel = await canExportChannel(userId, channelId);
+  if (typeof channel === "string") {
+    return forbidden(request, channel);
+  }
+  if (!channel) {
+    return forbidden(request);
+  }
+
+  if (isNonMessageChannelType(channel.type)) {
+    return badRequest(request, "This channel has no messages to export.");
+  }
+
+  return channel;
+};
+
+export const createChannelExport = async (
+  request: BunRequest<"/api/channels/:channelId/exports">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const channel = await resolveExportableChannel(request, me.id, request.params.channelId);
+  if (channel instanceof Response) {
+    return channel;
+  }
+
+  const parsed = createChannelExportSchema.safeParse(await parseJson<unknown>(request));
+  if (!parsed.success) {
+    return badRequest(request, "Invalid export payload.");
+  }
+
+  const after = parsed.data.after ? new Date(parsed.data.after) : null;
+  const before = parsed.data.before ? new Date(parsed.data.before) : null;
+  if (after && before && after >= before) {
+    return badRequest(request, "after must be earlier than before.");
+  }
+
+  const bundleAttachments = parsed.data.bundle_attachments ?? false;
+  if (bundleAttachments && parsed.data.format === "csv") {
+    return badRequest(request, "CSV exports can only link attachments.");
+  }
+
+  const [active] = await db
+    .select({ value: count() })
+    .from(channelExports)
+    .where(and(eq(channelExports.requestedBy, me.id), inArray(channelExports.status, ["pending", "running"])));
+  if ((active?.value ?? 0) >= CHANNEL_EXPORT_ACTIVE_LIMIT) {
+    return badRequest(request, `You can have at most ${CHANNEL_EXPORT_ACTIVE_LIMIT} exports in progress.`);
+  }
+
+  const [created] = await db
+    .insert(channelExports)
+    .values({
+      id: nextId(),
+      channelId: channel.id,
+      requestedBy: me.id,
+      format: parsed.data.format,
+      bundleAttachments,
+      after,
+      before,
+    })
+    .returning();
+  if (!created) {
+    return badRequest(request, "Failed to start export.");
+  }
+
+  return json(request, toChannelExportPayload(created, channel.guildId ?? null), { status: 202 });
+};
+
+// Each user only sees the exports they requested themselves.
+export const listChannelExports = async (
+  request: BunRequest<"/api/channels/:channelId/exports">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const channel = await resolveExportableChannel(request, me.id, request.params.channelId);
+  if (channel instanceof Response) {
+    return channel;
+  }
+
+  const rows = await db
+    .select()
+    .from(channelExports)
+    .where(and(eq(channelExports.channelId, channel.id), eq(channelExports.requestedBy, me.id)))
+    .orderBy(desc(sql`${channelExports.id}::bigint`))
+    .limit(CHANNEL_EXPORT_LIST_LIMIT);
+
+  return json(
+    request,
+    rows.map(row => toChannelExportPayload(row, channel.guildId ?? null)),
+  );
+};
+
+export const getChannelExport = async (
+  request: BunRequest<"/api/channels/:channelId/exports/:exportId">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const channel = await resolveExportableChannel(request, me.id, request.params.channelId);
+  if (channel instanceof Response) {
+    return channel;
+  }
+
+  const row = await db.query.channelExports.findFirst({
+    where: and(
+      eq(channelExports.id, request.params.exportId),
+      eq(channelExports.channelId, channel.id),
+      eq(channelExports.requestedBy, me.id),
+    ),
+  });
+  if (!row) {
+    return notFound(request);
+  }
+
+  return json(request, toChannelExportPayload(row, channel.guildId ?? null));
+};
+
+const emitChannelExportUpdate = (row: ChannelExportRow, guildId: string | null): void => {
+  emitToUsers([row.requestedBy], "CHANNEL_EXPORT_UPDATE", toChannelExportPayload(row, guildId));
+};
+
+const markChannelExportFailed = async (
+  row: ChannelExportRow,
+  guildId: string | null,
+  reason: string,
+): Promise<void> => {
+  const [failed] = await db
+    .update(channelExports)
+    .set({ status: "failed", failureReason: reason, completedAt: new Date() })
+    .where(eq(channelExports.id, row.id))
+    .returning();
+  if (failed) {
+    emitChannelExportUpdate(failed, guildId);
+  }
+};
+
+type BundledAttachmentSource = Pick<AttachmentRow, "id" | "s3Key" | "contentType">;
+
+// Only the storage keys are loaded per page; the files themselves are read one at a time while writing.
+const listBundledAttachmentSources = async (messageIds: string[]): Promise<Map<string, BundledAttachmentSource>> => {
+  const rows = await db
+    .select({ id: messageAttachments.id, s3Key: messageAttachments.s3Key, contentType: messageAttachments.contentType })
+    .from(messageAttachments)
+    .where(
+      and(inArray(messageAttachments.messageId, messageIds), lte(messageAttachments.size, BUNDLED_ATTACHMENT_MAX_BYTES)),
+    );
+  return new Map(rows.map(row => [row.id, row]));
+};
+
+const readBundledAttachment = async (source: BundledAttachmentSource | undefined): Promise<string | null> => {
+  if (!source) {
+    return null;
+  }
+
+  try {
+    const bytes = await readObject(source.s3Key);
+    return `data:${source.contentType ?? "application/octet-stream"};base64,${Buffer.from(bytes).toString("base64")}`;
+  } catch {
+    // A missing object falls back to its link.
+    return null;
+  }
+};
+
+// Without MANAGE_MESSAGES, edit history is limited to the requester's own messages, like the revisions endpoint.
+const loadExportEdits = async (
+  rows: (typeof messages.$inferSelect)[],
+  requesterId: string,
+  canSeeAllEdits: boolean,
+): Promise<Map<string, ExportEdit[]>> => {
+  const messageIds = rows.filter(row => canSeeAllEdits || row.authorId === requesterId).map(row => row.id);
+  if (messageIds.length === 0) {
+    return new Map();
+  }
+
+  const revisions = await db
+    .select()
+    .from(messageRevisions)
+    .where(inArray(messageRevisions.messageId, messageIds))
+    .orderBy(asc(messageRevisions.editedAt));
+
+  const grouped = new Map<string, ExportEdit[]>();
+  for (const revision of revisions) {
+    const current = grouped.get(revision.messageId) ?? [];
+    current.push({ content: revision.content, edited_at: revision.editedAt.toISOString() });
+    grouped.set(revision.messageId, current);
+  }
+  return grouped;
+};
+
+const runChannelExport = async (row: ChannelExportRow): Promise<void> => {
+  const channel = await canExportChannel(row.requestedBy, row.channelId);
+  if (!channel || typeof channel === "string") {
+    await markChannelExportFailed(row, null, typeof channel === "string" ? channel : "Channel is no longer accessible.");
+    return;
+  }
+
+  const guildId = channel.guildId ?? null;
+  const guild = guildId ? await db.query.guilds.findFirst({ where: eq(guilds.id, guildId) }) : null;
+  const canSeeAllEdits =
+    guildId !== null && (await hasChannelPermission(row.requestedBy, channel.id, PermissionBits.MANAGE_MESSAGES));
+
+  const renderer = createExportRenderer(row.format, {
+    exported_at: new Date().toISOString(),
+    channel: { id: channel.id, name: channel.name, guild_id: guildId, guild_name: guild?.name ?? null },
+    after: row.after?.toISOString() ?? null,
+    before: row.before?.toISOString() ?? null,
+  });
+  const key = makeObjectKey({
+    kind: "exports",
+    userId: row.requestedBy,
+    channelId: channel.id,
+    filename: `${channel.name ?? "direct-messages"}-${row.id}.${renderer.extension}`,
+  });
+
+  const writer = openObjectWriter(key, renderer.contentType);
+  let messageCount = 0;
+  try {
+    writer.write(renderer.begin());
+
+    let cursor: string | null = null;
+    while (true) {
+      const rows = await db
+        .select()
+        .from(messages)
+        .where(
+          and(
+            eq(messages.channelId, channel.id),
+            row.after ? gte(messages.createdAt, row.after) : undefined,
+            row.before ? lt(messages.createdAt, row.before) : undefined,
+            cursor ? gt(sql`${messages.id}::bigint`, sql`${cursor}::bigint`) : undefined,
+          ),
+        )
+        .orderBy(asc(sql`${messages.id}::bigint`))
+        .limit(CHANNEL_EXPORT_PAGE_SIZE);
+      if (rows.length === 0) {
+        break;
+      }
+
+      const [payloads, edits, bundleSources] = await Promise.all([
+        hydrateMessagePayloads(rows, guildId, row.requestedBy),
+        loadExportEdits(rows, row.requestedBy, canSeeAllEdits),
+        row.bundleAttachments
+          ? listBundledAttachmentSources(rows.map(message => message.id))
+          : Promise.resolve(new Map<string, BundledAttachmentSource>()),
+      ]);
+
+      for (const payload of payloads) {
+        const message = toExportMessage(payload, edits.get(payload.id) ?? []);
+        writer.write(renderer.messageStart(message, messageCount));
+        for (const [index, attachment] of message.attachments.entries()) {
+          const dataUrl = await readBundledAttachment(bundleSources.get(attachment.id));
+          writer.write(renderer.attachment(dataUrl ? { ...attachment, data_url: dataUrl } : attachment, index));
+          if (dataUrl) {
+            await writer.flush();
+          }
+        }
+        writer.write(renderer.messageEnd(message));
+        messageCount += 1;
+      }
+      await writer.flush();
+
+      cursor = rows.at(-1)?.id ?? null;
+      if (rows.length < CHANNEL_EXPORT_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    writer.write(renderer.end(messageCount));
+    await writer.end();
+  } catch (error) {
+    console.error("Failed to write channel export", error);
+    try {
+      await deleteObject(key);
+    } catch {
+      // Best-effort cleanup only.
+    }
+    await markChannelExportFailed(row, guildId, "Failed to write export.");
+    return;
+  }
+
+  const [completed] = await db
+    .update(channelExports)
+    .set({ status: "completed", s3Key: key, messageCount, completedAt: new Date() })
+    .where(eq(channelExports.id, row.id))
+    .returning();
+  if (completed) {
+    emitChannelExportUpdate(completed, guildId);
+  }
+};
+
+let channelExportTickRunning = false;
+
+const runPendingChannelExports = async (): Promise<void> => {
+  if (channelExportTickRunning) {
+    return;
+  }
+
+  channelExportTickRunning = true;
+  try {
+    const pending = db
+      .select({ id: channelExports.id })
+      .from(channelExports)
+      .where(eq(channelExports.status, "pending"))
+      .orderBy(asc(channelExports.createdAt))
+      .limit(CHANNEL_EXPORT_BATCH_SIZE);
+
+    const claimed = await db
+      .update(channelExports)
+      .set({ status: "running" })
+      .where(and(inArray(channelExports.id, pending), eq(channelExports.status, "pending")))
+      .returning();
+
+    claimed.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    for (const row of claimed) {
+      try {
+        await runChannelExport(row);
+      } catch (error) {
+        console.error("Failed to run channel export", error);
+        await markChannelExportFailed(row, null, "Failed to write export.");
+      }
+    }
+  } finally {
+    channelExportTickRunning = false;
+  }
+};
+
+// Exports only read history, so one interrupted by a restart is simply run again from the start.
+const requeueInterruptedChannelExports = async (): Promise<void> => {
+  await db.update(channelExports).set({ status: "pending" }).where(eq(channelExports.status, "running"));
+};
+
+let channelExportTimer: ReturnType<typeof setInterval> | null = null;
+
+export const startChannelExportTask = (): void => {
+  if (channelExportTimer) {
+    return;
+  }
+
+  void requeueInterruptedChannelExports()
+    .then(runPendingChannelExports)
+    .catch(error => {
+      console.error("Failed to start channel exports", error);
+    });
+  channelExportTimer = setInterval(() => {
+    void runPendingChannelExports().catch(error => {
+      console.error("Failed to run channel exports", error);
+    });
+  }, 15 * 1_000);
+};
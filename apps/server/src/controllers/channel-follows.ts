@@ -0,0 +1,372 @@
+import {
+  ChannelType,
+  MessageFlags,
+  MessageType,
+  type FollowedChannelPayload,
+  type MessageCrosspostSource,
+  type MessagePayload,
+} from "@edgewire/types";
+import type { BunRequest } from "bun";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import { channelFollowAuthors, channelFollows, channels, guilds, messageAttachments, messages, users } from "../db/schema";
+import { badRequest, empty, forbidden, json, notFound, parseJson, requireAuth } from "../http";
+import { emitBadgeUpdatesForUsers } from "../lib/badges";
+import { isTextChannelType } from "../lib/channel-types";
+import { listGuildChannelAudienceMemberIds } from "../lib/mentions";
+import { incrementUnreadCounters } from "../lib/message-create";
+import { PermissionBits } from "../lib/permissions";
+import { hasChannelPermission } from "../lib/permission-service";
+import { postChannelSystemMessage } from "../lib/system-messages";
+import { FOLLOW_AUTHOR_USERNAME_PREFIX } from "../lib/users";
+import {
+  canAccessChannel,
+  emitToChannelAudience,
+  followChannelSchema,
+  hydrateMessagePayloads,
+  nextId,
+  type ChannelRow,
+} from "../runtime";
+import { copyObject, deleteObject, makeObjectKey } from "../storage/s3";
+
+type MessageRow = typeof messages.$inferSelect;
+type AttachmentRow = typeof messageAttachments.$inferSelect;
+
+const FOLLOW_AUTHOR_DISPLAY_NAME_MAX_LENGTH = 32;
+
+const resolveAnnouncementChannel = async (
+  request: Request,
+  userId: string,
+  channelId: string | undefined,
+): Promise<ChannelRow | Response> => {
+  if (!channelId) {
+    return badRequest(request, "Invalid channel id.");
+  }
+
+  const canView = await hasChannelPermission(userId, channelId, PermissionBits.VIEW_CHANNEL);
+  if (!canView) {
+    return forbidden(request);
+  }
+
+  const access = await canAccessChannel(userId, channelId);
+  if (!access) {
+    return forbidden(request);
+  }
+
+  if (access.channel.type !== ChannelType.GUILD_ANNOUNCEMENT) {
+    return badRequest(request, "Only announcement channels can be followed.");
+  }
+
+  return access.channel;
+};
+
+const getGuildName = async (guildId: string | null): Promise<string> => {
+  if (!guildId) {
+    return "";
+  }
+
+  const guild = await db.query.guilds.findFirst({ where: eq(guilds.id, guildId), columns: { name: true } });
+  return guild?.name ?? "";
+};
+
+export const followChannel = async (request: BunRequest<"/api/channels/:channelId/followers">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const source = await resolveAnnouncementChannel(request, me.id, request.params.channelId);
+  if (source instanceof Response) {
+    return source;
+  }
+
+  const body = await parseJson<unknown>(request);
+  const parsed = followChannelSchema.safeParse(body);
+  if (!parsed.success) {
+    return badRequest(request, "Invalid follow payload.");
+  }
+
+  const target = await db.query.channels.findFirst({ where: eq(channels.id, parsed.data.target_channel_id) });
+  if (!target || !target.guildId || !isTextChannelType(target.type)) {
+    return badRequest(request, "target_channel_id must be a guild text channel.");
+  }
+
+  if (target.guildId === source.guildId) {
+    return badRequest(request, "Announcement channels can only be followed from another guild.");
+  }
+
+  const canManageTarget = await hasChannelPermission(me.id, target.id, PermissionBits.MANAGE_CHANNELS);
+  if (!canManageTarget) {
+    return forbidden(request, "Missing MANAGE_CHANNELS.");
+  }
+
+  const inserted = await db
+    .insert(channelFollows)
+    .values({ sourceChannelId: source.id, targetChannelId: target.id, userId: me.id })
+    .onConflictDoNothing()
+    .returning();
+
+  if (inserted.length > 0) {
+    await postChannelSystemMessage({
+      channel: target,
+      authorId: me.id,
+      type: MessageType.CHANNEL_FOLLOW_ADD,
+      content: `${await getGuildName(source.guildId)} #${source.name ?? ""}`,
+    });
+  }
+
+  const payload: FollowedChannelPayload = { channel_id: source.id, target_channel_id: target.id };
+  return json(request, payload);
+};
+
+// Either side may end a follow: the follower guild's channel managers or the source channel's.
+export const unfollowChannel = async (
+  request: BunRequest<"/api/channels/:channelId/followers/:targetChannelId">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const { channelId, targetChannelId } = request.params;
+  if (!channelId || !targetChannelId) {
+    return badRequest(request, "Invalid channel id or target channel id.");
+  }
+
+  const follow = await db.query.channelFollows.findFirst({
+    where: and(eq(channelFollows.sourceChannelId, channelId), eq(channelFollows.targetChannelId, targetChannelId)),
+  });
+  if (!follow) {
+    return notFound(request);
+  }
+
+  const canManage =
+    (await hasChannelPermission(me.id, targetChannelId, PermissionBits.MANAGE_CHANNELS)) ||
+    (await hasChannelPermission(me.id, channelId, PermissionBits.MANAGE_CHANNELS));
+  if (!canManage) {
+    return forbidden(request, "Missing MANAGE_CHANNELS.");
+  }
+
+  await db
+    .delete(channelFollows)
+    .where(and(eq(channelFollows.sourceChannelId, channelId), eq(channelFollows.targetChannelId, targetChannelId)));
+  return empty(request, 204);
+};
+
+const copyAttachmentObjects = async (
+  attachments: AttachmentRow[],
+  target: ChannelRow,
+  uploaderId: string,
+): Promise<Array<AttachmentRow & { copiedKey: string }>> => {
+  const copied: Array<AttachmentRow & { copiedKey: string }> = [];
+  try {
+    for (const attachment of attachments) {
+      const copiedKey = makeObjectKey({
+        kind: "attachments",
+        userId: uploaderId,
+        guildId: target.guildId ?? undefined,
+        channelId: target.id,
+        filename: attachment.filename,
+      });
+      await copyObject(attachment.s3Key, copiedKey, attachment.contentType);
+      copied.push({ ...attachment, copiedKey });
+    }
+  } catch (error) {
+    await Promise.allSettled(copied.map(attachment => deleteObject(attachment.copiedKey)));
+    throw error;
+  }
+  return copied;
+};
+
+/**
+ * Returns the login-less user that crossposts from `source` are posted as, creating it on the first
+ * publish. Followers' guilds rarely include the original author, so copies are not attributed to them.
+ */
+const ensureFollowAuthor = async (source: ChannelRow, crosspostSource: MessageCrosspostSource): Promise<string> => {
+  const displayName = `${crosspostSource.guild_name} #${crosspostSource.channel_name}`.slice(
+    0,
+    FOLLOW_AUTHOR_DISPLAY_NAME_MAX_LENGTH,
+  );
+
+  return db.transaction(async tx => {
+    // Locking the source channel keeps two concurrent first publishes from creating two authors.
+    await tx.select({ id: channels.id }).from(channels).where(eq(channels.id, source.id)).for("update");
+
+    const [existing] = await tx
+      .select({ userId: channelFollowAuthors.userId })
+      .from(channelFollowAuthors)
+      .where(eq(channelFollowAuthors.sourceChannelId, source.id));
+    if (existing) {
+      await tx.update(users).set({ displayName }).where(eq(users.id, existing.userId));
+      return existing.userId;
+    }
+
+    const userId = nextId();
+    await tx.insert(users).values({ id: userId, username: `${FOLLOW_AUTHOR_USERNAME_PREFIX}${userId}`, displayName });
+    await tx.insert(channelFollowAuthors).values({ sourceChannelId: source.id, userId });
+    return userId;
+  });
+};
+
+const crosspostToChannel = async (
+  message: MessageRow,
+  attachments: AttachmentRow[],
+  crosspostSource: MessageCrosspostSource,
+  target: ChannelRow,
+  authorId: string,
+): Promise<MessagePayload | null> => {
+  const recipientUserIds = target.guildId ? await listGuildChannelAudienceMemberIds(target.guildId, target.id) : [];
+  const copiedAttachments = await copyAttachmentObjects(attachments, target, authorId);
+
+  let created: MessageRow | null = null;
+  try {
+    created = await db.transaction(async tx => {
+      const [inserted] = await tx
+        .insert(messages)
+        .values({
+          id: nextId(),
+          channelId: target.id,
+          authorId,
+          content: message.content,
+          embeds: message.embeds,
+          flags: MessageFlags.IS_CROSSPOST | (message.flags & MessageFlags.SUPPRESS_EMBEDS),
+          crosspostSource,
+        })
+        .returning();
+      if (!inserted) {
+        throw new Error("Failed to create crosspost.");
+      }
+
+      if (copiedAttachments.length > 0) {
+        await tx.insert(messageAttachments).values(
+          copiedAttachments.map(attachment => ({
+            id: nextId(),
+            messageId: inserted.id,
+            channelId: target.id,
+            uploaderId: authorId,
+            s3Key: attachment.copiedKey,
+            filename: attachment.filename,
+            size: attachment.size,
+            contentType: attachment.contentType,
+            urlKind: attachment.urlKind,
+          })),
+        );
+      }
+
+      await incrementUnreadCounters(tx, target.id, recipientUserIds, []);
+      return inserted;
+    });
+  } catch (error) {
+    await Promise.allSettled(copiedAttachments.map(attachment => deleteObject(attachment.copiedKey)));
+    throw error;
+  }
+
+  const [payload] = await hydrateMessagePayloads([created], target.guildId ?? null, authorId);
+  if (payload) {
+    await emitToChannelAudience(target, "MESSAGE_CREATE", payload);
+  }
+  await emitBadgeUpdatesForUsers(recipientUserIds, target.id, created.id);
+  return payload ?? null;
+};
+
+export const crosspostMessage = async (
+  request: BunRequest<"/api/channels/:channelId/messages/:messageId/crosspost">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const source = await resolveAnnouncementChannel(request, me.id, request.params.channelId);
+  if (source instanceof Response) {
+    return source;
+  }
+
+  const messageId = request.params.messageId;
+  if (!messageId) {
+    return badRequest(request, "Invalid message id.");
+  }
+
+  const message = await db.query.messages.findFirst({
+    where: and(eq(messages.id, messageId), eq(messages.channelId, source.id)),
+  });
+  if (!message) {
+    return notFound(request);
+  }
+
+  if (message.type !== MessageType.DEFAULT) {
+    return badRequest(request, "System messages cannot be published.");
+  }
+
+  if ((message.flags & (MessageFlags.CROSSPOSTED | MessageFlags.IS_CROSSPOST)) !== 0) {
+    return badRequest(request, "This message has already been published.");
+  }
+
+  // Authors publish their own announcements; anyone else needs MANAGE_MESSAGES.
+  const canPublish =
+    message.authorId === me.id
+      ? await hasChannelPermission(me.id, source.id, PermissionBits.SEND_MESSAGES)
+      : await hasChannelPermission(me.id, source.id, PermissionBits.MANAGE_MESSAGES);
+  if (!canPublish) {
+    return forbidden(request, message.authorId === me.id ? "Missing SEND_MESSAGES." : "Missing MANAGE_MESSAGES.");
+  }
+
+  // The flag is claimed in the update itself so two concurrent publishes cannot both fan out.
+  const [published] = await db
+    .update(messages)
+    .set({ flags: sql`${messages.flags} | ${MessageFlags.CROSSPOSTED}` })
+    .where(and(eq(messages.id, message.id), sql`(${messages.flags} & ${MessageFlags.CROSSPOSTED}) = 0`))
+    .returning();
+  if (!published) {
+    return badRequest(request, "This message has already been published.");
+  }
+
+  const follows = await db
+    .select({ targetChannelId: channelFollows.targetChannelId })
+    .from(channelFollows)
+    .where(eq(channelFollows.sourceChannelId, source.id));
+  const targets =
+    follows.length > 0
+      ? await db
+          .select()
+          .from(channels)
+          .where(
+            inArray(
+              channels.id,
+              follows.map(follow => follow.targetChannelId),
+            ),
+          )
+      : [];
+
+  const attachments = await db.select().from(messageAttachments).where(eq(messageAttachments.messageId, message.id));
+  const crosspostSource: MessageCrosspostSource = {
+    message_id: message.id,
+    channel_id: source.id,
+    guild_id: source.guildId ?? "",
+    channel_name: source.name ?? "",
+    guild_name: await getGuildName(source.guildId),
+  };
+  if (targets.length > 0) {
+    const followAuthorId = await ensureFollowAuthor(source, crosspostSource);
+    for (const target of targets) {
+      try {
+        await crosspostToChannel(published, attachments, crosspostSource, target, followAuthorId);
+      } catch (error) {
+        // One unreachable follower should not keep the announcement from the rest.
+        console.error(`Failed to crosspost message ${message.id} to channel ${target.id}`, error);
+      }
+    }
+  }
+
+  const [payload] = await hydrateMessagePayloads([published], source.guildId ?? null, me.id);
+  if (!payload) {
+    return notFound(request);
+  }
+
+  const { reactions: _reactions, ...messageUpdate } = payload;
+  await emitToChannelAudience(source, "MESSAGE_UPDATE", messageUpdate);
+  return json(request, payload);
+};
@@ -1,12 +1,17 @@
-import { ChannelType } from "@edgewire/types";
+import { ChannelType, MessageType } from "@edgewire/types";
 import type { BunRequest } from "bun";
-import { eq } from "drizzle-orm";
+import { and, asc, eq, inArray } from "drizzle-orm";
 import { db } from "../db";
-import { channelReads, channels } from "../db/schema";
+import { channelMembers, channelReads, channels } from "../db/schema";
 import { badRequest, empty, forbidden, json, notFound, parseJson, requireAuth } from "../http";
 import { emitBadgeUpdateForUserChannel } from "../lib/badges";
+import { isNonMessageChannelType, isTextChannelType } from "../lib/channel-types";
+import { mergeForumTags, pruneAppliedTags, resolveAppliedTags } from "../lib/forum";
 import { PermissionBits } from "../lib/permissions";
 import { hasChannelPermission, hasGuildPermission } from "../lib/permission-service";
+import { postChannelSystemMessage } from "../lib/system-messages";
+import { setThreadArchived, toThreadPayload } from "../lib/thread-members";
+import { THREAD_CHANNEL_TYPES, isThreadChannelType } from "../lib/threads";
 import {
   ID_REGEX,
   canAccessChannel,
@@ -16,12 +21,99 @@ import {
   emitToUsers,
   getDmMemberIds,
   getGuildMemberIds,
+  nextId,
   normalizeName,
   patchChannelSchema,
   readStateSchema,
+  toDmChannelPayload,
   toGuildChannelPayload,
+  type ChannelRow,
 } from "../runtime";
 
+// Posts keep only the tags their forum still defines once a tag is removed.
+const pruneForumPostTags = async (forum: ChannelRow): Promise<void> => {
+  const posts = await db
+    .select()
+    .from(channels)
+    .where(and(eq(channels.parentId, forum.id), inArray(channels.type, [...THREAD_CHANNEL_TYPES])));
+
+  for (const post of posts) {
+    const appliedTags = pruneAppliedTags(post.appliedTags, forum.availableTags);
+    if (appliedTags.length === post.appliedTags.length) {
+      continue;
+    }
+
+    const [updated] = await db.update(channels).set({ appliedTags }).where(eq(channels.id, post.id)).returning();
+    if (updated) {
+      await emitToChannelAudience(updated, "THREAD_UPDATE", await toThreadPayload(updated));
+    }
+  }
+};
+
+// Renames and topic edits are announced in the channel itself; channels without messages of their own are skipped.
+const postChannelChangeMessages = async (before: ChannelRow, after: ChannelRow, authorId: string): Promise<void> => {
+  if (isNonMessageChannelType(after.type)) {
+    return;
+  }
+
+  if (after.name !== before.name) {
+    await postChannelSystemMessage({
+      channel: after,
+      authorId,
+      type: MessageType.CHANNEL_NAME_CHANGE,
+      content: after.name ?? "",
+    });
+  }
+
+  if ((after.topic ?? "") !== (before.topic ?? "")) {
+    await postChannelSystemMessage({
+      channel: after,
+      authorId,
+      type: MessageType.CHANNEL_TOPIC_CHANGE,
+      content: after.topic ?? "",
+    });
+  }
+};
+
+// Either participant can turn the timer off, but it only turns on once every participant proposes the same value.
+const setDmMessageTtl = async (channel: ChannelRow, userId: string, messageTtl: number): Promise<ChannelRow> => {
+  const { members, updated } = await db.transaction(async tx => {
+    // Locking the participants' rows serializes concurrent proposals, so neither decides from a stale read.
+    const locked = await tx
+      .select({ userId: channelMembers.userId, messageTtl: channelMembers.messageTtl })
+      .from(channelMembers)
+      .where(eq(channelMembers.channelId, channel.id))
+      .orderBy(asc(channelMembers.userId))
+      .for("update");
+
+    await tx
+      .update(channelMembers)
+      .set({ messageTtl })
+      .where(and(eq(channelMembers.channelId, channel.id), eq(channelMembers.userId, userId)));
+
+    const proposals = locked.map(member => (member.userId === userId ? { ...member, messageTtl } : member));
+    const agreedTtl = proposals.every(member => member.messageTtl === messageTtl) ? messageTtl : 0;
+
+    const [channelRow] = await tx
+      .update(channels)
+      .set({ messageTtl: agreedTtl })
+      .where(eq(channels.id, channel.id))
+      .returning();
+    return { members: proposals, updated: channelRow };
+  });
+
+  const next = updated ?? channel;
+
+  for (const member of members) {
+    const payload = await toDmChannelPayload(next, member.userId);
+    if (payload) {
+      emitToUsers([member.userId], "CHANNEL_UPDATE", payload);
+    }
+  }
+
+  return next;
+};
+
 export const patchChannel = async (request: BunRequest<"/api/channels/:channelId">): Promise<Response> => {
   const authResult = await requireAuth(request);
   if (authResult instanceof Response) {
@@ -47,6 +139,86 @@ export const patchChannel = async (request: BunRequest<"/api/channels/:channelId
 
   const updates: Partial<typeof channels.$inferInsert> = {};
 
+  if (isThreadChannelType(access.channel.type)) {
+    const canManageThreads = await hasChannelPermission(me.id, channelId, PermissionBits.MANAGE_THREADS);
+    if (access.channel.ownerId !== me.id && !canManageThreads) {
+      return forbidden(request, "Missing MANAGE_THREADS.");
+    }
+
+    if (
+      parsed.data.topic !== undefined ||
+      parsed.data.parent_id !== undefined ||
+      parsed.data.position !== undefined ||
+      parsed.data.rate_limit_per_user !== undefined ||
+      parsed.data.message_ttl !== undefined ||
+      parsed.data.available_tags !== undefined ||
+      parsed.data.default_sort_order !== undefined ||
+      parsed.data.default_forum_layout !== undefined
+    ) {
+      return badRequest(request, "Threads only support name, archived, auto_archive_duration and applied_tags.");
+    }
+
+    if (parsed.data.name !== undefined) {
+      updates.name = normalizeName(parsed.data.name);
+    }
+
+    if (parsed.data.auto_archive_duration !== undefined) {
+      updates.autoArchiveDuration = parsed.data.auto_archive_duration;
+    }
+
+    if (parsed.data.applied_tags !== undefined) {
+      const parent = access.channel.parentId
+        ? await db.query.channels.findFirst({ where: eq(channels.id, access.channel.parentId) })
+        : undefined;
+      if (!parent || parent.type !== ChannelType.GUILD_FORUM) {
+        return badRequest(request, "Only forum posts can have tags.");
+      }
+
+      const resolved = resolveAppliedTags(parent.availableTags, parsed.data.applied_tags, canManageThreads);
+      if ("error" in resolved) {
+        return badRequest(request, resolved.error);
+      }
+      updates.appliedTags = resolved.tagIds;
+    }
+
+    let thread = access.channel;
+    if (Object.keys(updates).length > 0) {
+      const [updated] = await db.update(channels).set(updates).where(eq(channels.id, channelId)).returning();
+      if (!updated) {
+        return notFound(request);
+      }
+      thread = updated;
+      await postChannelChangeMessages(access.channel, thread, me.id);
+    }
+
+    if (parsed.data.archived !== undefined && parsed.data.archived !== thread.archived) {
+      // setThreadArchived emits its own THREAD_UPDATE, which also covers the fields written above.
+      thread = await setThreadArchived(thread, parsed.data.archived);
+      return json(request, await toThreadPayload(thread));
+    }
+
+    const payload = await toThreadPayload(thread);
+    await emitToChannelAudience(thread, "THREAD_UPDATE", payload);
+    return json(request, payload);
+  }
+
+  if (parsed.data.archived !== undefined || parsed.data.auto_archive_duration !== undefined) {
+    return badRequest(request, "Only threads can be archived.");
+  }
+
+  if (parsed.data.applied_tags !== undefined) {
+    return badRequest(request, "Only forum posts can have tags.");
+  }
+
+  if (
+    access.channel.type !== ChannelType.GUILD_FORUM &&
+    (parsed.data.available_tags !== undefined ||
+      parsed.data.default_sort_order !== undefined ||
+      parsed.data.default_forum_layout !== undefined)
+  ) {
+    return badRequest(request, "Only forum channels support tags, sort order and layout.");
+  }
+
   if (access.scope === "GUILD") {
     if (!access.channel.guildId || !(await hasGuildPermission(me.id, access.channel.guildId, PermissionBits.MANAGE_CHANNELS))) {
       return forbidden(request, "Missing MANAGE_CHANNELS.");
@@ -64,6 +236,36 @@ export const patchChannel = async (request: BunRequest<"/api/channels/:channelId
       updates.position = parsed.data.position;
     }
 
+    if (parsed.data.available_tags !== undefined) {
+      const merged = mergeForumTags(access.channel.availableTags, parsed.data.available_tags, nextId);
+      if ("error" in merged) {
+        return badRequest(request, merged.error);
+      }
+      updates.availableTags = merged.tags;
+    }
+
+    if (parsed.data.default_sort_order !== undefined) {
+      updates.defaultSortOrder = parsed.data.default_sort_order;
+    }
+
+    if (parsed.data.default_forum_layout !== undefined) {
+      updates.defaultForumLayout = parsed.data.default_forum_layout;
+    }
+
+    if (parsed.data.rate_limit_per_user !== undefined) {
+      if (!isTextChannelType(access.channel.type) && access.channel.type !== ChannelType.GUILD_FORUM) {
+        return badRequest(request, "Only text channels and forums support slowmode.");
+      }
+      updates.rateLimitPerUser = parsed.data.rate_limit_per_user;
+    }
+
+    if (parsed.data.message_ttl !== undefined) {
+      if (!isTextChannelType(access.channel.type)) {
+        return badRequest(request, "Only text channels support disappearing messages.");
+      }
+      updates.messageTtl = parsed.data.message_ttl;
+    }
+
     if (parsed.data.parent_id !== undefined) {
       if (access.channel.type === ChannelType.GUILD_CATEGORY && parsed.data.parent_id !== null) {
         return badRequest(request, "Category channels cannot have a parent_id.");
@@ -83,6 +285,14 @@ export const patchChannel = async (request: BunRequest<"/api/channels/:channelId
     if (!member) {
       return forbidden(request);
     }
+
+    const { message_ttl: messageTtl, ...rest } = parsed.data;
+    if (messageTtl === undefined || Object.values(rest).some(value => value !== undefined)) {
+      return badRequest(request, "Direct messages only support message_ttl.");
+    }
+
+    const updated = await setDmMessageTtl(access.channel, me.id, messageTtl);
+    return json(request, await toDmChannelPayload(updated, me.id));
   }
 
   if (Object.keys(updates).length === 0) {
@@ -98,6 +308,10 @@ export const patchChannel = async (request: BunRequest<"/api/channels/:channelId
   if (updated.guildId) {
     const payload = toGuildChannelPayload(updated);
     await emitToGuild(updated.guildId, "CHANNEL_UPDATE", payload);
+    if (updates.availableTags) {
+      await pruneForumPostTags(updated);
+    }
+    await postChannelChangeMessages(access.channel, updated, me.id);
     return json(request, payload);
   }
 
@@ -121,11 +335,27 @@ export const deleteChannel = async (request: BunRequest<"/api/channels/:channelI
     return forbidden(request);
   }
 
+  if (isThreadChannelType(access.channel.type)) {
+    const canManageThreads = await hasChannelPermission(me.id, channelId, PermissionBits.MANAGE_THREADS);
+    if (!canManageThreads) {
+      return forbidden(request, "Missing MANAGE_THREADS.");
+    }
+
+    // The audience is resolved from the thread's permissions, so emit before the row disappears.
+    await emitToChannelAudience(access.channel, "THREAD_DELETE", toGuildChannelPayload(access.channel));
+    await db.delete(channels).where(eq(channels.id, channelId));
+    return empty(request, 204);
+  }
+
   if (!access.channel.guildId || !(await hasGuildPermission(me.id, access.channel.guildId, PermissionBits.MANAGE_CHANNELS))) {
     return forbidden(request, "Missing MANAGE_CHANNELS.");
   }
 
   const payload = toGuildChannelPayload(access.channel);
+  // Threads require a parent, so they go with it instead of being orphaned by the parent_id FK.
+  await db
+    .delete(channels)
+    .where(and(eq(channels.parentId, channelId), inArray(channels.type, [...THREAD_CHANNEL_TYPES])));
   await db.delete(channels).where(eq(channels.id, channelId));
   await emitToGuild(access.channel.guildId, "CHANNEL_DELETE", payload);
 
@@ -149,17 +379,22 @@ export const createTyping = async (request: BunRequest<"/api/channels/:channelId
     return forbidden(request);
   }
 
-  const canSend = await hasChannelPermission(me.id, channelId, PermissionBits.SEND_MESSAGES);
-  if (!canSend) {
-    return forbidden(request, "Missing SEND_MESSAGES.");
-  }
-
   const access = await canAccessChannel(me.id, channelId);
   if (!access) {
     return forbidden(request);
   }
 
-  if (access.channel.type === ChannelType.GUILD_CATEGORY || access.channel.type === ChannelType.GUILD_VOICE) {
+  const isThread = isThreadChannelType(access.channel.type);
+  const canSend = await hasChannelPermission(
+    me.id,
+    channelId,
+    isThread ? PermissionBits.SEND_MESSAGES_IN_THREADS : PermissionBits.SEND_MESSAGES,
+  );
+  if (!canSend) {
+    return forbidden(request, isThread ? "Missing SEND_MESSAGES_IN_THREADS." : "Missing SEND_MESSAGES.");
+  }
+
+  if (isNonMessageChannelType(access.channel.type)) {
     return badRequest(request, "Cannot type in this channel type.");
   }
 
@@ -0,0 +1,130 @@
+import type { BunRequest } from "bun";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db";
+import { messageDrafts } from "../db/schema";
+import { badRequest, empty, forbidden, json, notFound, parseJson, requireAuth } from "../http";
+import { deleteMessageDraft, emitDraftUpdate, toMessageDraftPayloads } from "../lib/drafts";
+import { holdAttachmentUploads, loadAttachmentUploads, releaseAttachmentUploads } from "../lib/message-create";
+import { PermissionBits } from "../lib/permissions";
+import { hasChannelPermission } from "../lib/permission-service";
+import { MESSAGE_MAX_LENGTH, canAccessChannel } from "../runtime";
+
+// Attachments in a draft stay stored while the draft keeps being touched.
+const DRAFT_ATTACHMENT_TTL_MS = 7 * 24 * 60 * 60 * 1_000;
+
+const putDraftSchema = z.object({
+  content: z.string().max(MESSAGE_MAX_LENGTH),
+  attachment_upload_ids: z.array(z.string().trim().min(1).max(64)).max(10).optional(),
+});
+
+const canViewChannel = async (userId: string, channelId: string): Promise<boolean> => {
+  const canView = await hasChannelPermission(userId, channelId, PermissionBits.VIEW_CHANNEL);
+  return canView && Boolean(await canAccessChannel(userId, channelId));
+};
+
+export const listMyDrafts = async (request: BunRequest<"/api/users/@me/drafts">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const rows = await db.select().from(messageDrafts).where(eq(messageDrafts.userId, authResult.user.id));
+  return json(request, await toMessageDraftPayloads(rows));
+};
+
+export const getMyDraft = async (request: BunRequest<"/api/users/@me/drafts/:channelId">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const channelId = request.params.channelId;
+  if (!channelId) {
+    return badRequest(request, "Invalid channel id.");
+  }
+
+  const row = await db.query.messageDrafts.findFirst({
+    where: and(eq(messageDrafts.userId, authResult.user.id), eq(messageDrafts.channelId, channelId)),
+  });
+  if (!row) {
+    return notFound(request);
+  }
+
+  const [payload] = await toMessageDraftPayloads([row]);
+  return json(request, payload);
+};
+
+export const putMyDraft = async (request: BunRequest<"/api/users/@me/drafts/:channelId">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const channelId = request.params.channelId;
+  if (!channelId) {
+    return badRequest(request, "Invalid channel id.");
+  }
+
+  if (!(await canViewChannel(me.id, channelId))) {
+    return forbidden(request);
+  }
+
+  const body = await parseJson<unknown>(request);
+  const parsed = putDraftSchema.safeParse(body);
+  if (!parsed.success) {
+    return badRequest(request, "Invalid draft payload.");
+  }
+
+  const attachmentUploadIds = [...new Set(parsed.data.attachment_upload_ids ?? [])];
+  // An empty draft is the same as no draft.
+  if (!parsed.data.content.trim() && attachmentUploadIds.length === 0) {
+    await deleteMessageDraft(me.id, channelId);
+    return empty(request, 204);
+  }
+
+  const now = new Date();
+  const uploadResult = await loadAttachmentUploads(me.id, channelId, attachmentUploadIds, now);
+  if ("error" in uploadResult) {
+    return badRequest(request, uploadResult.error);
+  }
+
+  const previous = await db.query.messageDrafts.findFirst({
+    where: and(eq(messageDrafts.userId, me.id), eq(messageDrafts.channelId, channelId)),
+  });
+  const [saved] = await db
+    .insert(messageDrafts)
+    .values({ userId: me.id, channelId, content: parsed.data.content, attachmentUploadIds, updatedAt: now })
+    .onConflictDoUpdate({
+      target: [messageDrafts.userId, messageDrafts.channelId],
+      set: { content: parsed.data.content, attachmentUploadIds, updatedAt: now },
+    })
+    .returning();
+  if (!saved) {
+    return badRequest(request, "Failed to save draft.");
+  }
+
+  await holdAttachmentUploads(attachmentUploadIds, new Date(now.getTime() + DRAFT_ATTACHMENT_TTL_MS));
+  const keptUploadIds = new Set(attachmentUploadIds);
+  await releaseAttachmentUploads((previous?.attachmentUploadIds ?? []).filter(uploadId => !keptUploadIds.has(uploadId)));
+
+  const [payload] = await toMessageDraftPayloads([saved]);
+  emitDraftUpdate(me.id, channelId, payload ?? null);
+  return json(request, payload);
+};
+
+export const deleteMyDraft = async (request: BunRequest<"/api/users/@me/drafts/:channelId">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const channelId = request.params.channelId;
+  if (!channelId) {
+    return badRequest(request, "Invalid channel id.");
+  }
+
+  await deleteMessageDraft(authResult.user.id, channelId);
+  return empty(request, 204);
+};
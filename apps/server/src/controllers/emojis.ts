@@ -0,0 +1,215 @@
+import type { BunRequest } from "bun";
+import { and, count, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db";
+import { guildEmojis, uploadSessions } from "../db/schema";
+import { badRequest, empty, forbidden, json, notFound, parseJson, requireAuth } from "../http";
+import { EMOJI_NAME_REGEX, GUILD_EMOJI_LIMIT, emitGuildEmojisUpdate, listGuildEmojiPayloads } from "../lib/emojis";
+import { PermissionBits } from "../lib/permissions";
+import { hasGuildPermission } from "../lib/permission-service";
+import { nextId } from "../runtime";
+import { deleteObject, presignGet, toPublicObjectUrl } from "../storage/s3";
+
+const createEmojiSchema = z.object({
+  name: z.string().trim().regex(EMOJI_NAME_REGEX),
+  upload_id: z.string().trim().min(1).max(64),
+});
+
+const updateEmojiSchema = z.object({
+  name: z.string().trim().regex(EMOJI_NAME_REGEX),
+});
+
+const INVALID_EMOJI_NAME = "Emoji names must be 2-32 letters, numbers or underscores.";
+
+const isNameTaken = async (guildId: string, name: string, exceptId?: string): Promise<boolean> => {
+  const existing = await db.query.guildEmojis.findFirst({
+    where: and(eq(guildEmojis.guildId, guildId), eq(guildEmojis.name, name)),
+  });
+  return Boolean(existing && existing.id !== exceptId);
+};
+
+export const listGuildEmojis = async (request: BunRequest<"/api/guilds/:guildId/emojis">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const guildId = request.params.guildId;
+  if (!guildId) {
+    return badRequest(request, "Invalid guild id.");
+  }
+
+  const canView = await hasGuildPermission(authResult.user.id, guildId, PermissionBits.VIEW_CHANNEL);
+  if (!canView) {
+    return forbidden(request);
+  }
+
+  return json(request, await listGuildEmojiPayloads(guildId));
+};
+
+export const createGuildEmoji = async (request: BunRequest<"/api/guilds/:guildId/emojis">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const guildId = request.params.guildId;
+  if (!guildId) {
+    return badRequest(request, "Invalid guild id.");
+  }
+
+  const canManageEmojis = await hasGuildPermission(me.id, guildId, PermissionBits.MANAGE_EMOJIS);
+  if (!canManageEmojis) {
+    return forbidden(request, "Missing MANAGE_EMOJIS.");
+  }
+
+  const body = await parseJson<unknown>(request);
+  const parsed = createEmojiSchema.safeParse(body);
+  if (!parsed.success) {
+    return badRequest(request, INVALID_EMOJI_NAME);
+  }
+
+  const session = await db.query.uploadSessions.findFirst({
+    where: and(
+      eq(uploadSessions.id, parsed.data.upload_id),
+      eq(uploadSessions.userId, me.id),
+      eq(uploadSessions.kind, "emoji"),
+      eq(uploadSessions.guildId, guildId),
+    ),
+  });
+  if (!session) {
+    return badRequest(request, "Unknown emoji upload.");
+  }
+  if (session.status !== "completed") {
+    return badRequest(request, "Emoji upload is not completed.");
+  }
+
+  const claimed = await db.query.guildEmojis.findFirst({ where: eq(guildEmojis.s3Key, session.s3Key) });
+  if (claimed) {
+    return badRequest(request, "Emoji upload was already used.");
+  }
+
+  const [emojiCount] = await db.select({ value: count() }).from(guildEmojis).where(eq(guildEmojis.guildId, guildId));
+  if (Number(emojiCount?.value ?? 0) >= GUILD_EMOJI_LIMIT) {
+    return badRequest(request, `Servers can have at most ${GUILD_EMOJI_LIMIT} emojis.`);
+  }
+
+  if (await isNameTaken(guildId, parsed.data.name)) {
+    return badRequest(request, "An emoji with that name already exists.");
+  }
+
+  const emojiId = nextId();
+  await db.insert(guildEmojis).values({
+    id: emojiId,
+    guildId,
+    name: parsed.data.name,
+    animated: session.contentType === "image/gif",
+    s3Key: session.s3Key,
+    contentType: session.contentType,
+    createdBy: me.id,
+  });
+
+  const emojis = await emitGuildEmojisUpdate(guildId);
+  return json(request, emojis.find(emoji => emoji.id === emojiId), { status: 201 });
+};
+
+export const updateGuildEmoji = async (
+  request: BunRequest<"/api/guilds/:guildId/emojis/:emojiId">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const { guildId, emojiId } = request.params;
+  if (!guildId || !emojiId) {
+    return badRequest(request, "Invalid guild id or emoji id.");
+  }
+
+  const canManageEmojis = await hasGuildPermission(me.id, guildId, PermissionBits.MANAGE_EMOJIS);
+  if (!canManageEmojis) {
+    return forbidden(request, "Missing MANAGE_EMOJIS.");
+  }
+
+  const body = await parseJson<unknown>(request);
+  const parsed = updateEmojiSchema.safeParse(body);
+  if (!parsed.success) {
+    return badRequest(request, INVALID_EMOJI_NAME);
+  }
+
+  if (await isNameTaken(guildId, parsed.data.name, emojiId)) {
+    return badRequest(request, "An emoji with that name already exists.");
+  }
+
+  const [updated] = await db
+    .update(guildEmojis)
+    .set({ name: parsed.data.name })
+    .where(and(eq(guildEmojis.id, emojiId), eq(guildEmojis.guildId, guildId)))
+    .returning({ id: guildEmojis.id });
+  if (!updated) {
+    return notFound(request);
+  }
+
+  const emojis = await emitGuildEmojisUpdate(guildId);
+  return json(request, emojis.find(emoji => emoji.id === emojiId));
+};
+
+export const deleteGuildEmoji = async (
+  request: BunRequest<"/api/guilds/:guildId/emojis/:emojiId">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const { guildId, emojiId } = request.params;
+  if (!guildId || !emojiId) {
+    return badRequest(request, "Invalid guild id or emoji id.");
+  }
+
+  const canManageEmojis = await hasGuildPermission(me.id, guildId, PermissionBits.MANAGE_EMOJIS);
+  if (!canManageEmojis) {
+    return forbidden(request, "Missing MANAGE_EMOJIS.");
+  }
+
+  const [deleted] = await db
+    .delete(guildEmojis)
+    .where(and(eq(guildEmojis.id, emojiId), eq(guildEmojis.guildId, guildId)))
+    .returning();
+  if (!deleted) {
+    return notFound(request);
+  }
+
+  try {
+    await deleteObject(deleted.s3Key);
+  } catch {
+    // Best-effort cleanup only.
+  }
+
+  await emitGuildEmojisUpdate(guildId);
+  return empty(request, 204);
+};
+
+// Emoji images are public, like avatars: tokens in messages only carry the id, so clients
+// load `/api/emojis/:emojiId` and follow the redirect to storage.
+export const getEmojiImage = async (request: BunRequest<"/api/emojis/:emojiId">): Promise<Response> => {
+  const emojiId = request.params.emojiId;
+  const emoji = emojiId ? await db.query.guildEmojis.findFirst({ where: eq(guildEmojis.id, emojiId) }) : null;
+  if (!emoji) {
+    return notFound(request);
+  }
+
+  const publicUrl = toPublicObjectUrl(emoji.s3Key);
+  const location = publicUrl ?? presignGet(emoji.s3Key);
+  return new Response(null, {
+    status: 302,
+    headers: {
+      Location: location,
+      // Presigned targets expire, so only public URLs are worth caching for long.
+      "Cache-Control": publicUrl ? "public, max-age=86400" : "private, max-age=300",
+    },
+  });
+};
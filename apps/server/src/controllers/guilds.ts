@@ -12,8 +12,11 @@ import {
   users,
 } from "../db/schema";
 import { badRequest, forbidden, json, notFound, parseJson, requireAuth } from "../http";
+import { isTextChannelType } from "../lib/channel-types";
+import { mergeForumTags } from "../lib/forum";
 import { PermissionBits, defaultEveryonePermissions } from "../lib/permissions";
 import { getGuildPermissionContext, hasGuildPermission, listVisibleGuildChannelsForUser } from "../lib/permission-service";
+import { isThreadChannelType } from "../lib/threads";
 import { getPresenceStatusForViewer } from "../presence/presence-store";
 import { resolveAvatarUrl } from "../storage/s3";
 import {
@@ -190,7 +193,7 @@ export const createGuildChannel = async (request: BunRequest<"/api/guilds/:guild
 
   let parentId: string | null = input.parent_id ?? null;
 
-  if ((input.type === ChannelType.GUILD_TEXT || input.type === ChannelType.GUILD_VOICE) && parentId) {
+  if (input.type !== ChannelType.GUILD_CATEGORY && parentId) {
     const parent = await db.query.channels.findFirst({ where: eq(channels.id, parentId) });
     if (!parent || parent.guildId !== guildId || parent.type !== ChannelType.GUILD_CATEGORY) {
       return badRequest(request, "parent_id must be a category channel in the same guild.");
@@ -201,6 +204,21 @@ export const createGuildChannel = async (request: BunRequest<"/api/guilds/:guild
     parentId = null;
   }
 
+  const isForum = input.type === ChannelType.GUILD_FORUM;
+  if (
+    !isForum &&
+    (input.available_tags !== undefined ||
+      input.default_sort_order !== undefined ||
+      input.default_forum_layout !== undefined)
+  ) {
+    return badRequest(request, "Only forum channels support tags, sort order and layout.");
+  }
+
+  const forumTags = mergeForumTags([], input.available_tags ?? [], nextId);
+  if ("error" in forumTags) {
+    return badRequest(request, forumTags.error);
+  }
+
   const [created] = await db
     .insert(channels)
     .values({
@@ -208,9 +226,12 @@ export const createGuildChannel = async (request: BunRequest<"/api/guilds/:guild
       type: input.type,
       guildId,
       name: normalizeName(input.name),
-      topic: input.type === ChannelType.GUILD_TEXT ? (input.topic ?? null) : null,
+      topic: isTextChannelType(input.type) || isForum ? (input.topic ?? null) : null,
       parentId,
       position: input.position ?? 0,
+      availableTags: forumTags.tags,
+      defaultSortOrder: input.default_sort_order ?? null,
+      defaultForumLayout: input.default_forum_layout ?? 0,
     })
     .returning();
 
@@ -264,6 +285,10 @@ export const bulkModifyGuildChannelPositions = async (
     return badRequest(request, "One or more channels were not found in this guild.");
   }
 
+  if (existingChannels.some(channel => isThreadChannelType(channel.type))) {
+    return badRequest(request, "Threads cannot be repositioned.");
+  }
+
   const existingById = new Map(existingChannels.map(channel => [channel.id, channel]));
 
   await db.transaction(async tx => {
@@ -351,6 +376,7 @@ export const updateGuildSettings = async (request: BunRequest<"/api/guilds/:guil
     explicit_content_filter?: number;
     preferred_locale?: string;
     system_channel_id?: string | null;
+    system_channel_flags?: number;
     rules_channel_id?: string | null;
     public_updates_channel_id?: string | null;
   }>(request);
@@ -370,6 +396,7 @@ export const updateGuildSettings = async (request: BunRequest<"/api/guilds/:guil
   if (body.explicit_content_filter !== undefined) updates.explicitContentFilter = body.explicit_content_filter;
   if (body.preferred_locale !== undefined) updates.preferredLocale = body.preferred_locale;
   if (body.system_channel_id !== undefined) updates.systemChannelId = body.system_channel_id;
+  if (body.system_channel_flags !== undefined) updates.systemChannelFlags = body.system_channel_flags;
   if (body.rules_channel_id !== undefined) updates.rulesChannelId = body.rules_channel_id;
   if (body.public_updates_channel_id !== undefined) updates.publicUpdatesChannelId = body.public_updates_channel_id;
 
@@ -1,11 +1,13 @@
-import { ChannelType } from "@edgewire/types";
+import { MessageType } from "@edgewire/types";
 import type { BunRequest } from "bun";
 import { and, eq } from "drizzle-orm";
 import { db } from "../db";
 import { channels, guildMembers, guilds, invites } from "../db/schema";
 import { badRequest, forbidden, json, notFound, parseJson, requireAuth } from "../http";
+import { isTextChannelType } from "../lib/channel-types";
 import { PermissionBits } from "../lib/permissions";
 import { hasGuildPermission } from "../lib/permission-service";
+import { postGuildSystemMessage } from "../lib/system-messages";
 import {
   buildGuildCreateEvent,
   createInvite,
@@ -31,7 +33,7 @@ export const createChannelInvite = async (
   }
 
   const channel = await db.query.channels.findFirst({ where: eq(channels.id, channelId) });
-  if (!channel || !channel.guildId || channel.type !== ChannelType.GUILD_TEXT) {
+  if (!channel || !channel.guildId || !isTextChannelType(channel.type)) {
     return badRequest(request, "Invites can only be created for guild text channels.");
   }
 
@@ -149,6 +151,8 @@ export const acceptInvite = async (request: BunRequest<"/api/invites/:code/accep
     if (guildEvent) {
       emitToUsers([me.id], "GUILD_CREATE", guildEvent);
     }
+
+    await postGuildSystemMessage(guild.id, { authorId: me.id, type: MessageType.GUILD_MEMBER_JOIN });
   }
 
   return json(request, {
@@ -1,4 +1,4 @@
-import { ChannelType } from "@edgewire/types";
+import { ChannelType, MessageType } from "@edgewire/types";
 import type { BunRequest } from "bun";
 import { and, eq } from "drizzle-orm";
 import { db } from "../db";
@@ -15,7 +15,14 @@ import {
 } from "../db/schema";
 import { badRequest, empty, json, notFound, parseJson, requireAuth } from "../http";
 import { applyPersistedPresencePreference, getPresenceStatusForOthers } from "../presence/presence-store";
-import { getCurrentUserById, getUserSummaryById, isValidUsername, normalizeUsernameForUpdate } from "../lib/users";
+import { postGuildSystemMessage } from "../lib/system-messages";
+import {
+  getCurrentUserById,
+  getUserSummaryById,
+  isReservedUsername,
+  isValidUsername,
+  normalizeUsernameForUpdate,
+} from "../lib/users";
 import {
   broadcastUserUpdate,
   emitToGuild,
@@ -128,6 +135,9 @@ const applyProfilePatch = async (
     }
 
     const normalized = normalizeUsernameForUpdate(body.username);
+    if (isReservedUsername(normalized)) {
+      return badRequest(request, "This username is reserved.");
+    }
     if (!isValidUsername(normalized)) {
       return badRequest(request, "username must be 2-32 chars matching /^[a-z0-9_.]+$/");
     }
@@ -581,6 +591,7 @@ export const leaveMyGuild = async (
 
   await emitToGuild(guildId, "GUILD_MEMBER_REMOVE", payload);
   emitToUsers([me.id], "GUILD_MEMBER_REMOVE", payload);
+  await postGuildSystemMessage(guildId, { authorId: me.id, type: MessageType.GUILD_MEMBER_LEAVE });
 
   return empty(request, 204);
 };
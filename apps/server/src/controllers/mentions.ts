@@ -0,0 +1,105 @@
+import type { MentionPayload, MentionsPage } from "@edgewire/types";
+import type { BunRequest } from "bun";
+import { and, desc, eq, lt, or, sql } from "drizzle-orm";
+import { db } from "../db";
+import { channelReads, guildMemberRoles, messageMentions, messages } from "../db/schema";
+import { badRequest, json, requireAuth } from "../http";
+import { canViewChannel, loadMessageContexts } from "../lib/message-context";
+import { ID_REGEX } from "../runtime";
+
+// A read row without a message id (a bare ack) still marks everything before it as read.
+// Only roles the user holds in the message's guild count; a role ping beside @everyone did not reach them by role.
+const mentionsOneOfMyRoles = (userId: string) => sql<boolean>`${messages.mentionRoleIds} && array(
+  select ${guildMemberRoles.roleId}
+  from ${guildMemberRoles}
+  where ${guildMemberRoles.userId} = ${userId} and ${guildMemberRoles.guildId} = ${messageMentions.guildId}
+)`;
+
+const isUnreadMention = sql<boolean>`(
+  ${channelReads.userId} is null
+  or case
+    when ${channelReads.lastReadMessageId} is null then ${messageMentions.createdAt} > ${channelReads.lastReadAt}
+    else ${messageMentions.messageId}::bigint > ${channelReads.lastReadMessageId}::bigint
+  end
+)`;
+
+/**
+ * Lists messages that mentioned the current user, newest first. `everyone=false` and `roles=false`
+ * leave out mentions that only reached the user through @everyone/@here or one of their roles.
+ */
+export const listMyMentions = async (request: BunRequest<"/api/users/@me/mentions">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const searchParams = new URL(request.url).searchParams;
+  const guildId = searchParams.get("guild_id");
+  if (guildId !== null && !ID_REGEX.test(guildId)) {
+    return badRequest(request, "Invalid guild id.");
+  }
+
+  const before = searchParams.get("before");
+  if (before !== null && !ID_REGEX.test(before)) {
+    return badRequest(request, "Invalid before cursor.");
+  }
+
+  const includeEveryone = searchParams.get("everyone") !== "false";
+  const includeRoles = searchParams.get("roles") !== "false";
+  const unreadOnly = searchParams.get("unread") === "true";
+  const limit = Number(searchParams.get("limit") ?? 25);
+  const boundedLimit = Number.isFinite(limit) ? Math.max(1, Math.min(limit, 100)) : 25;
+
+  const rows = await db
+    .select({
+      messageId: messageMentions.messageId,
+      channelId: messageMentions.channelId,
+      unread: isUnreadMention,
+    })
+    .from(messageMentions)
+    .innerJoin(messages, eq(messages.id, messageMentions.messageId))
+    .leftJoin(
+      channelReads,
+      and(eq(channelReads.userId, me.id), eq(channelReads.channelId, messageMentions.channelId)),
+    )
+    .where(
+      and(
+        eq(messageMentions.mentionedUserId, me.id),
+        guildId ? eq(messageMentions.guildId, guildId) : undefined,
+        before ? lt(sql`${messageMentions.messageId}::bigint`, sql`${before}::bigint`) : undefined,
+        includeEveryone && includeRoles
+          ? undefined
+          : or(
+              sql`${me.id} = any(${messages.mentionUserIds})`,
+              includeRoles ? mentionsOneOfMyRoles(me.id) : undefined,
+              includeEveryone ? eq(messages.mentionEveryone, true) : undefined,
+            ),
+        unreadOnly ? isUnreadMention : undefined,
+      ),
+    )
+    .orderBy(desc(sql`${messageMentions.messageId}::bigint`))
+    .limit(boundedLimit);
+
+  const visibleChannelIds = new Set<string>();
+  for (const channelId of new Set(rows.map(row => row.channelId))) {
+    if (await canViewChannel(me.id, channelId)) {
+      visibleChannelIds.add(channelId);
+    }
+  }
+
+  const visibleRows = rows.filter(row => visibleChannelIds.has(row.channelId));
+  const contexts = await loadMessageContexts(
+    visibleRows.map(row => row.messageId),
+    me.id,
+  );
+
+  const payload: MentionsPage = {
+    mentions: visibleRows.flatMap((row): MentionPayload[] => {
+      const context = contexts.get(row.messageId);
+      return context ? [{ message_id: row.messageId, ...context, unread: row.unread }] : [];
+    }),
+    next_before: rows.length === boundedLimit ? (rows.at(-1)?.messageId ?? null) : null,
+  };
+  return json(request, payload);
+};
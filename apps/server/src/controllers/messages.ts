@@ -1,27 +1,37 @@
-import { ChannelType } from "@edgewire/types";
+import { MessageFlags, MessageType, type MessageDeleteBulkEvent, type UserSummary } from "@edgewire/types";
 import type { BunRequest } from "bun";
-import { and, count, eq, inArray, isNull, sql } from "drizzle-orm";
+import { and, count, desc, eq, gte, inArray, lt, sql } from "drizzle-orm";
 import { db } from "../db";
-import { channelReads, messageAttachments, messageMentions, messages, uploadSessions } from "../db/schema";
-import { badRequest, empty, forbidden, json, notFound, parseJson, requireAuth } from "../http";
-import { emitBadgeUpdatesForUsers } from "../lib/badges";
-import { getDmNotificationSettings, getGuildNotificationSettings, resolveMentionsForChannel } from "../lib/mentions";
+import { messageAttachments, messageMentions, messagePolls, messageRevisions, messages } from "../db/schema";
+import { badRequest, empty, forbidden, json, notFound, parseJson, requireAuth, tooManyRequests } from "../http";
+import { isNonMessageChannelType } from "../lib/channel-types";
+import { normalizeCustomEmojiTokens } from "../lib/emojis";
+import { resolveMentionsForChannel } from "../lib/mentions";
+import { deleteChannelMessages } from "../lib/message-deletion";
+import { deleteMessageDraft } from "../lib/drafts";
+import { createMessageAs } from "../lib/message-create";
+import { hasSuppressedEmbeds, scheduleMessageUnfurl } from "../lib/message-embeds";
 import { PermissionBits } from "../lib/permissions";
+import { listMessageReactionPayloads } from "../lib/reactions";
 import { hasChannelPermission } from "../lib/permission-service";
 import {
+  BULK_DELETE_MAX_MESSAGES,
   buildMessageMentionContext,
+  bulkDeleteMessagesSchema,
   canAccessChannel,
   createMessageSchema,
   editMessageSchema,
   emitToChannelAudience,
-  emitToUsers,
   listChannelMessages,
   listMessageAttachmentPayloads,
+  listReferencedMessagePayloads,
   makeMessagePayload,
   nextId,
   parseSnowflake,
   toAttachmentPayload,
   toSummary,
+  type ChannelRow,
+  type MessageCursor,
 } from "../runtime";
 
 export const getChannelMessages = async (request: BunRequest<"/api/channels/:channelId/messages">): Promise<Response> => {
@@ -51,20 +61,30 @@ export const getChannelMessages = async (request: BunRequest<"/api/channels/:cha
     return forbidden(request);
   }
 
-  if (access.channel.type === ChannelType.GUILD_CATEGORY || access.channel.type === ChannelType.GUILD_VOICE) {
+  if (isNonMessageChannelType(access.channel.type)) {
     return badRequest(request, "Cannot send messages to this channel type.");
   }
 
   const searchParams = new URL(request.url).searchParams;
   const limit = Number(searchParams.get("limit") ?? 50);
-  const beforeRaw = searchParams.get("before");
-  const before = beforeRaw ? parseSnowflake(beforeRaw) : null;
-  if (beforeRaw && before === null) {
-    return badRequest(request, "Invalid before message id.");
+  // An empty value leaves the cursor unset, as it always has.
+  const cursorKeys = (["before", "after", "around"] as const).filter(key => Boolean(searchParams.get(key)));
+  if (cursorKeys.length > 1) {
+    return badRequest(request, "Only one of before, after or around may be set.");
+  }
+
+  const cursor: MessageCursor = {};
+  const cursorKey = cursorKeys[0];
+  if (cursorKey) {
+    const value = parseSnowflake(searchParams.get(cursorKey));
+    if (value === null) {
+      return badRequest(request, `Invalid ${cursorKey} message id.`);
+    }
+    cursor[cursorKey] = value;
   }
 
   const boundedLimit = Number.isFinite(limit) ? Math.max(1, Math.min(limit, 100)) : 50;
-  const items = await listChannelMessages(channelId, boundedLimit, before ?? undefined);
+  const items = await listChannelMessages(channelId, me.id, boundedLimit, cursor);
   return json(request, items);
 };
 
@@ -74,246 +94,30 @@ export const createChannelMessage = async (request: BunRequest<"/api/channels/:c
     return authResult;
   }
 
-  const me = authResult.user;
   const channelId = request.params.channelId;
   if (!channelId) {
     return badRequest(request, "Invalid channel id.");
   }
 
-  const canView = await hasChannelPermission(me.id, channelId, PermissionBits.VIEW_CHANNEL);
-  if (!canView) {
-    return forbidden(request);
-  }
-
-  const access = await canAccessChannel(me.id, channelId);
-  if (!access) {
-    return forbidden(request);
-  }
-
-  if (access.channel.type === ChannelType.GUILD_CATEGORY || access.channel.type === ChannelType.GUILD_VOICE) {
-    return badRequest(request, "Cannot send messages to this channel type.");
-  }
-
   const body = await parseJson<unknown>(request);
   const parsed = createMessageSchema.safeParse(body);
   if (!parsed.success) {
     return badRequest(request, "Invalid message payload.");
   }
 
-  const content = parsed.data.content?.trim() ?? "";
-  const mentionResolution = await resolveMentionsForChannel({
-    channel: access.channel,
-    authorId: me.id,
-    content,
-    allowedMentions: parsed.data.allowed_mentions,
-  });
-  const recipientUserIds = mentionResolution.audienceUserIds.filter(userId => userId !== me.id);
-  const directMentionSet = new Set(mentionResolution.directMentionUserIds);
-  const roleMentionSet = new Set(mentionResolution.roleMentionUserIds);
-  const everyoneMentionSet = new Set(mentionResolution.everyoneMentionUserIds);
-
-  const notificationSettings =
-    access.scope === "DM"
-      ? await getDmNotificationSettings(recipientUserIds, channelId)
-      : await getGuildNotificationSettings(recipientUserIds, access.channel.guildId!, channelId);
-
-  const mentionByRecipient = new Map<string, boolean>();
-  const notifyByRecipient = new Map<string, boolean>();
-  for (const recipientId of recipientUserIds) {
-    const settings = notificationSettings.get(recipientId) ?? {
-      level: access.scope === "DM" ? "ALL_MESSAGES" : "ONLY_MENTIONS",
-      muted: false,
-      suppressEveryone: false,
-    };
-
-    const everyoneMention = everyoneMentionSet.has(recipientId) && !settings.suppressEveryone;
-    const isMentioned = directMentionSet.has(recipientId) || roleMentionSet.has(recipientId) || everyoneMention;
-    mentionByRecipient.set(recipientId, isMentioned);
-
-    let shouldNotify = false;
-    if (!settings.muted) {
-      if (settings.level === "ALL_MESSAGES") {
-        shouldNotify = true;
-      } else if (settings.level === "ONLY_MENTIONS") {
-        shouldNotify = isMentioned;
-      }
-    }
-    notifyByRecipient.set(recipientId, shouldNotify);
-  }
-
-  const attachmentUploadIds = [...new Set(parsed.data.attachment_upload_ids ?? [])];
-  const now = new Date();
-
-  const uploadRows =
-    attachmentUploadIds.length === 0
-      ? []
-      : await db
-          .select()
-          .from(uploadSessions)
-          .where(and(eq(uploadSessions.userId, me.id), inArray(uploadSessions.id, attachmentUploadIds)));
-
-  if (uploadRows.length !== attachmentUploadIds.length) {
-    return badRequest(request, "One or more attachment uploads were not found.");
-  }
-
-  const uploadsById = new Map(uploadRows.map(row => [row.id, row]));
-  const orderedUploads = attachmentUploadIds
-    .map(uploadId => uploadsById.get(uploadId))
-    .filter((upload): upload is typeof uploadSessions.$inferSelect => Boolean(upload));
-  if (orderedUploads.length !== attachmentUploadIds.length) {
-    return badRequest(request, "One or more attachment uploads were not found.");
-  }
-
-  for (const upload of orderedUploads) {
-    if (
-      upload.kind !== "attachment" ||
-      upload.status !== "completed" ||
-      upload.channelId !== channelId ||
-      upload.messageId !== null
-    ) {
-      return badRequest(request, "One or more attachment uploads are not valid for this message.");
-    }
-
-    if (upload.expiresAt.getTime() <= now.getTime()) {
-      return badRequest(request, "One or more attachment uploads have expired.");
-    }
-
-    if (!upload.expectedSize || upload.expectedSize <= 0) {
-      return badRequest(request, "One or more attachment uploads are missing file metadata.");
+  const me = authResult.user;
+  const result = await createMessageAs(me, channelId, parsed.data);
+  if ("error" in result) {
+    if (result.status === 429) {
+      return tooManyRequests(request, result.error, result.retryAfter);
     }
+    return result.status === 403 ? forbidden(request, result.error) : badRequest(request, result.error);
   }
 
-  let createdMessage: typeof messages.$inferSelect | null = null;
-  let createdAttachments: Array<typeof messageAttachments.$inferSelect> = [];
-
-  try {
-    await db.transaction(async tx => {
-      const [created] = await tx
-        .insert(messages)
-        .values({
-          id: nextId(),
-          channelId,
-          authorId: me.id,
-          content,
-          mentionEveryone: mentionResolution.mentionEveryone,
-          mentionUserIds: mentionResolution.mentionUserIds,
-          mentionRoleIds: mentionResolution.mentionRoleIds,
-          mentionChannelIds: mentionResolution.mentionChannelIds,
-        })
-        .returning();
-
-      if (!created) {
-        throw new Error("Failed to create message.");
-      }
-
-      createdMessage = created;
-
-      if (orderedUploads.length > 0) {
-        createdAttachments = await tx
-          .insert(messageAttachments)
-          .values(
-            orderedUploads.map(upload => ({
-              id: nextId(),
-              messageId: created.id,
-              channelId,
-              uploaderId: me.id,
-              s3Key: upload.s3Key,
-              filename: upload.filename,
-              size: upload.expectedSize ?? 0,
-              contentType: upload.contentType,
-              urlKind: "presigned",
-            })),
-          )
-          .returning();
-
-        const boundRows = await tx
-          .update(uploadSessions)
-          .set({ messageId: created.id })
-          .where(
-            and(
-              eq(uploadSessions.userId, me.id),
-              eq(uploadSessions.kind, "attachment"),
-              eq(uploadSessions.status, "completed"),
-              eq(uploadSessions.channelId, channelId),
-              isNull(uploadSessions.messageId),
-              inArray(uploadSessions.id, orderedUploads.map(upload => upload.id)),
-            ),
-          )
-          .returning({ id: uploadSessions.id });
-
-        if (boundRows.length !== orderedUploads.length) {
-          throw new Error("One or more attachment uploads were already consumed.");
-        }
-      }
-
-      const mentionedRecipients = recipientUserIds.filter(userId => mentionByRecipient.get(userId));
-      if (mentionedRecipients.length > 0) {
-        await tx.insert(messageMentions).values(
-          mentionedRecipients.map(userId => ({
-            messageId: created.id,
-            channelId,
-            guildId: access.channel.guildId ?? null,
-            mentionedUserId: userId,
-          })),
-        );
-      }
-
-      for (const recipientId of recipientUserIds) {
-        const mentionIncrement = mentionByRecipient.get(recipientId) ? 1 : 0;
-        await tx
-          .insert(channelReads)
-          .values({
-            userId: recipientId,
-            channelId,
-            lastReadMessageId: null,
-            unreadCount: 1,
-            mentionCount: mentionIncrement,
-            updatedAt: new Date(),
-          })
-          .onConflictDoUpdate({
-            target: [channelReads.userId, channelReads.channelId],
-            set: {
-              unreadCount: sql`${channelReads.unreadCount} + 1`,
-              mentionCount: sql`${channelReads.mentionCount} + ${mentionIncrement}`,
-              updatedAt: new Date(),
-            },
-          });
-      }
-    });
-  } catch (error) {
-    return badRequest(request, error instanceof Error ? error.message : "Failed to create message.");
-  }
-
-  if (!createdMessage) {
-    return badRequest(request, "Failed to create message.");
-  }
-
-  const mentionContext = await buildMessageMentionContext([createdMessage]);
-  const payload = makeMessagePayload(
-    createdMessage,
-    toSummary(me),
-    access.channel.guildId ?? null,
-    createdAttachments.map(toAttachmentPayload),
-    mentionContext,
-  );
-  emitToUsers(mentionResolution.audienceUserIds, "MESSAGE_CREATE", payload);
-  await emitBadgeUpdatesForUsers(recipientUserIds, channelId, createdMessage.id);
-
-  for (const recipientId of recipientUserIds) {
-    if (!notifyByRecipient.get(recipientId)) {
-      continue;
-    }
-
-    emitToUsers([recipientId], "NOTIFICATION_CREATE", {
-      channel_id: channelId,
-      guild_id: access.channel.guildId ?? null,
-      message_id: createdMessage.id,
-      author: toSummary(me),
-      mentioned: mentionByRecipient.get(recipientId) ?? false,
-    });
-  }
+  // Sending from any device clears the channel draft everywhere.
+  await deleteMessageDraft(me.id, channelId);
 
-  return json(request, payload, { status: 201 });
+  return json(request, result.message, { status: 201 });
 };
 
 export const updateChannelMessage = async (
@@ -353,27 +157,69 @@ export const updateChannelMessage = async (
     return forbidden(request, "Only the author can modify this message.");
   }
 
+  if (message.type !== MessageType.DEFAULT) {
+    return badRequest(request, "This message cannot be edited.");
+  }
+
   const body = await parseJson<unknown>(request);
   const parsed = editMessageSchema.safeParse(body);
   if (!parsed.success) {
     return badRequest(request, "content must be between 0 and 2000 characters.");
   }
 
-  const nextContent = parsed.data.content;
+  // Only SUPPRESS_EMBEDS can be toggled by the author; any other bits are server-owned.
+  const nextFlags =
+    parsed.data.flags === undefined
+      ? message.flags
+      : (message.flags & ~MessageFlags.SUPPRESS_EMBEDS) | (parsed.data.flags & MessageFlags.SUPPRESS_EMBEDS);
+  const suppressEmbeds = hasSuppressedEmbeds(nextFlags);
+  const nextEmbeds = suppressEmbeds ? [] : message.embeds;
+
+  if (parsed.data.content === undefined) {
+    if (parsed.data.flags === undefined) {
+      return badRequest(request, "Provide content or flags to update.");
+    }
+
+    // Toggling previews is not an edit: no revision, no edited timestamp, mentions untouched.
+    const [flagged] = await db
+      .update(messages)
+      .set({ flags: nextFlags, embeds: nextEmbeds })
+      .where(and(eq(messages.id, messageId), eq(messages.channelId, channelId)))
+      .returning();
+    if (!flagged) {
+      return notFound(request);
+    }
+
+    if (!suppressEmbeds) {
+      scheduleMessageUnfurl(access.channel, flagged);
+    }
+    return respondWithUpdatedMessage(request, access.channel, toSummary(me), flagged);
+  }
+
+  const nextContent = await normalizeCustomEmojiTokens(parsed.data.content, me.id);
   const [attachmentCountRow] = await db
     .select({ value: count() })
     .from(messageAttachments)
     .where(eq(messageAttachments.messageId, messageId));
   const hasAttachments = Number(attachmentCountRow?.value ?? 0) > 0;
-  if (!nextContent.trim() && !hasAttachments) {
-    return badRequest(request, "Message must include content or attachments.");
+  const hasPoll = Boolean(await db.query.messagePolls.findFirst({ where: eq(messagePolls.messageId, messageId) }));
+  if (!nextContent.trim() && !hasAttachments && !hasPoll) {
+    return badRequest(request, "Message must include content, attachments or a poll.");
   }
 
+  const repliedMessage = message.referencedMessageId
+    ? await db.query.messages.findFirst({
+        where: and(eq(messages.id, message.referencedMessageId), eq(messages.channelId, channelId)),
+      })
+    : null;
+  // Edits keep the original reply ping unless the client sends explicit allowed_mentions.
+  const keepsReplyPing = Boolean(repliedMessage && message.mentionUserIds.includes(repliedMessage.authorId));
   const mentionResolution = await resolveMentionsForChannel({
     channel: access.channel,
     authorId: me.id,
     content: nextContent,
-    allowedMentions: parsed.data.allowed_mentions,
+    allowedMentions: parsed.data.allowed_mentions ?? { replied_user: keepsReplyPing },
+    repliedUserId: repliedMessage?.authorId ?? null,
   });
   const mentionRecipients = [...new Set([
     ...mentionResolution.directMentionUserIds,
@@ -382,12 +228,29 @@ export const updateChannelMessage = async (
   ])];
 
   let updated: typeof messages.$inferSelect | null = null;
+  const editedAt = new Date();
   await db.transaction(async tx => {
+    if (message.content !== nextContent) {
+      await tx.insert(messageRevisions).values({
+        id: nextId(),
+        messageId,
+        channelId,
+        content: message.content,
+        mentionEveryone: message.mentionEveryone,
+        mentionUserIds: message.mentionUserIds,
+        mentionRoleIds: message.mentionRoleIds,
+        mentionChannelIds: message.mentionChannelIds,
+        editedAt,
+      });
+    }
+
     const [next] = await tx
       .update(messages)
       .set({
         content: nextContent,
-        editedAt: new Date(),
+        editedAt,
+        flags: nextFlags,
+        embeds: nextEmbeds,
         mentionEveryone: mentionResolution.mentionEveryone,
         mentionUserIds: mentionResolution.mentionUserIds,
         mentionRoleIds: mentionResolution.mentionRoleIds,
@@ -420,16 +283,34 @@ export const updateChannelMessage = async (
     return notFound(request);
   }
 
+  if (!suppressEmbeds) {
+    scheduleMessageUnfurl(access.channel, updated);
+  }
+  return respondWithUpdatedMessage(request, access.channel, toSummary(me), updated);
+};
+
+const respondWithUpdatedMessage = async (
+  request: Request,
+  channel: ChannelRow,
+  author: UserSummary,
+  updated: typeof messages.$inferSelect,
+): Promise<Response> => {
   const attachmentsByMessage = await listMessageAttachmentPayloads([updated.id]);
   const mentionContext = await buildMessageMentionContext([updated]);
+  const referencedMessages = await listReferencedMessagePayloads([updated], channel.guildId ?? null);
+  const reactionsByMessage = await listMessageReactionPayloads([updated.id], author.id);
   const payload = makeMessagePayload(
     updated,
-    toSummary(me),
-    access.channel.guildId ?? null,
+    author,
+    channel.guildId ?? null,
     attachmentsByMessage.get(updated.id) ?? [],
     mentionContext,
+    referencedMessages,
+    reactionsByMessage.get(updated.id) ?? [],
   );
-  await emitToChannelAudience(access.channel, "MESSAGE_UPDATE", payload);
+  // Reactions carry a viewer-specific `me` flag, so MESSAGE_UPDATE leaves them to the reaction events.
+  const { reactions: _reactions, ...messageUpdate } = payload;
+  await emitToChannelAudience(channel, "MESSAGE_UPDATE", messageUpdate);
   return json(request, payload);
 };
 
@@ -482,7 +363,7 @@ export const deleteChannelMessage = async (
     }
   }
 
-  await db.delete(messages).where(and(eq(messages.id, messageId), eq(messages.channelId, channelId)));
+  await deleteChannelMessages(channelId, [message]);
 
   await emitToChannelAudience(access.channel, "MESSAGE_DELETE", {
     id: messageId,
@@ -491,3 +372,127 @@ export const deleteChannelMessage = async (
   });
   return empty(request, 204);
 };
+
+export const bulkDeleteChannelMessages = async (
+  request: BunRequest<"/api/channels/:channelId/messages/bulk-delete">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const channelId = request.params.channelId;
+  if (!channelId) {
+    return badRequest(request, "Invalid channel id.");
+  }
+
+  const canView = await hasChannelPermission(me.id, channelId, PermissionBits.VIEW_CHANNEL);
+  if (!canView) {
+    return forbidden(request);
+  }
+
+  const access = await canAccessChannel(me.id, channelId);
+  if (!access) {
+    return forbidden(request);
+  }
+
+  if (access.scope !== "GUILD") {
+    return badRequest(request, "Bulk delete is only available in guild channels.");
+  }
+
+  const canManageMessages = await hasChannelPermission(me.id, channelId, PermissionBits.MANAGE_MESSAGES);
+  if (!canManageMessages) {
+    return forbidden(request, "Missing MANAGE_MESSAGES.");
+  }
+
+  const body = await parseJson<unknown>(request);
+  const parsed = bulkDeleteMessagesSchema.safeParse(body);
+  if (!parsed.success) {
+    return badRequest(
+      request,
+      `Provide either messages (1-${BULK_DELETE_MAX_MESSAGES} ids) or a purge filter.`,
+    );
+  }
+
+  let rows: (typeof messages.$inferSelect)[];
+  if ("messages" in parsed.data) {
+    rows = await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.channelId, channelId), inArray(messages.id, [...new Set(parsed.data.messages)])));
+  } else {
+    // Purges take the newest matching messages, so repeating a request keeps working backwards.
+    const purge = parsed.data.purge;
+    const after = purge.after ? new Date(purge.after) : null;
+    const before = purge.before ? new Date(purge.before) : null;
+    if (after && before && after >= before) {
+      return badRequest(request, "after must be earlier than before.");
+    }
+
+    rows = await db
+      .select()
+      .from(messages)
+      .where(
+        and(
+          eq(messages.channelId, channelId),
+          purge.author_id ? eq(messages.authorId, purge.author_id) : undefined,
+          after ? gte(messages.createdAt, after) : undefined,
+          before ? lt(messages.createdAt, before) : undefined,
+        ),
+      )
+      .orderBy(desc(sql`${messages.id}::bigint`))
+      .limit(purge.limit ?? BULK_DELETE_MAX_MESSAGES);
+  }
+
+  const deletedIds = await deleteChannelMessages(channelId, rows);
+  const event: MessageDeleteBulkEvent = {
+    ids: deletedIds,
+    channel_id: channelId,
+    guild_id: access.channel.guildId ?? null,
+  };
+  if (deletedIds.length > 0) {
+    await emitToChannelAudience(access.channel, "MESSAGE_DELETE_BULK", event);
+  }
+
+  return json(request, event);
+};
+
+// A link that outlives presigned URLs, for places like exports: each visit re-checks access and
+// redirects to a freshly signed download.
+export const getChannelAttachment = async (
+  request: BunRequest<"/api/channels/:channelId/attachments/:attachmentId">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const channelId = request.params.channelId;
+  if (!channelId) {
+    return badRequest(request, "Invalid channel id.");
+  }
+
+  if (!(await hasChannelPermission(me.id, channelId, PermissionBits.VIEW_CHANNEL))) {
+    return forbidden(request);
+  }
+  if (!(await hasChannelPermission(me.id, channelId, PermissionBits.READ_MESSAGE_HISTORY))) {
+    return forbidden(request, "Missing READ_MESSAGE_HISTORY.");
+  }
+  if (!(await canAccessChannel(me.id, channelId))) {
+    return forbidden(request);
+  }
+
+  const attachment = await db.query.messageAttachments.findFirst({
+    where: and(eq(messageAttachments.id, request.params.attachmentId), eq(messageAttachments.channelId, channelId)),
+  });
+  if (!attachment) {
+    return notFound(request);
+  }
+
+  return new Response(null, {
+    status: 302,
+    headers: { Location: toAttachmentPayload(attachment).url, "Cache-Control": "private, no-store" },
+  });
+};
@@ -4,7 +4,7 @@ import { z } from "zod";
 import { db } from "../db";
 import { channels, guildMembers, userChannelNotificationSettings, userGuildNotificationSettings } from "../db/schema";
 import { badRequest, forbidden, json, parseJson, requireAuth } from "../http";
-import { listBadgesForUser } from "../lib/badges";
+import { ackChannelsForUser, listAckableChannelIdsForUser, listBadgesForUser } from "../lib/badges";
 import { canAccessChannel } from "../runtime";
 
 const notificationLevelSchema = z.union([z.literal("ALL_MESSAGES"), z.literal("ONLY_MENTIONS"), z.literal("NOTHING")]);
@@ -32,6 +32,38 @@ export const getBadges = async (request: Request): Promise<Response> => {
   return json(request, badges);
 };
 
+export const ackGuild = async (request: BunRequest<"/api/guilds/:guildId/ack">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const guildId = request.params.guildId;
+  if (!guildId) {
+    return badRequest(request, "Invalid guild id.");
+  }
+
+  const member = await db.query.guildMembers.findFirst({
+    where: and(eq(guildMembers.guildId, guildId), eq(guildMembers.userId, authResult.user.id)),
+  });
+  if (!member) {
+    return forbidden(request);
+  }
+
+  const channelIds = await listAckableChannelIdsForUser(authResult.user.id, guildId);
+  return json(request, await ackChannelsForUser(authResult.user.id, channelIds));
+};
+
+export const ackMyDmChannels = async (request: Request): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const channelIds = await listAckableChannelIdsForUser(authResult.user.id, null);
+  return json(request, await ackChannelsForUser(authResult.user.id, channelIds));
+};
+
 export const patchGuildNotificationSettings = async (
   request: BunRequest<"/api/guilds/:guildId/notification-settings">,
 ): Promise<Response> => {
@@ -5,6 +5,7 @@ import { channelPermissionOverwrites, channels, guildMembers, guildRoles } from
 import { badRequest, forbidden, json, notFound, parseJson, requireAuth } from "../http";
 import { PermissionBits, parsePerms, serializePerms } from "../lib/permissions";
 import { hasGuildPermission } from "../lib/permission-service";
+import { isThreadChannelType } from "../lib/threads";
 import { emitToGuild, toGuildChannelPayloadWithOverwrites } from "../runtime";
 
 export const editChannelPermissionOverwrite = async (
@@ -28,6 +29,10 @@ export const editChannelPermissionOverwrite = async (
     return notFound(request);
   }
 
+  if (isThreadChannelType(channel.type)) {
+    return badRequest(request, "Threads inherit permission overwrites from their parent channel.");
+  }
+
   const canManageRoles = await hasGuildPermission(me.id, channel.guildId, PermissionBits.MANAGE_ROLES);
   if (!canManageRoles) {
     return forbidden(request, "Missing MANAGE_ROLES.");
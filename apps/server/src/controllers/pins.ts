@@ -0,0 +1,189 @@
+import { MessageType, type ChannelPinsUpdateEvent } from "@edgewire/types";
+import type { BunRequest } from "bun";
+import { and, count, desc, eq } from "drizzle-orm";
+import { db } from "../db";
+import { messages } from "../db/schema";
+import { badRequest, empty, forbidden, json, notFound, requireAuth } from "../http";
+import { isNonMessageChannelType } from "../lib/channel-types";
+import { PermissionBits } from "../lib/permissions";
+import { hasChannelPermission } from "../lib/permission-service";
+import { postChannelSystemMessage } from "../lib/system-messages";
+import { canAccessChannel, emitToChannelAudience, hydrateMessagePayloads, toIso, type ChannelRow } from "../runtime";
+
+const MAX_PINS_PER_CHANNEL = 50;
+
+const emitPinsUpdate = async (channel: ChannelRow): Promise<void> => {
+  const [latestPin] = await db
+    .select({ pinnedAt: messages.pinnedAt })
+    .from(messages)
+    .where(and(eq(messages.channelId, channel.id), eq(messages.pinned, true)))
+    .orderBy(desc(messages.pinnedAt))
+    .limit(1);
+
+  const event: ChannelPinsUpdateEvent = {
+    channel_id: channel.id,
+    guild_id: channel.guildId ?? null,
+    last_pin_timestamp: toIso(latestPin?.pinnedAt ?? null),
+  };
+  await emitToChannelAudience(channel, "CHANNEL_PINS_UPDATE", event);
+};
+
+// Guild pins need MANAGE_MESSAGES; either DM participant may pin.
+const resolvePinTarget = async (
+  request: Request,
+  userId: string,
+  channelId: string | undefined,
+  messageId: string | undefined,
+): Promise<{ channel: ChannelRow; message: typeof messages.$inferSelect } | Response> => {
+  if (!channelId || !messageId) {
+    return badRequest(request, "Invalid channel id or message id.");
+  }
+
+  const canView = await hasChannelPermission(userId, channelId, PermissionBits.VIEW_CHANNEL);
+  if (!canView) {
+    return forbidden(request);
+  }
+
+  const access = await canAccessChannel(userId, channelId);
+  if (!access) {
+    return forbidden(request);
+  }
+
+  if (access.scope === "GUILD") {
+    const canManageMessages = await hasChannelPermission(userId, channelId, PermissionBits.MANAGE_MESSAGES);
+    if (!canManageMessages) {
+      return forbidden(request, "Missing MANAGE_MESSAGES.");
+    }
+  }
+
+  const message = await db.query.messages.findFirst({
+    where: and(eq(messages.id, messageId), eq(messages.channelId, channelId)),
+  });
+  if (!message) {
+    return notFound(request);
+  }
+
+  return { channel: access.channel, message };
+};
+
+export const listChannelPins = async (request: BunRequest<"/api/channels/:channelId/pins">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const channelId = request.params.channelId;
+  if (!channelId) {
+    return badRequest(request, "Invalid channel id.");
+  }
+
+  const canView = await hasChannelPermission(me.id, channelId, PermissionBits.VIEW_CHANNEL);
+  if (!canView) {
+    return forbidden(request);
+  }
+
+  const canReadHistory = await hasChannelPermission(me.id, channelId, PermissionBits.READ_MESSAGE_HISTORY);
+  if (!canReadHistory) {
+    return forbidden(request, "Missing READ_MESSAGE_HISTORY.");
+  }
+
+  const access = await canAccessChannel(me.id, channelId);
+  if (!access) {
+    return forbidden(request);
+  }
+
+  if (isNonMessageChannelType(access.channel.type)) {
+    return badRequest(request, "This channel type has no pins.");
+  }
+
+  const rows = await db
+    .select()
+    .from(messages)
+    .where(and(eq(messages.channelId, channelId), eq(messages.pinned, true)))
+    .orderBy(desc(messages.pinnedAt))
+    .limit(MAX_PINS_PER_CHANNEL);
+
+  const items = await hydrateMessagePayloads(rows, access.channel.guildId ?? null, me.id);
+  return json(request, items);
+};
+
+export const pinChannelMessage = async (
+  request: BunRequest<"/api/channels/:channelId/pins/:messageId">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const target = await resolvePinTarget(request, me.id, request.params.channelId, request.params.messageId);
+  if (target instanceof Response) {
+    return target;
+  }
+
+  if (target.message.pinned) {
+    return empty(request, 204);
+  }
+
+  const [pinCountRow] = await db
+    .select({ value: count() })
+    .from(messages)
+    .where(and(eq(messages.channelId, target.channel.id), eq(messages.pinned, true)));
+  if (Number(pinCountRow?.value ?? 0) >= MAX_PINS_PER_CHANNEL) {
+    return badRequest(request, `Channels can have at most ${MAX_PINS_PER_CHANNEL} pinned messages.`);
+  }
+
+  await db
+    .update(messages)
+    .set({ pinned: true, pinnedAt: new Date(), pinnedBy: me.id })
+    .where(eq(messages.id, target.message.id));
+
+  await emitToChannelAudience(target.channel, "MESSAGE_UPDATE", {
+    id: target.message.id,
+    channel_id: target.channel.id,
+    guild_id: target.channel.guildId ?? null,
+    pinned: true,
+  });
+  await emitPinsUpdate(target.channel);
+  await postChannelSystemMessage({
+    channel: target.channel,
+    authorId: me.id,
+    type: MessageType.CHANNEL_PINNED_MESSAGE,
+    referencedMessageId: target.message.id,
+  });
+  return empty(request, 204);
+};
+
+export const unpinChannelMessage = async (
+  request: BunRequest<"/api/channels/:channelId/pins/:messageId">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const target = await resolvePinTarget(request, me.id, request.params.channelId, request.params.messageId);
+  if (target instanceof Response) {
+    return target;
+  }
+
+  if (!target.message.pinned) {
+    return empty(request, 204);
+  }
+
+  await db
+    .update(messages)
+    .set({ pinned: false, pinnedAt: null, pinnedBy: null })
+    .where(eq(messages.id, target.message.id));
+
+  await emitToChannelAudience(target.channel, "MESSAGE_UPDATE", {
+    id: target.message.id,
+    channel_id: target.channel.id,
+    guild_id: target.channel.guildId ?? null,
+    pinned: false,
+  });
+  await emitPinsUpdate(target.channel);
+  return empty(request, 204);
+};
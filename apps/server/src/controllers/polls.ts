@@ -0,0 +1,254 @@
+import { MessageType, type MessagePollVoteEvent } from "@edgewire/types";
+import type { BunRequest } from "bun";
+import { and, eq, gt, isNull, lte, ne } from "drizzle-orm";
+import { db } from "../db";
+import { channels, messagePolls, messages, pollVotes } from "../db/schema";
+import { badRequest, empty, forbidden, notFound, requireAuth } from "../http";
+import { PermissionBits } from "../lib/permissions";
+import { hasChannelPermission } from "../lib/permission-service";
+import { isPollClosed, listMessagePollPayloads } from "../lib/polls";
+import { postSystemMessage } from "../lib/system-messages";
+import { canAccessChannel, emitToChannelAudience, type ChannelRow } from "../runtime";
+
+const POLL_EXPIRY_SWEEP_INTERVAL_MS = 30_000;
+
+type PollVoteRoute = "/api/channels/:channelId/messages/:messageId/poll/answers/:answerId/@me";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type VotablePoll = {
+  channel: ChannelRow;
+  poll: typeof messagePolls.$inferSelect;
+  answerId: number;
+};
+
+const resolveVotablePoll = async (request: BunRequest<PollVoteRoute>, userId: string): Promise<VotablePoll | Response> => {
+  const { channelId, messageId } = request.params;
+  if (!channelId || !messageId) {
+    return badRequest(request, "Invalid channel id or message id.");
+  }
+
+  const canView = await hasChannelPermission(userId, channelId, PermissionBits.VIEW_CHANNEL);
+  if (!canView) {
+    return forbidden(request);
+  }
+
+  const canReadHistory = await hasChannelPermission(userId, channelId, PermissionBits.READ_MESSAGE_HISTORY);
+  if (!canReadHistory) {
+    return forbidden(request, "Missing READ_MESSAGE_HISTORY.");
+  }
+
+  const access = await canAccessChannel(userId, channelId);
+  if (!access) {
+    return forbidden(request);
+  }
+
+  const poll = await db.query.messagePolls.findFirst({
+    where: and(eq(messagePolls.messageId, messageId), eq(messagePolls.channelId, channelId)),
+  });
+  if (!poll) {
+    return notFound(request);
+  }
+
+  if (isPollClosed(poll)) {
+    return badRequest(request, "This poll has ended.");
+  }
+
+  const answerId = Number(request.params.answerId);
+  if (!poll.answers.some(answer => answer.answer_id === answerId)) {
+    return badRequest(request, "Invalid answer id.");
+  }
+
+  return { channel: access.channel, poll, answerId };
+};
+
+/**
+ * Locks the poll row for the rest of the vote. This orders a user's concurrent votes, and it waits
+ * out the expiry sweep, so a vote cannot land once the poll has been finalized.
+ */
+const lockOpenPoll = async (tx: Transaction, messageId: string): Promise<boolean> => {
+  const [open] = await tx
+    .select({ messageId: messagePolls.messageId })
+    .from(messagePolls)
+    .where(
+      and(
+        eq(messagePolls.messageId, messageId),
+        isNull(messagePolls.finalizedAt),
+        gt(messagePolls.expiresAt, new Date()),
+      ),
+    )
+    .for("update");
+  return open !== undefined;
+};
+
+const toPollVoteEvent = (userId: string, target: VotablePoll, answerId: number): MessagePollVoteEvent => ({
+  user_id: userId,
+  channel_id: target.channel.id,
+  message_id: target.poll.messageId,
+  guild_id: target.channel.guildId ?? null,
+  answer_id: answerId,
+});
+
+export const addOwnPollVote = async (request: BunRequest<PollVoteRoute>): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const target = await resolveVotablePoll(request, me.id);
+  if (target instanceof Response) {
+    return target;
+  }
+
+  // Single-choice polls move the vote: any other answer by this user is dropped first.
+  const votes = await db.transaction(async tx => {
+    if (!(await lockOpenPoll(tx, target.poll.messageId))) {
+      return null;
+    }
+
+    const removed = target.poll.allowMultiselect
+      ? []
+      : await tx
+          .delete(pollVotes)
+          .where(
+            and(
+              eq(pollVotes.messageId, target.poll.messageId),
+              eq(pollVotes.userId, me.id),
+              ne(pollVotes.answerId, target.answerId),
+            ),
+          )
+          .returning({ answerId: pollVotes.answerId });
+    const inserted = await tx
+      .insert(pollVotes)
+      .values({ messageId: target.poll.messageId, answerId: target.answerId, userId: me.id })
+      .onConflictDoNothing()
+      .returning({ answerId: pollVotes.answerId });
+    return { removed, inserted };
+  });
+  if (!votes) {
+    return badRequest(request, "This poll has ended.");
+  }
+
+  const { removed, inserted } = votes;
+  for (const vote of removed) {
+    await emitToChannelAudience(target.channel, "MESSAGE_POLL_VOTE_REMOVE", toPollVoteEvent(me.id, target, vote.answerId));
+  }
+  if (inserted.length > 0) {
+    await emitToChannelAudience(target.channel, "MESSAGE_POLL_VOTE_ADD", toPollVoteEvent(me.id, target, target.answerId));
+  }
+
+  return empty(request, 204);
+};
+
+export const removeOwnPollVote = async (request: BunRequest<PollVoteRoute>): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const target = await resolveVotablePoll(request, me.id);
+  if (target instanceof Response) {
+    return target;
+  }
+
+  const removed = await db.transaction(async tx => {
+    if (!(await lockOpenPoll(tx, target.poll.messageId))) {
+      return null;
+    }
+
+    return tx
+      .delete(pollVotes)
+      .where(
+        and(
+          eq(pollVotes.messageId, target.poll.messageId),
+          eq(pollVotes.userId, me.id),
+          eq(pollVotes.answerId, target.answerId),
+        ),
+      )
+      .returning({ answerId: pollVotes.answerId });
+  });
+  if (!removed) {
+    return badRequest(request, "This poll has ended.");
+  }
+
+  if (removed.length > 0) {
+    await emitToChannelAudience(target.channel, "MESSAGE_POLL_VOTE_REMOVE", toPollVoteEvent(me.id, target, target.answerId));
+  }
+
+  return empty(request, 204);
+};
+
+// Publishes the final tally on the poll itself and posts a POLL_RESULT message replying to it.
+const announcePollResult = async (poll: typeof messagePolls.$inferSelect): Promise<void> => {
+  const pollMessage = await db.query.messages.findFirst({ where: eq(messages.id, poll.messageId) });
+  const channel = await db.query.channels.findFirst({ where: eq(channels.id, poll.channelId) });
+  if (!pollMessage || !channel) {
+    return;
+  }
+
+  const guildId = channel.guildId ?? null;
+  const finalPoll = (await listMessagePollPayloads([poll.messageId], null)).get(poll.messageId);
+  if (finalPoll) {
+    // Counts only: `me_voted` is viewer-specific, so clients keep their own flags.
+    await emitToChannelAudience(channel, "MESSAGE_UPDATE", {
+      id: pollMessage.id,
+      channel_id: channel.id,
+      guild_id: guildId,
+      poll: finalPoll,
+    });
+  }
+
+  await postSystemMessage({
+    channel,
+    authorId: pollMessage.authorId,
+    type: MessageType.POLL_RESULT,
+    referencedMessageId: pollMessage.id,
+  });
+};
+
+let pollExpiryTickRunning = false;
+
+const finalizeExpiredPolls = async (): Promise<void> => {
+  if (pollExpiryTickRunning) {
+    return;
+  }
+
+  pollExpiryTickRunning = true;
+  try {
+    // Setting finalized_at claims the poll; votes lock the poll row and re-check it, so none land after this.
+    const finalized = await db
+      .update(messagePolls)
+      .set({ finalizedAt: new Date() })
+      .where(and(isNull(messagePolls.finalizedAt), lte(messagePolls.expiresAt, new Date())))
+      .returning();
+
+    for (const poll of finalized) {
+      try {
+        await announcePollResult(poll);
+      } catch (error) {
+        console.error("Failed to announce poll result", error);
+      }
+    }
+  } finally {
+    pollExpiryTickRunning = false;
+  }
+};
+
+let pollExpiryTimer: ReturnType<typeof setInterval> | null = null;
+
+export const startPollExpiryTask = (): void => {
+  if (pollExpiryTimer) {
+    return;
+  }
+
+  void finalizeExpiredPolls().catch(error => {
+    console.error("Failed to finalize expired polls", error);
+  });
+  pollExpiryTimer = setInterval(() => {
+    void finalizeExpiredPolls().catch(error => {
+      console.error("Failed to finalize expired polls", error);
+    });
+  }, POLL_EXPIRY_SWEEP_INTERVAL_MS);
+};
@@ -0,0 +1,255 @@
+import type { MessageReactionEvent, MessageReactionRemoveAllEvent } from "@edgewire/types";
+import type { BunRequest } from "bun";
+import { and, asc, countDistinct, eq, gt, or } from "drizzle-orm";
+import { db } from "../db";
+import { messageReactions, messages, users } from "../db/schema";
+import { badRequest, empty, forbidden, json, notFound, requireAuth } from "../http";
+import { isNonMessageChannelType } from "../lib/channel-types";
+import { PermissionBits } from "../lib/permissions";
+import { hasChannelPermission } from "../lib/permission-service";
+import { MAX_REACTION_EMOJIS_PER_MESSAGE, parseReactionEmoji, toReactionEmoji } from "../lib/reactions";
+import { toUserSummary } from "../lib/users";
+import { canAccessChannel, emitToChannelAudience, toSummary, type ChannelRow } from "../runtime";
+
+type ReactableMessage = {
+  channel: ChannelRow;
+  scope: "DM" | "GUILD";
+  message: typeof messages.$inferSelect;
+};
+
+const resolveReactableMessage = async (
+  request: Request,
+  userId: string,
+  channelId: string | undefined,
+  messageId: string | undefined,
+): Promise<ReactableMessage | Response> => {
+  if (!channelId || !messageId) {
+    return badRequest(request, "Invalid channel id or message id.");
+  }
+
+  const canView = await hasChannelPermission(userId, channelId, PermissionBits.VIEW_CHANNEL);
+  if (!canView) {
+    return forbidden(request);
+  }
+
+  const canReadHistory = await hasChannelPermission(userId, channelId, PermissionBits.READ_MESSAGE_HISTORY);
+  if (!canReadHistory) {
+    return forbidden(request, "Missing READ_MESSAGE_HISTORY.");
+  }
+
+  const access = await canAccessChannel(userId, channelId);
+  if (!access) {
+    return forbidden(request);
+  }
+
+  if (isNonMessageChannelType(access.channel.type)) {
+    return badRequest(request, "Cannot react to messages in this channel type.");
+  }
+
+  const message = await db.query.messages.findFirst({
+    where: and(eq(messages.id, messageId), eq(messages.channelId, channelId)),
+  });
+  if (!message) {
+    return notFound(request);
+  }
+
+  return { channel: access.channel, scope: access.scope, message };
+};
+
+export const addOwnReaction = async (
+  request: BunRequest<"/api/channels/:channelId/messages/:messageId/reactions/:emoji/@me">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const target = await resolveReactableMessage(request, me.id, request.params.channelId, request.params.messageId);
+  if (target instanceof Response) {
+    return target;
+  }
+
+  const emoji = parseReactionEmoji(request.params.emoji);
+  if (!emoji) {
+    return badRequest(request, "Invalid emoji.");
+  }
+
+  const existingEmoji = await db.query.messageReactions.findFirst({
+    where: and(eq(messageReactions.messageId, target.message.id), eq(messageReactions.emoji, emoji)),
+  });
+  if (!existingEmoji) {
+    const [emojiCountRow] = await db
+      .select({ value: countDistinct(messageReactions.emoji) })
+      .from(messageReactions)
+      .where(eq(messageReactions.messageId, target.message.id));
+    if (Number(emojiCountRow?.value ?? 0) >= MAX_REACTION_EMOJIS_PER_MESSAGE) {
+      return badRequest(request, `Messages can have at most ${MAX_REACTION_EMOJIS_PER_MESSAGE} different reactions.`);
+    }
+  }
+
+  const inserted = await db
+    .insert(messageReactions)
+    .values({
+      messageId: target.message.id,
+      channelId: target.channel.id,
+      userId: me.id,
+      emoji,
+    })
+    .onConflictDoNothing()
+    .returning({ emoji: messageReactions.emoji });
+
+  if (inserted.length > 0) {
+    const event: MessageReactionEvent = {
+      user_id: me.id,
+      channel_id: target.channel.id,
+      message_id: target.message.id,
+      guild_id: target.channel.guildId ?? null,
+      emoji: toReactionEmoji(emoji),
+    };
+    await emitToChannelAudience(target.channel, "MESSAGE_REACTION_ADD", event);
+  }
+
+  return empty(request, 204);
+};
+
+export const removeOwnReaction = async (
+  request: BunRequest<"/api/channels/:channelId/messages/:messageId/reactions/:emoji/@me">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const target = await resolveReactableMessage(request, me.id, request.params.channelId, request.params.messageId);
+  if (target instanceof Response) {
+    return target;
+  }
+
+  const emoji = parseReactionEmoji(request.params.emoji);
+  if (!emoji) {
+    return badRequest(request, "Invalid emoji.");
+  }
+
+  const removed = await db
+    .delete(messageReactions)
+    .where(
+      and(
+        eq(messageReactions.messageId, target.message.id),
+        eq(messageReactions.userId, me.id),
+        eq(messageReactions.emoji, emoji),
+      ),
+    )
+    .returning({ emoji: messageReactions.emoji });
+
+  if (removed.length > 0) {
+    const event: MessageReactionEvent = {
+      user_id: me.id,
+      channel_id: target.channel.id,
+      message_id: target.message.id,
+      guild_id: target.channel.guildId ?? null,
+      emoji: toReactionEmoji(emoji),
+    };
+    await emitToChannelAudience(target.channel, "MESSAGE_REACTION_REMOVE", event);
+  }
+
+  return empty(request, 204);
+};
+
+export const listReactionUsers = async (
+  request: BunRequest<"/api/channels/:channelId/messages/:messageId/reactions/:emoji">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const target = await resolveReactableMessage(request, me.id, request.params.channelId, request.params.messageId);
+  if (target instanceof Response) {
+    return target;
+  }
+
+  const emoji = parseReactionEmoji(request.params.emoji);
+  if (!emoji) {
+    return badRequest(request, "Invalid emoji.");
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const limit = Number(searchParams.get("limit") ?? 25);
+  const boundedLimit = Number.isFinite(limit) ? Math.max(1, Math.min(limit, 100)) : 25;
+  const after = searchParams.get("after")?.trim() || null;
+
+  const baseWhere = and(eq(messageReactions.messageId, target.message.id), eq(messageReactions.emoji, emoji));
+  let where = baseWhere;
+  if (after) {
+    const cursor = await db.query.messageReactions.findFirst({
+      where: and(baseWhere, eq(messageReactions.userId, after)),
+    });
+    if (!cursor) {
+      return badRequest(request, "Invalid after user id.");
+    }
+
+    where = and(
+      baseWhere,
+      or(
+        gt(messageReactions.createdAt, cursor.createdAt),
+        and(eq(messageReactions.createdAt, cursor.createdAt), gt(messageReactions.userId, cursor.userId)),
+      ),
+    );
+  }
+
+  const rows = await db
+    .select({
+      id: users.id,
+      username: users.username,
+      displayName: users.displayName,
+      avatarUrl: users.avatarUrl,
+      avatarS3Key: users.avatarS3Key,
+    })
+    .from(messageReactions)
+    .innerJoin(users, eq(users.id, messageReactions.userId))
+    .where(where)
+    .orderBy(asc(messageReactions.createdAt), asc(messageReactions.userId))
+    .limit(boundedLimit);
+
+  return json(
+    request,
+    rows.map(row => toSummary(toUserSummary(row))),
+  );
+};
+
+export const removeAllReactions = async (
+  request: BunRequest<"/api/channels/:channelId/messages/:messageId/reactions">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const target = await resolveReactableMessage(request, me.id, request.params.channelId, request.params.messageId);
+  if (target instanceof Response) {
+    return target;
+  }
+
+  if (target.scope === "DM") {
+    return forbidden(request, "Reactions cannot be cleared in direct messages.");
+  }
+
+  const canManageMessages = await hasChannelPermission(me.id, target.channel.id, PermissionBits.MANAGE_MESSAGES);
+  if (!canManageMessages) {
+    return forbidden(request, "Missing MANAGE_MESSAGES.");
+  }
+
+  await db.delete(messageReactions).where(eq(messageReactions.messageId, target.message.id));
+
+  const event: MessageReactionRemoveAllEvent = {
+    channel_id: target.channel.id,
+    message_id: target.message.id,
+    guild_id: target.channel.guildId ?? null,
+  };
+  await emitToChannelAudience(target.channel, "MESSAGE_REACTION_REMOVE_ALL", event);
+  return empty(request, 204);
+};
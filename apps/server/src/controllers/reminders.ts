@@ -0,0 +1,231 @@
+import type { NotificationCreateEvent } from "@edgewire/types";
+import type { BunRequest } from "bun";
+import { and, asc, count, eq, inArray, isNull, lte, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db";
+import { messageReminders, messages } from "../db/schema";
+import { badRequest, empty, forbidden, json, notFound, parseJson, requireAuth } from "../http";
+import { canViewChannel } from "../lib/message-context";
+import { emitReminderUpdate, toReminderPayloads } from "../lib/reminders";
+import { emitToUsers, nextId } from "../runtime";
+
+type MessageReminderRow = typeof messageReminders.$inferSelect;
+
+const REMINDER_LIMIT = 100;
+const REMINDER_MAX_DELAY_MS = 365 * 24 * 60 * 60 * 1_000;
+const REMINDER_BATCH_SIZE = 50;
+
+const putReminderSchema = z.object({
+  remind_at: z.string().datetime({ offset: true }),
+});
+
+const parseRemindAt = (value: string, now: Date): Date | string => {
+  const remindAt = new Date(value);
+  if (remindAt.getTime() <= now.getTime()) {
+    return "Reminder time must be in the future.";
+  }
+  if (remindAt.getTime() - now.getTime() > REMINDER_MAX_DELAY_MS) {
+    return "Reminders can be set at most a year ahead.";
+  }
+  return remindAt;
+};
+
+// Like saved messages, reminders in channels the user can no longer see are hidden, not deleted.
+export const listReminders = async (request: BunRequest<"/api/users/@me/reminders">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const rows = await db
+    .select()
+    .from(messageReminders)
+    .where(eq(messageReminders.userId, me.id))
+    .orderBy(asc(messageReminders.remindAt), asc(sql`${messageReminders.id}::bigint`))
+    .limit(REMINDER_LIMIT);
+
+  const visibleChannelIds = new Set<string>();
+  for (const channelId of new Set(rows.map(row => row.channelId))) {
+    if (await canViewChannel(me.id, channelId)) {
+      visibleChannelIds.add(channelId);
+    }
+  }
+
+  return json(
+    request,
+    await toReminderPayloads(
+      rows.filter(row => visibleChannelIds.has(row.channelId)),
+      me.id,
+    ),
+  );
+};
+
+// Setting a reminder on a message that already has one reschedules it, which is also how snoozing works.
+export const putReminder = async (request: BunRequest<"/api/users/@me/reminders/:messageId">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const messageId = request.params.messageId;
+  if (!messageId) {
+    return badRequest(request, "Invalid message id.");
+  }
+
+  const parsed = putReminderSchema.safeParse(await parseJson<unknown>(request));
+  if (!parsed.success) {
+    return badRequest(request, "Invalid reminder payload.");
+  }
+
+  const remindAt = parseRemindAt(parsed.data.remind_at, new Date());
+  if (typeof remindAt === "string") {
+    return badRequest(request, remindAt);
+  }
+
+  const message = await db.query.messages.findFirst({ where: eq(messages.id, messageId) });
+  if (!message) {
+    return notFound(request);
+  }
+
+  if (!(await canViewChannel(me.id, message.channelId))) {
+    return forbidden(request);
+  }
+
+  const existing = await db.query.messageReminders.findFirst({
+    where: and(eq(messageReminders.userId, me.id), eq(messageReminders.messageId, message.id)),
+    columns: { id: true },
+  });
+  if (!existing) {
+    const [total] = await db
+      .select({ value: count() })
+      .from(messageReminders)
+      .where(eq(messageReminders.userId, me.id));
+    if ((total?.value ?? 0) >= REMINDER_LIMIT) {
+      return badRequest(request, `You can have at most ${REMINDER_LIMIT} reminders.`);
+    }
+  }
+
+  const [reminder] = await db
+    .insert(messageReminders)
+    .values({ id: nextId(), userId: me.id, messageId: message.id, channelId: message.channelId, remindAt })
+    .onConflictDoUpdate({
+      target: [messageReminders.userId, messageReminders.messageId],
+      set: { remindAt, firedAt: null },
+    })
+    .returning();
+  if (!reminder) {
+    return badRequest(request, "Failed to set reminder.");
+  }
+
+  const [payload] = await toReminderPayloads([reminder], me.id);
+  if (!payload) {
+    return notFound(request);
+  }
+
+  emitReminderUpdate(me.id, message.id, payload);
+  return json(request, payload);
+};
+
+export const deleteReminder = async (
+  request: BunRequest<"/api/users/@me/reminders/:messageId">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const messageId = request.params.messageId;
+  if (!messageId) {
+    return badRequest(request, "Invalid message id.");
+  }
+
+  const [deleted] = await db
+    .delete(messageReminders)
+    .where(and(eq(messageReminders.userId, me.id), eq(messageReminders.messageId, messageId)))
+    .returning();
+  if (deleted) {
+    emitReminderUpdate(me.id, messageId, null);
+  }
+
+  return empty(request, 204);
+};
+
+// Fired reminders stay listed until dismissed or snoozed; a user who lost access is simply not notified.
+const fireReminder = async (row: MessageReminderRow): Promise<void> => {
+  if (!(await canViewChannel(row.userId, row.channelId))) {
+    return;
+  }
+
+  const [payload] = await toReminderPayloads([row], row.userId);
+  if (!payload) {
+    return;
+  }
+
+  const notification: NotificationCreateEvent = {
+    channel_id: payload.channel_id,
+    guild_id: payload.guild_id,
+    message_id: payload.message_id,
+    author: payload.message.author,
+    mentioned: false,
+    reminder: true,
+  };
+  emitToUsers([row.userId], "NOTIFICATION_CREATE", notification);
+  emitReminderUpdate(row.userId, row.messageId, payload);
+};
+
+let reminderTickRunning = false;
+
+const fireDueReminders = async (): Promise<void> => {
+  if (reminderTickRunning) {
+    return;
+  }
+
+  reminderTickRunning = true;
+  try {
+    const now = new Date();
+    const due = db
+      .select({ id: messageReminders.id })
+      .from(messageReminders)
+      .where(and(isNull(messageReminders.firedAt), lte(messageReminders.remindAt, now)))
+      .orderBy(asc(messageReminders.remindAt))
+      .limit(REMINDER_BATCH_SIZE);
+
+    // Marking rows fired before notifying means a reminder is delivered at most once.
+    const claimed = await db
+      .update(messageReminders)
+      .set({ firedAt: now })
+      .where(and(inArray(messageReminders.id, due), isNull(messageReminders.firedAt)))
+      .returning();
+
+    claimed.sort((a, b) => a.remindAt.getTime() - b.remindAt.getTime());
+    for (const row of claimed) {
+      try {
+        await fireReminder(row);
+      } catch (error) {
+        console.error("Failed to fire reminder", error);
+      }
+    }
+  } finally {
+    reminderTickRunning = false;
+  }
+};
+
+let reminderTimer: ReturnType<typeof setInterval> | null = null;
+
+export const startReminderTask = (): void => {
+  if (reminderTimer) {
+    return;
+  }
+
+  void fireDueReminders().catch(error => {
+    console.error("Failed to fire reminders", error);
+  });
+  reminderTimer = setInterval(() => {
+    void fireDueReminders().catch(error => {
+      console.error("Failed to fire reminders", error);
+    });
+  }, 15 * 1_000);
+};
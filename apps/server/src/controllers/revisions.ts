@@ -0,0 +1,91 @@
+import type { MessageRevision } from "@edgewire/types";
+import type { BunRequest } from "bun";
+import { and, asc, eq } from "drizzle-orm";
+import { db } from "../db";
+import { messageRevisions, messages } from "../db/schema";
+import { badRequest, forbidden, json, notFound, requireAuth } from "../http";
+import { PermissionBits } from "../lib/permissions";
+import { hasChannelPermission } from "../lib/permission-service";
+import { buildMessageMentionContext, canAccessChannel, makeMessagePayload, toMessageAuthorSummary } from "../runtime";
+
+// Authors can always review their own edits; in guilds, members with MANAGE_MESSAGES can too.
+export const listMessageRevisions = async (
+  request: BunRequest<"/api/channels/:channelId/messages/:messageId/revisions">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const channelId = request.params.channelId;
+  const messageId = request.params.messageId;
+  if (!channelId || !messageId) {
+    return badRequest(request, "Invalid channel id or message id.");
+  }
+
+  const canView = await hasChannelPermission(me.id, channelId, PermissionBits.VIEW_CHANNEL);
+  if (!canView) {
+    return forbidden(request);
+  }
+
+  const canReadHistory = await hasChannelPermission(me.id, channelId, PermissionBits.READ_MESSAGE_HISTORY);
+  if (!canReadHistory) {
+    return forbidden(request, "Missing READ_MESSAGE_HISTORY.");
+  }
+
+  const access = await canAccessChannel(me.id, channelId);
+  if (!access) {
+    return forbidden(request);
+  }
+
+  const message = await db.query.messages.findFirst({
+    where: and(eq(messages.id, messageId), eq(messages.channelId, channelId)),
+  });
+  if (!message) {
+    return notFound(request);
+  }
+
+  if (message.authorId !== me.id) {
+    const canManageMessages =
+      access.scope === "GUILD" && (await hasChannelPermission(me.id, channelId, PermissionBits.MANAGE_MESSAGES));
+    if (!canManageMessages) {
+      return forbidden(request, "Only the author or members with MANAGE_MESSAGES can view edit history.");
+    }
+  }
+
+  const rows = await db
+    .select()
+    .from(messageRevisions)
+    .where(eq(messageRevisions.messageId, message.id))
+    .orderBy(asc(messageRevisions.editedAt));
+
+  // Revisions go through the message payload builder so their mentions resolve like the live message's.
+  const revisionMessages = rows.map(row => ({
+    ...message,
+    content: row.content,
+    mentionEveryone: row.mentionEveryone,
+    mentionUserIds: row.mentionUserIds,
+    mentionRoleIds: row.mentionRoleIds,
+    mentionChannelIds: row.mentionChannelIds,
+  }));
+  const mentionContext = await buildMessageMentionContext(revisionMessages);
+  const author = toMessageAuthorSummary(message.authorId, null);
+  const guildId = access.channel.guildId ?? null;
+
+  const items: MessageRevision[] = rows.map((row, index) => {
+    const payload = makeMessagePayload(revisionMessages[index]!, author, guildId, [], mentionContext);
+    return {
+      id: row.id,
+      message_id: row.messageId,
+      content: payload.content,
+      mention_everyone: payload.mention_everyone,
+      mentions: payload.mentions,
+      mention_roles: payload.mention_roles,
+      mention_channels: payload.mention_channels,
+      edited_at: row.editedAt.toISOString(),
+    };
+  });
+
+  return json(request, items);
+};
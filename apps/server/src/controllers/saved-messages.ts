@@ -0,0 +1,139 @@
+import type { SavedMessagesPage } from "@edgewire/types";
+import type { BunRequest } from "bun";
+import { and, desc, eq, lt, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db";
+import { messages, savedMessages } from "../db/schema";
+import { badRequest, empty, forbidden, json, notFound, parseJson, requireAuth } from "../http";
+import { canViewChannel } from "../lib/message-context";
+import { emitSavedMessageUpdate, toSavedMessagePayloads } from "../lib/saved-messages";
+import { ID_REGEX, nextId } from "../runtime";
+
+const SAVED_MESSAGE_NOTE_MAX_LENGTH = 500;
+
+const putSavedMessageSchema = z.object({
+  note: z.string().trim().max(SAVED_MESSAGE_NOTE_MAX_LENGTH).nullable().optional(),
+});
+
+// Saved entries outlive access: anything in a channel the user can no longer see is hidden, not deleted.
+export const listSavedMessages = async (request: BunRequest<"/api/users/@me/saved-messages">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const searchParams = new URL(request.url).searchParams;
+  const before = searchParams.get("before");
+  if (before !== null && !ID_REGEX.test(before)) {
+    return badRequest(request, "Invalid before cursor.");
+  }
+
+  const limit = Number(searchParams.get("limit") ?? 50);
+  const boundedLimit = Number.isFinite(limit) ? Math.max(1, Math.min(limit, 100)) : 50;
+
+  const rows = await db
+    .select()
+    .from(savedMessages)
+    .where(
+      and(
+        eq(savedMessages.userId, me.id),
+        before ? lt(sql`${savedMessages.id}::bigint`, sql`${before}::bigint`) : undefined,
+      ),
+    )
+    .orderBy(desc(sql`${savedMessages.id}::bigint`))
+    .limit(boundedLimit);
+
+  const visibleChannelIds = new Set<string>();
+  for (const channelId of new Set(rows.map(row => row.channelId))) {
+    if (await canViewChannel(me.id, channelId)) {
+      visibleChannelIds.add(channelId);
+    }
+  }
+
+  const payload: SavedMessagesPage = {
+    saved_messages: await toSavedMessagePayloads(
+      rows.filter(row => visibleChannelIds.has(row.channelId)),
+      me.id,
+    ),
+    next_before: rows.length === boundedLimit ? (rows.at(-1)?.id ?? null) : null,
+  };
+  return json(request, payload);
+};
+
+export const putSavedMessage = async (
+  request: BunRequest<"/api/users/@me/saved-messages/:messageId">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const messageId = request.params.messageId;
+  if (!messageId) {
+    return badRequest(request, "Invalid message id.");
+  }
+
+  // The body is optional; saving without one keeps any existing note.
+  const body = (await parseJson<unknown>(request)) ?? {};
+  const parsed = putSavedMessageSchema.safeParse(body);
+  if (!parsed.success) {
+    return badRequest(request, "Invalid saved message payload.");
+  }
+
+  const message = await db.query.messages.findFirst({ where: eq(messages.id, messageId) });
+  if (!message) {
+    return notFound(request);
+  }
+
+  if (!(await canViewChannel(me.id, message.channelId))) {
+    return forbidden(request);
+  }
+
+  const note = parsed.data.note === undefined ? undefined : parsed.data.note || null;
+  const [saved] = await db
+    .insert(savedMessages)
+    .values({ id: nextId(), userId: me.id, messageId: message.id, channelId: message.channelId, note: note ?? null })
+    .onConflictDoUpdate({
+      target: [savedMessages.userId, savedMessages.messageId],
+      set: { note: note === undefined ? sql`${savedMessages.note}` : note },
+    })
+    .returning();
+  if (!saved) {
+    return badRequest(request, "Failed to save message.");
+  }
+
+  const [payload] = await toSavedMessagePayloads([saved], me.id);
+  if (!payload) {
+    return notFound(request);
+  }
+
+  emitSavedMessageUpdate(me.id, message.id, payload);
+  return json(request, payload);
+};
+
+export const deleteSavedMessage = async (
+  request: BunRequest<"/api/users/@me/saved-messages/:messageId">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const messageId = request.params.messageId;
+  if (!messageId) {
+    return badRequest(request, "Invalid message id.");
+  }
+
+  const [deleted] = await db
+    .delete(savedMessages)
+    .where(and(eq(savedMessages.userId, me.id), eq(savedMessages.messageId, messageId)))
+    .returning();
+  if (deleted) {
+    emitSavedMessageUpdate(me.id, messageId, null);
+  }
+
+  return empty(request, 204);
+};
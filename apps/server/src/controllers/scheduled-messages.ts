@@ -0,0 +1,413 @@
+import type { ScheduledMessagePayload } from "@edgewire/types";
+import type { BunRequest } from "bun";
+import { and, asc, eq, inArray, lte, ne, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db";
+import { channels, scheduledMessages } from "../db/schema";
+import { badRequest, empty, forbidden, json, notFound, parseJson, requireAuth } from "../http";
+import {
+  createMessageAs,
+  holdAttachmentUploads,
+  loadAttachmentUploads,
+  releaseAttachmentUploads,
+  resolveSendableChannel,
+} from "../lib/message-create";
+import { getUserSummaryById } from "../lib/users";
+import { MESSAGE_MAX_LENGTH, allowedMentionsSchema, emitToUsers, nextId } from "../runtime";
+
+type ScheduledMessageRow = typeof scheduledMessages.$inferSelect;
+
+const SCHEDULED_MESSAGE_LIMIT = 100;
+const SCHEDULED_MESSAGE_MAX_DELAY_MS = 30 * 24 * 60 * 60 * 1_000;
+const SCHEDULED_MESSAGE_BATCH_SIZE = 25;
+// Held uploads outlive the send time a little so a late scheduler tick can still bind them.
+const UPLOAD_HOLD_GRACE_MS = 60 * 60 * 1_000;
+
+const scheduledAtSchema = z.string().datetime({ offset: true });
+
+const createScheduledMessageSchema = z
+  .object({
+    content: z.string().max(MESSAGE_MAX_LENGTH).optional(),
+    attachment_upload_ids: z.array(z.string().trim().min(1).max(64)).max(10).optional(),
+    allowed_mentions: allowedMentionsSchema.optional(),
+    scheduled_at: scheduledAtSchema,
+  })
+  .refine(value => Boolean(value.content?.trim()) || (value.attachment_upload_ids?.length ?? 0) > 0, {
+    message: "Message must include content or attachments.",
+  });
+
+const updateScheduledMessageSchema = z.object({
+  content: z.string().max(MESSAGE_MAX_LENGTH).optional(),
+  allowed_mentions: allowedMentionsSchema.nullable().optional(),
+  scheduled_at: scheduledAtSchema.optional(),
+});
+
+const toScheduledMessagePayload = (row: ScheduledMessageRow, guildId: string | null): ScheduledMessagePayload => ({
+  id: row.id,
+  channel_id: row.channelId,
+  guild_id: guildId,
+  content: row.content,
+  attachment_upload_ids: row.attachmentUploadIds,
+  allowed_mentions: row.allowedMentions ?? null,
+  scheduled_at: row.scheduledAt.toISOString(),
+  status: row.status,
+  failure_reason: row.failureReason,
+  created_at: row.createdAt.toISOString(),
+});
+
+const getChannelGuildId = async (channelId: string): Promise<string | null> => {
+  const channel = await db.query.channels.findFirst({
+    where: eq(channels.id, channelId),
+    columns: { guildId: true },
+  });
+  return channel?.guildId ?? null;
+};
+
+const emitScheduledMessage = async (
+  event: "SCHEDULED_MESSAGE_CREATE" | "SCHEDULED_MESSAGE_UPDATE",
+  row: ScheduledMessageRow,
+): Promise<ScheduledMessagePayload> => {
+  const payload = toScheduledMessagePayload(row, await getChannelGuildId(row.channelId));
+  emitToUsers([row.authorId], event, payload);
+  return payload;
+};
+
+const listScheduledMessagePayloads = async (authorId: string, channelId?: string): Promise<ScheduledMessagePayload[]> => {
+  const rows = await db
+    .select({ scheduled: scheduledMessages, guildId: channels.guildId })
+    .from(scheduledMessages)
+    .innerJoin(channels, eq(channels.id, scheduledMessages.channelId))
+    .where(
+      and(
+        eq(scheduledMessages.authorId, authorId),
+        channelId ? eq(scheduledMessages.channelId, channelId) : undefined,
+      ),
+    )
+    .orderBy(asc(scheduledMessages.scheduledAt), asc(sql`${scheduledMessages.id}::bigint`));
+
+  return rows.map(row => toScheduledMessagePayload(row.scheduled, row.guildId));
+};
+
+const parseScheduledAt = (value: string, now: Date): Date | string => {
+  const scheduledAt = new Date(value);
+  if (scheduledAt.getTime() <= now.getTime()) {
+    return "Scheduled time must be in the future.";
+  }
+  if (scheduledAt.getTime() - now.getTime() > SCHEDULED_MESSAGE_MAX_DELAY_MS) {
+    return "Messages can be scheduled at most 30 days ahead.";
+  }
+  return scheduledAt;
+};
+
+export const listMyScheduledMessages = async (
+  request: BunRequest<"/api/users/@me/scheduled-messages">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  return json(request, await listScheduledMessagePayloads(authResult.user.id));
+};
+
+export const listChannelScheduledMessages = async (
+  request: BunRequest<"/api/channels/:channelId/scheduled-messages">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const channelId = request.params.channelId;
+  if (!channelId) {
+    return badRequest(request, "Invalid channel id.");
+  }
+
+  return json(request, await listScheduledMessagePayloads(authResult.user.id, channelId));
+};
+
+export const createScheduledMessage = async (
+  request: BunRequest<"/api/channels/:channelId/scheduled-messages">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const channelId = request.params.channelId;
+  if (!channelId) {
+    return badRequest(request, "Invalid channel id.");
+  }
+
+  const body = await parseJson<unknown>(request);
+  const parsed = createScheduledMessageSchema.safeParse(body);
+  if (!parsed.success) {
+    return badRequest(request, "Invalid scheduled message payload.");
+  }
+
+  const now = new Date();
+  const scheduledAt = parseScheduledAt(parsed.data.scheduled_at, now);
+  if (typeof scheduledAt === "string") {
+    return badRequest(request, scheduledAt);
+  }
+
+  const accessResult = await resolveSendableChannel(me.id, channelId);
+  if ("error" in accessResult) {
+    return accessResult.status === 403 ? forbidden(request, accessResult.error) : badRequest(request, accessResult.error);
+  }
+
+  const attachmentUploadIds = [...new Set(parsed.data.attachment_upload_ids ?? [])];
+  const uploadResult = await loadAttachmentUploads(me.id, channelId, attachmentUploadIds, now);
+  if ("error" in uploadResult) {
+    return badRequest(request, uploadResult.error);
+  }
+
+  const pending = await db
+    .select({ attachmentUploadIds: scheduledMessages.attachmentUploadIds })
+    .from(scheduledMessages)
+    .where(eq(scheduledMessages.authorId, me.id));
+  if (pending.length >= SCHEDULED_MESSAGE_LIMIT) {
+    return badRequest(request, `You can have at most ${SCHEDULED_MESSAGE_LIMIT} scheduled messages.`);
+  }
+
+  const heldUploadIds = new Set(pending.flatMap(row => row.attachmentUploadIds));
+  if (attachmentUploadIds.some(uploadId => heldUploadIds.has(uploadId))) {
+    return badRequest(request, "One or more attachment uploads are already scheduled.");
+  }
+
+  const [created] = await db
+    .insert(scheduledMessages)
+    .values({
+      id: nextId(),
+      channelId,
+      authorId: me.id,
+      content: parsed.data.content?.trim() ?? "",
+      attachmentUploadIds,
+      allowedMentions: parsed.data.allowed_mentions ?? null,
+      scheduledAt,
+    })
+    .returning();
+  if (!created) {
+    return badRequest(request, "Failed to schedule message.");
+  }
+
+  await holdAttachmentUploads(attachmentUploadIds, new Date(scheduledAt.getTime() + UPLOAD_HOLD_GRACE_MS));
+  const payload = await emitScheduledMessage("SCHEDULED_MESSAGE_CREATE", created);
+  return json(request, payload, { status: 201 });
+};
+
+export const updateScheduledMessage = async (
+  request: BunRequest<"/api/channels/:channelId/scheduled-messages/:scheduledMessageId">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const { channelId, scheduledMessageId } = request.params;
+  if (!channelId || !scheduledMessageId) {
+    return badRequest(request, "Invalid channel id or scheduled message id.");
+  }
+
+  const body = await parseJson<unknown>(request);
+  const parsed = updateScheduledMessageSchema.safeParse(body);
+  if (!parsed.success) {
+    return badRequest(request, "Invalid scheduled message payload.");
+  }
+
+  const existing = await db.query.scheduledMessages.findFirst({
+    where: and(
+      eq(scheduledMessages.id, scheduledMessageId),
+      eq(scheduledMessages.channelId, channelId),
+      eq(scheduledMessages.authorId, me.id),
+    ),
+  });
+  if (!existing) {
+    return notFound(request);
+  }
+
+  const now = new Date();
+  let scheduledAt = existing.scheduledAt;
+  if (parsed.data.scheduled_at !== undefined) {
+    const parsedScheduledAt = parseScheduledAt(parsed.data.scheduled_at, now);
+    if (typeof parsedScheduledAt === "string") {
+      return badRequest(request, parsedScheduledAt);
+    }
+    scheduledAt = parsedScheduledAt;
+  } else if (existing.status === "failed" && scheduledAt.getTime() <= now.getTime()) {
+    return badRequest(request, "Pick a new time to retry this message.");
+  }
+
+  const content = parsed.data.content === undefined ? existing.content : parsed.data.content.trim();
+  if (!content && existing.attachmentUploadIds.length === 0) {
+    return badRequest(request, "Message must include content or attachments.");
+  }
+
+  // Saving a failed message queues it again; one that is mid-send can no longer change.
+  const [updated] = await db
+    .update(scheduledMessages)
+    .set({
+      content,
+      allowedMentions:
+        parsed.data.allowed_mentions === undefined ? existing.allowedMentions : parsed.data.allowed_mentions,
+      scheduledAt,
+      status: "pending",
+      failureReason: null,
+      updatedAt: now,
+    })
+    .where(and(eq(scheduledMessages.id, existing.id), ne(scheduledMessages.status, "sending")))
+    .returning();
+  if (!updated) {
+    return badRequest(request, "This message is already being sent.");
+  }
+
+  await holdAttachmentUploads(updated.attachmentUploadIds, new Date(scheduledAt.getTime() + UPLOAD_HOLD_GRACE_MS));
+  const payload = await emitScheduledMessage("SCHEDULED_MESSAGE_UPDATE", updated);
+  return json(request, payload);
+};
+
+export const deleteScheduledMessage = async (
+  request: BunRequest<"/api/channels/:channelId/scheduled-messages/:scheduledMessageId">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const { channelId, scheduledMessageId } = request.params;
+  if (!channelId || !scheduledMessageId) {
+    return badRequest(request, "Invalid channel id or scheduled message id.");
+  }
+
+  const existing = await db.query.scheduledMessages.findFirst({
+    where: and(
+      eq(scheduledMessages.id, scheduledMessageId),
+      eq(scheduledMessages.channelId, channelId),
+      eq(scheduledMessages.authorId, me.id),
+    ),
+  });
+  if (!existing) {
+    return notFound(request);
+  }
+
+  const [deleted] = await db
+    .delete(scheduledMessages)
+    .where(and(eq(scheduledMessages.id, existing.id), ne(scheduledMessages.status, "sending")))
+    .returning();
+  if (!deleted) {
+    return badRequest(request, "This message is already being sent.");
+  }
+
+  await releaseAttachmentUploads(deleted.attachmentUploadIds);
+  emitToUsers([me.id], "SCHEDULED_MESSAGE_DELETE", {
+    id: deleted.id,
+    channel_id: deleted.channelId,
+    message_id: null,
+  });
+  return empty(request, 204);
+};
+
+const markScheduledMessageFailed = async (row: ScheduledMessageRow, reason: string): Promise<void> => {
+  const [failed] = await db
+    .update(scheduledMessages)
+    .set({ status: "failed", failureReason: reason, updatedAt: new Date() })
+    .where(eq(scheduledMessages.id, row.id))
+    .returning();
+  if (failed) {
+    await emitScheduledMessage("SCHEDULED_MESSAGE_UPDATE", failed);
+  }
+};
+
+// Permissions are checked again here: the author may have lost access since scheduling.
+const sendScheduledMessage = async (row: ScheduledMessageRow): Promise<void> => {
+  const author = await getUserSummaryById(row.authorId);
+  if (!author) {
+    await markScheduledMessageFailed(row, "Author no longer exists.");
+    return;
+  }
+
+  const result = await createMessageAs(author, row.channelId, {
+    content: row.content,
+    attachment_upload_ids: row.attachmentUploadIds,
+    allowed_mentions: row.allowedMentions ?? undefined,
+  });
+  if ("error" in result) {
+    await markScheduledMessageFailed(row, result.error);
+    return;
+  }
+
+  await db.delete(scheduledMessages).where(eq(scheduledMessages.id, row.id));
+  emitToUsers([row.authorId], "SCHEDULED_MESSAGE_DELETE", {
+    id: row.id,
+    channel_id: row.channelId,
+    message_id: result.message.id,
+  });
+};
+
+let scheduledMessageTickRunning = false;
+
+const sendDueScheduledMessages = async (): Promise<void> => {
+  if (scheduledMessageTickRunning) {
+    return;
+  }
+
+  scheduledMessageTickRunning = true;
+  try {
+    const now = new Date();
+    const due = db
+      .select({ id: scheduledMessages.id })
+      .from(scheduledMessages)
+      .where(and(eq(scheduledMessages.status, "pending"), lte(scheduledMessages.scheduledAt, now)))
+      .orderBy(asc(scheduledMessages.scheduledAt))
+      .limit(SCHEDULED_MESSAGE_BATCH_SIZE);
+
+    // Claiming flips rows to "sending" first, so edits and cancels can no longer race the send.
+    const claimed = await db
+      .update(scheduledMessages)
+      .set({ status: "sending", updatedAt: now })
+      .where(and(inArray(scheduledMessages.id, due), eq(scheduledMessages.status, "pending")))
+      .returning();
+
+    claimed.sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+    for (const row of claimed) {
+      try {
+        await sendScheduledMessage(row);
+      } catch (error) {
+        console.error("Failed to send scheduled message", error);
+        await markScheduledMessageFailed(row, "Failed to send message.");
+      }
+    }
+  } finally {
+    scheduledMessageTickRunning = false;
+  }
+};
+
+// A row still "sending" at startup may or may not have been posted, so it is failed, never retried.
+const failInterruptedScheduledMessages = async (): Promise<void> => {
+  await db
+    .update(scheduledMessages)
+    .set({ status: "failed", failureReason: "Sending was interrupted.", updatedAt: new Date() })
+    .where(eq(scheduledMessages.status, "sending"));
+};
+
+let scheduledMessageTimer: ReturnType<typeof setInterval> | null = null;
+
+export const startScheduledMessageTask = (): void => {
+  if (scheduledMessageTimer) {
+    return;
+  }
+
+  void failInterruptedScheduledMessages()
+    .then(sendDueScheduledMessages)
+    .catch(error => {
+      console.error("Failed to start scheduled messages", error);
+    });
+  scheduledMessageTimer = setInterval(() => {
+    void sendDueScheduledMessages().catch(error => {
+      console.error("Failed to send scheduled messages", error);
+    });
+  }, 15 * 1_000);
+};
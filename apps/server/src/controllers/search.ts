@@ -0,0 +1,264 @@
+import { ChannelType, type MessageSearchHit, type MessageSearchResponse } from "@edgewire/types";
+import type { BunRequest } from "bun";
+import { and, arrayOverlaps, asc, count, desc, eq, exists, gte, inArray, lt, or, sql, type SQL } from "drizzle-orm";
+import { db } from "../db";
+import { channelMembers, channels, messageAttachments, messages, users } from "../db/schema";
+import { badRequest, forbidden, json, requireAuth } from "../http";
+import { isNonMessageChannelType } from "../lib/channel-types";
+import { PermissionBits } from "../lib/permissions";
+import { hasChannelPermission, hasGuildPermission, listVisibleGuildChannelsForUser } from "../lib/permission-service";
+import { isEmptyMessageSearch, parseMessageSearchQuery, type ParsedMessageSearch } from "../lib/search";
+import { hydrateMessagePayloads, type ChannelRow } from "../runtime";
+
+const SEARCH_PAGE_SIZE = 25;
+const SEARCH_MAX_OFFSET = 5_000;
+const SEARCH_CONTEXT_SIZE = 2;
+
+type MessageRow = typeof messages.$inferSelect;
+
+const emptySearchResponse = (offset: number): MessageSearchResponse => ({ total_results: 0, offset, hits: [] });
+
+// Values may be user ids or usernames. Returns null when any value cannot be resolved,
+// since the filter can then never match.
+const resolveUserIds = async (values: string[]): Promise<string[] | null> => {
+  const rows = await db
+    .select({ id: users.id, username: users.username })
+    .from(users)
+    .where(
+      or(
+        inArray(users.id, values),
+        inArray(
+          sql`lower(${users.username})`,
+          values.map(value => value.toLowerCase()),
+        ),
+      ),
+    );
+
+  const ids = new Set<string>();
+  for (const value of values) {
+    const lowered = value.toLowerCase();
+    const match = rows.find(row => row.id === value) ?? rows.find(row => row.username.toLowerCase() === lowered);
+    if (!match) {
+      return null;
+    }
+    ids.add(match.id);
+  }
+
+  return [...ids];
+};
+
+const resolveChannelFilter = (values: string[], searchable: ChannelRow[]): ChannelRow[] | null => {
+  const matched = new Map<string, ChannelRow>();
+  for (const value of values) {
+    const lowered = value.toLowerCase();
+    const hits = searchable.filter(channel => channel.id === value || channel.name?.toLowerCase() === lowered);
+    if (hits.length === 0) {
+      return null;
+    }
+    for (const channel of hits) {
+      matched.set(channel.id, channel);
+    }
+  }
+
+  return [...matched.values()];
+};
+
+const buildHasCondition = (filter: ParsedMessageSearch["has"][number]): SQL => {
+  if (filter === "link") {
+    return sql`${messages.content} ~* 'https?://'`;
+  }
+
+  const attachmentConditions = [eq(messageAttachments.messageId, messages.id)];
+  if (filter === "image" || filter === "video") {
+    attachmentConditions.push(sql`${messageAttachments.contentType} like ${`${filter}/%`}`);
+  }
+
+  return exists(
+    db
+      .select({ id: messageAttachments.id })
+      .from(messageAttachments)
+      .where(and(...attachmentConditions)),
+  );
+};
+
+const listContextRows = async (hit: MessageRow): Promise<{ before: MessageRow[]; after: MessageRow[] }> => {
+  const [before, after] = await Promise.all([
+    db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.channelId, hit.channelId), sql`${messages.id}::bigint < ${BigInt(hit.id)}`))
+      .orderBy(desc(sql`${messages.id}::bigint`))
+      .limit(SEARCH_CONTEXT_SIZE),
+    db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.channelId, hit.channelId), sql`${messages.id}::bigint > ${BigInt(hit.id)}`))
+      .orderBy(asc(sql`${messages.id}::bigint`))
+      .limit(SEARCH_CONTEXT_SIZE),
+  ]);
+
+  return { before: before.reverse(), after };
+};
+
+/**
+ * Runs a parsed search over channels the caller has already been cleared to read.
+ * Hits are newest first; each carries a few neighbouring messages from the same channel.
+ */
+const runMessageSearch = async (
+  request: Request,
+  viewerId: string,
+  guildId: string | null,
+  searchable: ChannelRow[],
+): Promise<Response> => {
+  const searchParams = new URL(request.url).searchParams;
+  const parsed = parseMessageSearchQuery(searchParams.get("q") ?? "");
+  if ("error" in parsed) {
+    return badRequest(request, parsed.error);
+  }
+
+  const query = parsed.query;
+  if (isEmptyMessageSearch(query)) {
+    return badRequest(request, "Search query is empty.");
+  }
+
+  const offsetRaw = Number(searchParams.get("offset") ?? 0);
+  const offset = Number.isFinite(offsetRaw) ? Math.max(0, Math.min(Math.trunc(offsetRaw), SEARCH_MAX_OFFSET)) : 0;
+  const limitRaw = Number(searchParams.get("limit") ?? SEARCH_PAGE_SIZE);
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(Math.trunc(limitRaw), SEARCH_PAGE_SIZE)) : SEARCH_PAGE_SIZE;
+
+  const channelScope = query.in.length > 0 ? resolveChannelFilter(query.in, searchable) : searchable;
+  const authorIds = query.from.length > 0 ? await resolveUserIds(query.from) : [];
+  const mentionIds = query.mentions.length > 0 ? await resolveUserIds(query.mentions) : [];
+  if (!channelScope || channelScope.length === 0 || !authorIds || !mentionIds) {
+    return json(request, emptySearchResponse(offset));
+  }
+
+  const conditions: SQL[] = [
+    inArray(
+      messages.channelId,
+      channelScope.map(channel => channel.id),
+    ),
+  ];
+  if (query.text) {
+    conditions.push(
+      sql`to_tsvector('simple', ${messages.content}) @@ websearch_to_tsquery('simple', ${query.text})`,
+    );
+  }
+  if (authorIds.length > 0) {
+    conditions.push(inArray(messages.authorId, authorIds));
+  }
+  if (mentionIds.length > 0) {
+    conditions.push(arrayOverlaps(messages.mentionUserIds, mentionIds));
+  }
+  for (const filter of query.has) {
+    conditions.push(buildHasCondition(filter));
+  }
+  if (query.before) {
+    conditions.push(lt(messages.createdAt, query.before));
+  }
+  if (query.after) {
+    conditions.push(gte(messages.createdAt, query.after));
+  }
+
+  const where = and(...conditions);
+  const [totalRow] = await db.select({ value: count() }).from(messages).where(where);
+  const hitRows = await db
+    .select()
+    .from(messages)
+    .where(where)
+    .orderBy(desc(sql`${messages.id}::bigint`))
+    .limit(limit)
+    .offset(offset);
+
+  const contextByHitId = new Map(await Promise.all(hitRows.map(async hit => [hit.id, await listContextRows(hit)] as const)));
+  const allRows = new Map<string, MessageRow>();
+  for (const hit of hitRows) {
+    allRows.set(hit.id, hit);
+    const context = contextByHitId.get(hit.id);
+    for (const row of [...(context?.before ?? []), ...(context?.after ?? [])]) {
+      allRows.set(row.id, row);
+    }
+  }
+
+  const payloads = await hydrateMessagePayloads([...allRows.values()], guildId, viewerId);
+  const payloadById = new Map(payloads.map(payload => [payload.id, payload]));
+  const hits: MessageSearchHit[] = hitRows.flatMap(hit => {
+    const message = payloadById.get(hit.id);
+    if (!message) {
+      return [];
+    }
+
+    const context = contextByHitId.get(hit.id);
+    return [
+      {
+        message,
+        context_before: (context?.before ?? []).flatMap(row => payloadById.get(row.id) ?? []),
+        context_after: (context?.after ?? []).flatMap(row => payloadById.get(row.id) ?? []),
+      },
+    ];
+  });
+
+  const response: MessageSearchResponse = {
+    total_results: Number(totalRow?.value ?? 0),
+    offset,
+    hits,
+  };
+  return json(request, response);
+};
+
+export const searchGuildMessages = async (
+  request: BunRequest<"/api/guilds/:guildId/messages/search">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const guildId = request.params.guildId;
+  if (!guildId) {
+    return badRequest(request, "Invalid guild id.");
+  }
+
+  const allowed = await hasGuildPermission(me.id, guildId, PermissionBits.VIEW_CHANNEL);
+  if (!allowed) {
+    return forbidden(request);
+  }
+
+  const visibleChannels = await listVisibleGuildChannelsForUser(me.id, guildId);
+  const readableChannels = await Promise.all(
+    visibleChannels
+      .filter(channel => !isNonMessageChannelType(channel.type))
+      .map(async channel =>
+        (await hasChannelPermission(me.id, channel.id, PermissionBits.READ_MESSAGE_HISTORY)) ? channel : null,
+      ),
+  );
+
+  return runMessageSearch(
+    request,
+    me.id,
+    guildId,
+    readableChannels.flatMap(channel => (channel ? [channel] : [])),
+  );
+};
+
+export const searchDmMessages = async (request: BunRequest<"/api/users/@me/messages/search">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const dmChannels = await db
+    .select({ channel: channels })
+    .from(channelMembers)
+    .innerJoin(channels, eq(channelMembers.channelId, channels.id))
+    .where(and(eq(channelMembers.userId, me.id), eq(channels.type, ChannelType.DM)));
+
+  return runMessageSearch(
+    request,
+    me.id,
+    null,
+    dmChannels.map(row => row.channel),
+  );
+};
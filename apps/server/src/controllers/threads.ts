@@ -0,0 +1,629 @@
+import {
+  ChannelType,
+  ForumSortOrder,
+  MessageType,
+  type ForumPostPayload,
+  type MessagePayload,
+  type UserSummary,
+} from "@edgewire/types";
+import type { BunRequest } from "bun";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import { channels, guildMembers, messages, threadMembers, users } from "../db/schema";
+import { badRequest, empty, forbidden, json, notFound, parseJson, requireAuth, tooManyRequests } from "../http";
+import { isTextChannelType } from "../lib/channel-types";
+import { resolveAppliedTags, toForumSortOrder } from "../lib/forum";
+import { createMessageAs } from "../lib/message-create";
+import { PermissionBits } from "../lib/permissions";
+import { hasChannelPermission } from "../lib/permission-service";
+import { claimChannelSlowmode } from "../lib/slowmode";
+import { postChannelSystemMessage } from "../lib/system-messages";
+import { addThreadMember, removeThreadMember, setThreadArchived, toThreadPayload } from "../lib/thread-members";
+import {
+  DEFAULT_THREAD_AUTO_ARCHIVE_DURATION,
+  THREAD_CHANNEL_TYPES,
+  isThreadChannelType,
+  toThreadMemberPayload,
+} from "../lib/threads";
+import { toUserSummary } from "../lib/users";
+import {
+  ID_REGEX,
+  canAccessChannel,
+  createForumPostSchema,
+  createThreadSchema,
+  emitToChannelAudience,
+  hydrateMessagePayloads,
+  nextId,
+  normalizeName,
+  toGuildChannelPayload,
+  toSummary,
+  type ChannelRow,
+} from "../runtime";
+
+const THREAD_ARCHIVE_SWEEP_INTERVAL_MS = 60 * 1_000;
+
+// Threads can only branch off guild text channels and forums the caller can see.
+const resolveThreadParent = async (
+  request: Request,
+  userId: string,
+  channelId: string | undefined,
+): Promise<ChannelRow | Response> => {
+  if (!channelId) {
+    return badRequest(request, "Invalid channel id.");
+  }
+
+  const canView = await hasChannelPermission(userId, channelId, PermissionBits.VIEW_CHANNEL);
+  if (!canView) {
+    return forbidden(request);
+  }
+
+  const access = await canAccessChannel(userId, channelId);
+  if (!access) {
+    return forbidden(request);
+  }
+
+  if (!isTextChannelType(access.channel.type) && access.channel.type !== ChannelType.GUILD_FORUM) {
+    return badRequest(request, "Threads can only be created in guild text channels.");
+  }
+
+  return access.channel;
+};
+
+const resolveThread = async (
+  request: Request,
+  userId: string,
+  channelId: string | undefined,
+): Promise<ChannelRow | Response> => {
+  if (!channelId) {
+    return badRequest(request, "Invalid channel id.");
+  }
+
+  const canView = await hasChannelPermission(userId, channelId, PermissionBits.VIEW_CHANNEL);
+  if (!canView) {
+    return forbidden(request);
+  }
+
+  const access = await canAccessChannel(userId, channelId);
+  if (!access) {
+    return forbidden(request);
+  }
+
+  if (!isThreadChannelType(access.channel.type)) {
+    return badRequest(request, "Channel is not a thread.");
+  }
+
+  return access.channel;
+};
+
+const insertThread = async (params: {
+  parent: ChannelRow;
+  ownerId: string;
+  name: string;
+  type: typeof ChannelType.PUBLIC_THREAD | typeof ChannelType.PRIVATE_THREAD;
+  autoArchiveDuration: number;
+  starterMessageId: string | null;
+  appliedTags?: string[];
+}): Promise<ChannelRow> => {
+  const createdAt = new Date();
+  const [created] = await db
+    .insert(channels)
+    .values({
+      id: nextId(),
+      type: params.type,
+      guildId: params.parent.guildId,
+      name: normalizeName(params.name),
+      parentId: params.parent.id,
+      ownerId: params.ownerId,
+      starterMessageId: params.starterMessageId,
+      autoArchiveDuration: params.autoArchiveDuration,
+      appliedTags: params.appliedTags ?? [],
+      archiveTimestamp: createdAt,
+      createdAt,
+    })
+    .returning();
+
+  if (!created) {
+    throw new Error("Failed to create thread.");
+  }
+
+  await db.insert(threadMembers).values({ channelId: created.id, userId: params.ownerId, joinedAt: createdAt });
+  await emitToChannelAudience(created, "THREAD_CREATE", await toThreadPayload(created));
+  return created;
+};
+
+export const createThreadFromMessage = async (
+  request: BunRequest<"/api/channels/:channelId/messages/:messageId/threads">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const parent = await resolveThreadParent(request, me.id, request.params.channelId);
+  if (parent instanceof Response) {
+    return parent;
+  }
+
+  if (parent.type === ChannelType.GUILD_FORUM) {
+    return badRequest(request, "Forum posts cannot be started from a message.");
+  }
+
+  const canCreate = await hasChannelPermission(me.id, parent.id, PermissionBits.CREATE_PUBLIC_THREADS);
+  if (!canCreate) {
+    return forbidden(request, "Missing CREATE_PUBLIC_THREADS.");
+  }
+
+  const canReadHistory = await hasChannelPermission(me.id, parent.id, PermissionBits.READ_MESSAGE_HISTORY);
+  if (!canReadHistory) {
+    return forbidden(request, "Missing READ_MESSAGE_HISTORY.");
+  }
+
+  const messageId = request.params.messageId;
+  if (!messageId) {
+    return badRequest(request, "Invalid message id.");
+  }
+
+  const message = await db.query.messages.findFirst({
+    where: and(eq(messages.id, messageId), eq(messages.channelId, parent.id)),
+  });
+  if (!message) {
+    return notFound(request);
+  }
+
+  const existingThread = await db.query.channels.findFirst({
+    where: eq(channels.starterMessageId, message.id),
+  });
+  if (existingThread) {
+    return badRequest(request, "A thread has already been started from this message.");
+  }
+
+  const body = await parseJson<unknown>(request);
+  const parsed = createThreadSchema.safeParse(body);
+  if (!parsed.success || (parsed.data.type !== undefined && parsed.data.type !== ChannelType.PUBLIC_THREAD)) {
+    return badRequest(request, "Invalid thread payload.");
+  }
+
+  const thread = await insertThread({
+    parent,
+    ownerId: me.id,
+    name: parsed.data.name,
+    type: ChannelType.PUBLIC_THREAD,
+    autoArchiveDuration: parsed.data.auto_archive_duration ?? DEFAULT_THREAD_AUTO_ARCHIVE_DURATION,
+    starterMessageId: message.id,
+  });
+
+  const payload = await toThreadPayload(thread);
+  const messageUpdate: Pick<MessagePayload, "id" | "channel_id" | "guild_id" | "thread"> = {
+    id: message.id,
+    channel_id: parent.id,
+    guild_id: parent.guildId ?? null,
+    thread: payload,
+  };
+  await emitToChannelAudience(parent, "MESSAGE_UPDATE", messageUpdate);
+  return json(request, payload, { status: 201 });
+};
+
+// A forum post is a public thread whose first message is the post body; posting needs SEND_MESSAGES on the forum.
+const createForumPost = async (request: Request, me: UserSummary, forum: ChannelRow): Promise<Response> => {
+  const body = await parseJson<unknown>(request);
+  const parsed = createForumPostSchema.safeParse(body);
+  if (!parsed.success) {
+    return badRequest(request, "Invalid forum post payload.");
+  }
+
+  const canPost = await hasChannelPermission(me.id, forum.id, PermissionBits.SEND_MESSAGES);
+  if (!canPost) {
+    return forbidden(request, "Missing SEND_MESSAGES.");
+  }
+
+  const canManageThreads = await hasChannelPermission(me.id, forum.id, PermissionBits.MANAGE_THREADS);
+  const appliedTags = resolveAppliedTags(forum.availableTags, parsed.data.applied_tags ?? [], canManageThreads);
+  if ("error" in appliedTags) {
+    return badRequest(request, appliedTags.error);
+  }
+
+  // Forum slowmode paces new posts; replies inside a post follow the post's own.
+  const slowmode = await claimChannelSlowmode(forum, me.id);
+  if ("retryAfter" in slowmode) {
+    return tooManyRequests(request, "You are creating posts too quickly.", slowmode.retryAfter);
+  }
+
+  const thread = await insertThread({
+    parent: forum,
+    ownerId: me.id,
+    name: parsed.data.name,
+    type: ChannelType.PUBLIC_THREAD,
+    autoArchiveDuration: parsed.data.auto_archive_duration ?? DEFAULT_THREAD_AUTO_ARCHIVE_DURATION,
+    starterMessageId: null,
+    appliedTags: appliedTags.tagIds,
+  });
+
+  const result = await createMessageAs(me, thread.id, { content: parsed.data.message.content });
+  if ("error" in result) {
+    // A post without its starter message is not a post; take the empty thread back down.
+    await emitToChannelAudience(thread, "THREAD_DELETE", toGuildChannelPayload(thread));
+    await db.delete(channels).where(eq(channels.id, thread.id));
+    slowmode.release();
+    if (result.status === 429) {
+      return tooManyRequests(request, result.error, result.retryAfter);
+    }
+    return result.status === 403 ? forbidden(request, result.error) : badRequest(request, result.error);
+  }
+
+  const payload: ForumPostPayload = {
+    thread: await toThreadPayload(thread),
+    starter_message: result.message,
+    message_count: 1,
+    last_message_id: result.message.id,
+  };
+  return json(request, payload, { status: 201 });
+};
+
+export const createThread = async (request: BunRequest<"/api/channels/:channelId/threads">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const parent = await resolveThreadParent(request, me.id, request.params.channelId);
+  if (parent instanceof Response) {
+    return parent;
+  }
+
+  if (parent.type === ChannelType.GUILD_FORUM) {
+    return createForumPost(request, me, parent);
+  }
+
+  const body = await parseJson<unknown>(request);
+  const parsed = createThreadSchema.safeParse(body);
+  if (!parsed.success) {
+    return badRequest(request, "Invalid thread payload.");
+  }
+
+  const type = parsed.data.type ?? ChannelType.PUBLIC_THREAD;
+  const requiredPermission =
+    type === ChannelType.PRIVATE_THREAD ? PermissionBits.CREATE_PRIVATE_THREADS : PermissionBits.CREATE_PUBLIC_THREADS;
+  const canCreate = await hasChannelPermission(me.id, parent.id, requiredPermission);
+  if (!canCreate) {
+    return forbidden(
+      request,
+      type === ChannelType.PRIVATE_THREAD ? "Missing CREATE_PRIVATE_THREADS." : "Missing CREATE_PUBLIC_THREADS.",
+    );
+  }
+
+  const thread = await insertThread({
+    parent,
+    ownerId: me.id,
+    name: parsed.data.name,
+    type,
+    autoArchiveDuration: parsed.data.auto_archive_duration ?? DEFAULT_THREAD_AUTO_ARCHIVE_DURATION,
+    starterMessageId: null,
+  });
+
+  // Threads started from a message already show up on it; standalone public ones are announced in the parent.
+  if (type === ChannelType.PUBLIC_THREAD) {
+    await postChannelSystemMessage({
+      channel: parent,
+      authorId: me.id,
+      type: MessageType.THREAD_CREATED,
+      content: thread.name ?? "",
+      mentionChannelIds: [thread.id],
+    });
+  }
+
+  return json(request, await toThreadPayload(thread), { status: 201 });
+};
+
+export const listChannelThreads = async (request: BunRequest<"/api/channels/:channelId/threads">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const parent = await resolveThreadParent(request, me.id, request.params.channelId);
+  if (parent instanceof Response) {
+    return parent;
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const archived = searchParams.get("archived") === "true";
+  const limit = Number(searchParams.get("limit") ?? 50);
+  const boundedLimit = Number.isFinite(limit) ? Math.max(1, Math.min(limit, 100)) : 50;
+
+  const rows = await db
+    .select()
+    .from(channels)
+    .where(
+      and(
+        eq(channels.parentId, parent.id),
+        inArray(channels.type, [...THREAD_CHANNEL_TYPES]),
+        eq(channels.archived, archived),
+      ),
+    )
+    .orderBy(desc(channels.archiveTimestamp), desc(sql`${channels.id}::bigint`))
+    .limit(boundedLimit);
+
+  const canManageThreads = await hasChannelPermission(me.id, parent.id, PermissionBits.MANAGE_THREADS);
+  const privateThreadIds = rows.filter(row => row.type === ChannelType.PRIVATE_THREAD).map(row => row.id);
+  const joinedRows =
+    canManageThreads || privateThreadIds.length === 0
+      ? []
+      : await db
+          .select({ channelId: threadMembers.channelId })
+          .from(threadMembers)
+          .where(and(eq(threadMembers.userId, me.id), inArray(threadMembers.channelId, privateThreadIds)));
+  const joinedThreadIds = new Set(joinedRows.map(row => row.channelId));
+
+  const visible = rows.filter(
+    row => row.type === ChannelType.PUBLIC_THREAD || canManageThreads || joinedThreadIds.has(row.id),
+  );
+  return json(request, await Promise.all(visible.map(toThreadPayload)));
+};
+
+export const listForumPosts = async (request: BunRequest<"/api/channels/:channelId/forum-posts">): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const forum = await resolveThreadParent(request, me.id, request.params.channelId);
+  if (forum instanceof Response) {
+    return forum;
+  }
+
+  if (forum.type !== ChannelType.GUILD_FORUM) {
+    return badRequest(request, "Channel is not a forum.");
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const requestedSortOrder = searchParams.get("sort_order");
+  const sortOrder =
+    toForumSortOrder(requestedSortOrder === null ? forum.defaultSortOrder : Number(requestedSortOrder)) ??
+    ForumSortOrder.LATEST_ACTIVITY;
+  const tagIds = searchParams.getAll("tag_id").filter(tagId => ID_REGEX.test(tagId));
+  const archived = searchParams.get("archived") === "true";
+  const limit = Number(searchParams.get("limit") ?? 25);
+  const boundedLimit = Number.isFinite(limit) ? Math.max(1, Math.min(limit, 100)) : 25;
+
+  // Tag filters match posts carrying any of the requested tags.
+  const tagFilter =
+    tagIds.length > 0
+      ? sql`${channels.appliedTags} ?| array[${sql.join(
+          tagIds.map(tagId => sql`${tagId}`),
+          sql`, `,
+        )}]::text[]`
+      : undefined;
+  const lastActivityId = sql`coalesce(
+    (select max(${messages.id}::bigint) from ${messages} where ${messages.channelId} = ${channels.id}),
+    ${channels.id}::bigint
+  )`;
+
+  const posts = await db
+    .select()
+    .from(channels)
+    .where(
+      and(
+        eq(channels.parentId, forum.id),
+        eq(channels.type, ChannelType.PUBLIC_THREAD),
+        eq(channels.archived, archived),
+        tagFilter,
+      ),
+    )
+    .orderBy(
+      sortOrder === ForumSortOrder.CREATION_DATE ? desc(sql`${channels.id}::bigint`) : desc(lastActivityId),
+      desc(sql`${channels.id}::bigint`),
+    )
+    .limit(boundedLimit);
+  if (posts.length === 0) {
+    return json(request, []);
+  }
+
+  const postIds = posts.map(post => post.id);
+  const stats = await db
+    .select({
+      channelId: messages.channelId,
+      count: sql<number>`count(*)::int`,
+      lastMessageId: sql<string>`max(${messages.id}::bigint)::text`,
+    })
+    .from(messages)
+    .where(inArray(messages.channelId, postIds))
+    .groupBy(messages.channelId);
+  const statsByPostId = new Map(stats.map(row => [row.channelId, row]));
+
+  const starterRows = await db
+    .selectDistinctOn([messages.channelId])
+    .from(messages)
+    .where(inArray(messages.channelId, postIds))
+    .orderBy(messages.channelId, asc(sql`${messages.id}::bigint`));
+  const starterMessages = await hydrateMessagePayloads(starterRows, forum.guildId ?? null, me.id);
+  const starterByPostId = new Map(starterMessages.map(message => [message.channel_id, message]));
+
+  const payload: ForumPostPayload[] = await Promise.all(
+    posts.map(async post => ({
+      thread: await toThreadPayload(post),
+      starter_message: starterByPostId.get(post.id) ?? null,
+      message_count: statsByPostId.get(post.id)?.count ?? 0,
+      last_message_id: statsByPostId.get(post.id)?.lastMessageId ?? null,
+    })),
+  );
+  return json(request, payload);
+};
+
+export const listThreadMembers = async (
+  request: BunRequest<"/api/channels/:channelId/thread-members">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const thread = await resolveThread(request, me.id, request.params.channelId);
+  if (thread instanceof Response) {
+    return thread;
+  }
+
+  const rows = await db
+    .select({
+      member: threadMembers,
+      user: {
+        id: users.id,
+        username: users.username,
+        displayName: users.displayName,
+        avatarUrl: users.avatarUrl,
+        avatarS3Key: users.avatarS3Key,
+      },
+    })
+    .from(threadMembers)
+    .innerJoin(users, eq(users.id, threadMembers.userId))
+    .where(eq(threadMembers.channelId, thread.id))
+    .orderBy(asc(threadMembers.joinedAt), asc(threadMembers.userId));
+
+  return json(
+    request,
+    rows.map(row => ({
+      ...toThreadMemberPayload(row.member),
+      user: toSummary(toUserSummary(row.user)),
+    })),
+  );
+};
+
+export const addChannelThreadMember = async (
+  request: BunRequest<"/api/channels/:channelId/thread-members/:userId">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const targetUserId = request.params.userId === "@me" ? me.id : request.params.userId;
+  if (!targetUserId) {
+    return badRequest(request, "Invalid user id.");
+  }
+
+  // Private threads are invite-only: non-members fail the VIEW_CHANNEL check in resolveThread.
+  const thread = await resolveThread(request, me.id, request.params.channelId);
+  if (thread instanceof Response) {
+    return thread;
+  }
+
+  if (thread.archived) {
+    return badRequest(request, "Cannot join an archived thread.");
+  }
+
+  if (targetUserId !== me.id) {
+    const isMember = await db.query.threadMembers.findFirst({
+      where: and(eq(threadMembers.channelId, thread.id), eq(threadMembers.userId, me.id)),
+    });
+    const canManageThreads = await hasChannelPermission(me.id, thread.id, PermissionBits.MANAGE_THREADS);
+    if (!isMember && !canManageThreads) {
+      return forbidden(request, "Only thread members can add others.");
+    }
+
+    const targetMembership = await db.query.guildMembers.findFirst({
+      where: and(eq(guildMembers.guildId, thread.guildId ?? ""), eq(guildMembers.userId, targetUserId)),
+    });
+    if (!targetMembership || !thread.parentId) {
+      return notFound(request);
+    }
+
+    const targetCanViewParent = await hasChannelPermission(targetUserId, thread.parentId, PermissionBits.VIEW_CHANNEL);
+    if (!targetCanViewParent) {
+      return badRequest(request, "User cannot view the parent channel.");
+    }
+  }
+
+  await addThreadMember(thread, targetUserId);
+  return empty(request, 204);
+};
+
+export const removeChannelThreadMember = async (
+  request: BunRequest<"/api/channels/:channelId/thread-members/:userId">,
+): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const targetUserId = request.params.userId === "@me" ? me.id : request.params.userId;
+  if (!targetUserId) {
+    return badRequest(request, "Invalid user id.");
+  }
+
+  const thread = await resolveThread(request, me.id, request.params.channelId);
+  if (thread instanceof Response) {
+    return thread;
+  }
+
+  if (targetUserId !== me.id) {
+    const canManageThreads = await hasChannelPermission(me.id, thread.id, PermissionBits.MANAGE_THREADS);
+    const ownsPrivateThread = thread.type === ChannelType.PRIVATE_THREAD && thread.ownerId === me.id;
+    if (!canManageThreads && !ownsPrivateThread) {
+      return forbidden(request, "Missing MANAGE_THREADS.");
+    }
+  }
+
+  await removeThreadMember(thread, targetUserId);
+  return empty(request, 204);
+};
+
+let threadArchiveTickRunning = false;
+
+// Archives threads whose newest message (or last unarchive) is older than their auto-archive window.
+const archiveInactiveThreads = async (): Promise<void> => {
+  if (threadArchiveTickRunning) {
+    return;
+  }
+
+  threadArchiveTickRunning = true;
+  try {
+    const lastActivityAt = sql`greatest(
+      coalesce(${channels.archiveTimestamp}, ${channels.createdAt}),
+      coalesce((select max(${messages.createdAt}) from ${messages} where ${messages.channelId} = ${channels.id}), ${channels.createdAt})
+    )`;
+
+    const staleThreads = await db
+      .select()
+      .from(channels)
+      .where(
+        and(
+          inArray(channels.type, [...THREAD_CHANNEL_TYPES]),
+          eq(channels.archived, false),
+          sql`${lastActivityAt} < now() - make_interval(mins => coalesce(${channels.autoArchiveDuration}, ${DEFAULT_THREAD_AUTO_ARCHIVE_DURATION}))`,
+        ),
+      );
+
+    for (const thread of staleThreads) {
+      try {
+        await setThreadArchived(thread, true);
+      } catch (error) {
+        console.error("Failed to archive thread", error);
+      }
+    }
+  } finally {
+    threadArchiveTickRunning = false;
+  }
+};
+
+let threadArchiveTimer: ReturnType<typeof setInterval> | null = null;
+
+export const startThreadArchiveTask = (): void => {
+  if (threadArchiveTimer) {
+    return;
+  }
+
+  void archiveInactiveThreads().catch(error => {
+    console.error("Failed to archive inactive threads", error);
+  });
+  threadArchiveTimer = setInterval(() => {
+    void archiveInactiveThreads().catch(error => {
+      console.error("Failed to archive inactive threads", error);
+    });
+  }, THREAD_ARCHIVE_SWEEP_INTERVAL_MS);
+};
@@ -1,13 +1,13 @@
-import { ChannelType } from "@edgewire/types";
 import type { BunRequest } from "bun";
-import { and, eq, isNull, lt } from "drizzle-orm";
+import { and, eq, isNull, lt, notExists } from "drizzle-orm";
 import { z } from "zod";
 import { db } from "../db";
-import { uploadSessions, userProfiles, users } from "../db/schema";
+import { guildEmojis, uploadSessions, userProfiles, users } from "../db/schema";
 import { env } from "../env";
 import { badRequest, empty, forbidden, json, notFound, parseJson, requireAuth } from "../http";
+import { isNonMessageChannelType } from "../lib/channel-types";
 import { PermissionBits } from "../lib/permissions";
-import { hasChannelPermission } from "../lib/permission-service";
+import { hasChannelPermission, hasGuildPermission } from "../lib/permission-service";
 import { getUserSummaryById, toUserSummary } from "../lib/users";
 import { broadcastUserUpdate, canAccessChannel, nextId, toSummary } from "../runtime";
 import {
@@ -32,6 +32,13 @@ const initiateAttachmentUploadSchema = z.object({
   size: z.number().int().min(1),
 });
 
+const initiateEmojiUploadSchema = z.object({
+  guild_id: z.string().trim().min(1).max(64),
+  filename: z.string().trim().min(1).max(255),
+  content_type: z.string().trim().min(1).max(255),
+  size: z.number().int().min(1),
+});
+
 const normalizeMime = (mime: string | null | undefined): string =>
   (mime ?? "")
     .split(";")[0]
@@ -190,8 +197,8 @@ export const initiateAttachmentUpload = async (request: Request): Promise<Respon
     return forbidden(request);
   }
 
-  if (access.channel.type === ChannelType.GUILD_CATEGORY) {
-    return badRequest(request, "Cannot attach files in a category channel.");
+  if (isNonMessageChannelType(access.channel.type)) {
+    return badRequest(request, "Cannot attach files in this channel type.");
   }
 
   const mime = normalizeMime(parsed.data.content_type);
@@ -242,6 +249,75 @@ export const initiateAttachmentUpload = async (request: Request): Promise<Respon
   );
 };
 
+export const initiateEmojiUpload = async (request: Request): Promise<Response> => {
+  const authResult = await requireAuth(request);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const me = authResult.user;
+  const body = await parseJson<unknown>(request);
+  const parsed = initiateEmojiUploadSchema.safeParse(body);
+  if (!parsed.success) {
+    return badRequest(request, "Invalid emoji upload payload.");
+  }
+
+  const guildId = parsed.data.guild_id;
+  const canManageEmojis = await hasGuildPermission(me.id, guildId, PermissionBits.MANAGE_EMOJIS);
+  if (!canManageEmojis) {
+    return forbidden(request, "Missing MANAGE_EMOJIS.");
+  }
+
+  const mime = normalizeMime(parsed.data.content_type);
+  if (!isMimeAllowed(mime, env.UPLOAD_ALLOWED_EMOJI_MIME)) {
+    return badRequest(request, "Emoji content type is not allowed.");
+  }
+
+  if (parsed.data.size > env.UPLOAD_MAX_EMOJI_BYTES) {
+    return badRequest(request, `Emoji exceeds max upload size (${env.UPLOAD_MAX_EMOJI_BYTES} bytes).`);
+  }
+
+  const uploadId = nextId();
+  const key = makeObjectKey({
+    kind: "emojis",
+    userId: me.id,
+    guildId,
+    filename: parsed.data.filename,
+  });
+  const expiresAt = new Date(Date.now() + env.UPLOAD_PRESIGN_EXPIRES_SECONDS * 1_000);
+
+  await db.insert(uploadSessions).values({
+    id: uploadId,
+    userId: me.id,
+    kind: "emoji",
+    status: "pending",
+    s3Key: key,
+    filename: parsed.data.filename,
+    contentType: mime,
+    expectedSize: parsed.data.size,
+    channelId: null,
+    messageId: null,
+    guildId,
+    expiresAt,
+  });
+
+  const putUrl = presignPut(key, {
+    contentType: mime,
+    acl: avatarsArePublic ? "public-read" : undefined,
+  });
+
+  return json(
+    request,
+    buildUploadInitResponse({
+      uploadId,
+      key,
+      contentType: mime,
+      putUrl,
+      expiresAt,
+    }),
+  );
+};
+
 export const completeUpload = async (request: BunRequest<"/api/uploads/:uploadId/complete">): Promise<Response> => {
   const authResult = await requireAuth(request);
   if (authResult instanceof Response) {
@@ -340,6 +416,35 @@ export const completeUpload = async (request: BunRequest<"/api/uploads/:uploadId
     });
   }
 
+  // Emoji uploads only become emojis once POST /api/guilds/:guildId/emojis claims them.
+  if (session.kind === "emoji") {
+    if (objectStat.size <= 0 || objectStat.size > env.UPLOAD_MAX_EMOJI_BYTES) {
+      return badRequest(request, "Uploaded emoji size is invalid.");
+    }
+
+    if (!isMimeAllowed(detectedMime, env.UPLOAD_ALLOWED_EMOJI_MIME)) {
+      return badRequest(request, "Uploaded emoji type is not allowed.");
+    }
+
+    await db
+      .update(uploadSessions)
+      .set({
+        status: "completed",
+        expectedSize: objectStat.size,
+        contentType: detectedMime || session.contentType,
+        completedAt: new Date(),
+      })
+      .where(eq(uploadSessions.id, session.id));
+
+    return json(request, {
+      upload_id: session.id,
+      kind: "emoji",
+      guild_id: session.guildId,
+      size: objectStat.size,
+      content_type: detectedMime || session.contentType,
+    });
+  }
+
   if (objectStat.size <= 0 || objectStat.size > env.UPLOAD_MAX_ATTACHMENT_BYTES) {
     return badRequest(request, "Uploaded attachment size is invalid.");
   }
@@ -464,6 +569,39 @@ const cleanupExpiredPendingUploads = async (): Promise<void> => {
       await bestEffortDeleteObject(row.s3Key);
     }
   }
+
+  const isUnclaimedEmojiUpload = notExists(
+    db.select({ id: guildEmojis.id }).from(guildEmojis).where(eq(guildEmojis.s3Key, uploadSessions.s3Key)),
+  );
+  const expiredUnclaimedEmojiRows = await db
+    .select({
+      id: uploadSessions.id,
+      s3Key: uploadSessions.s3Key,
+    })
+    .from(uploadSessions)
+    .where(
+      and(
+        eq(uploadSessions.status, "completed"),
+        eq(uploadSessions.kind, "emoji"),
+        lt(uploadSessions.expiresAt, now),
+        isUnclaimedEmojiUpload,
+      ),
+    );
+
+  for (const row of expiredUnclaimedEmojiRows) {
+    const [expired] = await db
+      .update(uploadSessions)
+      .set({
+        status: "expired",
+        completedAt: now,
+      })
+      .where(and(eq(uploadSessions.id, row.id), eq(uploadSessions.status, "completed"), isUnclaimedEmojiUpload))
+      .returning({ id: uploadSessions.id });
+
+    if (expired) {
+      await bestEffortDeleteObject(row.s3Key);
+    }
+  }
 };
 
 let uploadCleanupTimer: ReturnType<typeof setInterval> | null = null;
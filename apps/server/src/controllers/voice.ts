@@ -8,7 +8,7 @@ import { badRequest, forbidden, json, parseJson, requireAuth } from "../http";
 import { createVoiceToken } from "../lib/voice-token";
 import { PermissionBits } from "../lib/permissions";
 import { hasChannelPermission, listVisibleGuildChannelsForUser } from "../lib/permission-service";
-import { getGuildVoiceState, setGuildVoiceChannelState, type GuildVoiceParticipant } from "../voice/state";
+import { getGuildVoiceState, setDmCallState, setGuildVoiceChannelState, type GuildVoiceParticipant } from "../voice/state";
 
 type CreateVoiceTokenBody = {
   kind?: "guild" | "dm";
@@ -230,13 +230,19 @@ export const syncGuildVoiceStateEndpoint = async (
   }
 
   const body = await parseJson<{
-    guild_id?: string;
+    guild_id?: string | null;
     channel_id?: string;
     participants?: GuildVoiceParticipant[];
   }>(request);
 
-  if (!body || !body.guild_id || !body.channel_id || !Array.isArray(body.participants)) {
-    return badRequest(request, "guild_id, channel_id, participants are required.");
+  if (!body || !body.channel_id || !Array.isArray(body.participants)) {
+    return badRequest(request, "channel_id, participants are required.");
+  }
+
+  // Rooms without a guild are DM calls.
+  if (!body.guild_id) {
+    await setDmCallState(body.channel_id, body.participants);
+    return json(request, { ok: true });
   }
 
   await setGuildVoiceChannelState(body.guild_id, body.channel_id, body.participants);
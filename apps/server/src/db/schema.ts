@@ -3,6 +3,7 @@ import {
   check,
   index,
   integer,
+  jsonb,
   type AnyPgColumn,
   pgEnum,
   pgTable,
@@ -11,6 +12,7 @@ import {
   timestamp,
   uniqueIndex,
 } from "drizzle-orm/pg-core";
+import type { AllowedMentions, ForumTag, MessageCrosspostSource, MessageEmbed, PollAnswer } from "@edgewire/types";
 import { sql } from "drizzle-orm";
 
 export const users = pgTable(
@@ -88,6 +90,7 @@ export const guilds = pgTable(
     explicitContentFilter: integer("explicit_content_filter").notNull().default(0),
     preferredLocale: text("preferred_locale").notNull().default("en-US"),
     systemChannelId: text("system_channel_id"),
+    systemChannelFlags: integer("system_channel_flags").notNull().default(0),
     rulesChannelId: text("rules_channel_id"),
     publicUpdatesChannelId: text("public_updates_channel_id"),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
@@ -127,6 +130,17 @@ export const channels = pgTable(
     topic: text("topic"),
     parentId: text("parent_id").references((): AnyPgColumn => channels.id, { onDelete: "set null" }),
     position: integer("position").notNull().default(0),
+    rateLimitPerUser: integer("rate_limit_per_user").notNull().default(0),
+    messageTtl: integer("message_ttl").notNull().default(0),
+    ownerId: text("owner_id").references(() => users.id, { onDelete: "set null" }),
+    starterMessageId: text("starter_message_id").references((): AnyPgColumn => messages.id, { onDelete: "set null" }),
+    archived: boolean("archived").notNull().default(false),
+    autoArchiveDuration: integer("auto_archive_duration"),
+    archiveTimestamp: timestamp("archive_timestamp", { withTimezone: true }),
+    availableTags: jsonb("available_tags").$type<ForumTag[]>().notNull().default(sql`'[]'::jsonb`),
+    appliedTags: jsonb("applied_tags").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+    defaultSortOrder: integer("default_sort_order"),
+    defaultForumLayout: integer("default_forum_layout").notNull().default(0),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   },
   table => [
@@ -134,15 +148,17 @@ export const channels = pgTable(
     index("channels_parent_id_idx").on(table.parentId),
     index("channels_type_idx").on(table.type),
     index("channels_guild_position_idx").on(table.guildId, table.position),
-    check("channels_type_check", sql`${table.type} in (0, 1, 2, 4)`),
+    uniqueIndex("channels_starter_message_id_unique").on(table.starterMessageId),
+    check("channels_type_check", sql`${table.type} in (0, 1, 2, 4, 5, 11, 12, 15)`),
     check(
       "channels_guild_presence_check",
-      sql`((${table.type} in (0, 2, 4) and ${table.guildId} is not null) or (${table.type} = 1 and ${table.guildId} is null))`,
+      sql`((${table.type} in (0, 2, 4, 5, 11, 12, 15) and ${table.guildId} is not null) or (${table.type} = 1 and ${table.guildId} is null))`,
     ),
     check("channels_category_parent_check", sql`(${table.type} <> 4 or ${table.parentId} is null)`),
+    check("channels_thread_parent_check", sql`(${table.type} not in (11, 12) or ${table.parentId} is not null)`),
     check(
       "channels_name_check",
-      sql`((${table.type} = 1 and ${table.name} is null) or (${table.type} in (0, 2, 4) and ${table.name} is not null))`,
+      sql`((${table.type} = 1 and ${table.name} is null) or (${table.type} in (0, 2, 4, 5, 11, 12, 15) and ${table.name} is not null))`,
     ),
   ],
 );
@@ -195,6 +211,7 @@ export const channelMembers = pgTable(
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
     joinedAt: timestamp("joined_at", { withTimezone: true }).notNull().defaultNow(),
+    messageTtl: integer("message_ttl"),
   },
   table => [
     primaryKey({ columns: [table.channelId, table.userId], name: "channel_members_pk" }),
@@ -202,6 +219,23 @@ export const channelMembers = pgTable(
   ],
 );
 
+export const threadMembers = pgTable(
+  "thread_members",
+  {
+    channelId: text("channel_id")
+      .notNull()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    joinedAt: timestamp("joined_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  table => [
+    primaryKey({ columns: [table.channelId, table.userId], name: "thread_members_pk" }),
+    index("thread_members_user_id_idx").on(table.userId),
+  ],
+);
+
 export const messages = pgTable(
   "messages",
   {
@@ -212,21 +246,32 @@ export const messages = pgTable(
     authorId: text("author_id")
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
+    type: integer("type").notNull().default(0),
     content: text("content").notNull(),
     mentionEveryone: boolean("mention_everyone").notNull().default(false),
     mentionUserIds: text("mention_user_ids").array().notNull().default(sql`ARRAY[]::text[]`),
     mentionRoleIds: text("mention_role_ids").array().notNull().default(sql`ARRAY[]::text[]`),
     mentionChannelIds: text("mention_channel_ids").array().notNull().default(sql`ARRAY[]::text[]`),
+    referencedMessageId: text("referenced_message_id"),
+    flags: integer("flags").notNull().default(0),
+    embeds: jsonb("embeds").$type<MessageEmbed[]>().notNull().default(sql`'[]'::jsonb`),
+    crosspostSource: jsonb("crosspost_source").$type<MessageCrosspostSource>(),
+    pinned: boolean("pinned").notNull().default(false),
+    pinnedAt: timestamp("pinned_at", { withTimezone: true }),
+    pinnedBy: text("pinned_by").references(() => users.id, { onDelete: "set null" }),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     editedAt: timestamp("edited_at", { withTimezone: true }),
   },
   table => [
     index("messages_channel_created_idx").on(table.channelId, table.createdAt),
     index("messages_channel_id_idx").on(table.channelId),
+    index("messages_referenced_message_id_idx").on(table.referencedMessageId),
+    index("messages_channel_pinned_idx").on(table.channelId, table.pinnedAt).where(sql`${table.pinned} = true`),
+    index("messages_content_search_idx").using("gin", sql`to_tsvector('simple', ${table.content})`),
   ],
 );
 
-export const uploadSessionKindEnum = pgEnum("upload_session_kind", ["avatar", "attachment"]);
+export const uploadSessionKindEnum = pgEnum("upload_session_kind", ["avatar", "attachment", "emoji"]);
 export const uploadSessionStatusEnum = pgEnum("upload_session_status", ["pending", "completed", "aborted", "expired"]);
 export const attachmentUrlKindEnum = pgEnum("attachment_url_kind", ["presigned", "public"]);
 
@@ -245,6 +290,7 @@ export const uploadSessions = pgTable(
     expectedSize: integer("expected_size"),
     channelId: text("channel_id").references(() => channels.id, { onDelete: "set null" }),
     messageId: text("message_id").references(() => messages.id, { onDelete: "set null" }),
+    guildId: text("guild_id").references(() => guilds.id, { onDelete: "cascade" }),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
     completedAt: timestamp("completed_at", { withTimezone: true }),
@@ -258,6 +304,26 @@ export const uploadSessions = pgTable(
   ],
 );
 
+export const guildEmojis = pgTable(
+  "guild_emojis",
+  {
+    id: text("id").primaryKey(),
+    guildId: text("guild_id")
+      .notNull()
+      .references(() => guilds.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    animated: boolean("animated").notNull().default(false),
+    s3Key: text("s3_key").notNull(),
+    contentType: text("content_type"),
+    createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  table => [
+    uniqueIndex("guild_emojis_guild_name_unique").on(table.guildId, table.name),
+    uniqueIndex("guild_emojis_s3_key_unique").on(table.s3Key),
+  ],
+);
+
 export const messageAttachments = pgTable(
   "message_attachments",
   {
@@ -346,6 +412,264 @@ export const messageMentions = pgTable(
   ],
 );
 
+export const messageReactions = pgTable(
+  "message_reactions",
+  {
+    messageId: text("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    channelId: text("channel_id")
+      .notNull()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    emoji: text("emoji").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  table => [
+    primaryKey({ columns: [table.messageId, table.userId, table.emoji], name: "message_reactions_pk" }),
+    index("message_reactions_message_idx").on(table.messageId),
+    index("message_reactions_message_emoji_idx").on(table.messageId, table.emoji, table.createdAt),
+  ],
+);
+
+export const messagePolls = pgTable(
+  "message_polls",
+  {
+    messageId: text("message_id")
+      .primaryKey()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    channelId: text("channel_id")
+      .notNull()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    question: text("question").notNull(),
+    answers: jsonb("answers").$type<PollAnswer[]>().notNull(),
+    allowMultiselect: boolean("allow_multiselect").notNull().default(false),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    finalizedAt: timestamp("finalized_at", { withTimezone: true }),
+  },
+  table => [
+    index("message_polls_open_expires_at_idx").on(table.expiresAt).where(sql`${table.finalizedAt} is null`),
+  ],
+);
+
+export const pollVotes = pgTable(
+  "poll_votes",
+  {
+    messageId: text("message_id")
+      .notNull()
+      .references(() => messagePolls.messageId, { onDelete: "cascade" }),
+    answerId: integer("answer_id").notNull(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  table => [
+    primaryKey({ columns: [table.messageId, table.userId, table.answerId], name: "poll_votes_pk" }),
+    index("poll_votes_message_answer_idx").on(table.messageId, table.answerId),
+  ],
+);
+
+export const messageRevisions = pgTable(
+  "message_revisions",
+  {
+    id: text("id").primaryKey(),
+    messageId: text("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    channelId: text("channel_id")
+      .notNull()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    content: text("content").notNull(),
+    mentionEveryone: boolean("mention_everyone").notNull().default(false),
+    mentionUserIds: text("mention_user_ids").array().notNull().default(sql`ARRAY[]::text[]`),
+    mentionRoleIds: text("mention_role_ids").array().notNull().default(sql`ARRAY[]::text[]`),
+    mentionChannelIds: text("mention_channel_ids").array().notNull().default(sql`ARRAY[]::text[]`),
+    editedAt: timestamp("edited_at", { withTimezone: true }).notNull(),
+  },
+  table => [index("message_revisions_message_idx").on(table.messageId, table.editedAt)],
+);
+
+export const linkEmbeds = pgTable("link_embeds", {
+  url: text("url").primaryKey(),
+  embed: jsonb("embed").$type<MessageEmbed>(),
+  fetchedAt: timestamp("fetched_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export const scheduledMessageStatusEnum = pgEnum("scheduled_message_status", ["pending", "sending", "failed"]);
+
+export const scheduledMessages = pgTable(
+  "scheduled_messages",
+  {
+    id: text("id").primaryKey(),
+    channelId: text("channel_id")
+      .notNull()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    authorId: text("author_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    content: text("content").notNull().default(""),
+    attachmentUploadIds: jsonb("attachment_upload_ids").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+    allowedMentions: jsonb("allowed_mentions").$type<AllowedMentions>(),
+    scheduledAt: timestamp("scheduled_at", { withTimezone: true }).notNull(),
+    status: scheduledMessageStatusEnum("status").notNull().default("pending"),
+    failureReason: text("failure_reason"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  table => [
+    index("scheduled_messages_status_scheduled_at_idx").on(table.status, table.scheduledAt),
+    index("scheduled_messages_author_id_idx").on(table.authorId),
+  ],
+);
+
+export const channelFollows = pgTable(
+  "channel_follows",
+  {
+    sourceChannelId: text("source_channel_id")
+      .notNull()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    targetChannelId: text("target_channel_id")
+      .notNull()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    userId: text("user_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  table => [
+    primaryKey({ columns: [table.sourceChannelId, table.targetChannelId], name: "channel_follows_pk" }),
+    index("channel_follows_target_idx").on(table.targetChannelId),
+  ],
+);
+
+// Crossposts from a source channel are attributed to one login-less user instead of the original author.
+export const channelFollowAuthors = pgTable(
+  "channel_follow_authors",
+  {
+    sourceChannelId: text("source_channel_id")
+      .primaryKey()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  table => [uniqueIndex("channel_follow_authors_user_unique").on(table.userId)],
+);
+
+// Placeholder users created for Discord authors, so later imports find them by Discord id rather than by username.
+export const discordImportUsers = pgTable(
+  "discord_import_users",
+  {
+    discordUserId: text("discord_user_id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  table => [uniqueIndex("discord_import_users_user_unique").on(table.userId)],
+);
+
+// One row per Discord import; `last_message_id` is where the next import's message ids start after.
+export const discordImports = pgTable("discord_imports", {
+  id: text("id").primaryKey(),
+  guildId: text("guild_id")
+    .notNull()
+    .references(() => guilds.id, { onDelete: "cascade" }),
+  importedBy: text("imported_by").references(() => users.id, { onDelete: "set null" }),
+  lastMessageId: text("last_message_id"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export const messageDrafts = pgTable(
+  "message_drafts",
+  {
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    channelId: text("channel_id")
+      .notNull()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    content: text("content").notNull().default(""),
+    attachmentUploadIds: jsonb("attachment_upload_ids").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  table => [primaryKey({ columns: [table.userId, table.channelId], name: "message_drafts_pk" })],
+);
+
+export const savedMessages = pgTable(
+  "saved_messages",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    messageId: text("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    channelId: text("channel_id")
+      .notNull()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    note: text("note"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  table => [uniqueIndex("saved_messages_user_message_unique").on(table.userId, table.messageId)],
+);
+
+export const messageReminders = pgTable(
+  "message_reminders",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    messageId: text("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    channelId: text("channel_id")
+      .notNull()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    remindAt: timestamp("remind_at", { withTimezone: true }).notNull(),
+    firedAt: timestamp("fired_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  table => [
+    uniqueIndex("message_reminders_user_message_unique").on(table.userId, table.messageId),
+    index("message_reminders_remind_at_idx").on(table.remindAt),
+  ],
+);
+
+export const channelExportFormatEnum = pgEnum("channel_export_format", ["json", "html", "csv"]);
+export const channelExportStatusEnum = pgEnum("channel_export_status", ["pending", "running", "completed", "failed"]);
+
+export const channelExports = pgTable(
+  "channel_exports",
+  {
+    id: text("id").primaryKey(),
+    channelId: text("channel_id")
+      .notNull()
+      .references(() => channels.id, { onDelete: "cascade" }),
+    requestedBy: text("requested_by")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    format: channelExportFormatEnum("format").notNull(),
+    bundleAttachments: boolean("bundle_attachments").notNull().default(false),
+    after: timestamp("after", { withTimezone: true }),
+    before: timestamp("before", { withTimezone: true }),
+    status: channelExportStatusEnum("status").notNull().default("pending"),
+    s3Key: text("s3_key"),
+    messageCount: integer("message_count").notNull().default(0),
+    failureReason: text("failure_reason"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+  },
+  table => [
+    index("channel_exports_status_created_at_idx").on(table.status, table.createdAt),
+    index("channel_exports_channel_requested_by_idx").on(table.channelId, table.requestedBy),
+  ],
+);
+
 export const userGuildNotificationSettings = pgTable(
   "user_guild_notification_settings",
   {
@@ -435,12 +759,25 @@ export const schema = {
   guildMemberRoles,
   channels,
   channelMembers,
+  threadMembers,
   messages,
   uploadSessions,
   messageAttachments,
   messageReads,
   channelReads,
   messageMentions,
+  messageReactions,
+  messagePolls,
+  pollVotes,
+  messageRevisions,
+  linkEmbeds,
+  guildEmojis,
+  scheduledMessages,
+  messageDrafts,
+  savedMessages,
+  messageReminders,
+  channelExports,
+  channelFollows,
   userGuildNotificationSettings,
   userChannelNotificationSettings,
   channelPermissionOverwrites,
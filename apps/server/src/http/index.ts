@@ -97,6 +97,13 @@ export const forbidden = (request: Request, error = "Forbidden"): Response =>
 export const notFound = (request: Request): Response =>
   json(request, { error: "Not found" }, { status: 404 });
 
+export const tooManyRequests = (request: Request, error: string, retryAfterSeconds: number): Response =>
+  json(
+    request,
+    { error, retry_after: retryAfterSeconds },
+    { status: 429, headers: { "Retry-After": String(Math.ceil(retryAfterSeconds)) } },
+  );
+
 export const requireAuth = async (
   request: Request,
 ): Promise<Response | { user: NonNullable<Awaited<ReturnType<typeof getAuthedUser>>> }> => {
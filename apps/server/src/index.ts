@@ -1,8 +1,14 @@
 import type { GatewayPacket } from "@edgewire/types";
+import { startChannelExportTask } from "./controllers/channel-exports";
 import { apiNotFoundAfterAuth, internalServerError } from "./controllers/common";
+import { startPollExpiryTask } from "./controllers/polls";
+import { startReminderTask } from "./controllers/reminders";
+import { startScheduledMessageTask } from "./controllers/scheduled-messages";
+import { startThreadArchiveTask } from "./controllers/threads";
 import { startUploadCleanupTask } from "./controllers/uploads";
 import { env } from "./env";
 import { corsPreflight } from "./http";
+import { startMessageExpiryTask } from "./lib/message-expiry";
 import { getUserSummaryById } from "./lib/users";
 import { routes } from "./routes";
 import {
@@ -30,6 +36,12 @@ import {
 } from "./runtime";
 
 startUploadCleanupTask();
+startThreadArchiveTask();
+startScheduledMessageTask();
+startPollExpiryTask();
+startReminderTask();
+startMessageExpiryTask();
+startChannelExportTask();
 
 const PRESENCE_STALE_MS = 45_000;
 const PRESENCE_CLEANUP_INTERVAL_MS = 15_000;
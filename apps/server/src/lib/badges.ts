@@ -2,6 +2,7 @@ import { ChannelType, type BadgesPayload, type ChannelBadgePayload, type GuildBa
 import { and, eq, inArray, sql } from "drizzle-orm";
 import { db } from "../db";
 import { channelMembers, channelReads, channels, guildMembers, messages } from "../db/schema";
+import { isNonMessageChannelType, isTextChannelType } from "./channel-types";
 import { listVisibleGuildChannelsForUser } from "./permission-service";
 import { emitToUsers } from "../runtime";
 
@@ -121,7 +122,7 @@ export const listBadgesForUser = async (userId: string): Promise<BadgesPayload>
   const visibleGuildChannels = await Promise.all(
     guildIds.map(async guildId => {
       const visible = await listVisibleGuildChannelsForUser(userId, guildId);
-      return visible.filter(channel => channel.type === ChannelType.GUILD_TEXT);
+      return visible.filter(channel => isTextChannelType(channel.type));
     }),
   );
 
@@ -200,3 +201,139 @@ export const listBadgesForUser = async (userId: string): Promise<BadgesPayload>
     guilds: guildBadges,
   };
 };
+
+/**
+ * Lists the channels a bulk ack covers: every visible message channel (including active threads) in
+ * one guild, or every DM when `guildId` is null.
+ */
+export const listAckableChannelIdsForUser = async (userId: string, guildId: string | null): Promise<string[]> => {
+  if (guildId) {
+    const visible = await listVisibleGuildChannelsForUser(userId, guildId);
+    return visible.filter(channel => !isNonMessageChannelType(channel.type)).map(channel => channel.id);
+  }
+
+  const dmRows = await db
+    .select({ channelId: channelMembers.channelId })
+    .from(channelMembers)
+    .innerJoin(channels, eq(channelMembers.channelId, channels.id))
+    .where(and(eq(channelMembers.userId, userId), eq(channels.type, ChannelType.DM)));
+  return unique(dmRows.map(row => row.channelId));
+};
+
+/**
+ * Advances the user's read state in every given channel to its latest message and zeroes the counts.
+ * Only channels that actually changed produce `READ_STATE_UPDATE` and `CHANNEL_BADGE_UPDATE` events,
+ * followed by a single `GUILD_BADGE_UPDATE` per affected guild.
+ */
+export const ackChannelsForUser = async (userId: string, channelIds: string[]): Promise<BadgesPayload> => {
+  const ids = unique(channelIds);
+  if (ids.length === 0) {
+    return { channels: [], guilds: [] };
+  }
+
+  const channelRows = await db
+    .select({ id: channels.id, guildId: channels.guildId })
+    .from(channels)
+    .where(inArray(channels.id, ids));
+  if (channelRows.length === 0) {
+    return { channels: [], guilds: [] };
+  }
+
+  const foundChannelIds = channelRows.map(channel => channel.id);
+  const now = new Date();
+
+  // Sends bump these read rows inside their own transaction, so the rows are created if missing and locked first.
+  // A send then either commits before the latest ids are read (and is covered by the ack) or waits and stays unread.
+  const { changed, lastMessageByChannelId } = await db.transaction(async tx => {
+    await tx
+      .insert(channelReads)
+      .values(channelRows.map(channel => ({ userId, channelId: channel.id, lastReadAt: now, updatedAt: now })))
+      .onConflictDoNothing();
+    const readRows = await tx
+      .select()
+      .from(channelReads)
+      .where(and(eq(channelReads.userId, userId), inArray(channelReads.channelId, foundChannelIds)))
+      .for("update");
+    const lastMessageRows = await tx
+      .select({
+        channelId: messages.channelId,
+        lastMessageId: sql<string | null>`max(${messages.id}::bigint)::text`,
+      })
+      .from(messages)
+      .where(inArray(messages.channelId, foundChannelIds))
+      .groupBy(messages.channelId);
+
+    const readByChannelId = new Map(readRows.map(row => [row.channelId, row]));
+    const lastMessageByChannelId = new Map(lastMessageRows.map(row => [row.channelId, row.lastMessageId]));
+
+    const changed = channelRows.filter(channel => {
+      const read = readByChannelId.get(channel.id);
+      const lastMessageId = lastMessageByChannelId.get(channel.id) ?? null;
+      return (
+        (read?.unreadCount ?? 0) > 0 ||
+        (read?.mentionCount ?? 0) > 0 ||
+        (lastMessageId !== null && read?.lastReadMessageId !== lastMessageId)
+      );
+    });
+    if (changed.length === 0) {
+      return { changed, lastMessageByChannelId };
+    }
+
+    await tx
+      .insert(channelReads)
+      .values(
+        changed.map(channel => ({
+          userId,
+          channelId: channel.id,
+          lastReadMessageId:
+            lastMessageByChannelId.get(channel.id) ?? readByChannelId.get(channel.id)?.lastReadMessageId ?? null,
+          lastReadAt: now,
+          unreadCount: 0,
+          mentionCount: 0,
+          updatedAt: now,
+        })),
+      )
+      .onConflictDoUpdate({
+        target: [channelReads.userId, channelReads.channelId],
+        set: {
+          lastReadMessageId: sql`excluded.last_read_message_id`,
+          lastReadAt: now,
+          unreadCount: 0,
+          mentionCount: 0,
+          updatedAt: now,
+        },
+      });
+    return { changed, lastMessageByChannelId };
+  });
+  if (changed.length === 0) {
+    return { channels: [], guilds: [] };
+  }
+
+  const channelBadges: ChannelBadgePayload[] = changed.map(channel => ({
+    channel_id: channel.id,
+    guild_id: channel.guildId,
+    unread_count: 0,
+    mention_count: 0,
+    last_message_id: lastMessageByChannelId.get(channel.id) ?? null,
+  }));
+
+  for (const badge of channelBadges) {
+    emitToUsers([userId], "READ_STATE_UPDATE", {
+      channel_id: badge.channel_id,
+      user_id: userId,
+      last_read_message_id: badge.last_message_id,
+    });
+    emitToUsers([userId], "CHANNEL_BADGE_UPDATE", badge);
+  }
+
+  const guildBadges = await Promise.all(
+    unique(channelBadges.flatMap(badge => (badge.guild_id ? [badge.guild_id] : []))).map(guildId =>
+      getGuildBadgeForUser(userId, guildId),
+    ),
+  );
+  for (const guildBadge of guildBadges) {
+    emitToUsers([userId], "GUILD_BADGE_UPDATE", guildBadge);
+  }
+
+  return { channels: channelBadges, guilds: guildBadges };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "bun:test";
+import { createExportRenderer, escapeCsvField, type ExportHeader, type ExportMessage } from "./channel-export";
+
+const header: ExportHeader = {
+  exported_at: "2026-01-02T00:00:00.000Z",
+  channel: { id: "10", name: "incidents", guild_id: "1", guild_name: "Ops" },
+  after: null,
+  before: null,
+};
+
+const makeMessage = (id: string, content: string): ExportMessage => ({
+  id,
+  type: 0,
+  timestamp: "2026-01-01T12:00:00.000Z",
+  edited_timestamp: null,
+  author: { id: "5", username: "ada", display_name: "Ada" },
+  content,
+  mention_everyone: false,
+  mentions: [{ id: "6", username: "bob", display_name: "Bob <3" }],
+  mention_roles: [],
+  mention_channels: [],
+  attachments: [],
+  edits: [{ content: "first draft", edited_at: "2026-01-01T12:01:00.000Z" }],
+  reference_message_id: null,
+  pinned: false,
+});
+
+const render = (format: "json" | "csv" | "html", messages: ExportMessage[]): string => {
+  const renderer = createExportRenderer(format, header);
+  const body = messages
+    .map(
+      (message, index) =>
+        renderer.messageStart(message, index) +
+        message.attachments.map(renderer.attachment).join("") +
+        renderer.messageEnd(message),
+    )
+    .join("");
+  return renderer.begin() + body + renderer.end(messages.length);
+};
+
+describe("channel export", () => {
+  it("streams a single valid JSON document", () => {
+    const withAttachments: ExportMessage = {
+      ...makeMessage("21", "there"),
+      attachments: [
+        { id: "30", filename: "a.txt", size: 1, content_type: "text/plain", url: "https://api.example/a" },
+        { id: "31", filename: "b.png", size: 2, content_type: "image/png", url: "https://api.example/b", data_url: "data:," },
+      ],
+    };
+    const parsed = JSON.parse(render("json", [makeMessage("20", "hi"), withAttachments]));
+    expect(parsed.channel.name).toBe("incidents");
+    expect(parsed.messages.map((message: ExportMessage) => message.id)).toEqual(["20", "21"]);
+    expect(parsed.messages[0].attachments).toEqual([]);
+    expect(parsed.messages[1].attachments).toEqual(withAttachments.attachments);
+    expect(parsed.message_count).toBe(2);
+  });
+
+  it("quotes CSV fields that contain separators, quotes or newlines", () => {
+    expect(escapeCsvField("plain")).toBe("plain");
+    expect(escapeCsvField('say "hi", then\nleave')).toBe('"say ""hi"", then\nleave"');
+
+    const rows = render("csv", [makeMessage("20", "a,b")]).split("\r\n");
+    expect(rows[0]?.startsWith("id,timestamp,")).toBe(true);
+    expect(rows[1]?.startsWith('20,2026-01-01T12:00:00.000Z,,5,ada,Ada,"a,b",false,6,')).toBe(true);
+  });
+
+  it("escapes HTML and resolves user mentions to names", () => {
+    const html = render("html", [makeMessage("20", "<script>x</script> ping <@6>")]);
+    expect(html).toContain("&lt;script&gt;x&lt;/script&gt;");
+    expect(html).toContain('<span class="mention">@Bob &lt;3</span>');
+    expect(html).toContain("1 earlier version");
+    expect(html).not.toContain("<script>");
+  });
+});
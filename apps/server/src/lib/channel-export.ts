@@ -0,0 +1,251 @@
+import type { ChannelExportFormat, MessagePayload } from "@edgewire/types";
+import { env } from "../env";
+
+export type ExportUser = {
+  id: string;
+  username: string;
+  display_name: string;
+};
+
+export type ExportAttachment = {
+  id: string;
+  filename: string;
+  size: number;
+  content_type: string | null;
+  url: string;
+  data_url?: string;
+};
+
+// Earlier versions of the message; `edited_at` is when each one was replaced.
+export type ExportEdit = {
+  content: string;
+  edited_at: string;
+};
+
+export type ExportMessage = {
+  id: string;
+  type: number;
+  timestamp: string;
+  edited_timestamp: string | null;
+  author: ExportUser;
+  content: string;
+  mention_everyone: boolean;
+  mentions: ExportUser[];
+  mention_roles: string[];
+  mention_channels: string[];
+  attachments: ExportAttachment[];
+  edits: ExportEdit[];
+  reference_message_id: string | null;
+  pinned: boolean;
+};
+
+export type ExportHeader = {
+  exported_at: string;
+  channel: {
+    id: string;
+    name: string | null;
+    guild_id: string | null;
+    guild_name: string | null;
+  };
+  after: string | null;
+  before: string | null;
+};
+
+/**
+ * A message is written as its opening, then each attachment, then its closing, so a bundled
+ * export only ever holds one encoded file in memory.
+ */
+export type ExportRenderer = {
+  contentType: string;
+  extension: string;
+  begin: () => string;
+  messageStart: (message: ExportMessage, index: number) => string;
+  attachment: (attachment: ExportAttachment, index: number) => string;
+  messageEnd: (message: ExportMessage) => string;
+  end: (messageCount: number) => string;
+};
+
+const toExportUser = (user: ExportUser): ExportUser => ({
+  id: user.id,
+  username: user.username,
+  display_name: user.display_name,
+});
+
+// Presigned download URLs expire within minutes, so exports link through the API, which re-signs on every visit.
+export const toExportAttachmentUrl = (channelId: string, attachmentId: string): string =>
+  `${env.API_PUBLIC_URL}/api/channels/${channelId}/attachments/${attachmentId}`;
+
+export const toExportMessage = (payload: MessagePayload, edits: ExportEdit[]): ExportMessage => ({
+  id: payload.id,
+  type: payload.type,
+  timestamp: payload.timestamp,
+  edited_timestamp: payload.edited_timestamp,
+  author: toExportUser(payload.author),
+  content: payload.content,
+  mention_everyone: payload.mention_everyone,
+  mentions: payload.mentions.map(toExportUser),
+  mention_roles: payload.mention_roles,
+  mention_channels: payload.mention_channels.map(channel => channel.id),
+  attachments: payload.attachments.map(attachment => ({
+    id: attachment.id,
+    filename: attachment.filename,
+    size: attachment.size,
+    content_type: attachment.content_type ?? null,
+    url: toExportAttachmentUrl(payload.channel_id, attachment.id),
+  })),
+  edits,
+  reference_message_id: payload.message_reference?.message_id ?? null,
+  pinned: payload.pinned,
+});
+
+// Attachments are the last key of each message object so they can be written one by one.
+const jsonRenderer = (header: ExportHeader): ExportRenderer => ({
+  contentType: "application/json",
+  extension: "json",
+  begin: () => `${JSON.stringify(header).slice(0, -1)},"messages":[`,
+  messageStart: ({ attachments: _attachments, ...message }, index) =>
+    `${index > 0 ? "," : ""}\n${JSON.stringify(message).slice(0, -1)},"attachments":[`,
+  attachment: (attachment, index) => `${index > 0 ? "," : ""}${JSON.stringify(attachment)}`,
+  messageEnd: () => "]}",
+  end: messageCount => `\n],"message_count":${messageCount}}\n`,
+});
+
+export const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsvRow = (fields: string[]): string => `${fields.map(escapeCsvField).join(",")}\r\n`;
+
+const CSV_COLUMNS = [
+  "id",
+  "timestamp",
+  "edited_timestamp",
+  "author_id",
+  "author_username",
+  "author_display_name",
+  "content",
+  "mention_everyone",
+  "mentioned_user_ids",
+  "mentioned_role_ids",
+  "attachment_urls",
+  "edits",
+  "reference_message_id",
+];
+
+// CSV has no room for bundled files, so attachments are always listed by URL, one per line.
+const csvRenderer = (): ExportRenderer => ({
+  contentType: "text/csv; charset=utf-8",
+  extension: "csv",
+  begin: () => toCsvRow(CSV_COLUMNS),
+  messageStart: message =>
+    toCsvRow([
+      message.id,
+      message.timestamp,
+      message.edited_timestamp ?? "",
+      message.author.id,
+      message.author.username,
+      message.author.display_name,
+      message.content,
+      String(message.mention_everyone),
+      message.mentions.map(user => user.id).join(" "),
+      message.mention_roles.join(" "),
+      message.attachments.map(attachment => attachment.url).join("\n"),
+      message.edits.length > 0 ? JSON.stringify(message.edits) : "",
+      message.reference_message_id ?? "",
+    ]),
+  attachment: () => "",
+  messageEnd: () => "",
+  end: () => "",
+});
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const HTML_STYLES = `
+body { margin: 0; font: 14px/1.45 system-ui, sans-serif; color: #1f2328; background: #fff; }
+header, main, footer { max-width: 960px; margin: 0 auto; padding: 16px; }
+header { border-bottom: 1px solid #d0d7de; }
+h1 { margin: 0 0 4px; font-size: 20px; }
+.muted { color: #656d76; font-size: 12px; }
+article { padding: 8px 0; border-bottom: 1px solid #eaeef2; }
+.content { white-space: pre-wrap; overflow-wrap: anywhere; margin-top: 2px; }
+.mention { background: #ddf4ff; border-radius: 3px; padding: 0 2px; }
+.attachments img { display: block; max-width: 100%; max-height: 320px; margin-top: 6px; }
+.attachments a { display: block; margin-top: 4px; }
+details { margin-top: 4px; }
+details .content { border-left: 2px solid #d0d7de; padding-left: 8px; }
+`;
+
+const renderHtmlContent = (message: ExportMessage): string => {
+  const names = new Map(message.mentions.map(user => [user.id, user.display_name]));
+  return escapeHtml(message.content).replace(/&lt;@!?(\d+)&gt;/g, (token, userId: string) => {
+    const name = names.get(userId);
+    return name ? `<span class="mention">@${escapeHtml(name)}</span>` : token;
+  });
+};
+
+const renderHtmlAttachment = (attachment: ExportAttachment): string => {
+  const href = escapeHtml(attachment.data_url ?? attachment.url);
+  const filename = escapeHtml(attachment.filename);
+  if (attachment.content_type?.startsWith("image/")) {
+    return `<a href="${href}" download="${filename}"><img src="${href}" alt="${filename}"></a>`;
+  }
+  return `<a href="${href}" download="${filename}">${filename} (${attachment.size} bytes)</a>`;
+};
+
+const renderHtmlEdits = (message: ExportMessage): string => {
+  if (message.edits.length === 0) {
+    return "";
+  }
+
+  const items = message.edits
+    .map(
+      edit =>
+        `<li><time class="muted" datetime="${edit.edited_at}">Replaced ${edit.edited_at}</time><div class="content">${escapeHtml(edit.content)}</div></li>`,
+    )
+    .join("");
+  const label = message.edits.length === 1 ? "1 earlier version" : `${message.edits.length} earlier versions`;
+  return `<details><summary class="muted">${label}</summary><ol>${items}</ol></details>`;
+};
+
+// Inline styles and (optionally) data-URL attachments keep the file viewable offline on its own.
+const htmlRenderer = (header: ExportHeader): ExportRenderer => {
+  const title = header.channel.name
+    ? `#${header.channel.name}${header.channel.guild_name ? ` · ${header.channel.guild_name}` : ""}`
+    : "Direct Messages";
+  const range = [header.after ? `from ${header.after}` : null, header.before ? `until ${header.before}` : null]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    contentType: "text/html; charset=utf-8",
+    extension: "html",
+    begin: () =>
+      `<!doctype html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n<title>${escapeHtml(title)}</title>\n<style>${HTML_STYLES}</style>\n</head>\n<body>\n<header><h1>${escapeHtml(title)}</h1><p class="muted">Exported ${header.exported_at}${range ? ` · ${escapeHtml(range)}` : ""}</p></header>\n<main>\n`,
+    messageStart: message => {
+      const edited = message.edited_timestamp
+        ? ` <span class="muted" title="${message.edited_timestamp}">(edited)</span>`
+        : "";
+      return `<article id="message-${message.id}"><div><strong>${escapeHtml(message.author.display_name)}</strong> <span class="muted">@${escapeHtml(message.author.username)} · <time datetime="${message.timestamp}">${message.timestamp}</time></span>${edited}</div><div class="content">${renderHtmlContent(message)}</div><div class="attachments">`;
+    },
+    attachment: renderHtmlAttachment,
+    messageEnd: message => `</div>${renderHtmlEdits(message)}</article>\n`,
+    end: messageCount =>
+      `</main>\n<footer class="muted">${messageCount} ${messageCount === 1 ? "message" : "messages"}</footer>\n</body>\n</html>\n`,
+  };
+};
+
+export const createExportRenderer = (format: ChannelExportFormat, header: ExportHeader): ExportRenderer => {
+  switch (format) {
+    case "json":
+      return jsonRenderer(header);
+    case "csv":
+      return csvRenderer();
+    case "html":
+      return htmlRenderer(header);
+  }
+};
@@ -0,0 +1,19 @@
+import { ChannelType } from "@edgewire/types";
+
+export const TEXT_CHANNEL_TYPES = [ChannelType.GUILD_TEXT, ChannelType.GUILD_ANNOUNCEMENT] as const;
+
+// Every guild channel type that is not a thread.
+export const GUILD_LEVEL_CHANNEL_TYPES = [
+  ...TEXT_CHANNEL_TYPES,
+  ChannelType.GUILD_VOICE,
+  ChannelType.GUILD_CATEGORY,
+  ChannelType.GUILD_FORUM,
+] as const;
+
+// Announcement channels behave like text channels everywhere except publishing.
+export const isTextChannelType = (type: number): boolean =>
+  type === ChannelType.GUILD_TEXT || type === ChannelType.GUILD_ANNOUNCEMENT;
+
+// Voice channels, categories and forums hold no messages of their own; forum messages live in their post threads.
+export const isNonMessageChannelType = (type: number): boolean =>
+  type === ChannelType.GUILD_VOICE || type === ChannelType.GUILD_CATEGORY || type === ChannelType.GUILD_FORUM;
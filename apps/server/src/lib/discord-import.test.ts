@@ -0,0 +1,70 @@
+import { describe, expect, it } from "bun:test";
+import { createImportIdAllocator, discordExportSchema, rewriteDiscordMentions } from "./discord-import";
+import { nextSnowflake } from "./snowflake";
+
+describe("discord import", () => {
+  it("allocates ids in chronological order that sort before live ids", () => {
+    const allocate = createImportIdAllocator();
+    const ids = [
+      Date.parse("2018-05-01T00:00:00Z"),
+      Date.parse("2019-01-01T00:00:00Z"),
+      Date.parse("2024-03-01T10:00:00Z"),
+      Date.parse("2024-03-01T10:00:00Z"),
+      Date.parse("2024-03-01T10:00:00.001Z"),
+    ].map(timestamp => BigInt(allocate(timestamp)));
+
+    for (let index = 1; index < ids.length; index += 1) {
+      expect(ids[index]! > ids[index - 1]!).toBe(true);
+    }
+    expect(ids.at(-1)! < nextSnowflake()).toBe(true);
+  });
+
+  it("keeps a later import's ids clear of an earlier one's", () => {
+    const first = createImportIdAllocator();
+    const firstIds = [
+      Date.parse("2019-01-01T00:00:00Z"),
+      Date.parse("2020-06-01T00:00:00Z"),
+      Date.parse("2024-03-01T10:00:00Z"),
+    ].map(timestamp => BigInt(first(timestamp)));
+
+    const second = createImportIdAllocator(firstIds.at(-1)!);
+    const secondIds = [
+      Date.parse("2019-01-01T00:00:00Z"),
+      Date.parse("2020-06-01T00:00:00Z"),
+      Date.parse("2024-03-01T10:00:00Z"),
+      Date.parse("2024-03-02T10:00:00Z"),
+    ].map(timestamp => BigInt(second(timestamp)));
+
+    expect(new Set([...firstIds, ...secondIds]).size).toBe(firstIds.length + secondIds.length);
+    for (let index = 1; index < secondIds.length; index += 1) {
+      expect(secondIds[index]! > secondIds[index - 1]!).toBe(true);
+    }
+    expect(secondIds[0]! > firstIds.at(-1)!).toBe(true);
+    expect(secondIds.at(-1)! < nextSnowflake()).toBe(true);
+  });
+
+  it("rewrites mention tokens that point into the import", () => {
+    const idMap = new Map([
+      ["111", "9001"],
+      ["222", "9002"],
+      ["333", "9003"],
+    ]);
+    const rewritten = rewriteDiscordMentions("hi <@!111> and <@&222> in <#333>, not <@444>", idMap);
+
+    expect(rewritten.content).toBe("hi <@9001> and <@&9002> in <#9003>, not <@444>");
+    expect(rewritten.userIds).toEqual(["9001"]);
+    expect(rewritten.roleIds).toEqual(["9002"]);
+    expect(rewritten.channelIds).toEqual(["9003"]);
+  });
+
+  it("rejects exports with malformed timestamps", () => {
+    const makeExport = (timestamp: string) => ({
+      guild: { id: "1", name: "Guild" },
+      channel: { id: "2", type: "GuildTextChat", name: "general" },
+      messages: [{ id: "3", type: "Default", timestamp, content: "hi", author: { id: "4", name: "ada" } }],
+    });
+
+    expect(discordExportSchema.safeParse(makeExport("2020-09-12T14:45:37.1234567+00:00")).success).toBe(true);
+    expect(discordExportSchema.safeParse(makeExport("yesterday")).success).toBe(false);
+  });
+});
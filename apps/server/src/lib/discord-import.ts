@@ -0,0 +1,360 @@
+import { ChannelType, MessageType, type DiscordImportPayload } from "@edgewire/types";
+import { inArray, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db";
+import {
+  channels,
+  discordImports,
+  discordImportUsers,
+  guildMembers,
+  guildRoles,
+  guilds,
+  messages,
+  users,
+} from "../db/schema";
+import { normalizeName, nextId } from "../runtime";
+import { defaultEveryonePermissions } from "./permissions";
+import { IMPORT_MACHINE_ID, snowflakeAt } from "./snowflake";
+import { DISCORD_PLACEHOLDER_USERNAME_PREFIX } from "./users";
+
+const MESSAGE_INSERT_BATCH_SIZE = 500;
+const PLACEHOLDER_DISPLAY_NAME_MAX_LENGTH = 32;
+
+const discordRoleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.string().nullable().optional(),
+  position: z.number().optional(),
+});
+
+const discordUserSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  nickname: z.string().nullable().optional(),
+  avatarUrl: z.string().nullable().optional(),
+  roles: z.array(discordRoleSchema).optional(),
+});
+
+const discordMessageSchema = z.object({
+  id: z.string().regex(/^\d+$/),
+  type: z.string(),
+  timestamp: z.string().datetime({ offset: true }),
+  timestampEdited: z.string().datetime({ offset: true }).nullable().optional(),
+  isPinned: z.boolean().optional(),
+  content: z.string(),
+  author: discordUserSchema,
+  attachments: z.array(z.object({ url: z.string(), fileName: z.string() })).optional(),
+  mentions: z.array(discordUserSchema).optional(),
+  reference: z.object({ messageId: z.string().nullable().optional() }).nullable().optional(),
+});
+
+// One DiscordChatExporter JSON file covers a single channel; a guild is imported from several of them.
+export const discordExportSchema = z.object({
+  guild: z.object({ id: z.string(), name: z.string() }),
+  channel: z.object({
+    id: z.string(),
+    type: z.string(),
+    categoryId: z.string().nullable().optional(),
+    category: z.string().nullable().optional(),
+    name: z.string(),
+    topic: z.string().nullable().optional(),
+  }),
+  messages: z.array(discordMessageSchema),
+});
+
+export type DiscordExport = z.infer<typeof discordExportSchema>;
+
+type DiscordMessage = z.infer<typeof discordMessageSchema>;
+
+const IMPORTED_CHANNEL_TYPES: Record<string, number> = {
+  GuildTextChat: ChannelType.GUILD_TEXT,
+  GuildNews: ChannelType.GUILD_ANNOUNCEMENT,
+};
+
+// Replies are ordinary messages with a reference here; other Discord types (joins, boosts, ...) have no equivalent.
+const IMPORTED_MESSAGE_TYPES = new Set(["Default", "Reply"]);
+
+/**
+ * Hands out message ids that follow the original timestamps. `nextSnowflake` only knows "now", so
+ * backfilled history would otherwise sort after anything posted before the import. Messages must be
+ * passed in chronological order; ties, pre-epoch times and anything at or below `after` (the last id
+ * an earlier import used) get the next free id.
+ */
+export const createImportIdAllocator = (after = -1n): ((timestamp: number) => string) => {
+  let previous = after;
+  return timestamp => {
+    const candidate = snowflakeAt(timestamp, IMPORT_MACHINE_ID);
+    previous = candidate > previous ? candidate : previous + 1n;
+    return previous.toString();
+  };
+};
+
+type RewrittenContent = {
+  content: string;
+  userIds: string[];
+  roleIds: string[];
+  channelIds: string[];
+};
+
+// Swaps Discord ids in mention tokens for the imported ones; tokens that point outside the import are left as they were.
+export const rewriteDiscordMentions = (content: string, idMap: Map<string, string>): RewrittenContent => {
+  const userIds = new Set<string>();
+  const roleIds = new Set<string>();
+  const channelIds = new Set<string>();
+
+  const rewritten = content.replace(/<(@!?|@&|#)(\d+)>/g, (token, prefix: string, discordId: string) => {
+    const id = idMap.get(discordId);
+    if (!id) {
+      return token;
+    }
+    if (prefix === "@&") {
+      roleIds.add(id);
+      return `<@&${id}>`;
+    }
+    if (prefix === "#") {
+      channelIds.add(id);
+      return `<#${id}>`;
+    }
+    userIds.add(id);
+    return `<@${id}>`;
+  });
+
+  return { content: rewritten, userIds: [...userIds], roleIds: [...roleIds], channelIds: [...channelIds] };
+};
+
+const parseRoleColor = (color: string | null | undefined): number | null => {
+  const match = color?.match(/^#([0-9a-f]{6})$/i);
+  return match?.[1] ? Number.parseInt(match[1], 16) : null;
+};
+
+const toPlaceholderUsername = (id: string): string => `${DISCORD_PLACEHOLDER_USERNAME_PREFIX}${id}`;
+
+const toTimestamp = (value: string): number => new Date(value).getTime();
+
+// Attachments stay on Discord's CDN; their links are appended to the message text.
+const toMessageRow = (
+  message: DiscordMessage,
+  channelDiscordId: string,
+  idMap: Map<string, string>,
+): typeof messages.$inferInsert => {
+  const rewritten = rewriteDiscordMentions(message.content, idMap);
+  const mentionUserIds = new Set(rewritten.userIds);
+  for (const mentioned of message.mentions ?? []) {
+    const id = idMap.get(mentioned.id);
+    if (id) {
+      mentionUserIds.add(id);
+    }
+  }
+
+  const attachmentLinks = (message.attachments ?? []).map(attachment => attachment.url);
+  const createdAt = new Date(message.timestamp);
+  const referencedMessageId = message.reference?.messageId ? (idMap.get(message.reference.messageId) ?? null) : null;
+
+  return {
+    id: idMap.get(message.id) ?? nextId(),
+    channelId: idMap.get(channelDiscordId) ?? "",
+    authorId: idMap.get(message.author.id) ?? "",
+    type: MessageType.DEFAULT,
+    content: [rewritten.content, ...attachmentLinks].filter(Boolean).join("\n"),
+    mentionEveryone: /@(everyone|here)\b/.test(message.content),
+    mentionUserIds: [...mentionUserIds],
+    mentionRoleIds: rewritten.roleIds,
+    mentionChannelIds: rewritten.channelIds,
+    referencedMessageId,
+    pinned: message.isPinned ?? false,
+    pinnedAt: message.isPinned ? createdAt : null,
+    createdAt,
+    editedAt: message.timestampEdited ? new Date(message.timestampEdited) : null,
+  };
+};
+
+const MISSING_PERMISSIONS_WARNING =
+  "DiscordChatExporter exports carry no permissions: roles were created without permissions and channels without overwrites.";
+
+/**
+ * Creates a guild owned by `ownerId` from DiscordChatExporter dumps of its channels, then backfills
+ * their messages. Authors and mentioned users become placeholder users without a login, reused across
+ * imports by Discord id. Dumps do not record permissions, so roles are created without any and channels without
+ * overwrites; the result's `warnings` says so, so the owner knows to set them up by hand.
+ */
+export const importDiscordExports = async (
+  exports: DiscordExport[],
+  ownerId: string,
+): Promise<DiscordImportPayload | string> => {
+  const source = exports[0];
+  if (!source) {
+    return "Nothing to import.";
+  }
+  if (exports.some(item => item.guild.id !== source.guild.id)) {
+    return "All exports must come from the same guild.";
+  }
+
+  const importedExports = exports.filter(item => item.channel.type in IMPORTED_CHANNEL_TYPES);
+  const skippedChannels = exports
+    .filter(item => !(item.channel.type in IMPORTED_CHANNEL_TYPES))
+    .map(item => item.channel.name);
+
+  const guildId = nextId();
+  const idMap = new Map<string, string>();
+
+  const rolesByDiscordId = new Map<string, z.infer<typeof discordRoleSchema>>();
+  const usersByDiscordId = new Map<string, z.infer<typeof discordUserSchema>>();
+  for (const item of importedExports) {
+    for (const message of item.messages) {
+      usersByDiscordId.set(message.author.id, message.author);
+      for (const mentioned of message.mentions ?? []) {
+        if (!usersByDiscordId.has(mentioned.id)) {
+          usersByDiscordId.set(mentioned.id, mentioned);
+        }
+      }
+      for (const role of message.author.roles ?? []) {
+        if (role.name !== "@everyone") {
+          rolesByDiscordId.set(role.id, role);
+        }
+      }
+    }
+  }
+
+  const roleRows = [...rolesByDiscordId.values()]
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+    .map((role, index) => {
+      const id = nextId();
+      idMap.set(role.id, id);
+      return {
+        id,
+        guildId,
+        name: normalizeName(role.name) || "role",
+        permissions: "0",
+        position: index + 1,
+        color: parseRoleColor(role.color),
+      };
+    });
+
+  const categoryRows = new Map<string, typeof channels.$inferInsert>();
+  const channelRows: (typeof channels.$inferInsert)[] = [];
+  for (const item of importedExports) {
+    const categoryDiscordId = item.channel.categoryId;
+    if (categoryDiscordId && !categoryRows.has(categoryDiscordId)) {
+      const id = nextId();
+      idMap.set(categoryDiscordId, id);
+      categoryRows.set(categoryDiscordId, {
+        id,
+        type: ChannelType.GUILD_CATEGORY,
+        guildId,
+        name: normalizeName(item.channel.category ?? "") || "category",
+        parentId: null,
+        position: categoryRows.size,
+      });
+    }
+
+    const id = nextId();
+    idMap.set(item.channel.id, id);
+    channelRows.push({
+      id,
+      type: IMPORTED_CHANNEL_TYPES[item.channel.type] ?? ChannelType.GUILD_TEXT,
+      guildId,
+      name: normalizeName(item.channel.name) || "channel",
+      topic: item.channel.topic?.trim() || null,
+      parentId: categoryDiscordId ? (idMap.get(categoryDiscordId) ?? null) : null,
+      position: channelRows.length,
+    });
+  }
+
+  const orderedMessages = importedExports
+    .flatMap(item => item.messages.map(message => ({ channelDiscordId: item.channel.id, message })))
+    .filter(({ message }) => IMPORTED_MESSAGE_TYPES.has(message.type))
+    .sort(
+      (a, b) =>
+        toTimestamp(a.message.timestamp) - toTimestamp(b.message.timestamp) ||
+        (BigInt(a.message.id) < BigInt(b.message.id) ? -1 : 1),
+    );
+  const skippedMessageCount =
+    importedExports.reduce((total, item) => total + item.messages.length, 0) - orderedMessages.length;
+
+  await db.transaction(async tx => {
+    // Imports run one at a time, so two of them never create a placeholder for the same Discord user
+    // or hand out the same message ids.
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext('discord-import'))`);
+
+    const [latest] = await tx
+      .select({ lastMessageId: sql<string | null>`max(${discordImports.lastMessageId}::bigint)::text` })
+      .from(discordImports);
+    const allocateMessageId = createImportIdAllocator(latest?.lastMessageId ? BigInt(latest.lastMessageId) : -1n);
+    let lastMessageId: string | null = null;
+    for (const { message } of orderedMessages) {
+      lastMessageId = allocateMessageId(toTimestamp(message.timestamp));
+      idMap.set(message.id, lastMessageId);
+    }
+
+    const discordUserIds = [...usersByDiscordId.keys()];
+    const mapped =
+      discordUserIds.length > 0
+        ? await tx.select().from(discordImportUsers).where(inArray(discordImportUsers.discordUserId, discordUserIds))
+        : [];
+    for (const row of mapped) {
+      idMap.set(row.discordUserId, row.userId);
+    }
+
+    const placeholders = [...usersByDiscordId.values()]
+      .filter(user => !idMap.has(user.id))
+      .map(user => ({
+        discordUserId: user.id,
+        row: {
+          id: nextId(),
+          username: toPlaceholderUsername(user.id),
+          displayName: (user.nickname?.trim() || user.name).slice(0, PLACEHOLDER_DISPLAY_NAME_MAX_LENGTH),
+          avatarUrl: user.avatarUrl?.startsWith("https://") ? user.avatarUrl : null,
+        },
+      }));
+    if (placeholders.length > 0) {
+      const inserted = await tx
+        .insert(users)
+        .values(placeholders.map(placeholder => placeholder.row))
+        .onConflictDoNothing({ target: users.username })
+        .returning({ id: users.id });
+      // A username someone took before the prefix was reserved stays theirs; the placeholder is named after its own id.
+      const insertedIds = new Set(inserted.map(row => row.id));
+      const renamed = placeholders
+        .filter(placeholder => !insertedIds.has(placeholder.row.id))
+        .map(placeholder => ({ ...placeholder.row, username: toPlaceholderUsername(placeholder.row.id) }));
+      if (renamed.length > 0) {
+        await tx.insert(users).values(renamed);
+      }
+
+      await tx.insert(discordImportUsers).values(
+        placeholders.map(placeholder => ({ discordUserId: placeholder.discordUserId, userId: placeholder.row.id })),
+      );
+      for (const placeholder of placeholders) {
+        idMap.set(placeholder.discordUserId, placeholder.row.id);
+      }
+    }
+
+    await tx.insert(guilds).values({ id: guildId, name: normalizeName(source.guild.name) || "Imported", ownerId });
+    await tx.insert(guildMembers).values({ guildId, userId: ownerId, role: "OWNER" });
+    await tx.insert(guildRoles).values([
+      { id: guildId, guildId, name: "@everyone", permissions: defaultEveryonePermissions(), position: 0 },
+      ...roleRows,
+    ]);
+    await tx.insert(channels).values([...categoryRows.values(), ...channelRows]);
+
+    for (let start = 0; start < orderedMessages.length; start += MESSAGE_INSERT_BATCH_SIZE) {
+      const batch = orderedMessages.slice(start, start + MESSAGE_INSERT_BATCH_SIZE);
+      await tx
+        .insert(messages)
+        .values(batch.map(({ channelDiscordId, message }) => toMessageRow(message, channelDiscordId, idMap)));
+    }
+
+    await tx.insert(discordImports).values({ id: nextId(), guildId, importedBy: ownerId, lastMessageId });
+  });
+
+  return {
+    guild_id: guildId,
+    role_count: roleRows.length,
+    channel_count: channelRows.length,
+    message_count: orderedMessages.length,
+    placeholder_user_count: usersByDiscordId.size,
+    skipped_channels: skippedChannels,
+    skipped_message_count: skippedMessageCount,
+    warnings: [MISSING_PERMISSIONS_WARNING],
+  };
+};
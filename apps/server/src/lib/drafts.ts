@@ -0,0 +1,67 @@
+import type { MessageDraftAttachment, MessageDraftPayload } from "@edgewire/types";
+import { and, eq, gt, inArray, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { messageDrafts, uploadSessions } from "../db/schema";
+import { emitToUsers } from "../runtime";
+import { releaseAttachmentUploads } from "./message-create";
+
+type MessageDraftRow = typeof messageDrafts.$inferSelect;
+
+/**
+ * Builds draft payloads with attachment metadata. Uploads that were sent, expired or
+ * cleaned up since the draft was saved are left out rather than failing the whole draft.
+ */
+export const toMessageDraftPayloads = async (rows: MessageDraftRow[]): Promise<MessageDraftPayload[]> => {
+  const uploadIds = [...new Set(rows.flatMap(row => row.attachmentUploadIds))];
+  const uploads =
+    uploadIds.length === 0
+      ? []
+      : await db
+          .select({
+            id: uploadSessions.id,
+            filename: uploadSessions.filename,
+            size: uploadSessions.expectedSize,
+            contentType: uploadSessions.contentType,
+          })
+          .from(uploadSessions)
+          .where(
+            and(
+              inArray(uploadSessions.id, uploadIds),
+              eq(uploadSessions.kind, "attachment"),
+              eq(uploadSessions.status, "completed"),
+              isNull(uploadSessions.messageId),
+              gt(uploadSessions.expiresAt, new Date()),
+            ),
+          );
+  const uploadsById = new Map(uploads.map(upload => [upload.id, upload]));
+
+  return rows.map(row => ({
+    channel_id: row.channelId,
+    content: row.content,
+    attachments: row.attachmentUploadIds.flatMap((uploadId): MessageDraftAttachment[] => {
+      const upload = uploadsById.get(uploadId);
+      return upload
+        ? [{ upload_id: upload.id, filename: upload.filename, size: upload.size ?? 0, content_type: upload.contentType }]
+        : [];
+    }),
+    updated_at: row.updatedAt.toISOString(),
+  }));
+};
+
+export const emitDraftUpdate = (userId: string, channelId: string, draft: MessageDraftPayload | null): void => {
+  emitToUsers([userId], "DRAFT_UPDATE", { channel_id: channelId, draft });
+};
+
+export const deleteMessageDraft = async (userId: string, channelId: string): Promise<boolean> => {
+  const [deleted] = await db
+    .delete(messageDrafts)
+    .where(and(eq(messageDrafts.userId, userId), eq(messageDrafts.channelId, channelId)))
+    .returning();
+  if (!deleted) {
+    return false;
+  }
+
+  await releaseAttachmentUploads(deleted.attachmentUploadIds);
+  emitDraftUpdate(userId, channelId, null);
+  return true;
+};
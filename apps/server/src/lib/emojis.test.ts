@@ -0,0 +1,21 @@
+import { describe, expect, it } from "bun:test";
+import { EMOJI_NAME_REGEX, extractCustomEmojiIds, formatCustomEmoji } from "./emojis";
+
+describe("custom emoji tokens", () => {
+  it("collects emoji ids outside of code spans", () => {
+    expect(
+      extractCustomEmojiIds("hi <:wave:101> <a:party:202> `<:raw:303>` ```\n<:block:404>\n``` <:wave:101>"),
+    ).toEqual(["101", "202"]);
+  });
+
+  it("formats static and animated emoji tokens", () => {
+    expect(formatCustomEmoji({ id: "101", name: "wave", animated: false })).toBe("<:wave:101>");
+    expect(formatCustomEmoji({ id: "202", name: "party", animated: true })).toBe("<a:party:202>");
+  });
+
+  it("accepts only short alphanumeric emoji names", () => {
+    expect(EMOJI_NAME_REGEX.test("blob_cat2")).toBe(true);
+    expect(EMOJI_NAME_REGEX.test("x")).toBe(false);
+    expect(EMOJI_NAME_REGEX.test("has space")).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import type { GuildEmoji } from "@edgewire/types";
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import { guildEmojis, guildMembers, users } from "../db/schema";
+import { emitToGuild, toSummary } from "../runtime";
+import { toUserSummary } from "./users";
+
+type GuildEmojiRow = typeof guildEmojis.$inferSelect;
+
+export const GUILD_EMOJI_LIMIT = 50;
+export const EMOJI_NAME_REGEX = /^[A-Za-z0-9_]{2,32}$/;
+
+// Code spans are matched first so tokens inside them are left exactly as typed.
+const CUSTOM_EMOJI_OR_CODE_REGEX = /(```[\s\S]*?```|`[^`\n]*`)|<(a?):([A-Za-z0-9_]{2,32}):(\d+)>/g;
+
+export const formatCustomEmoji = (emoji: Pick<GuildEmojiRow, "id" | "name" | "animated">): string =>
+  `<${emoji.animated ? "a" : ""}:${emoji.name}:${emoji.id}>`;
+
+export const extractCustomEmojiIds = (content: string): string[] => {
+  const ids = new Set<string>();
+  for (const match of content.matchAll(CUSTOM_EMOJI_OR_CODE_REGEX)) {
+    if (!match[1] && match[4]) {
+      ids.add(match[4]);
+    }
+  }
+  return [...ids];
+};
+
+/**
+ * Rewrites `<:name:id>` tokens against the emojis of guilds the author belongs to. Known
+ * emojis get their current name and animated prefix; anything else degrades to `:name:` so
+ * clients never see a token that points at an emoji the author could not have picked.
+ */
+export const normalizeCustomEmojiTokens = async (content: string, authorId: string): Promise<string> => {
+  const ids = extractCustomEmojiIds(content);
+  if (ids.length === 0) {
+    return content;
+  }
+
+  const rows = await db
+    .select({ id: guildEmojis.id, name: guildEmojis.name, animated: guildEmojis.animated })
+    .from(guildEmojis)
+    .innerJoin(
+      guildMembers,
+      and(eq(guildMembers.guildId, guildEmojis.guildId), eq(guildMembers.userId, authorId)),
+    )
+    .where(inArray(guildEmojis.id, ids));
+  const emojisById = new Map(rows.map(row => [row.id, row]));
+
+  return content.replace(CUSTOM_EMOJI_OR_CODE_REGEX, (token, code: string | undefined, _animated, name: string, id: string) => {
+    if (code) {
+      return token;
+    }
+    const emoji = emojisById.get(id);
+    return emoji ? formatCustomEmoji(emoji) : `:${name}:`;
+  });
+};
+
+export const listGuildEmojiPayloads = async (guildId: string): Promise<GuildEmoji[]> => {
+  const rows = await db
+    .select({
+      emoji: guildEmojis,
+      user: {
+        id: users.id,
+        username: users.username,
+        displayName: users.displayName,
+        avatarUrl: users.avatarUrl,
+        avatarS3Key: users.avatarS3Key,
+      },
+    })
+    .from(guildEmojis)
+    .leftJoin(users, eq(users.id, guildEmojis.createdBy))
+    .where(eq(guildEmojis.guildId, guildId))
+    .orderBy(asc(sql`${guildEmojis.id}::bigint`));
+
+  return rows.map(row => ({
+    id: row.emoji.id,
+    guild_id: row.emoji.guildId,
+    name: row.emoji.name,
+    animated: row.emoji.animated,
+    user: row.user ? toSummary(toUserSummary(row.user)) : null,
+  }));
+};
+
+// Like Discord, every change ships the guild's full emoji list rather than a delta.
+export const emitGuildEmojisUpdate = async (guildId: string): Promise<GuildEmoji[]> => {
+  const emojis = await listGuildEmojiPayloads(guildId);
+  await emitToGuild(guildId, "GUILD_EMOJIS_UPDATE", { guild_id: guildId, emojis });
+  return emojis;
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "bun:test";
+import { mergeForumTags, pruneAppliedTags, resolveAppliedTags } from "./forum";
+
+const tags = [
+  { id: "1", name: "Bug", moderated: false, emoji_name: null },
+  { id: "2", name: "Resolved", moderated: true, emoji_name: null },
+];
+
+describe("forum tags", () => {
+  it("keeps existing tag ids and mints ids for new tags", () => {
+    let nextId = 10;
+    const result = mergeForumTags(tags, [{ id: "1", name: " Bugs " }, { name: "Idea", emoji_name: "💡" }], () =>
+      String(nextId++),
+    );
+    expect(result).toEqual({
+      tags: [
+        { id: "1", name: "Bugs", moderated: false, emoji_name: null },
+        { id: "10", name: "Idea", moderated: false, emoji_name: "💡" },
+      ],
+    });
+  });
+
+  it("rejects unknown ids and duplicate names", () => {
+    expect(mergeForumTags(tags, [{ id: "99", name: "Bug" }], () => "10")).toEqual({ error: "Unknown forum tag id." });
+    expect(mergeForumTags(tags, [{ name: "Idea" }, { name: "idea" }], () => "10")).toHaveProperty("error");
+  });
+
+  it("only lets moderators apply moderated tags", () => {
+    expect(resolveAppliedTags(tags, ["1", "1"], false)).toEqual({ tagIds: ["1"] });
+    expect(resolveAppliedTags(tags, ["2"], false)).toHaveProperty("error");
+    expect(resolveAppliedTags(tags, ["2"], true)).toEqual({ tagIds: ["2"] });
+    expect(resolveAppliedTags(tags, ["3"], true)).toEqual({ error: "Unknown forum tag." });
+  });
+
+  it("drops applied tags that were removed from the forum", () => {
+    expect(pruneAppliedTags(["1", "2", "3"], tags)).toEqual(["1", "2"]);
+  });
+});
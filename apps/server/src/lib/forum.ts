@@ -0,0 +1,83 @@
+import {
+  ForumLayout,
+  ForumSortOrder,
+  type ForumLayoutValue,
+  type ForumSortOrderValue,
+  type ForumTag,
+} from "@edgewire/types";
+
+export type ForumTagInput = {
+  id?: string;
+  name: string;
+  moderated?: boolean;
+  emoji_name?: string | null;
+};
+
+type ForumTagError = { error: string };
+
+export const toForumSortOrder = (value: number | null): ForumSortOrderValue | null =>
+  value === ForumSortOrder.LATEST_ACTIVITY || value === ForumSortOrder.CREATION_DATE ? value : null;
+
+export const toForumLayout = (value: number): ForumLayoutValue =>
+  value === ForumLayout.LIST_VIEW || value === ForumLayout.GALLERY_VIEW ? value : ForumLayout.NOT_SET;
+
+// Tags keep their ids across edits so posts stay tagged; new tags get fresh ids.
+export const mergeForumTags = (
+  existing: ForumTag[],
+  input: ForumTagInput[],
+  makeId: () => string,
+): { tags: ForumTag[] } | ForumTagError => {
+  const existingIds = new Set(existing.map(tag => tag.id));
+  const seenNames = new Set<string>();
+  const tags: ForumTag[] = [];
+
+  for (const tag of input) {
+    if (tag.id !== undefined && !existingIds.has(tag.id)) {
+      return { error: "Unknown forum tag id." };
+    }
+
+    const name = tag.name.trim();
+    const nameKey = name.toLowerCase();
+    if (seenNames.has(nameKey)) {
+      return { error: `Duplicate forum tag "${name}".` };
+    }
+    seenNames.add(nameKey);
+
+    tags.push({
+      id: tag.id ?? makeId(),
+      name,
+      moderated: tag.moderated ?? false,
+      emoji_name: tag.emoji_name?.trim() || null,
+    });
+  }
+
+  return { tags };
+};
+
+// Moderated tags can only be applied by members who can manage threads.
+export const resolveAppliedTags = (
+  available: ForumTag[],
+  tagIds: string[],
+  canManageThreads: boolean,
+): { tagIds: string[] } | ForumTagError => {
+  const tagsById = new Map(available.map(tag => [tag.id, tag]));
+  const unique = [...new Set(tagIds)];
+
+  for (const tagId of unique) {
+    const tag = tagsById.get(tagId);
+    if (!tag) {
+      return { error: "Unknown forum tag." };
+    }
+
+    if (tag.moderated && !canManageThreads) {
+      return { error: `Only moderators can apply the "${tag.name}" tag.` };
+    }
+  }
+
+  return { tagIds: unique };
+};
+
+export const pruneAppliedTags = (applied: string[], available: ForumTag[]): string[] => {
+  const availableIds = new Set(available.map(tag => tag.id));
+  return applied.filter(tagId => availableIds.has(tagId));
+};
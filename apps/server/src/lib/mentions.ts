@@ -33,6 +33,7 @@ export type AllowedMentionsInput = {
   parse?: Array<"users" | "roles" | "everyone">;
   users?: string[];
   roles?: string[];
+  replied_user?: boolean;
 };
 
 export type ParsedMentionTokens = {
@@ -107,6 +108,18 @@ const applyAllowedMentions = (tokens: ParsedMentionTokens, allowed: AllowedMenti
   };
 };
 
+// Reply pings are opt-in through allowed_mentions.replied_user and never target the author themselves.
+const withRepliedUser = (
+  userIds: string[],
+  params: { authorId: string; repliedUserId?: string | null; allowedMentions?: AllowedMentionsInput | null },
+): string[] => {
+  if (!params.repliedUserId || params.repliedUserId === params.authorId || !params.allowedMentions?.replied_user) {
+    return userIds;
+  }
+
+  return unique([...userIds, params.repliedUserId]);
+};
+
 const isMutedActive = (muted: boolean, mutedUntil: Date | null): boolean => {
   if (!muted) {
     return false;
@@ -142,6 +155,7 @@ export const resolveMentionsForChannel = async (params: {
   authorId: string;
   content: string;
   allowedMentions?: AllowedMentionsInput | null;
+  repliedUserId?: string | null;
 }): Promise<ResolvedMentions> => {
   const parsed = applyAllowedMentions(parseMentionTokens(params.content), params.allowedMentions);
 
@@ -152,7 +166,7 @@ export const resolveMentionsForChannel = async (params: {
       .where(eq(channelMembers.channelId, params.channel.id));
     const audienceUserIds = unique(dmMembers.map(member => member.userId));
     const audienceSet = new Set(audienceUserIds);
-    const mentionUserIds = parsed.users.filter(userId => audienceSet.has(userId));
+    const mentionUserIds = withRepliedUser(parsed.users, params).filter(userId => audienceSet.has(userId));
 
     return {
       mentionEveryone: false,
@@ -189,7 +203,7 @@ export const resolveMentionsForChannel = async (params: {
   const audienceUserIds = await listGuildChannelAudienceMemberIds(guildId, params.channel.id);
   const audienceSet = new Set(audienceUserIds);
 
-  const mentionUserIds = parsed.users.filter(userId => audienceSet.has(userId));
+  const mentionUserIds = withRepliedUser(parsed.users, params).filter(userId => audienceSet.has(userId));
 
   const roleRows =
     parsed.roles.length === 0
@@ -0,0 +1,76 @@
+import type { MessagePayload } from "@edgewire/types";
+import { inArray } from "drizzle-orm";
+import { db } from "../db";
+import { channels, guilds, messages } from "../db/schema";
+import { canAccessChannel, hydrateMessagePayloads } from "../runtime";
+import { PermissionBits } from "./permissions";
+import { hasChannelPermission } from "./permission-service";
+
+type MessageRow = typeof messages.$inferSelect;
+
+export type MessageContext = {
+  channel_id: string;
+  guild_id: string | null;
+  channel_name: string | null;
+  guild_name: string | null;
+  message: MessagePayload;
+};
+
+export const canViewChannel = async (userId: string, channelId: string): Promise<boolean> => {
+  const canView = await hasChannelPermission(userId, channelId, PermissionBits.VIEW_CHANNEL);
+  return canView && Boolean(await canAccessChannel(userId, channelId));
+};
+
+/**
+ * Loads messages from any number of channels along with the channel and guild they came from,
+ * keyed by message id. Messages are hydrated per guild so mentions and roles resolve the same
+ * way they do in the channel.
+ */
+export const loadMessageContexts = async (
+  messageIds: string[],
+  viewerId: string,
+): Promise<Map<string, MessageContext>> => {
+  const contexts = new Map<string, MessageContext>();
+  if (messageIds.length === 0) {
+    return contexts;
+  }
+
+  const messageRows = await db.select().from(messages).where(inArray(messages.id, [...new Set(messageIds)]));
+  if (messageRows.length === 0) {
+    return contexts;
+  }
+
+  const channelRows = await db
+    .select({ id: channels.id, name: channels.name, guildId: channels.guildId })
+    .from(channels)
+    .where(inArray(channels.id, [...new Set(messageRows.map(message => message.channelId))]));
+  const channelsById = new Map(channelRows.map(channel => [channel.id, channel]));
+
+  const guildIds = [...new Set(channelRows.flatMap(channel => (channel.guildId ? [channel.guildId] : [])))];
+  const guildRows =
+    guildIds.length === 0
+      ? []
+      : await db.select({ id: guilds.id, name: guilds.name }).from(guilds).where(inArray(guilds.id, guildIds));
+  const guildNamesById = new Map(guildRows.map(guild => [guild.id, guild.name]));
+
+  const messagesByGuildId = new Map<string | null, MessageRow[]>();
+  for (const message of messageRows) {
+    const guildId = channelsById.get(message.channelId)?.guildId ?? null;
+    messagesByGuildId.set(guildId, [...(messagesByGuildId.get(guildId) ?? []), message]);
+  }
+
+  for (const [guildId, group] of messagesByGuildId) {
+    for (const payload of await hydrateMessagePayloads(group, guildId, viewerId)) {
+      const channel = channelsById.get(payload.channel_id);
+      contexts.set(payload.id, {
+        channel_id: payload.channel_id,
+        guild_id: guildId,
+        channel_name: channel?.name ?? null,
+        guild_name: guildId ? (guildNamesById.get(guildId) ?? null) : null,
+        message: payload,
+      });
+    }
+  }
+
+  return contexts;
+};
@@ -0,0 +1,444 @@
+import type { MessagePayload } from "@edgewire/types";
+import { and, eq, inArray, isNull, notExists, sql } from "drizzle-orm";
+import type { z } from "zod";
+import { db } from "../db";
+import {
+  channelReads,
+  messageAttachments,
+  messageDrafts,
+  messageMentions,
+  messagePolls,
+  messages,
+  scheduledMessages,
+  uploadSessions,
+} from "../db/schema";
+import {
+  buildMessageMentionContext,
+  canAccessChannel,
+  emitToUsers,
+  listReferencedMessagePayloads,
+  makeMessagePayload,
+  nextId,
+  toAttachmentPayload,
+  toSummary,
+  type createMessageSchema,
+} from "../runtime";
+import { emitBadgeUpdatesForUsers } from "./badges";
+import { isNonMessageChannelType } from "./channel-types";
+import { normalizeCustomEmojiTokens } from "./emojis";
+import { getDmNotificationSettings, getGuildNotificationSettings, resolveMentionsForChannel } from "./mentions";
+import { scheduleMessageUnfurl } from "./message-embeds";
+import { PermissionBits } from "./permissions";
+import { hasChannelPermission } from "./permission-service";
+import { toMessagePollPayload, toPollAnswers } from "./polls";
+import { claimChannelSlowmode } from "./slowmode";
+import { addThreadMember, setThreadArchived } from "./thread-members";
+import { isThreadChannelType } from "./threads";
+import type { UserSummary } from "./users";
+
+export type CreateMessageInput = z.infer<typeof createMessageSchema>;
+
+export type CreateMessageError = { status: 400 | 403; error: string };
+
+export type SlowmodeError = { status: 429; error: string; retryAfter: number };
+
+export type CreateMessageResult = { message: MessagePayload } | CreateMessageError | SlowmodeError;
+
+type ChannelAccess = NonNullable<Awaited<ReturnType<typeof canAccessChannel>>>;
+type UploadSessionRow = typeof uploadSessions.$inferSelect;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Everything a sender must pass before any message write, re-run by the scheduler at send time.
+
+export const resolveSendableChannel = async (
+  authorId: string,
+  channelId: string,
+): Promise<{ access: ChannelAccess; isThread: boolean } | CreateMessageError> => {
+  const canView = await hasChannelPermission(authorId, channelId, PermissionBits.VIEW_CHANNEL);
+  if (!canView) {
+    return { status: 403, error: "Forbidden" };
+  }
+
+  const access = await canAccessChannel(authorId, channelId);
+  if (!access) {
+    return { status: 403, error: "Forbidden" };
+  }
+
+  if (isNonMessageChannelType(access.channel.type)) {
+    return { status: 400, error: "Cannot send messages to this channel type." };
+  }
+
+  const isThread = isThreadChannelType(access.channel.type);
+  const canSend = await hasChannelPermission(
+    authorId,
+    channelId,
+    isThread ? PermissionBits.SEND_MESSAGES_IN_THREADS : PermissionBits.SEND_MESSAGES,
+  );
+  if (!canSend) {
+    return { status: 403, error: isThread ? "Missing SEND_MESSAGES_IN_THREADS." : "Missing SEND_MESSAGES." };
+  }
+
+  return { access, isThread };
+};
+
+// Uploads must belong to the author, target this channel and not be bound to a message yet.
+export const loadAttachmentUploads = async (
+  authorId: string,
+  channelId: string,
+  attachmentUploadIds: string[],
+  now: Date,
+): Promise<{ uploads: UploadSessionRow[] } | CreateMessageError> => {
+  const uploadRows =
+    attachmentUploadIds.length === 0
+      ? []
+      : await db
+          .select()
+          .from(uploadSessions)
+          .where(and(eq(uploadSessions.userId, authorId), inArray(uploadSessions.id, attachmentUploadIds)));
+
+  if (uploadRows.length !== attachmentUploadIds.length) {
+    return { status: 400, error: "One or more attachment uploads were not found." };
+  }
+
+  const uploadsById = new Map(uploadRows.map(row => [row.id, row]));
+  const orderedUploads = attachmentUploadIds
+    .map(uploadId => uploadsById.get(uploadId))
+    .filter((upload): upload is UploadSessionRow => Boolean(upload));
+  if (orderedUploads.length !== attachmentUploadIds.length) {
+    return { status: 400, error: "One or more attachment uploads were not found." };
+  }
+
+  for (const upload of orderedUploads) {
+    if (
+      upload.kind !== "attachment" ||
+      upload.status !== "completed" ||
+      upload.channelId !== channelId ||
+      upload.messageId !== null
+    ) {
+      return { status: 400, error: "One or more attachment uploads are not valid for this message." };
+    }
+
+    if (upload.expiresAt.getTime() <= now.getTime()) {
+      return { status: 400, error: "One or more attachment uploads have expired." };
+    }
+
+    if (!upload.expectedSize || upload.expectedSize <= 0) {
+      return { status: 400, error: "One or more attachment uploads are missing file metadata." };
+    }
+  }
+
+  return { uploads: orderedUploads };
+};
+
+// Completed uploads expire with their presign window; scheduled messages and drafts keep
+// theirs alive until they are sent, and hand them back to the cleanup task when dropped.
+export const holdAttachmentUploads = async (uploadIds: string[], until: Date): Promise<void> => {
+  if (uploadIds.length === 0) {
+    return;
+  }
+
+  await db
+    .update(uploadSessions)
+    .set({ expiresAt: sql`greatest(${uploadSessions.expiresAt}, ${until})` })
+    .where(and(inArray(uploadSessions.id, uploadIds), isNull(uploadSessions.messageId)));
+};
+
+// Uploads still referenced by another draft or scheduled message keep their hold.
+export const releaseAttachmentUploads = async (uploadIds: string[]): Promise<void> => {
+  if (uploadIds.length === 0) {
+    return;
+  }
+
+  const uploadIdJson = sql`jsonb_build_array(${uploadSessions.id})`;
+  await db
+    .update(uploadSessions)
+    .set({ expiresAt: new Date() })
+    .where(
+      and(
+        inArray(uploadSessions.id, uploadIds),
+        isNull(uploadSessions.messageId),
+        notExists(
+          db
+            .select({ id: scheduledMessages.id })
+            .from(scheduledMessages)
+            .where(sql`${scheduledMessages.attachmentUploadIds} @> ${uploadIdJson}`),
+        ),
+        notExists(
+          db
+            .select({ userId: messageDrafts.userId })
+            .from(messageDrafts)
+            .where(sql`${messageDrafts.attachmentUploadIds} @> ${uploadIdJson}`),
+        ),
+      ),
+    );
+};
+
+// Counts a new message as unread for each recipient, and as a mention for those it mentions.
+export const incrementUnreadCounters = async (
+  tx: Transaction,
+  channelId: string,
+  recipientUserIds: string[],
+  mentionedUserIds: string[],
+): Promise<void> => {
+  const mentioned = new Set(mentionedUserIds);
+  for (const recipientId of recipientUserIds) {
+    const mentionIncrement = mentioned.has(recipientId) ? 1 : 0;
+    await tx
+      .insert(channelReads)
+      .values({
+        userId: recipientId,
+        channelId,
+        lastReadMessageId: null,
+        unreadCount: 1,
+        mentionCount: mentionIncrement,
+        updatedAt: new Date(),
+      })
+      .onConflictDoUpdate({
+        target: [channelReads.userId, channelReads.channelId],
+        set: {
+          unreadCount: sql`${channelReads.unreadCount} + 1`,
+          mentionCount: sql`${channelReads.mentionCount} + ${mentionIncrement}`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+};
+
+// Everything after the access and slowmode checks; any error it returns gives the slowmode slot back.
+const postMessage = async (
+  author: UserSummary,
+  access: ChannelAccess,
+  isThread: boolean,
+  input: CreateMessageInput,
+): Promise<{ message: MessagePayload } | CreateMessageError> => {
+  const channelId = access.channel.id;
+  const content = await normalizeCustomEmojiTokens(input.content?.trim() ?? "", author.id);
+
+  let referencedMessage: typeof messages.$inferSelect | null = null;
+  const messageReference = input.message_reference;
+  if (messageReference) {
+    referencedMessage =
+      (await db.query.messages.findFirst({
+        where: and(eq(messages.id, messageReference.message_id), eq(messages.channelId, channelId)),
+      })) ?? null;
+
+    if (!referencedMessage && messageReference.fail_if_not_exists !== false) {
+      return { status: 400, error: "Unknown message reference." };
+    }
+  }
+
+  const mentionResolution = await resolveMentionsForChannel({
+    channel: access.channel,
+    authorId: author.id,
+    content,
+    allowedMentions: input.allowed_mentions,
+    repliedUserId: referencedMessage?.authorId ?? null,
+  });
+  const recipientUserIds = mentionResolution.audienceUserIds.filter(userId => userId !== author.id);
+  const directMentionSet = new Set(mentionResolution.directMentionUserIds);
+  const roleMentionSet = new Set(mentionResolution.roleMentionUserIds);
+  const everyoneMentionSet = new Set(mentionResolution.everyoneMentionUserIds);
+
+  const notificationSettings =
+    access.scope === "DM"
+      ? await getDmNotificationSettings(recipientUserIds, channelId)
+      : await getGuildNotificationSettings(recipientUserIds, access.channel.guildId!, channelId);
+
+  const mentionByRecipient = new Map<string, boolean>();
+  const notifyByRecipient = new Map<string, boolean>();
+  for (const recipientId of recipientUserIds) {
+    const settings = notificationSettings.get(recipientId) ?? {
+      level: access.scope === "DM" ? "ALL_MESSAGES" : "ONLY_MENTIONS",
+      muted: false,
+      suppressEveryone: false,
+    };
+
+    const everyoneMention = everyoneMentionSet.has(recipientId) && !settings.suppressEveryone;
+    const isMentioned = directMentionSet.has(recipientId) || roleMentionSet.has(recipientId) || everyoneMention;
+    mentionByRecipient.set(recipientId, isMentioned);
+
+    let shouldNotify = false;
+    if (!settings.muted) {
+      if (settings.level === "ALL_MESSAGES") {
+        shouldNotify = true;
+      } else if (settings.level === "ONLY_MENTIONS") {
+        shouldNotify = isMentioned;
+      }
+    }
+    notifyByRecipient.set(recipientId, shouldNotify);
+  }
+
+  const attachmentUploadIds = [...new Set(input.attachment_upload_ids ?? [])];
+  const now = new Date();
+
+  const uploadResult = await loadAttachmentUploads(author.id, channelId, attachmentUploadIds, now);
+  if ("error" in uploadResult) {
+    return uploadResult;
+  }
+  const orderedUploads = uploadResult.uploads;
+
+  const poll = input.poll
+    ? {
+        question: input.poll.question,
+        answers: toPollAnswers(input.poll.answers),
+        allowMultiselect: input.poll.allow_multiselect ?? false,
+        expiresAt: new Date(now.getTime() + input.poll.duration * 60 * 60 * 1_000),
+        finalizedAt: null,
+      }
+    : null;
+
+  let createdMessage: typeof messages.$inferSelect | null = null;
+  let createdAttachments: Array<typeof messageAttachments.$inferSelect> = [];
+
+  try {
+    await db.transaction(async tx => {
+      const [created] = await tx
+        .insert(messages)
+        .values({
+          id: nextId(),
+          channelId,
+          authorId: author.id,
+          content,
+          mentionEveryone: mentionResolution.mentionEveryone,
+          mentionUserIds: mentionResolution.mentionUserIds,
+          mentionRoleIds: mentionResolution.mentionRoleIds,
+          mentionChannelIds: mentionResolution.mentionChannelIds,
+          referencedMessageId: referencedMessage?.id ?? null,
+        })
+        .returning();
+
+      if (!created) {
+        throw new Error("Failed to create message.");
+      }
+
+      createdMessage = created;
+
+      if (poll) {
+        await tx.insert(messagePolls).values({ ...poll, messageId: created.id, channelId });
+      }
+
+      if (orderedUploads.length > 0) {
+        createdAttachments = await tx
+          .insert(messageAttachments)
+          .values(
+            orderedUploads.map(upload => ({
+              id: nextId(),
+              messageId: created.id,
+              channelId,
+              uploaderId: author.id,
+              s3Key: upload.s3Key,
+              filename: upload.filename,
+              size: upload.expectedSize ?? 0,
+              contentType: upload.contentType,
+              urlKind: "presigned",
+            })),
+          )
+          .returning();
+
+        const boundRows = await tx
+          .update(uploadSessions)
+          .set({ messageId: created.id })
+          .where(
+            and(
+              eq(uploadSessions.userId, author.id),
+              eq(uploadSessions.kind, "attachment"),
+              eq(uploadSessions.status, "completed"),
+              eq(uploadSessions.channelId, channelId),
+              isNull(uploadSessions.messageId),
+              inArray(uploadSessions.id, orderedUploads.map(upload => upload.id)),
+            ),
+          )
+          .returning({ id: uploadSessions.id });
+
+        if (boundRows.length !== orderedUploads.length) {
+          throw new Error("One or more attachment uploads were already consumed.");
+        }
+      }
+
+      const mentionedRecipients = recipientUserIds.filter(userId => mentionByRecipient.get(userId));
+      if (mentionedRecipients.length > 0) {
+        await tx.insert(messageMentions).values(
+          mentionedRecipients.map(userId => ({
+            messageId: created.id,
+            channelId,
+            guildId: access.channel.guildId ?? null,
+            mentionedUserId: userId,
+          })),
+        );
+      }
+
+      await incrementUnreadCounters(tx, channelId, recipientUserIds, mentionedRecipients);
+    });
+  } catch (error) {
+    return { status: 400, error: error instanceof Error ? error.message : "Failed to create message." };
+  }
+
+  if (!createdMessage) {
+    return { status: 400, error: "Failed to create message." };
+  }
+
+  // Posting unarchives the thread and joins the author to it.
+  if (isThread) {
+    await setThreadArchived(access.channel, false);
+    await addThreadMember(access.channel, author.id);
+  }
+
+  const mentionContext = await buildMessageMentionContext([createdMessage]);
+  const referencedMessages = await listReferencedMessagePayloads([createdMessage], access.channel.guildId ?? null);
+  const messagePayload = makeMessagePayload(
+    createdMessage,
+    toSummary(author),
+    access.channel.guildId ?? null,
+    createdAttachments.map(toAttachmentPayload),
+    mentionContext,
+    referencedMessages,
+  );
+  const payload = poll ? { ...messagePayload, poll: toMessagePollPayload(poll) } : messagePayload;
+  emitToUsers(mentionResolution.audienceUserIds, "MESSAGE_CREATE", payload);
+  await emitBadgeUpdatesForUsers(recipientUserIds, channelId, createdMessage.id);
+  scheduleMessageUnfurl(access.channel, createdMessage);
+
+  for (const recipientId of recipientUserIds) {
+    if (!notifyByRecipient.get(recipientId)) {
+      continue;
+    }
+
+    emitToUsers([recipientId], "NOTIFICATION_CREATE", {
+      channel_id: channelId,
+      guild_id: access.channel.guildId ?? null,
+      message_id: createdMessage.id,
+      author: toSummary(author),
+      mentioned: mentionByRecipient.get(recipientId) ?? false,
+    });
+  }
+
+  return { message: payload };
+};
+
+/**
+ * Posts a message as `author`: checks channel access and slowmode, binds attachment uploads, records
+ * mentions and unread counters, then dispatches MESSAGE_CREATE and notifications. Shared by
+ * the HTTP handler and the scheduled message task so both enforce the same rules.
+ */
+export const createMessageAs = async (
+  author: UserSummary,
+  channelId: string,
+  input: CreateMessageInput,
+): Promise<CreateMessageResult> => {
+  const accessResult = await resolveSendableChannel(author.id, channelId);
+  if ("error" in accessResult) {
+    return accessResult;
+  }
+
+  const slowmode = await claimChannelSlowmode(accessResult.access.channel, author.id);
+  if ("retryAfter" in slowmode) {
+    return { status: 429, error: "You are sending messages too quickly.", retryAfter: slowmode.retryAfter };
+  }
+
+  const result = await postMessage(author, accessResult.access, accessResult.isThread, input);
+  if ("error" in result) {
+    slowmode.release();
+  }
+  return result;
+};
+
@@ -0,0 +1,78 @@
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import { channelReads, messageAttachments, messageMentions, messages } from "../db/schema";
+import { deleteObject } from "../storage/s3";
+import { emitBadgeUpdatesForUsers } from "./badges";
+
+type MessageRow = typeof messages.$inferSelect;
+
+const isAfterReadMarker = (messageId: string, lastReadMessageId: string | null): boolean =>
+  lastReadMessageId === null || BigInt(messageId) > BigInt(lastReadMessageId);
+
+/**
+ * Deletes messages from one channel along with their mentions and stored attachments, and
+ * takes unread messages back out of everyone's badge counters. Object storage cleanup is
+ * best-effort and runs after the rows are gone.
+ */
+export const deleteChannelMessages = async (channelId: string, rows: MessageRow[]): Promise<string[]> => {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const messageIds = rows.map(row => row.id);
+  const [attachmentRows, mentionRows, readRows] = await Promise.all([
+    db
+      .select({ s3Key: messageAttachments.s3Key })
+      .from(messageAttachments)
+      .where(inArray(messageAttachments.messageId, messageIds)),
+    db
+      .select({ messageId: messageMentions.messageId, userId: messageMentions.mentionedUserId })
+      .from(messageMentions)
+      .where(inArray(messageMentions.messageId, messageIds)),
+    db.select().from(channelReads).where(eq(channelReads.channelId, channelId)),
+  ]);
+
+  // Counters only ever grew for messages newer than the reader's marker that someone else wrote.
+  const counterUpdates = readRows.flatMap(read => {
+    const unread = rows.filter(
+      row => row.authorId !== read.userId && isAfterReadMarker(row.id, read.lastReadMessageId),
+    ).length;
+    const mentions = mentionRows.filter(
+      mention => mention.userId === read.userId && isAfterReadMarker(mention.messageId, read.lastReadMessageId),
+    ).length;
+    return unread > 0 || mentions > 0 ? [{ userId: read.userId, unread, mentions }] : [];
+  });
+
+  await db.transaction(async tx => {
+    await tx.delete(messageMentions).where(inArray(messageMentions.messageId, messageIds));
+    await tx.delete(messages).where(and(eq(messages.channelId, channelId), inArray(messages.id, messageIds)));
+
+    for (const update of counterUpdates) {
+      await tx
+        .update(channelReads)
+        .set({
+          unreadCount: sql`greatest(${channelReads.unreadCount} - ${update.unread}, 0)`,
+          mentionCount: sql`greatest(${channelReads.mentionCount} - ${update.mentions}, 0)`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(channelReads.userId, update.userId), eq(channelReads.channelId, channelId)));
+    }
+  });
+
+  await Promise.all(
+    attachmentRows.map(async attachment => {
+      try {
+        await deleteObject(attachment.s3Key);
+      } catch {
+        // Best-effort cleanup only.
+      }
+    }),
+  );
+
+  await emitBadgeUpdatesForUsers(
+    counterUpdates.map(update => update.userId),
+    channelId,
+  );
+
+  return messageIds;
+};
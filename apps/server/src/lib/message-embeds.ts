@@ -0,0 +1,84 @@
+import { MessageFlags, type MessageEmbed } from "@edgewire/types";
+import { and, eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import { linkEmbeds, messages } from "../db/schema";
+import { env } from "../env";
+import { emitToChannelAudience, type ChannelRow } from "../runtime";
+import { extractEmbedUrls, fetchLinkEmbed } from "./unfurl";
+
+type MessageRow = typeof messages.$inferSelect;
+
+const LINK_EMBED_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const LINK_EMBED_FAILURE_TTL_MS = 60 * 60 * 1000;
+
+export const hasSuppressedEmbeds = (flags: number): boolean => (flags & MessageFlags.SUPPRESS_EMBEDS) !== 0;
+
+// Misses are cached too, with a shorter lifetime, so a dead link is not refetched on every mention.
+const resolveLinkEmbed = async (url: string): Promise<MessageEmbed | null> => {
+  const cached = await db.query.linkEmbeds.findFirst({ where: eq(linkEmbeds.url, url) });
+  if (cached) {
+    const ttl = cached.embed ? LINK_EMBED_CACHE_TTL_MS : LINK_EMBED_FAILURE_TTL_MS;
+    if (Date.now() - cached.fetchedAt.getTime() < ttl) {
+      return cached.embed ?? null;
+    }
+  }
+
+  const embed = await fetchLinkEmbed(url);
+  const fetchedAt = new Date();
+  await db
+    .insert(linkEmbeds)
+    .values({ url, embed, fetchedAt })
+    .onConflictDoUpdate({ target: linkEmbeds.url, set: { embed, fetchedAt } });
+  return embed;
+};
+
+/**
+ * Rebuilds a message's link previews from its content and pushes them out as a partial
+ * MESSAGE_UPDATE. The write is skipped when the message was edited, suppressed or deleted
+ * while the links were being fetched, so a slow unfurl never clobbers newer state.
+ */
+export const unfurlMessageEmbeds = async (channel: ChannelRow, message: MessageRow): Promise<void> => {
+  if (!env.UNFURL_ENABLED || hasSuppressedEmbeds(message.flags)) {
+    return;
+  }
+
+  const urls = extractEmbedUrls(message.content);
+  if (urls.length === 0 && message.embeds.length === 0) {
+    return;
+  }
+
+  const resolved = await Promise.all(urls.map(resolveLinkEmbed));
+  const embeds = resolved.filter((embed): embed is MessageEmbed => embed !== null);
+  if (JSON.stringify(embeds) === JSON.stringify(message.embeds)) {
+    return;
+  }
+
+  const [updated] = await db
+    .update(messages)
+    .set({ embeds })
+    .where(
+      and(
+        eq(messages.id, message.id),
+        eq(messages.content, message.content),
+        sql`(${messages.flags} & ${MessageFlags.SUPPRESS_EMBEDS}) = 0`,
+      ),
+    )
+    .returning({ id: messages.id });
+  if (!updated) {
+    return;
+  }
+
+  await emitToChannelAudience(channel, "MESSAGE_UPDATE", {
+    id: message.id,
+    channel_id: message.channelId,
+    guild_id: channel.guildId ?? null,
+    embeds,
+  });
+};
+
+// Unfurling runs after the response is sent; a failure only means the message has no previews.
+export const scheduleMessageUnfurl = (channel: ChannelRow, message: MessageRow): void => {
+  void unfurlMessageEmbeds(channel, message).catch(error => {
+    console.error("Failed to unfurl message embeds", error);
+  });
+};
@@ -0,0 +1,91 @@
+import type { MessageDeleteBulkEvent } from "@edgewire/types";
+import { and, asc, eq, gt, inArray, lt, sql } from "drizzle-orm";
+import { db } from "../db";
+import { channels, messages } from "../db/schema";
+import { emitToChannelAudience, type ChannelRow } from "../runtime";
+import { deleteChannelMessages } from "./message-deletion";
+
+const MESSAGE_EXPIRY_BATCH_SIZE = 100;
+const MESSAGE_EXPIRY_SWEEP_INTERVAL_MS = 30 * 1_000;
+
+// Deletes oldest first until a batch comes back short, so a timer turned on over long history catches up in one tick.
+const deleteExpiredChannelMessages = async (channel: ChannelRow, ttl: number): Promise<void> => {
+  const cutoff = new Date(Date.now() - ttl * 1_000);
+
+  for (;;) {
+    const expired = await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.channelId, channel.id), lt(messages.createdAt, cutoff)))
+      .orderBy(asc(sql`${messages.id}::bigint`))
+      .limit(MESSAGE_EXPIRY_BATCH_SIZE);
+
+    const deletedIds = await deleteChannelMessages(channel.id, expired);
+    if (deletedIds.length > 0) {
+      const event: MessageDeleteBulkEvent = {
+        ids: deletedIds,
+        channel_id: channel.id,
+        guild_id: channel.guildId ?? null,
+      };
+      await emitToChannelAudience(channel, "MESSAGE_DELETE_BULK", event);
+    }
+
+    if (expired.length < MESSAGE_EXPIRY_BATCH_SIZE || deletedIds.length === 0) {
+      return;
+    }
+  }
+};
+
+let messageExpiryTickRunning = false;
+
+// Threads follow their parent channel's timer.
+const deleteExpiredMessages = async (): Promise<void> => {
+  if (messageExpiryTickRunning) {
+    return;
+  }
+
+  messageExpiryTickRunning = true;
+  try {
+    const timedChannels = await db.select().from(channels).where(gt(channels.messageTtl, 0));
+    const ttlByChannelId = new Map(timedChannels.map(channel => [channel.id, channel.messageTtl]));
+    const threads =
+      ttlByChannelId.size > 0
+        ? await db
+            .select()
+            .from(channels)
+            .where(inArray(channels.parentId, [...ttlByChannelId.keys()]))
+        : [];
+
+    for (const channel of [...timedChannels, ...threads]) {
+      const ttl = ttlByChannelId.get(channel.parentId ?? "") ?? channel.messageTtl;
+      if (ttl <= 0) {
+        continue;
+      }
+
+      try {
+        await deleteExpiredChannelMessages(channel, ttl);
+      } catch (error) {
+        console.error("Failed to delete expired messages", error);
+      }
+    }
+  } finally {
+    messageExpiryTickRunning = false;
+  }
+};
+
+let messageExpiryTimer: ReturnType<typeof setInterval> | null = null;
+
+export const startMessageExpiryTask = (): void => {
+  if (messageExpiryTimer) {
+    return;
+  }
+
+  void deleteExpiredMessages().catch(error => {
+    console.error("Failed to expire messages", error);
+  });
+  messageExpiryTimer = setInterval(() => {
+    void deleteExpiredMessages().catch(error => {
+      console.error("Failed to expire messages", error);
+    });
+  }, MESSAGE_EXPIRY_SWEEP_INTERVAL_MS);
+};
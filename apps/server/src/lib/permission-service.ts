@@ -1,5 +1,5 @@
 import { ChannelType } from "@edgewire/types";
-import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { and, asc, eq, inArray, or, sql } from "drizzle-orm";
 import { db } from "../db";
 import {
   channelMembers,
@@ -9,7 +9,9 @@ import {
   guildMembers,
   guildRoles,
   guilds,
+  threadMembers,
 } from "../db/schema";
+import { GUILD_LEVEL_CHANNEL_TYPES } from "./channel-types";
 import {
   PermissionBits,
   computeBasePermissions,
@@ -18,6 +20,7 @@ import {
   type PermissionBit,
   type PermissionOverwriteInput,
 } from "./permissions";
+import { THREAD_CHANNEL_TYPES, isThreadChannelType } from "./threads";
 
 export type GuildPermissionContext = {
   guildId: string;
@@ -135,6 +138,8 @@ export const getChannelPermissionContext = async (
     };
   }
 
+  // Threads have no overwrites of their own; they inherit everything from the parent channel.
+  const overwriteChannelId = isThreadChannelType(channel.type) && channel.parentId ? channel.parentId : channelId;
   const overwrites = await db
     .select({
       overwrite_id: channelPermissionOverwrites.overwriteId,
@@ -143,9 +148,9 @@ export const getChannelPermissionContext = async (
       deny: channelPermissionOverwrites.deny,
     })
     .from(channelPermissionOverwrites)
-    .where(eq(channelPermissionOverwrites.channelId, channelId));
+    .where(eq(channelPermissionOverwrites.channelId, overwriteChannelId));
 
-  const permissions = computeChannelPermissions({
+  let permissions = computeChannelPermissions({
     basePermissions: guildContext.permissions,
     overwrites: toPermissionOverwrites(overwrites),
     memberRoleIds: guildContext.memberRoleIds,
@@ -153,6 +158,15 @@ export const getChannelPermissionContext = async (
     guildId: channel.guildId,
   });
 
+  if (channel.type === ChannelType.PRIVATE_THREAD && !hasPerm(permissions, PermissionBits.MANAGE_THREADS)) {
+    const member = await db.query.threadMembers.findFirst({
+      where: and(eq(threadMembers.channelId, channelId), eq(threadMembers.userId, userId)),
+    });
+    if (!member) {
+      permissions &= ~PermissionBits.VIEW_CHANNEL;
+    }
+  }
+
   return {
     channel,
     guildPermissions: guildContext,
@@ -196,13 +210,19 @@ export const listVisibleGuildChannelsForUser = async (
     .where(
       and(
         eq(channels.guildId, guildId),
-        inArray(channels.type, [ChannelType.GUILD_TEXT, ChannelType.GUILD_VOICE, ChannelType.GUILD_CATEGORY]),
+        or(
+          inArray(channels.type, [...GUILD_LEVEL_CHANNEL_TYPES]),
+          and(inArray(channels.type, [...THREAD_CHANNEL_TYPES]), eq(channels.archived, false)),
+        ),
       ),
     )
     .orderBy(asc(channels.position), asc(sql`${channels.id}::bigint`));
 
-  const results = await Promise.all(
-    allChannels.map(async channel => {
+  const guildChannels = allChannels.filter(channel => !isThreadChannelType(channel.type));
+  const activeThreads = allChannels.filter(channel => isThreadChannelType(channel.type));
+
+  const visibleGuildChannels = await Promise.all(
+    guildChannels.map(async channel => {
       const overwrites = await db
         .select({
           overwrite_id: channelPermissionOverwrites.overwriteId,
@@ -221,11 +241,47 @@ export const listVisibleGuildChannelsForUser = async (
         guildId,
       });
 
-      return hasPerm(perms, PermissionBits.VIEW_CHANNEL) ? channel : null;
+      return hasPerm(perms, PermissionBits.VIEW_CHANNEL) ? { channel, perms } : null;
     }),
   );
 
-  return results.filter((value): value is typeof channels.$inferSelect => Boolean(value));
+  const permissionsByChannelId = new Map(
+    visibleGuildChannels.flatMap(entry => (entry ? [[entry.channel.id, entry.perms] as const] : [])),
+  );
+  const joinedThreadRows =
+    activeThreads.length === 0
+      ? []
+      : await db
+          .select({ channelId: threadMembers.channelId })
+          .from(threadMembers)
+          .where(
+            and(
+              eq(threadMembers.userId, userId),
+              inArray(
+                threadMembers.channelId,
+                activeThreads.map(thread => thread.id),
+              ),
+            ),
+          );
+  const joinedThreadIds = new Set(joinedThreadRows.map(row => row.channelId));
+
+  const visibleThreads = activeThreads.filter(thread => {
+    const parentPerms = thread.parentId ? permissionsByChannelId.get(thread.parentId) : undefined;
+    if (parentPerms === undefined) {
+      return false;
+    }
+
+    return (
+      thread.type === ChannelType.PUBLIC_THREAD ||
+      joinedThreadIds.has(thread.id) ||
+      hasPerm(parentPerms, PermissionBits.MANAGE_THREADS)
+    );
+  });
+
+  return [
+    ...visibleGuildChannels.flatMap(entry => (entry ? [entry.channel] : [])),
+    ...visibleThreads,
+  ];
 };
 
 const toPermissionOverwrites = (
@@ -9,6 +9,11 @@ export const PermissionBits = {
   CONNECT: 1n << 20n,
   SPEAK: 1n << 21n,
   MANAGE_ROLES: 1n << 28n,
+  MANAGE_EMOJIS: 1n << 30n,
+  MANAGE_THREADS: 1n << 34n,
+  CREATE_PUBLIC_THREADS: 1n << 35n,
+  CREATE_PRIVATE_THREADS: 1n << 36n,
+  SEND_MESSAGES_IN_THREADS: 1n << 38n,
   ADMINISTRATOR: 1n << 3n,
 } as const;
 
@@ -120,6 +125,9 @@ export const defaultEveryonePermissions = (): string =>
     PermissionBits.VIEW_CHANNEL |
       PermissionBits.SEND_MESSAGES |
       PermissionBits.READ_MESSAGE_HISTORY |
+      PermissionBits.CREATE_PUBLIC_THREADS |
+      PermissionBits.CREATE_PRIVATE_THREADS |
+      PermissionBits.SEND_MESSAGES_IN_THREADS |
       PermissionBits.CONNECT |
       PermissionBits.SPEAK,
   );
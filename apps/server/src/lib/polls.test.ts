@@ -0,0 +1,36 @@
+import { describe, expect, it } from "bun:test";
+import { isPollClosed, toMessagePollPayload, toPollAnswers } from "./polls";
+
+const openPoll = {
+  question: "Lunch?",
+  answers: toPollAnswers([{ text: "Pizza" }, { text: "Sushi" }]),
+  allowMultiselect: false,
+  expiresAt: new Date("2030-01-01T00:00:00.000Z"),
+  finalizedAt: null,
+};
+
+describe("polls", () => {
+  it("numbers answers from one in order", () => {
+    expect(openPoll.answers).toEqual([
+      { answer_id: 1, text: "Pizza" },
+      { answer_id: 2, text: "Sushi" },
+    ]);
+  });
+
+  it("reports a count for every answer, including unvoted ones", () => {
+    const payload = toMessagePollPayload(openPoll, new Map([[2, { count: 3, me: true }]]));
+    expect(payload.results).toEqual({
+      is_finalized: false,
+      answer_counts: [
+        { id: 1, count: 0, me_voted: false },
+        { id: 2, count: 3, me_voted: true },
+      ],
+    });
+  });
+
+  it("closes once expired or finalized", () => {
+    expect(isPollClosed(openPoll, new Date("2029-12-31T23:59:59.000Z"))).toBe(false);
+    expect(isPollClosed(openPoll, new Date("2030-01-01T00:00:00.000Z"))).toBe(true);
+    expect(isPollClosed({ ...openPoll, finalizedAt: new Date("2029-06-01T00:00:00.000Z") }, new Date(0))).toBe(true);
+  });
+});
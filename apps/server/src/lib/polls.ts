@@ -0,0 +1,79 @@
+import type { MessagePoll, PollAnswer } from "@edgewire/types";
+import { inArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import { messagePolls, pollVotes } from "../db/schema";
+
+export const POLL_QUESTION_MAX_LENGTH = 300;
+export const POLL_ANSWER_MAX_LENGTH = 55;
+export const POLL_MIN_ANSWERS = 2;
+export const POLL_MAX_ANSWERS = 10;
+export const POLL_MAX_DURATION_HOURS = 32 * 24;
+
+type MessagePollFields = Pick<
+  typeof messagePolls.$inferSelect,
+  "question" | "answers" | "allowMultiselect" | "expiresAt" | "finalizedAt"
+>;
+
+// Answer ids are 1-based positions so clients can vote without extra lookups.
+export const toPollAnswers = (answers: Array<{ text: string }>): PollAnswer[] =>
+  answers.map((answer, index) => ({ answer_id: index + 1, text: answer.text }));
+
+export const isPollClosed = (poll: MessagePollFields, now = new Date()): boolean =>
+  poll.finalizedAt !== null || poll.expiresAt.getTime() <= now.getTime();
+
+export const toMessagePollPayload = (
+  poll: MessagePollFields,
+  counts: Map<number, { count: number; me: boolean }> = new Map(),
+): MessagePoll => ({
+  question: poll.question,
+  answers: poll.answers,
+  allow_multiselect: poll.allowMultiselect,
+  expiry: poll.expiresAt.toISOString(),
+  results: {
+    is_finalized: poll.finalizedAt !== null,
+    answer_counts: poll.answers.map(answer => ({
+      id: answer.answer_id,
+      count: counts.get(answer.answer_id)?.count ?? 0,
+      me_voted: counts.get(answer.answer_id)?.me ?? false,
+    })),
+  },
+});
+
+export const listMessagePollPayloads = async (
+  messageIds: string[],
+  viewerId: string | null,
+): Promise<Map<string, MessagePoll>> => {
+  if (messageIds.length === 0) {
+    return new Map();
+  }
+
+  const polls = await db.select().from(messagePolls).where(inArray(messagePolls.messageId, messageIds));
+  if (polls.length === 0) {
+    return new Map();
+  }
+
+  const voteRows = await db
+    .select({
+      messageId: pollVotes.messageId,
+      answerId: pollVotes.answerId,
+      count: sql<number>`count(*)::int`,
+      me: viewerId ? sql<boolean>`bool_or(${pollVotes.userId} = ${viewerId})` : sql<boolean>`false`,
+    })
+    .from(pollVotes)
+    .where(
+      inArray(
+        pollVotes.messageId,
+        polls.map(poll => poll.messageId),
+      ),
+    )
+    .groupBy(pollVotes.messageId, pollVotes.answerId);
+
+  const countsByMessage = new Map<string, Map<number, { count: number; me: boolean }>>();
+  for (const row of voteRows) {
+    const counts = countsByMessage.get(row.messageId) ?? new Map();
+    counts.set(row.answerId, { count: Number(row.count), me: Boolean(row.me) });
+    countsByMessage.set(row.messageId, counts);
+  }
+
+  return new Map(polls.map(poll => [poll.messageId, toMessagePollPayload(poll, countsByMessage.get(poll.messageId))]));
+};
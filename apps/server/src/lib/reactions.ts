@@ -0,0 +1,61 @@
+import type { MessageReaction, ReactionEmoji } from "@edgewire/types";
+import { inArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import { messageReactions } from "../db/schema";
+
+export const MAX_REACTION_EMOJIS_PER_MESSAGE = 20;
+
+const REACTION_EMOJI_MAX_LENGTH = 32;
+const UNICODE_EMOJI_REGEX =
+  /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator}|[0-9#*]\uFE0F?\u20E3)[\p{Extended_Pictographic}\p{Emoji_Modifier}\p{Regional_Indicator}\u200D\uFE0F\u20E3]*$/u;
+
+// Reactions are keyed by the raw emoji string so the same emoji always aggregates into one bucket.
+export const parseReactionEmoji = (value: string | null | undefined): string | null => {
+  const emoji = value?.trim();
+  if (!emoji || emoji.length > REACTION_EMOJI_MAX_LENGTH) {
+    return null;
+  }
+
+  return UNICODE_EMOJI_REGEX.test(emoji) ? emoji : null;
+};
+
+export const toReactionEmoji = (emoji: string): ReactionEmoji => ({
+  id: null,
+  name: emoji,
+});
+
+export const listMessageReactionPayloads = async (
+  messageIds: string[],
+  viewerId: string | null,
+): Promise<Map<string, MessageReaction[]>> => {
+  if (messageIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select({
+      messageId: messageReactions.messageId,
+      emoji: messageReactions.emoji,
+      count: sql<number>`count(*)::int`,
+      me: viewerId
+        ? sql<boolean>`bool_or(${messageReactions.userId} = ${viewerId})`
+        : sql<boolean>`false`,
+    })
+    .from(messageReactions)
+    .where(inArray(messageReactions.messageId, messageIds))
+    .groupBy(messageReactions.messageId, messageReactions.emoji)
+    .orderBy(sql`min(${messageReactions.createdAt})`);
+
+  const grouped = new Map<string, MessageReaction[]>();
+  for (const row of rows) {
+    const current = grouped.get(row.messageId) ?? [];
+    current.push({
+      emoji: toReactionEmoji(row.emoji),
+      count: Number(row.count),
+      me: Boolean(row.me),
+    });
+    grouped.set(row.messageId, current);
+  }
+
+  return grouped;
+};
@@ -0,0 +1,42 @@
+import type { MessageReminderPayload } from "@edgewire/types";
+import { messageReminders } from "../db/schema";
+import { emitToUsers } from "../runtime";
+import { loadMessageContexts } from "./message-context";
+
+type MessageReminderRow = typeof messageReminders.$inferSelect;
+
+export const toReminderPayloads = async (
+  rows: MessageReminderRow[],
+  viewerId: string,
+): Promise<MessageReminderPayload[]> => {
+  const contexts = await loadMessageContexts(
+    rows.map(row => row.messageId),
+    viewerId,
+  );
+
+  return rows.flatMap((row): MessageReminderPayload[] => {
+    const context = contexts.get(row.messageId);
+    if (!context) {
+      return [];
+    }
+
+    return [
+      {
+        id: row.id,
+        message_id: row.messageId,
+        ...context,
+        remind_at: row.remindAt.toISOString(),
+        fired: row.firedAt !== null,
+        created_at: row.createdAt.toISOString(),
+      },
+    ];
+  });
+};
+
+export const emitReminderUpdate = (
+  userId: string,
+  messageId: string,
+  reminder: MessageReminderPayload | null,
+): void => {
+  emitToUsers([userId], "REMINDER_UPDATE", { message_id: messageId, reminder });
+};
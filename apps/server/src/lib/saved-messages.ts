@@ -0,0 +1,44 @@
+import type { SavedMessagePayload } from "@edgewire/types";
+import { savedMessages } from "../db/schema";
+import { emitToUsers } from "../runtime";
+import { loadMessageContexts } from "./message-context";
+
+type SavedMessageRow = typeof savedMessages.$inferSelect;
+
+/**
+ * Builds saved message payloads with the channel and guild they came from.
+ */
+export const toSavedMessagePayloads = async (
+  rows: SavedMessageRow[],
+  viewerId: string,
+): Promise<SavedMessagePayload[]> => {
+  const contexts = await loadMessageContexts(
+    rows.map(row => row.messageId),
+    viewerId,
+  );
+
+  return rows.flatMap((row): SavedMessagePayload[] => {
+    const context = contexts.get(row.messageId);
+    if (!context) {
+      return [];
+    }
+
+    return [
+      {
+        id: row.id,
+        message_id: row.messageId,
+        ...context,
+        note: row.note,
+        saved_at: row.createdAt.toISOString(),
+      },
+    ];
+  });
+};
+
+export const emitSavedMessageUpdate = (
+  userId: string,
+  messageId: string,
+  savedMessage: SavedMessagePayload | null,
+): void => {
+  emitToUsers([userId], "SAVED_MESSAGE_UPDATE", { message_id: messageId, saved_message: savedMessage });
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "bun:test";
+import { isEmptyMessageSearch, parseMessageSearchQuery } from "./search";
+
+describe("message search query parsing", () => {
+  it("separates filters from free text", () => {
+    const parsed = parseMessageSearchQuery('deploy from:<@123> in:#ops has:attachment "release notes" mentions:alice');
+    if ("error" in parsed) {
+      throw new Error(parsed.error);
+    }
+
+    expect(parsed.query.text).toBe('deploy "release notes"');
+    expect(parsed.query.from).toEqual(["123"]);
+    expect(parsed.query.mentions).toEqual(["alice"]);
+    expect(parsed.query.in).toEqual(["ops"]);
+    expect(parsed.query.has).toEqual(["attachment"]);
+  });
+
+  it("treats dates as whole UTC days", () => {
+    const parsed = parseMessageSearchQuery("before:2024-03-10 after:2024-03-01");
+    if ("error" in parsed) {
+      throw new Error(parsed.error);
+    }
+
+    expect(parsed.query.before?.toISOString()).toBe("2024-03-10T00:00:00.000Z");
+    expect(parsed.query.after?.toISOString()).toBe("2024-03-02T00:00:00.000Z");
+    expect(parsed.query.text).toBe("");
+    expect(isEmptyMessageSearch(parsed.query)).toBe(false);
+  });
+
+  it("rejects invalid dates and unknown has: values", () => {
+    expect(parseMessageSearchQuery("before:2024-02-30")).toHaveProperty("error");
+    expect(parseMessageSearchQuery("has:sticker")).toHaveProperty("error");
+  });
+
+  it("leaves unknown key:value pairs in the text", () => {
+    const parsed = parseMessageSearchQuery("error:timeout");
+    if ("error" in parsed) {
+      throw new Error(parsed.error);
+    }
+
+    expect(parsed.query.text).toBe("error:timeout");
+  });
+});
@@ -0,0 +1,96 @@
+export const MESSAGE_SEARCH_HAS_FILTERS = ["attachment", "image", "video", "link"] as const;
+
+export type MessageSearchHasFilter = (typeof MESSAGE_SEARCH_HAS_FILTERS)[number];
+
+export type ParsedMessageSearch = {
+  text: string;
+  from: string[];
+  mentions: string[];
+  has: MessageSearchHasFilter[];
+  in: string[];
+  before: Date | null;
+  after: Date | null;
+};
+
+const FILTER_TOKEN_REGEX = /(^|\s)(from|mentions|has|in|before|after):(?:"([^"]*)"|(\S+))/gi;
+const DATE_VALUE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DAY_MS = 24 * 60 * 60 * 1_000;
+
+const isHasFilter = (value: string): value is MessageSearchHasFilter =>
+  (MESSAGE_SEARCH_HAS_FILTERS as readonly string[]).includes(value);
+
+// Accepts raw ids as well as the `<@id>` / `<#id>` tokens the composer produces.
+const normalizeUserValue = (value: string): string => value.replace(/^<@!?([^\s>]+)>$/, "$1").replace(/^@/, "");
+const normalizeChannelValue = (value: string): string => value.replace(/^<#([^\s>]+)>$/, "$1").replace(/^#/, "");
+
+const parseDateValue = (value: string): Date | null => {
+  const match = DATE_VALUE_REGEX.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().startsWith(value) ? date : null;
+};
+
+/**
+ * Splits a search box query into free text and `key:value` filters.
+ * Dates are whole UTC days: `before:` excludes the given day and `after:` starts the day after it.
+ */
+export const parseMessageSearchQuery = (raw: string): { query: ParsedMessageSearch } | { error: string } => {
+  const query: ParsedMessageSearch = {
+    text: "",
+    from: [],
+    mentions: [],
+    has: [],
+    in: [],
+    before: null,
+    after: null,
+  };
+
+  for (const match of raw.matchAll(FILTER_TOKEN_REGEX)) {
+    const key = match[2]!.toLowerCase();
+    const value = (match[3] ?? match[4] ?? "").trim();
+    if (!value) {
+      return { error: `Missing value for ${key}: filter.` };
+    }
+
+    if (key === "from") {
+      query.from.push(normalizeUserValue(value));
+    } else if (key === "mentions") {
+      query.mentions.push(normalizeUserValue(value));
+    } else if (key === "in") {
+      query.in.push(normalizeChannelValue(value));
+    } else if (key === "has") {
+      const normalized = value.toLowerCase();
+      if (!isHasFilter(normalized)) {
+        return { error: `Unsupported has: filter "${value}".` };
+      }
+      if (!query.has.includes(normalized)) {
+        query.has.push(normalized);
+      }
+    } else {
+      const date = parseDateValue(value);
+      if (!date) {
+        return { error: `Invalid ${key}: date "${value}". Use YYYY-MM-DD.` };
+      }
+      if (key === "before") {
+        query.before = date;
+      } else {
+        query.after = new Date(date.getTime() + DAY_MS);
+      }
+    }
+  }
+
+  query.text = raw.replace(FILTER_TOKEN_REGEX, "$1").replace(/\s+/g, " ").trim();
+  return { query };
+};
+
+export const isEmptyMessageSearch = (query: ParsedMessageSearch): boolean =>
+  !query.text &&
+  query.from.length === 0 &&
+  query.mentions.length === 0 &&
+  query.has.length === 0 &&
+  query.in.length === 0 &&
+  query.before === null &&
+  query.after === null;
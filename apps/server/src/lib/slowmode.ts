@@ -0,0 +1,64 @@
+import { PermissionBits } from "./permissions";
+import { hasChannelPermission } from "./permission-service";
+
+const cooldownUntilByKey = new Map<string, number>();
+
+const toCooldownKey = (channelId: string, userId: string): string => `${channelId}:${userId}`;
+
+export const isSlowmodeExempt = async (userId: string, channelId: string): Promise<boolean> =>
+  (await hasChannelPermission(userId, channelId, PermissionBits.MANAGE_MESSAGES)) ||
+  (await hasChannelPermission(userId, channelId, PermissionBits.MANAGE_CHANNELS));
+
+// Claims the user's next send in a slowmode channel; returns the seconds left to wait when still cooling down.
+export const claimSlowmodeSlot = (
+  channelId: string,
+  userId: string,
+  rateLimitPerUser: number,
+  now = Date.now(),
+): number | null => {
+  const key = toCooldownKey(channelId, userId);
+  const cooldownUntil = cooldownUntilByKey.get(key);
+  if (cooldownUntil !== undefined && cooldownUntil > now) {
+    return (cooldownUntil - now) / 1000;
+  }
+
+  const nextCooldownUntil = now + rateLimitPerUser * 1000;
+  cooldownUntilByKey.set(key, nextCooldownUntil);
+  const timer = setTimeout(() => {
+    if (cooldownUntilByKey.get(key) === nextCooldownUntil) {
+      cooldownUntilByKey.delete(key);
+    }
+  }, nextCooldownUntil - now);
+  timer.unref?.();
+  return null;
+};
+
+// Gives the slot back when the send it was claimed for fails, so a rejected message does not start a cooldown.
+export const releaseSlowmodeSlot = (channelId: string, userId: string): void => {
+  cooldownUntilByKey.delete(toCooldownKey(channelId, userId));
+};
+
+export type SlowmodeClaim = { retryAfter: number } | { release: () => void };
+
+const NO_SLOWMODE: SlowmodeClaim = { release: () => {} };
+
+/**
+ * Claims the user's next send in `channel` under its slowmode. Every path that posts as a user goes
+ * through here, so scheduled sends and forum posts wait out the same cooldown as typed messages.
+ */
+export const claimChannelSlowmode = async (
+  channel: { id: string; rateLimitPerUser: number },
+  userId: string,
+  isExempt: (userId: string, channelId: string) => Promise<boolean> = isSlowmodeExempt,
+  now = Date.now(),
+): Promise<SlowmodeClaim> => {
+  if (channel.rateLimitPerUser <= 0 || (await isExempt(userId, channel.id))) {
+    return NO_SLOWMODE;
+  }
+
+  const retryAfter = claimSlowmodeSlot(channel.id, userId, channel.rateLimitPerUser, now);
+  if (retryAfter !== null) {
+    return { retryAfter };
+  }
+  return { release: () => releaseSlowmodeSlot(channel.id, userId) };
+};
@@ -23,3 +23,12 @@ export const nextSnowflake = (): bigint => {
   const id = timestampPart | machinePart | sequence;
   return id;
 };
+
+// Live servers default to machine id 1; imports use the top id so backfilled rows stay out of their way.
+export const IMPORT_MACHINE_ID = 0x3ffn;
+
+// The lowest snowflake for a given time and machine. Times before the epoch clamp to it.
+export const snowflakeAt = (timestamp: number, machineId: bigint): bigint => {
+  const offset = BigInt(Math.floor(timestamp)) - EPOCH;
+  return ((offset > 0n ? offset : 0n) << 22n) | ((machineId & 0x3ffn) << 12n);
+};
@@ -0,0 +1,91 @@
+import { MessageType, SystemChannelFlags, type MessagePayload, type MessageTypeValue } from "@edgewire/types";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { channels, guilds, messages } from "../db/schema";
+import { isTextChannelType } from "./channel-types";
+import { emitToChannelAudience, hydrateMessagePayloads, nextId, type ChannelRow } from "../runtime";
+
+type SystemChannelFlag = (typeof SystemChannelFlags)[keyof typeof SystemChannelFlags];
+
+type SystemMessageInput = {
+  channel: ChannelRow;
+  authorId: string;
+  type: Exclude<MessageTypeValue, typeof MessageType.DEFAULT>;
+  content?: string;
+  referencedMessageId?: string | null;
+  mentionChannelIds?: string[];
+};
+
+const SUPPRESS_FLAG_BY_TYPE: Partial<Record<MessageTypeValue, SystemChannelFlag>> = {
+  [MessageType.GUILD_MEMBER_JOIN]: SystemChannelFlags.SUPPRESS_JOIN_NOTIFICATIONS,
+  [MessageType.GUILD_MEMBER_LEAVE]: SystemChannelFlags.SUPPRESS_LEAVE_NOTIFICATIONS,
+  [MessageType.CHANNEL_PINNED_MESSAGE]: SystemChannelFlags.SUPPRESS_PIN_NOTIFICATIONS,
+  [MessageType.CHANNEL_NAME_CHANGE]: SystemChannelFlags.SUPPRESS_CHANNEL_UPDATE_NOTIFICATIONS,
+  [MessageType.CHANNEL_TOPIC_CHANGE]: SystemChannelFlags.SUPPRESS_CHANNEL_UPDATE_NOTIFICATIONS,
+  [MessageType.THREAD_CREATED]: SystemChannelFlags.SUPPRESS_THREAD_NOTIFICATIONS,
+};
+
+export const isSystemMessageSuppressed = (systemChannelFlags: number, type: MessageTypeValue): boolean => {
+  const flag = SUPPRESS_FLAG_BY_TYPE[type];
+  return flag !== undefined && (systemChannelFlags & flag) !== 0;
+};
+
+const isGuildSystemMessageEnabled = async (guildId: string, type: MessageTypeValue): Promise<boolean> => {
+  const guild = await db.query.guilds.findFirst({
+    where: eq(guilds.id, guildId),
+    columns: { systemChannelFlags: true },
+  });
+  return guild !== undefined && !isSystemMessageSuppressed(guild.systemChannelFlags, type);
+};
+
+export const postSystemMessage = async (input: SystemMessageInput): Promise<MessagePayload | null> => {
+  const [created] = await db
+    .insert(messages)
+    .values({
+      id: nextId(),
+      channelId: input.channel.id,
+      authorId: input.authorId,
+      type: input.type,
+      content: input.content ?? "",
+      referencedMessageId: input.referencedMessageId ?? null,
+      mentionChannelIds: input.mentionChannelIds ?? [],
+    })
+    .returning();
+  if (!created) {
+    return null;
+  }
+
+  const [payload] = await hydrateMessagePayloads([created], input.channel.guildId ?? null, input.authorId);
+  if (payload) {
+    await emitToChannelAudience(input.channel, "MESSAGE_CREATE", payload);
+  }
+
+  return payload ?? null;
+};
+
+// Channel events (pins, renames, threads) are posted in the channel itself, subject to the guild's suppress flags.
+export const postChannelSystemMessage = async (input: SystemMessageInput): Promise<MessagePayload | null> => {
+  if (input.channel.guildId && !(await isGuildSystemMessageEnabled(input.channel.guildId, input.type))) {
+    return null;
+  }
+
+  return postSystemMessage(input);
+};
+
+// Membership events go to the guild's configured system channel; nothing is posted when none is set.
+export const postGuildSystemMessage = async (
+  guildId: string,
+  input: Omit<SystemMessageInput, "channel">,
+): Promise<MessagePayload | null> => {
+  const guild = await db.query.guilds.findFirst({ where: eq(guilds.id, guildId) });
+  if (!guild?.systemChannelId || isSystemMessageSuppressed(guild.systemChannelFlags, input.type)) {
+    return null;
+  }
+
+  const channel = await db.query.channels.findFirst({ where: eq(channels.id, guild.systemChannelId) });
+  if (!channel || channel.guildId !== guildId || !isTextChannelType(channel.type)) {
+    return null;
+  }
+
+  return postSystemMessage({ ...input, channel });
+};
@@ -0,0 +1,101 @@
+import {
+  ChannelType,
+  type GuildChannelPayload,
+  type ThreadMemberUpdateEvent,
+  type ThreadMembersUpdateEvent,
+} from "@edgewire/types";
+import { and, count, eq } from "drizzle-orm";
+import { db } from "../db";
+import { channels, threadMembers } from "../db/schema";
+import { hasChannelPermission } from "./permission-service";
+import { PermissionBits } from "./permissions";
+import { toThreadMemberPayload } from "./threads";
+import { emitToChannelAudience, emitToUsers, toGuildChannelPayload, type ChannelRow } from "../runtime";
+
+export const countThreadMembers = async (threadId: string): Promise<number> => {
+  const [row] = await db.select({ value: count() }).from(threadMembers).where(eq(threadMembers.channelId, threadId));
+  return Number(row?.value ?? 0);
+};
+
+export const toThreadPayload = async (thread: ChannelRow): Promise<GuildChannelPayload> => ({
+  ...toGuildChannelPayload(thread),
+  member_count: await countThreadMembers(thread.id),
+});
+
+// Returns false when the user was already a member, so callers can skip duplicate events.
+export const addThreadMember = async (thread: ChannelRow, userId: string): Promise<boolean> => {
+  const [member] = await db
+    .insert(threadMembers)
+    .values({ channelId: thread.id, userId })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!member || !thread.guildId) {
+    return Boolean(member);
+  }
+
+  const memberPayload = toThreadMemberPayload(member);
+  const memberEvent: ThreadMemberUpdateEvent = { ...memberPayload, guild_id: thread.guildId };
+  emitToUsers([userId], "THREAD_MEMBER_UPDATE", memberEvent);
+
+  // Private threads only become visible once joined, so the new member needs the channel itself.
+  if (thread.type === ChannelType.PRIVATE_THREAD) {
+    emitToUsers([userId], "THREAD_CREATE", await toThreadPayload(thread));
+  }
+
+  const membersEvent: ThreadMembersUpdateEvent = {
+    id: thread.id,
+    guild_id: thread.guildId,
+    member_count: await countThreadMembers(thread.id),
+    added_members: [memberPayload],
+  };
+  await emitToChannelAudience(thread, "THREAD_MEMBERS_UPDATE", membersEvent);
+  return true;
+};
+
+export const removeThreadMember = async (thread: ChannelRow, userId: string): Promise<boolean> => {
+  const removed = await db
+    .delete(threadMembers)
+    .where(and(eq(threadMembers.channelId, thread.id), eq(threadMembers.userId, userId)))
+    .returning({ userId: threadMembers.userId });
+
+  if (removed.length === 0 || !thread.guildId) {
+    return removed.length > 0;
+  }
+
+  const membersEvent: ThreadMembersUpdateEvent = {
+    id: thread.id,
+    guild_id: thread.guildId,
+    member_count: await countThreadMembers(thread.id),
+    removed_member_ids: [userId],
+  };
+  await emitToChannelAudience(thread, "THREAD_MEMBERS_UPDATE", membersEvent);
+
+  if (
+    thread.type === ChannelType.PRIVATE_THREAD &&
+    !(await hasChannelPermission(userId, thread.id, PermissionBits.VIEW_CHANNEL))
+  ) {
+    emitToUsers([userId], "THREAD_DELETE", toGuildChannelPayload(thread));
+  }
+
+  return true;
+};
+
+export const setThreadArchived = async (thread: ChannelRow, archived: boolean): Promise<ChannelRow> => {
+  if (thread.archived === archived) {
+    return thread;
+  }
+
+  const [updated] = await db
+    .update(channels)
+    .set({ archived, archiveTimestamp: new Date() })
+    .where(eq(channels.id, thread.id))
+    .returning();
+
+  if (!updated) {
+    return thread;
+  }
+
+  await emitToChannelAudience(updated, "THREAD_UPDATE", await toThreadPayload(updated));
+  return updated;
+};
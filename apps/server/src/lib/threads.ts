@@ -0,0 +1,30 @@
+import {
+  ChannelType,
+  type ThreadAutoArchiveDuration,
+  type ThreadMemberPayload,
+  type ThreadMetadata,
+} from "@edgewire/types";
+import type { channels, threadMembers } from "../db/schema";
+
+export const THREAD_CHANNEL_TYPES = [ChannelType.PUBLIC_THREAD, ChannelType.PRIVATE_THREAD] as const;
+export const THREAD_AUTO_ARCHIVE_DURATIONS = [60, 1440, 4320, 10080] as const;
+export const DEFAULT_THREAD_AUTO_ARCHIVE_DURATION: ThreadAutoArchiveDuration = 1440;
+
+export const isThreadChannelType = (type: number): boolean =>
+  type === ChannelType.PUBLIC_THREAD || type === ChannelType.PRIVATE_THREAD;
+
+const toAutoArchiveDuration = (value: number | null): ThreadAutoArchiveDuration =>
+  THREAD_AUTO_ARCHIVE_DURATIONS.find(duration => duration === value) ?? DEFAULT_THREAD_AUTO_ARCHIVE_DURATION;
+
+export const toThreadMetadata = (channel: typeof channels.$inferSelect): ThreadMetadata => ({
+  archived: channel.archived,
+  auto_archive_duration: toAutoArchiveDuration(channel.autoArchiveDuration),
+  archive_timestamp: (channel.archiveTimestamp ?? channel.createdAt).toISOString(),
+  create_timestamp: channel.createdAt.toISOString(),
+});
+
+export const toThreadMemberPayload = (member: typeof threadMembers.$inferSelect): ThreadMemberPayload => ({
+  id: member.channelId,
+  user_id: member.userId,
+  join_timestamp: member.joinedAt.toISOString(),
+});
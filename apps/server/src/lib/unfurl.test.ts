@@ -0,0 +1,101 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import type { Server } from "bun";
+import { extractEmbedUrls, fetchLinkEmbed, isPrivateAddress } from "./unfurl";
+
+const ARTICLE_HTML = `<!doctype html>
+<html>
+  <head>
+    <title>Fallback title</title>
+    <meta property="og:title" content="Release notes &amp; changes">
+    <meta property="og:description" content="Everything that shipped this week.">
+    <meta property="og:image" content="/cover.png">
+    <meta property="og:image:width" content="1200">
+    <link rel="alternate" type="application/json+oembed" href="/oembed.json">
+  </head>
+  <body><meta property="og:title" content="Ignored body tag"></body>
+</html>`;
+
+describe("link unfurling", () => {
+  let server: Server<undefined>;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        const { pathname } = new URL(request.url);
+        if (pathname === "/article") {
+          return new Response(ARTICLE_HTML, { headers: { "content-type": "text/html; charset=utf-8" } });
+        }
+        if (pathname === "/oembed.json") {
+          return Response.json({ provider_name: "Stub News", thumbnail_url: "https://cdn.example/unused.png" });
+        }
+        if (pathname === "/moved") {
+          return new Response(null, { status: 302, headers: { location: "/article" } });
+        }
+        if (pathname === "/photo.png") {
+          return new Response(new Uint8Array([137, 80, 78, 71]), { headers: { "content-type": "image/png" } });
+        }
+        return new Response("not found", { status: 404 });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  it("extracts previewable urls from message content", () => {
+    expect(
+      extractEmbedUrls(
+        "see https://example.com/a, <https://example.com/hidden> and `https://example.com/code` or https://example.com/a#top",
+      ),
+    ).toEqual(["https://example.com/a"]);
+  });
+
+  it("treats loopback, private and embedded IPv4 addresses as private", () => {
+    expect(isPrivateAddress("127.0.0.1")).toBe(true);
+    expect(isPrivateAddress("10.1.2.3")).toBe(true);
+    expect(isPrivateAddress("169.254.169.254")).toBe(true);
+    expect(isPrivateAddress("::1")).toBe(true);
+    expect(isPrivateAddress("::ffff:192.168.0.1")).toBe(true);
+    expect(isPrivateAddress("::ffff:a9fe:a9fe")).toBe(true);
+    expect(isPrivateAddress("64:ff9b::7f00:1")).toBe(true);
+    expect(isPrivateAddress("64:ff9b::169.254.169.254")).toBe(true);
+    expect(isPrivateAddress("2002:a00:1::1")).toBe(true);
+    expect(isPrivateAddress("fd00::1")).toBe(true);
+    expect(isPrivateAddress("fe80::1%eth0")).toBe(true);
+    expect(isPrivateAddress("93.184.216.34")).toBe(false);
+    expect(isPrivateAddress("2606:4700::1111")).toBe(false);
+    expect(isPrivateAddress("64:ff9b::5db8:d822")).toBe(false);
+    expect(isPrivateAddress("2002:5db8:d822::1")).toBe(false);
+  });
+
+  it("builds an embed from OpenGraph metadata and fills gaps from oEmbed", async () => {
+    const url = new URL("/moved", server.url).toString();
+    const embed = await fetchLinkEmbed(url, { allowPrivateNetworks: true });
+
+    expect(embed).toEqual({
+      type: "link",
+      url,
+      title: "Release notes & changes",
+      description: "Everything that shipped this week.",
+      site_name: "Stub News",
+      thumbnail: { url: new URL("/cover.png", server.url).toString(), width: 1200, height: null },
+    });
+  });
+
+  it("previews direct image links", async () => {
+    const url = new URL("/photo.png", server.url).toString();
+    const embed = await fetchLinkEmbed(url, { allowPrivateNetworks: true });
+
+    expect(embed?.type).toBe("image");
+    expect(embed?.thumbnail?.url).toBe(url);
+  });
+
+  it("refuses private network targets unless explicitly allowed", async () => {
+    const url = new URL("/article", server.url).toString();
+
+    expect(await fetchLinkEmbed(url, { allowPrivateNetworks: false })).toBeNull();
+    expect(await fetchLinkEmbed(new URL("/missing", server.url).toString(), { allowPrivateNetworks: true })).toBeNull();
+  });
+});
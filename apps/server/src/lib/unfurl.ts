@@ -0,0 +1,521 @@
+import type { MessageEmbed, MessageEmbedImage } from "@edgewire/types";
+import { lookup } from "node:dns/promises";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { isIP, type LookupFunction } from "node:net";
+import { Readable } from "node:stream";
+import { env } from "../env";
+
+export const UNFURL_MAX_URLS = 5;
+export const UNFURL_TIMEOUT_MS = 5_000;
+export const UNFURL_MAX_HTML_BYTES = 512 * 1024;
+export const UNFURL_MAX_OEMBED_BYTES = 64 * 1024;
+const UNFURL_MAX_REDIRECTS = 3;
+const UNFURL_USER_AGENT = "Mozilla/5.0 (compatible; EdgewireBot/1.0; +link-preview)";
+
+const EMBED_TITLE_MAX_LENGTH = 256;
+const EMBED_DESCRIPTION_MAX_LENGTH = 350;
+
+export type UnfurlOptions = {
+  allowPrivateNetworks?: boolean;
+};
+
+const CODE_BLOCK_REGEX = /```[\s\S]*?```|`[^`\n]*`/g;
+const EMBED_URL_REGEX = /<?https?:\/\/[^\s<>]*[^\s<.,:;"')\]!?*_~|>]>?/g;
+const META_TAG_REGEX = /<meta\b[^>]*>/gi;
+const LINK_TAG_REGEX = /<link\b[^>]*>/gi;
+const ATTRIBUTE_REGEX = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+const TITLE_REGEX = /<title[^>]*>([^<]*)<\/title>/i;
+const ENTITY_REGEX = /&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|nbsp);/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Picks the URLs that should get a preview, in order of appearance. Links inside code and
+ * links wrapped in `<...>` are left alone, matching how Discord lets authors opt out per link.
+ */
+export const extractEmbedUrls = (content: string): string[] => {
+  const urls: string[] = [];
+  for (const [match] of content.replace(CODE_BLOCK_REGEX, " ").matchAll(EMBED_URL_REGEX)) {
+    if (match.startsWith("<") && match.endsWith(">")) {
+      continue;
+    }
+
+    const candidate = match.replace(/^</, "").replace(/>$/, "");
+    let url: URL;
+    try {
+      url = new URL(candidate);
+    } catch {
+      continue;
+    }
+    if (url.username || url.password) {
+      continue;
+    }
+
+    url.hash = "";
+    const normalized = url.toString();
+    if (!urls.includes(normalized)) {
+      urls.push(normalized);
+    }
+    if (urls.length >= UNFURL_MAX_URLS) {
+      break;
+    }
+  }
+
+  return urls;
+};
+
+const parseIpv4 = (address: string): number[] | null => {
+  const parts = address.split(".");
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+};
+
+const isPrivateIpv4 = ([a, b, c]: number[]): boolean =>
+  a === 0 ||
+  a === 10 ||
+  a === 127 ||
+  (a === 100 && b! >= 64 && b! <= 127) ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b! >= 16 && b! <= 31) ||
+  (a === 192 && b === 0 && c === 0) ||
+  (a === 192 && b === 168) ||
+  (a === 198 && (b === 18 || b === 19)) ||
+  a! >= 224;
+
+const parseIpv6Groups = (address: string): number[] | null => {
+  let text = address;
+  const lastColon = text.lastIndexOf(":");
+  const dotted = parseIpv4(text.slice(lastColon + 1));
+  if (dotted) {
+    const [a, b, c, d] = dotted as [number, number, number, number];
+    text = `${text.slice(0, lastColon + 1)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail, ...rest] = text.split("::");
+  if (rest.length > 0) {
+    return null;
+  }
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (tail === undefined ? missing !== 0 : missing < 1) {
+    return null;
+  }
+
+  const groups = [...headGroups, ...Array<string>(tail === undefined ? 0 : missing).fill("0"), ...tailGroups];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) {
+    return null;
+  }
+  return groups.map(group => Number.parseInt(group, 16));
+};
+
+const toIpv4Octets = (high: number, low: number): number[] => [high >> 8, high & 0xff, low >> 8, low & 0xff];
+
+// IPv4-mapped (::ffff:0:0/96), NAT64 (64:ff9b::/96) and 6to4 (2002::/16) addresses reach the IPv4 address inside them.
+const embeddedIpv4 = (groups: number[]): number[] | null => {
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups as [number, number, number, number, number, number, number, number];
+  const zeroPrefix = g2 === 0 && g3 === 0 && g4 === 0;
+  if (g0 === 0 && g1 === 0 && zeroPrefix && g5 === 0xffff) {
+    return toIpv4Octets(g6, g7);
+  }
+  if (g0 === 0x64 && g1 === 0xff9b && zeroPrefix && g5 === 0) {
+    return toIpv4Octets(g6, g7);
+  }
+  if (g0 === 0x2002) {
+    return toIpv4Octets(g1, g2);
+  }
+  return null;
+};
+
+/**
+ * True for loopback, link-local, private, carrier-grade NAT, multicast and other
+ * non-routable addresses, including IPv4 addresses wrapped in IPv6.
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  const normalized = address.toLowerCase().replace(/^\[|\]$/g, "");
+  const ipv4 = parseIpv4(normalized);
+  if (ipv4) {
+    return isPrivateIpv4(ipv4);
+  }
+
+  const groups = isIP(normalized) === 6 ? parseIpv6Groups(normalized) : null;
+  if (!groups) {
+    return true;
+  }
+
+  const embedded = embeddedIpv4(groups);
+  if (embedded) {
+    return isPrivateIpv4(embedded);
+  }
+
+  const [first] = groups as [number];
+  return (
+    groups.slice(0, 7).every(group => group === 0) ||
+    (first & 0xfe00) === 0xfc00 ||
+    (first & 0xffc0) === 0xfe80 ||
+    (first & 0xff00) === 0xff00
+  );
+};
+
+type ResolvedAddress = { address: string; family: number };
+
+// Picks the address to connect to; with private networks disallowed every answer must be public.
+const resolveTargetAddress = async (
+  hostname: string,
+  allowPrivateNetworks: boolean,
+): Promise<ResolvedAddress | null> => {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const family = isIP(host);
+  if (family !== 0) {
+    return allowPrivateNetworks || !isPrivateAddress(host) ? { address: host, family } : null;
+  }
+
+  try {
+    const addresses = await lookup(host, { all: true, verbatim: true });
+    if (!allowPrivateNetworks && addresses.some(entry => isPrivateAddress(entry.address))) {
+      return null;
+    }
+    return addresses[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Sends the request to the address that passed the check instead of letting the client
+ * resolve the name again, so a DNS answer that changes in between (rebinding) can't point
+ * it at a private address. TLS still verifies the certificate against the hostname.
+ */
+const requestResolved = (
+  url: URL,
+  target: ResolvedAddress,
+  accept: string,
+  signal: AbortSignal,
+): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+    const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+      if (options.all) {
+        callback(null, [target]);
+      } else {
+        callback(null, target.address, target.family);
+      }
+    };
+
+    const request = send(
+      url,
+      {
+        signal,
+        lookup: pinnedLookup,
+        headers: { accept, "accept-encoding": "identity", "user-agent": UNFURL_USER_AGENT },
+      },
+      incoming => {
+        const headers = new Headers();
+        for (const [name, value] of Object.entries(incoming.headers)) {
+          for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+            headers.append(name, item);
+          }
+        }
+
+        const status = incoming.statusCode ?? 502;
+        if (NULL_BODY_STATUSES.has(status)) {
+          incoming.resume();
+        }
+        resolve(
+          new Response(NULL_BODY_STATUSES.has(status) ? null : (Readable.toWeb(incoming) as ReadableStream<Uint8Array>), {
+            status,
+            headers,
+          }),
+        );
+      },
+    );
+    request.on("error", reject);
+    request.end();
+  });
+
+type GuardedResponse = { response: Response; url: URL };
+
+// Redirects are followed by hand so every hop goes through the same address check.
+const guardedFetch = async (
+  url: URL,
+  accept: string,
+  signal: AbortSignal,
+  options: UnfurlOptions,
+): Promise<GuardedResponse | null> => {
+  const allowPrivateNetworks = options.allowPrivateNetworks ?? env.UNFURL_ALLOW_PRIVATE_NETWORKS;
+  let current = url;
+
+  for (let hop = 0; hop <= UNFURL_MAX_REDIRECTS; hop += 1) {
+    if (current.protocol !== "http:" && current.protocol !== "https:") {
+      return null;
+    }
+    const target = await resolveTargetAddress(current.hostname, allowPrivateNetworks);
+    if (!target) {
+      return null;
+    }
+
+    const response = await requestResolved(current, target, accept, signal);
+
+    if (response.status >= 300 && response.status < 400) {
+      await response.body?.cancel();
+      const location = response.headers.get("location");
+      if (!location) {
+        return null;
+      }
+      current = new URL(location, current);
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      return null;
+    }
+    return { response, url: current };
+  }
+
+  return null;
+};
+
+/**
+ * Reads at most `maxBytes` of the body. HTML is cut off at the cap (the metadata lives in
+ * `<head>`); callers that need the whole document pass `truncate: false` and get null instead.
+ */
+const readBody = async (response: Response, maxBytes: number, truncate: boolean): Promise<string | null> => {
+  const declaredLength = Number(response.headers.get("content-length") ?? "0");
+  if (!truncate && declaredLength > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    return "";
+  }
+
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  while (received < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(value);
+    received += value.byteLength;
+  }
+
+  if (received >= maxBytes) {
+    await reader.cancel();
+    if (!truncate && received > maxBytes) {
+      return null;
+    }
+  }
+
+  const body = new Uint8Array(Math.min(received, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const slice = chunk.subarray(0, body.byteLength - offset);
+    body.set(slice, offset);
+    offset += slice.byteLength;
+  }
+  return new TextDecoder().decode(body);
+};
+
+const decodeEntities = (value: string): string =>
+  value.replace(ENTITY_REGEX, (entity, name: string) => {
+    const lowered = name.toLowerCase();
+    if (lowered.startsWith("#")) {
+      const codePoint = lowered.startsWith("#x")
+        ? Number.parseInt(lowered.slice(2), 16)
+        : Number.parseInt(lowered.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[lowered] ?? entity;
+  });
+
+const parseAttributes = (tag: string): Map<string, string> => {
+  const attributes = new Map<string, string>();
+  for (const match of tag.matchAll(ATTRIBUTE_REGEX)) {
+    attributes.set(match[1]!.toLowerCase(), decodeEntities(match[2] ?? match[3] ?? match[4] ?? ""));
+  }
+  return attributes;
+};
+
+const cleanText = (value: string | undefined, maxLength: number): string | null => {
+  const collapsed = value?.replace(/\s+/g, " ").trim();
+  if (!collapsed) {
+    return null;
+  }
+  return collapsed.length > maxLength ? `${collapsed.slice(0, maxLength - 1)}…` : collapsed;
+};
+
+const toHttpUrl = (value: string | undefined, base: URL): string | null => {
+  if (!value) {
+    return null;
+  }
+  try {
+    const url = new URL(value, base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+const toDimension = (value: unknown): number | null => {
+  const parsed = typeof value === "number" ? value : Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+type PageMetadata = {
+  meta: Map<string, string>;
+  title: string | undefined;
+  oembedUrl: string | null;
+};
+
+const parsePageMetadata = (html: string, base: URL): PageMetadata => {
+  const headEnd = html.search(/<\/head>/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+  const meta = new Map<string, string>();
+
+  for (const [tag] of head.matchAll(META_TAG_REGEX)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.get("property") ?? attributes.get("name"))?.toLowerCase();
+    const content = attributes.get("content");
+    // The first value wins, so `og:image` is the primary image rather than the last listed.
+    if (key && content !== undefined && !meta.has(key)) {
+      meta.set(key, content);
+    }
+  }
+
+  let oembedUrl: string | null = null;
+  for (const [tag] of head.matchAll(LINK_TAG_REGEX)) {
+    const attributes = parseAttributes(tag);
+    if (
+      attributes.get("rel")?.toLowerCase().split(/\s+/).includes("alternate") &&
+      attributes.get("type")?.toLowerCase() === "application/json+oembed"
+    ) {
+      oembedUrl = toHttpUrl(attributes.get("href"), base);
+      break;
+    }
+  }
+
+  const title = TITLE_REGEX.exec(head)?.[1];
+  return { meta, title: title === undefined ? undefined : decodeEntities(title), oembedUrl };
+};
+
+type OEmbedResponse = {
+  title?: unknown;
+  author_name?: unknown;
+  provider_name?: unknown;
+  thumbnail_url?: unknown;
+  thumbnail_width?: unknown;
+  thumbnail_height?: unknown;
+};
+
+const fetchOEmbed = async (url: string, signal: AbortSignal, options: UnfurlOptions): Promise<OEmbedResponse | null> => {
+  const fetched = await guardedFetch(new URL(url), "application/json", signal, options);
+  if (!fetched) {
+    return null;
+  }
+
+  const body = await readBody(fetched.response, UNFURL_MAX_OEMBED_BYTES, false);
+  if (!body) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(body) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as OEmbedResponse) : null;
+  } catch {
+    return null;
+  }
+};
+
+const asString = (value: unknown): string | undefined => (typeof value === "string" ? value : undefined);
+
+/**
+ * Fetches OpenGraph (falling back to Twitter card and oEmbed) metadata for one URL. Returns
+ * null when the target is unreachable, private, too slow, or has nothing worth previewing.
+ */
+export const fetchLinkEmbed = async (url: string, options: UnfurlOptions = {}): Promise<MessageEmbed | null> => {
+  const signal = AbortSignal.timeout(UNFURL_TIMEOUT_MS);
+
+  try {
+    const target = new URL(url);
+    const fetched = await guardedFetch(target, "text/html,application/xhtml+xml,image/*;q=0.8", signal, options);
+    if (!fetched) {
+      return null;
+    }
+
+    const { response, url: finalUrl } = fetched;
+    const contentType = response.headers.get("content-type")?.toLowerCase() ?? "";
+    if (contentType.startsWith("image/")) {
+      await response.body?.cancel();
+      return {
+        type: "image",
+        url,
+        title: null,
+        description: null,
+        site_name: null,
+        thumbnail: { url, width: null, height: null },
+      };
+    }
+    if (!contentType.includes("html")) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    const html = await readBody(response, UNFURL_MAX_HTML_BYTES, true);
+    if (!html) {
+      return null;
+    }
+
+    const { meta, title, oembedUrl } = parsePageMetadata(html, finalUrl);
+    const oembed = oembedUrl ? await fetchOEmbed(oembedUrl, signal, options) : null;
+
+    const imageUrl = toHttpUrl(
+      meta.get("og:image") ?? meta.get("og:image:url") ?? meta.get("twitter:image") ?? asString(oembed?.thumbnail_url),
+      finalUrl,
+    );
+    const thumbnail: MessageEmbedImage | null = imageUrl
+      ? {
+          url: imageUrl,
+          width: toDimension(meta.get("og:image:width") ?? oembed?.thumbnail_width),
+          height: toDimension(meta.get("og:image:height") ?? oembed?.thumbnail_height),
+        }
+      : null;
+
+    const embed: MessageEmbed = {
+      type: "link",
+      url,
+      title: cleanText(
+        meta.get("og:title") ?? meta.get("twitter:title") ?? asString(oembed?.title) ?? title,
+        EMBED_TITLE_MAX_LENGTH,
+      ),
+      description: cleanText(
+        meta.get("og:description") ?? meta.get("twitter:description") ?? meta.get("description"),
+        EMBED_DESCRIPTION_MAX_LENGTH,
+      ),
+      site_name: cleanText(
+        meta.get("og:site_name") ?? asString(oembed?.provider_name) ?? asString(oembed?.author_name),
+        EMBED_TITLE_MAX_LENGTH,
+      ),
+      thumbnail,
+    };
+
+    return embed.title || embed.description || embed.thumbnail ? embed : null;
+  } catch {
+    return null;
+  }
+};
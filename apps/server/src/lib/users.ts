@@ -11,6 +11,11 @@ const MAX_DISPLAY_NAME_LENGTH = 32;
 
 export const USERNAME_REGEX = /^[a-z0-9_.]{2,32}$/;
 
+// Users the server creates itself (no login) are named under these prefixes, so nobody can claim them.
+export const FOLLOW_AUTHOR_USERNAME_PREFIX = "follow.";
+export const DISCORD_PLACEHOLDER_USERNAME_PREFIX = "discord.";
+const RESERVED_USERNAME_PREFIXES = [FOLLOW_AUTHOR_USERNAME_PREFIX, DISCORD_PLACEHOLDER_USERNAME_PREFIX];
+
 export interface AuthUserLike {
   id: string;
   email?: string | null;
@@ -88,12 +93,17 @@ const withMinUsernameLength = (value: string): string => {
   return `${value}user`.slice(0, MAX_USERNAME_LENGTH);
 };
 
-const normalizeGeneratedUsername = (value: string): string =>
-  withMinUsernameLength(normalizeUsernameCandidate(value));
+export const isReservedUsername = (value: string): boolean =>
+  RESERVED_USERNAME_PREFIXES.some(prefix => value.startsWith(prefix));
+
+const normalizeGeneratedUsername = (value: string): string => {
+  const username = withMinUsernameLength(normalizeUsernameCandidate(value));
+  return isReservedUsername(username) ? username.replace(".", "_") : username;
+};
 
 export const normalizeUsernameForUpdate = (value: string): string => value.trim().toLowerCase();
 
-export const isValidUsername = (value: string): boolean => USERNAME_REGEX.test(value);
+export const isValidUsername = (value: string): boolean => USERNAME_REGEX.test(value) && !isReservedUsername(value);
 
 const baseUsername = (user: AuthUserLike): string => {
   const fromEmail = user.email?.split("@")[0] ?? "";
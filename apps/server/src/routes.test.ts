@@ -25,4 +25,22 @@ describe("route guards", () => {
     const payload = (await response.json()) as { error?: string };
     expect(payload.error).toBe("Method not allowed");
   });
+
+  it("returns 405 for unsupported POST /api/channels/:channelId/messages/:messageId/reactions/:emoji/@me", async () => {
+    const response = await routes["/api/channels/:channelId/messages/:messageId/reactions/:emoji/@me"].POST(
+      new Request("http://localhost/api/channels/555/messages/777/reactions/%F0%9F%91%8D/@me", { method: "POST" }),
+    );
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get("Allow")).toBe("PUT, DELETE");
+  });
+
+  it("returns 405 for unsupported DELETE /api/channels/:channelId/messages/bulk-delete", async () => {
+    const response = await routes["/api/channels/:channelId/messages/bulk-delete"].DELETE(
+      new Request("http://localhost/api/channels/555/messages/bulk-delete", { method: "DELETE" }),
+    );
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get("Allow")).toBe("POST");
+  });
 });
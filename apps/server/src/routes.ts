@@ -1,6 +1,11 @@
+import { importDiscordGuild } from "./controllers/admin";
 import { handleAuth } from "./controllers/auth";
+import { createChannelExport, getChannelExport, listChannelExports } from "./controllers/channel-exports";
+import { crosspostMessage, followChannel, unfollowChannel } from "./controllers/channel-follows";
 import { createTyping, deleteChannel, patchChannel, updateReadState } from "./controllers/channels";
 import { apiNotFoundAfterAuth, internalServerError } from "./controllers/common";
+import { deleteMyDraft, getMyDraft, listMyDrafts, putMyDraft } from "./controllers/drafts";
+import { createGuildEmoji, deleteGuildEmoji, getEmojiImage, listGuildEmojis, updateGuildEmoji } from "./controllers/emojis";
 import { createToken } from "./controllers/gateway";
 import {
   bulkModifyGuildChannelPositions,
@@ -25,14 +30,29 @@ import {
   patchMeSettings,
   updateMeProfile,
 } from "./controllers/me";
+import { listMyMentions } from "./controllers/mentions";
 import {
+  bulkDeleteChannelMessages,
   createChannelMessage,
   deleteChannelMessage,
+  getChannelAttachment,
   getChannelMessages,
   updateChannelMessage,
 } from "./controllers/messages";
-import { getBadges, patchChannelNotificationSettings, patchGuildNotificationSettings } from "./controllers/notifications";
+import {
+  ackGuild,
+  ackMyDmChannels,
+  getBadges,
+  patchChannelNotificationSettings,
+  patchGuildNotificationSettings,
+} from "./controllers/notifications";
 import { deleteChannelPermissionOverwrite, editChannelPermissionOverwrite } from "./controllers/overwrites";
+import { listChannelPins, pinChannelMessage, unpinChannelMessage } from "./controllers/pins";
+import { addOwnPollVote, removeOwnPollVote } from "./controllers/polls";
+import { addOwnReaction, listReactionUsers, removeAllReactions, removeOwnReaction } from "./controllers/reactions";
+import { deleteReminder, listReminders, putReminder } from "./controllers/reminders";
+import { listMessageRevisions } from "./controllers/revisions";
+import { deleteSavedMessage, listSavedMessages, putSavedMessage } from "./controllers/saved-messages";
 import {
   addMemberRole,
   createRole,
@@ -42,7 +62,30 @@ import {
   reorderRoles,
   updateRole,
 } from "./controllers/roles";
-import { abortUpload, completeUpload, initiateAttachmentUpload, initiateAvatarUpload } from "./controllers/uploads";
+import {
+  createScheduledMessage,
+  deleteScheduledMessage,
+  listChannelScheduledMessages,
+  listMyScheduledMessages,
+  updateScheduledMessage,
+} from "./controllers/scheduled-messages";
+import { searchDmMessages, searchGuildMessages } from "./controllers/search";
+import {
+  addChannelThreadMember,
+  createThread,
+  createThreadFromMessage,
+  listChannelThreads,
+  listForumPosts,
+  listThreadMembers,
+  removeChannelThreadMember,
+} from "./controllers/threads";
+import {
+  abortUpload,
+  completeUpload,
+  initiateAttachmentUpload,
+  initiateAvatarUpload,
+  initiateEmojiUpload,
+} from "./controllers/uploads";
 import { searchUsers } from "./controllers/users";
 import { createVoiceTokenEndpoint, getGuildVoiceStateEndpoint, syncGuildVoiceStateEndpoint } from "./controllers/voice";
 import { corsPreflight, methodNotAllowed } from "./http";
@@ -120,6 +163,86 @@ export const routes = {
     DELETE: auth404,
     OPTIONS: corsPreflight,
   },
+  "/api/users/@me/channels/ack": {
+    POST: safe(ackMyDmChannels),
+    GET: auth404,
+    PUT: auth404,
+    PATCH: auth404,
+    DELETE: auth404,
+    OPTIONS: corsPreflight,
+  },
+  "/api/users/@me/messages/search": {
+    GET: safe(searchDmMessages as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/users/@me/drafts": {
+    GET: safe(listMyDrafts as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/users/@me/drafts/:channelId": {
+    GET: safe(getMyDraft as Handler),
+    PUT: safe(putMyDraft as Handler),
+    DELETE: safe(deleteMyDraft as Handler),
+    POST: notAllowed(["GET", "PUT", "DELETE"]),
+    PATCH: notAllowed(["GET", "PUT", "DELETE"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/users/@me/saved-messages": {
+    GET: safe(listSavedMessages as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/users/@me/saved-messages/:messageId": {
+    PUT: safe(putSavedMessage as Handler),
+    DELETE: safe(deleteSavedMessage as Handler),
+    GET: notAllowed(["PUT", "DELETE"]),
+    POST: notAllowed(["PUT", "DELETE"]),
+    PATCH: notAllowed(["PUT", "DELETE"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/users/@me/mentions": {
+    GET: safe(listMyMentions as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/users/@me/reminders": {
+    GET: safe(listReminders as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/users/@me/reminders/:messageId": {
+    PUT: safe(putReminder as Handler),
+    DELETE: safe(deleteReminder as Handler),
+    GET: notAllowed(["PUT", "DELETE"]),
+    POST: notAllowed(["PUT", "DELETE"]),
+    PATCH: notAllowed(["PUT", "DELETE"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/users/@me/scheduled-messages": {
+    GET: safe(listMyScheduledMessages as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
   "/api/users/@me/guilds": {
     GET: safe(listMyGuilds),
     POST: auth404,
@@ -144,6 +267,14 @@ export const routes = {
     DELETE: auth404,
     OPTIONS: corsPreflight,
   },
+  "/api/admin/imports/discord": {
+    POST: safe(importDiscordGuild),
+    GET: auth404,
+    PUT: auth404,
+    PATCH: auth404,
+    DELETE: auth404,
+    OPTIONS: corsPreflight,
+  },
   "/api/guilds": {
     POST: safe(createGuild),
     GET: auth404,
@@ -184,6 +315,14 @@ export const routes = {
     DELETE: auth404,
     OPTIONS: corsPreflight,
   },
+  "/api/guilds/:guildId/messages/search": {
+    GET: safe(searchGuildMessages as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
   "/api/guilds/:guildId/permissions/@me": {
     GET: safe(getMyGuildPermissions as Handler),
     POST: auth404,
@@ -208,6 +347,30 @@ export const routes = {
     PUT: auth404,
     OPTIONS: corsPreflight,
   },
+  "/api/guilds/:guildId/emojis": {
+    GET: safe(listGuildEmojis as Handler),
+    POST: safe(createGuildEmoji as Handler),
+    PUT: notAllowed(["GET", "POST"]),
+    PATCH: notAllowed(["GET", "POST"]),
+    DELETE: notAllowed(["GET", "POST"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/guilds/:guildId/emojis/:emojiId": {
+    PATCH: safe(updateGuildEmoji as Handler),
+    DELETE: safe(deleteGuildEmoji as Handler),
+    GET: auth404,
+    POST: auth404,
+    PUT: auth404,
+    OPTIONS: corsPreflight,
+  },
+  "/api/emojis/:emojiId": {
+    GET: safe(getEmojiImage as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
   "/api/guilds/:guildId/members/:userId/roles/:roleId": {
     PUT: safe(addMemberRole as Handler),
     DELETE: safe(removeMemberRole as Handler),
@@ -216,6 +379,14 @@ export const routes = {
     PATCH: auth404,
     OPTIONS: corsPreflight,
   },
+  "/api/guilds/:guildId/ack": {
+    POST: safe(ackGuild as Handler),
+    GET: auth404,
+    PUT: auth404,
+    PATCH: auth404,
+    DELETE: auth404,
+    OPTIONS: corsPreflight,
+  },
   "/api/guilds/:guildId/notification-settings": {
     PATCH: safe(patchGuildNotificationSettings as Handler),
     GET: auth404,
@@ -240,6 +411,14 @@ export const routes = {
     DELETE: notAllowed(["GET", "POST"]),
     OPTIONS: corsPreflight,
   },
+  "/api/channels/:channelId/messages/bulk-delete": {
+    POST: safe(bulkDeleteChannelMessages as Handler),
+    GET: notAllowed(["POST"]),
+    PUT: notAllowed(["POST"]),
+    PATCH: notAllowed(["POST"]),
+    DELETE: notAllowed(["POST"]),
+    OPTIONS: corsPreflight,
+  },
   "/api/channels/:channelId/messages/:messageId": {
     PATCH: safe(updateChannelMessage as Handler),
     DELETE: safe(deleteChannelMessage as Handler),
@@ -248,6 +427,166 @@ export const routes = {
     PUT: notAllowed(["PATCH", "DELETE"]),
     OPTIONS: corsPreflight,
   },
+  "/api/channels/:channelId/messages/:messageId/crosspost": {
+    POST: safe(crosspostMessage as Handler),
+    GET: notAllowed(["POST"]),
+    PUT: notAllowed(["POST"]),
+    PATCH: notAllowed(["POST"]),
+    DELETE: notAllowed(["POST"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/messages/:messageId/reactions": {
+    DELETE: safe(removeAllReactions as Handler),
+    GET: notAllowed(["DELETE"]),
+    POST: notAllowed(["DELETE"]),
+    PUT: notAllowed(["DELETE"]),
+    PATCH: notAllowed(["DELETE"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/messages/:messageId/reactions/:emoji": {
+    GET: safe(listReactionUsers as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/messages/:messageId/reactions/:emoji/@me": {
+    PUT: safe(addOwnReaction as Handler),
+    DELETE: safe(removeOwnReaction as Handler),
+    GET: notAllowed(["PUT", "DELETE"]),
+    POST: notAllowed(["PUT", "DELETE"]),
+    PATCH: notAllowed(["PUT", "DELETE"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/messages/:messageId/poll/answers/:answerId/@me": {
+    PUT: safe(addOwnPollVote as Handler),
+    DELETE: safe(removeOwnPollVote as Handler),
+    GET: notAllowed(["PUT", "DELETE"]),
+    POST: notAllowed(["PUT", "DELETE"]),
+    PATCH: notAllowed(["PUT", "DELETE"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/messages/:messageId/revisions": {
+    GET: safe(listMessageRevisions as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/messages/:messageId/threads": {
+    POST: safe(createThreadFromMessage as Handler),
+    GET: notAllowed(["POST"]),
+    PUT: notAllowed(["POST"]),
+    PATCH: notAllowed(["POST"]),
+    DELETE: notAllowed(["POST"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/followers": {
+    POST: safe(followChannel as Handler),
+    GET: notAllowed(["POST"]),
+    PUT: notAllowed(["POST"]),
+    PATCH: notAllowed(["POST"]),
+    DELETE: notAllowed(["POST"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/followers/:targetChannelId": {
+    DELETE: safe(unfollowChannel as Handler),
+    GET: notAllowed(["DELETE"]),
+    POST: notAllowed(["DELETE"]),
+    PUT: notAllowed(["DELETE"]),
+    PATCH: notAllowed(["DELETE"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/threads": {
+    GET: safe(listChannelThreads as Handler),
+    POST: safe(createThread as Handler),
+    PUT: notAllowed(["GET", "POST"]),
+    PATCH: notAllowed(["GET", "POST"]),
+    DELETE: notAllowed(["GET", "POST"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/forum-posts": {
+    GET: safe(listForumPosts as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/thread-members": {
+    GET: safe(listThreadMembers as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/thread-members/:userId": {
+    PUT: safe(addChannelThreadMember as Handler),
+    DELETE: safe(removeChannelThreadMember as Handler),
+    GET: notAllowed(["PUT", "DELETE"]),
+    POST: notAllowed(["PUT", "DELETE"]),
+    PATCH: notAllowed(["PUT", "DELETE"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/scheduled-messages": {
+    GET: safe(listChannelScheduledMessages as Handler),
+    POST: safe(createScheduledMessage as Handler),
+    PUT: notAllowed(["GET", "POST"]),
+    PATCH: notAllowed(["GET", "POST"]),
+    DELETE: notAllowed(["GET", "POST"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/scheduled-messages/:scheduledMessageId": {
+    PATCH: safe(updateScheduledMessage as Handler),
+    DELETE: safe(deleteScheduledMessage as Handler),
+    GET: notAllowed(["PATCH", "DELETE"]),
+    POST: notAllowed(["PATCH", "DELETE"]),
+    PUT: notAllowed(["PATCH", "DELETE"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/attachments/:attachmentId": {
+    GET: safe(getChannelAttachment as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/exports": {
+    GET: safe(listChannelExports as Handler),
+    POST: safe(createChannelExport as Handler),
+    PUT: notAllowed(["GET", "POST"]),
+    PATCH: notAllowed(["GET", "POST"]),
+    DELETE: notAllowed(["GET", "POST"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/exports/:exportId": {
+    GET: safe(getChannelExport as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/pins": {
+    GET: safe(listChannelPins as Handler),
+    POST: notAllowed(["GET"]),
+    PUT: notAllowed(["GET"]),
+    PATCH: notAllowed(["GET"]),
+    DELETE: notAllowed(["GET"]),
+    OPTIONS: corsPreflight,
+  },
+  "/api/channels/:channelId/pins/:messageId": {
+    PUT: safe(pinChannelMessage as Handler),
+    DELETE: safe(unpinChannelMessage as Handler),
+    GET: notAllowed(["PUT", "DELETE"]),
+    POST: notAllowed(["PUT", "DELETE"]),
+    PATCH: notAllowed(["PUT", "DELETE"]),
+    OPTIONS: corsPreflight,
+  },
   "/api/channels/:channelId/notification-settings": {
     PATCH: safe(patchChannelNotificationSettings as Handler),
     GET: auth404,
@@ -288,6 +627,14 @@ export const routes = {
     DELETE: auth404,
     OPTIONS: corsPreflight,
   },
+  "/api/uploads/emoji": {
+    POST: safe(initiateEmojiUpload),
+    GET: auth404,
+    PUT: auth404,
+    PATCH: auth404,
+    DELETE: auth404,
+    OPTIONS: corsPreflight,
+  },
   "/api/uploads/attachment": {
     POST: safe(initiateAttachmentUpload),
     GET: auth404,
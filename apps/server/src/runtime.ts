@@ -9,11 +9,14 @@ import type {
   InvitePayload,
   MessageChannelMention,
   MessagePayload,
+  MessageReaction,
+  MessageTypeValue,
   PartialGuild,
   ReadyEvent,
+  ReferencedMessage,
   UserSummary as SharedUserSummary,
 } from "@edgewire/types";
-import { ChannelType } from "@edgewire/types";
+import { ChannelType, MessageType } from "@edgewire/types";
 import { and, asc, count, desc, eq, ilike, inArray, lt, ne, or, sql } from "drizzle-orm";
 import { z } from "zod";
 import { auth } from "./auth";
@@ -34,7 +37,19 @@ import {
 } from "./db/schema";
 import { env } from "./env";
 import { listGuildChannelAudienceMemberIds, resolveMentionChannelPayloads, resolveMentionUserSummaries } from "./lib/mentions";
+import {
+  POLL_ANSWER_MAX_LENGTH,
+  POLL_MAX_ANSWERS,
+  POLL_MAX_DURATION_HOURS,
+  POLL_MIN_ANSWERS,
+  POLL_QUESTION_MAX_LENGTH,
+  listMessagePollPayloads,
+} from "./lib/polls";
+import { listMessageReactionPayloads } from "./lib/reactions";
+import { GUILD_LEVEL_CHANNEL_TYPES, isTextChannelType } from "./lib/channel-types";
+import { toForumLayout, toForumSortOrder } from "./lib/forum";
 import { nextSnowflake } from "./lib/snowflake";
+import { THREAD_CHANNEL_TYPES, isThreadChannelType, toThreadMetadata } from "./lib/threads";
 import { ensureAppUser, getUserSummaryById, toUserSummary, type AuthUserLike, type UserSummary } from "./lib/users";
 import { presignGet, toPublicObjectUrl } from "./storage/s3";
 
@@ -42,6 +57,10 @@ export const HEARTBEAT_INTERVAL_MS = 25_000;
 export const MESSAGE_MAX_LENGTH = 2_000;
 export const MAX_NAME_LENGTH = 100;
 export const MAX_TOPIC_LENGTH = 1_024;
+export const MAX_RATE_LIMIT_PER_USER = 21_600;
+export const MAX_MESSAGE_TTL = 604_800;
+export const MAX_FORUM_TAGS = 20;
+export const MAX_APPLIED_FORUM_TAGS = 5;
 export const ID_REGEX = /^\d+$/;
 export const USER_MENTION_ID_REGEX = /^[^\s>]+$/;
 export const INVITE_CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789";
@@ -54,19 +73,59 @@ export const guildNameSchema = z.object({
   name: z.string().trim().min(1).max(MAX_NAME_LENGTH),
 });
 
+const forumTagSchema = z.object({
+  id: z.string().trim().regex(ID_REGEX).optional(),
+  name: z.string().trim().min(1).max(20),
+  moderated: z.boolean().optional(),
+  emoji_name: z.string().trim().max(64).nullable().optional(),
+});
+
+const forumTagsSchema = z.array(forumTagSchema).max(MAX_FORUM_TAGS);
+const appliedForumTagsSchema = z.array(z.string().trim().regex(ID_REGEX)).max(MAX_APPLIED_FORUM_TAGS);
+const forumSortOrderSchema = z.union([z.literal(0), z.literal(1)]);
+const forumLayoutSchema = z.union([z.literal(0), z.literal(1), z.literal(2)]);
+
 export const createGuildChannelSchema = z.object({
   name: z.string().trim().min(1).max(MAX_NAME_LENGTH),
-  type: z.union([z.literal(0), z.literal(2), z.literal(4)]),
+  type: z.union([z.literal(0), z.literal(2), z.literal(4), z.literal(5), z.literal(15)]),
   parent_id: z.string().trim().min(1).max(32).nullable().optional(),
   position: z.number().int().min(0).max(10_000).optional(),
   topic: z.string().trim().min(0).max(MAX_TOPIC_LENGTH).nullable().optional(),
+  available_tags: forumTagsSchema.optional(),
+  default_sort_order: forumSortOrderSchema.nullable().optional(),
+  default_forum_layout: forumLayoutSchema.optional(),
 });
 
+const threadAutoArchiveDurationSchema = z.union([z.literal(60), z.literal(1440), z.literal(4320), z.literal(10080)]);
+
 export const patchChannelSchema = z.object({
   name: z.string().trim().min(1).max(MAX_NAME_LENGTH).optional(),
   topic: z.string().trim().max(MAX_TOPIC_LENGTH).nullable().optional(),
   parent_id: z.string().trim().min(1).max(32).nullable().optional(),
   position: z.number().int().min(0).max(10_000).optional(),
+  rate_limit_per_user: z.number().int().min(0).max(MAX_RATE_LIMIT_PER_USER).optional(),
+  message_ttl: z.number().int().min(0).max(MAX_MESSAGE_TTL).optional(),
+  archived: z.boolean().optional(),
+  auto_archive_duration: threadAutoArchiveDurationSchema.optional(),
+  available_tags: forumTagsSchema.optional(),
+  applied_tags: appliedForumTagsSchema.optional(),
+  default_sort_order: forumSortOrderSchema.nullable().optional(),
+  default_forum_layout: forumLayoutSchema.optional(),
+});
+
+export const createThreadSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_NAME_LENGTH),
+  type: z.union([z.literal(ChannelType.PUBLIC_THREAD), z.literal(ChannelType.PRIVATE_THREAD)]).optional(),
+  auto_archive_duration: threadAutoArchiveDurationSchema.optional(),
+});
+
+export const createForumPostSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_NAME_LENGTH),
+  auto_archive_duration: threadAutoArchiveDurationSchema.optional(),
+  applied_tags: appliedForumTagsSchema.optional(),
+  message: z.object({
+    content: z.string().trim().min(1).max(MESSAGE_MAX_LENGTH),
+  }),
 });
 
 export const allowedMentionsSchema = z
@@ -74,29 +133,68 @@ export const allowedMentionsSchema = z
     parse: z.array(z.union([z.literal("users"), z.literal("roles"), z.literal("everyone")])).max(3).optional(),
     users: z.array(z.string().trim().regex(USER_MENTION_ID_REGEX)).max(100).optional(),
     roles: z.array(z.string().trim().regex(ID_REGEX)).max(100).optional(),
+    replied_user: z.boolean().optional(),
   })
   .strict();
 
+export const messageReferenceSchema = z.object({
+  message_id: z.string().trim().regex(ID_REGEX),
+  fail_if_not_exists: z.boolean().optional(),
+});
+
+export const pollCreateSchema = z.object({
+  question: z.string().trim().min(1).max(POLL_QUESTION_MAX_LENGTH),
+  answers: z
+    .array(z.object({ text: z.string().trim().min(1).max(POLL_ANSWER_MAX_LENGTH) }))
+    .min(POLL_MIN_ANSWERS)
+    .max(POLL_MAX_ANSWERS),
+  allow_multiselect: z.boolean().optional(),
+  duration: z.number().int().min(1).max(POLL_MAX_DURATION_HOURS),
+});
+
 export const createMessageSchema = z.object({
   content: z.string().max(MESSAGE_MAX_LENGTH).optional(),
   attachment_upload_ids: z.array(z.string().trim().min(1).max(64)).max(10).optional(),
   allowed_mentions: allowedMentionsSchema.optional(),
+  message_reference: messageReferenceSchema.optional(),
+  poll: pollCreateSchema.optional(),
 })
   .superRefine((value, ctx) => {
     const hasContent = Boolean(value.content?.trim());
     const hasAttachments = (value.attachment_upload_ids?.length ?? 0) > 0;
 
-    if (!hasContent && !hasAttachments) {
+    if (!hasContent && !hasAttachments && !value.poll) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
-        message: "Message must include content or attachments.",
+        message: "Message must include content, attachments or a poll.",
       });
     }
   });
 
 export const editMessageSchema = z.object({
-  content: z.string().max(MESSAGE_MAX_LENGTH),
+  content: z.string().max(MESSAGE_MAX_LENGTH).optional(),
   allowed_mentions: allowedMentionsSchema.optional(),
+  flags: z.number().int().min(0).optional(),
+});
+
+export const BULK_DELETE_MAX_MESSAGES = 100;
+
+export const bulkDeleteMessagesSchema = z.union([
+  z.object({
+    messages: z.array(z.string().trim().regex(ID_REGEX)).min(1).max(BULK_DELETE_MAX_MESSAGES),
+  }).strict(),
+  z.object({
+    purge: z.object({
+      author_id: z.string().trim().min(1).max(64).optional(),
+      after: z.string().datetime({ offset: true }).optional(),
+      before: z.string().datetime({ offset: true }).optional(),
+      limit: z.number().int().min(1).max(BULK_DELETE_MAX_MESSAGES).optional(),
+    }).strict(),
+  }).strict(),
+]);
+
+export const followChannelSchema = z.object({
+  target_channel_id: z.string().trim().regex(ID_REGEX),
 });
 
 export const readStateSchema = z.object({
@@ -358,7 +456,11 @@ export const emitToChannelAudience = async (channel: ChannelRow, event: string,
   }
 
   if (channel.guildId) {
-    if (channel.type === ChannelType.GUILD_TEXT || channel.type === ChannelType.GUILD_VOICE) {
+    if (
+      isTextChannelType(channel.type) ||
+      channel.type === ChannelType.GUILD_VOICE ||
+      isThreadChannelType(channel.type)
+    ) {
       const visibleMembers = await listGuildChannelAudienceMemberIds(channel.guildId, channel.id);
       emitToUsers(visibleMembers, event, data);
       return;
@@ -482,12 +584,41 @@ export const buildMessageMentionContext = async (rows: MessageRow[]): Promise<Me
   };
 };
 
+export const toMessageAuthorSummary = (
+  authorId: string,
+  author: SharedUserSummary | null | undefined,
+): SharedUserSummary => ({
+  id: author?.id ?? authorId,
+  username: author?.username ?? "unknown",
+  display_name: author?.display_name ?? "Unknown",
+  avatar_url: author?.avatar_url ?? null,
+});
+
+const toMessageType = (type: number): MessageTypeValue => {
+  switch (type) {
+    case MessageType.CALL:
+    case MessageType.CHANNEL_NAME_CHANGE:
+    case MessageType.CHANNEL_PINNED_MESSAGE:
+    case MessageType.GUILD_MEMBER_JOIN:
+    case MessageType.CHANNEL_FOLLOW_ADD:
+    case MessageType.THREAD_CREATED:
+    case MessageType.POLL_RESULT:
+    case MessageType.GUILD_MEMBER_LEAVE:
+    case MessageType.CHANNEL_TOPIC_CHANGE:
+      return type;
+    default:
+      return MessageType.DEFAULT;
+  }
+};
+
 export const makeMessagePayload = (
   message: MessageRow,
   author: SharedUserSummary,
   guildId: string | null,
   attachments: APIAttachment[] = [],
   mentionContext?: MessageMentionContext,
+  referencedMessages?: Map<string, ReferencedMessage>,
+  reactions: MessageReaction[] = [],
 ): MessagePayload => {
   const mentionUserIds = unique([
     ...(message.mentionUserIds ?? []),
@@ -509,6 +640,7 @@ export const makeMessagePayload = (
     author,
     content: message.content,
     attachments,
+    embeds: message.embeds ?? [],
     mention_everyone: message.mentionEveryone || EVERYONE_MENTION_TOKEN_REGEX.test(message.content),
     mentions: mentionUserIds
       .map(userId => mentionContext?.mentionUsersById.get(userId))
@@ -519,10 +651,68 @@ export const makeMessagePayload = (
       .filter((channel): channel is MessageChannelMention => Boolean(channel)),
     timestamp: toIso(message.createdAt) ?? new Date().toISOString(),
     edited_timestamp: toIso(message.editedAt),
-    type: 0,
+    type: toMessageType(message.type),
+    flags: message.flags ?? 0,
+    pinned: message.pinned,
+    message_reference: message.referencedMessageId
+      ? {
+          message_id: message.referencedMessageId,
+          channel_id: message.channelId,
+          guild_id: guildId,
+        }
+      : null,
+    referenced_message: message.referencedMessageId
+      ? (referencedMessages?.get(message.referencedMessageId) ?? null)
+      : null,
+    reactions,
+    ...(message.crosspostSource ? { crosspost_source: message.crosspostSource } : {}),
   };
 };
 
+// Referenced messages are hydrated one level deep; replies to replies only carry their message_reference.
+export const listReferencedMessagePayloads = async (
+  rows: MessageRow[],
+  guildId: string | null,
+): Promise<Map<string, ReferencedMessage>> => {
+  const referencedIds = unique(rows.map(row => row.referencedMessageId ?? ""));
+  if (referencedIds.length === 0) {
+    return new Map();
+  }
+
+  const referencedRows = await db.select().from(messages).where(inArray(messages.id, referencedIds));
+  const [authorsById, attachmentsByMessage, mentionContext, pollsByMessage] = await Promise.all([
+    resolveMentionUserSummaries(unique(referencedRows.map(row => row.authorId))),
+    listMessageAttachmentPayloads(referencedRows.map(row => row.id)),
+    buildMessageMentionContext(referencedRows),
+    listMessagePollPayloads(
+      referencedRows.map(row => row.id),
+      null,
+    ),
+  ]);
+
+  const referenced = new Map<string, ReferencedMessage>();
+  for (const row of referencedRows) {
+    const payload = makeMessagePayload(
+      row,
+      toMessageAuthorSummary(row.authorId, authorsById.get(row.authorId)),
+      guildId,
+      attachmentsByMessage.get(row.id) ?? [],
+      mentionContext,
+    );
+    const poll = pollsByMessage.get(row.id);
+    referenced.set(row.id, poll ? { ...payload, poll } : payload);
+  }
+
+  for (const row of rows) {
+    const referencedId = row.referencedMessageId;
+    if (referencedId && !referenced.has(referencedId)) {
+      referenced.set(referencedId, { id: referencedId, channel_id: row.channelId, deleted: true });
+    }
+  }
+
+  return referenced;
+};
+
 export const toGuildPayload = (guild: GuildRow): PartialGuild => ({
   id: guild.id,
   name: guild.name,
@@ -533,23 +723,45 @@ export const toGuildPayload = (guild: GuildRow): PartialGuild => ({
   explicit_content_filter: guild.explicitContentFilter,
   preferred_locale: guild.preferredLocale,
   system_channel_id: guild.systemChannelId,
+  system_channel_flags: guild.systemChannelFlags,
   rules_channel_id: guild.rulesChannelId,
   public_updates_channel_id: guild.publicUpdatesChannelId,
 });
 
+const toGuildChannelType = (type: number): GuildChannelPayload["type"] => {
+  switch (type) {
+    case ChannelType.GUILD_CATEGORY:
+    case ChannelType.GUILD_VOICE:
+    case ChannelType.GUILD_ANNOUNCEMENT:
+    case ChannelType.GUILD_FORUM:
+    case ChannelType.PUBLIC_THREAD:
+    case ChannelType.PRIVATE_THREAD:
+      return type;
+    default:
+      return ChannelType.GUILD_TEXT;
+  }
+};
+
 export const toGuildChannelPayload = (channel: ChannelRow): GuildChannelPayload => ({
   id: channel.id,
-  type:
-    channel.type === ChannelType.GUILD_CATEGORY
-      ? ChannelType.GUILD_CATEGORY
-      : channel.type === ChannelType.GUILD_VOICE
-        ? ChannelType.GUILD_VOICE
-        : ChannelType.GUILD_TEXT,
+  type: toGuildChannelType(channel.type),
   guild_id: channel.guildId ?? "",
   parent_id: channel.parentId,
   name: channel.name ?? "",
   topic: channel.topic,
   position: channel.position,
+  rate_limit_per_user: channel.rateLimitPerUser,
+  message_ttl: channel.messageTtl,
+  ...(isThreadChannelType(channel.type)
+    ? { owner_id: channel.ownerId, thread_metadata: toThreadMetadata(channel), applied_tags: channel.appliedTags }
+    : {}),
+  ...(channel.type === ChannelType.GUILD_FORUM
+    ? {
+        available_tags: channel.availableTags,
+        default_sort_order: toForumSortOrder(channel.defaultSortOrder),
+        default_forum_layout: toForumLayout(channel.defaultForumLayout),
+      }
+    : {}),
 });
 
 export const listChannelPermissionOverwrites = async (channelId: string): Promise<ChannelPermissionOverwrite[]> => {
@@ -596,7 +808,7 @@ export const toDmChannelPayload = async (channel: ChannelRow, viewerId: string):
   }
 
   const members = await db
-    .select({ userId: channelMembers.userId })
+    .select({ userId: channelMembers.userId, messageTtl: channelMembers.messageTtl })
     .from(channelMembers)
     .where(eq(channelMembers.channelId, channel.id));
 
@@ -630,17 +842,16 @@ export const toDmChannelPayload = async (channel: ChannelRow, viewerId: string):
     const author = await getUserSummaryById(lastMessage.authorId);
     const attachmentsByMessage = await listMessageAttachmentPayloads([lastMessage.id]);
     const mentionContext = await buildMessageMentionContext([lastMessage]);
+    const referencedMessages = await listReferencedMessagePayloads([lastMessage], null);
+    const reactionsByMessage = await listMessageReactionPayloads([lastMessage.id], viewerId);
     lastMessagePayload = makeMessagePayload(
       lastMessage,
-      {
-        id: author?.id ?? lastMessage.authorId,
-        username: author?.username ?? "unknown",
-        display_name: author?.display_name ?? "Unknown",
-        avatar_url: author?.avatar_url ?? null,
-      },
+      toMessageAuthorSummary(lastMessage.authorId, author),
       null,
       attachmentsByMessage.get(lastMessage.id) ?? [],
       mentionContext,
+      referencedMessages,
+      reactionsByMessage.get(lastMessage.id) ?? [],
     );
   }
 
@@ -658,6 +869,10 @@ export const toDmChannelPayload = async (channel: ChannelRow, viewerId: string):
     last_message_id: lastMessage?.id ?? null,
     last_message: lastMessagePayload,
     unread,
+    message_ttl: channel.messageTtl,
+    message_ttl_proposals: members.flatMap(member =>
+      member.messageTtl === null ? [] : [{ user_id: member.userId, message_ttl: member.messageTtl }],
+    ),
   };
 };
 
@@ -730,7 +945,7 @@ export const getGuildChannels = async (guildId: string): Promise<GuildChannelPay
     .where(
       and(
         eq(channels.guildId, guildId),
-        inArray(channels.type, [ChannelType.GUILD_TEXT, ChannelType.GUILD_VOICE, ChannelType.GUILD_CATEGORY]),
+        inArray(channels.type, [...GUILD_LEVEL_CHANNEL_TYPES]),
       ),
     )
     .orderBy(asc(channels.position), asc(sql`${channels.id}::bigint`));
@@ -743,9 +958,7 @@ export const getGuildChannelTree = async (
 ): Promise<Array<{ category: GuildChannelPayload | null; channels: GuildChannelPayload[] }>> => {
   const allChannels = await getGuildChannels(guildId);
   const categories = allChannels.filter(channel => channel.type === ChannelType.GUILD_CATEGORY);
-  const textChannels = allChannels.filter(
-    channel => channel.type === ChannelType.GUILD_TEXT || channel.type === ChannelType.GUILD_VOICE,
-  );
+  const textChannels = allChannels.filter(channel => channel.type !== ChannelType.GUILD_CATEGORY);
 
   const grouped = new Map<string | null, GuildChannelPayload[]>();
   for (const channel of textChannels) {
@@ -868,22 +1081,12 @@ export const findExistingDmChannel = async (userId: string, recipientId: string)
   return null;
 };
 
-export const listChannelMessages = async (
-  channelId: string,
-  limit: number,
-  before?: bigint,
+// Bulk-hydrates message rows from a single channel into payloads, preserving the input order.
+export const hydrateMessagePayloads = async (
+  rows: MessageRow[],
+  guildId: string | null,
+  viewerId: string,
 ): Promise<MessagePayload[]> => {
-  const where = before
-    ? and(eq(messages.channelId, channelId), sql`${messages.id}::bigint < ${before}`)
-    : eq(messages.channelId, channelId);
-
-  const rows = await db
-    .select()
-    .from(messages)
-    .where(where)
-    .orderBy(desc(sql`${messages.id}::bigint`))
-    .limit(limit);
-
   if (rows.length === 0) {
     return [];
   }
@@ -903,28 +1106,98 @@ export const listChannelMessages = async (
   const authors = new Map(authorRows.map(row => [row.id, toUserSummary(row)]));
   const attachmentsByMessage = await listMessageAttachmentPayloads(rows.map(row => row.id));
   const mentionContext = await buildMessageMentionContext(rows);
-
-  const channel = await db.query.channels.findFirst({
-    where: eq(channels.id, channelId),
-  });
-
-  const guildId = channel?.guildId ?? null;
+  const reactionsByMessage = await listMessageReactionPayloads(rows.map(row => row.id), viewerId);
+  const pollsByMessage = await listMessagePollPayloads(rows.map(row => row.id), viewerId);
+  const referencedMessages = await listReferencedMessagePayloads(rows, guildId);
+  const startedThreads = guildId
+    ? await db
+        .select()
+        .from(channels)
+        .where(
+          and(
+            inArray(channels.type, [...THREAD_CHANNEL_TYPES]),
+            inArray(
+              channels.starterMessageId,
+              rows.map(row => row.id),
+            ),
+          ),
+        )
+    : [];
+  const threadByStarterMessage = new Map(startedThreads.map(thread => [thread.starterMessageId, thread]));
 
   return rows.map(row => {
-    const author = authors.get(row.authorId);
-    return makeMessagePayload(
+    const payload = makeMessagePayload(
       row,
-      {
-        id: author?.id ?? row.authorId,
-        username: author?.username ?? "unknown",
-        display_name: author?.display_name ?? "Unknown",
-        avatar_url: author?.avatar_url ?? null,
-      },
+      toMessageAuthorSummary(row.authorId, authors.get(row.authorId)),
       guildId,
       attachmentsByMessage.get(row.id) ?? [],
       mentionContext,
+      referencedMessages,
+      reactionsByMessage.get(row.id) ?? [],
     );
+    const thread = threadByStarterMessage.get(row.id);
+    const poll = pollsByMessage.get(row.id);
+    return {
+      ...payload,
+      ...(thread ? { thread: toGuildChannelPayload(thread) } : {}),
+      ...(poll ? { poll } : {}),
+    };
+  });
+};
+
+export type MessageCursor = { before?: bigint; after?: bigint; around?: bigint };
+
+const selectChannelMessageRows = (channelId: string, limit: number, cursor: MessageCursor): Promise<MessageRow[]> => {
+  const idColumn = sql`${messages.id}::bigint`;
+  if (cursor.after !== undefined) {
+    return db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.channelId, channelId), sql`${idColumn} > ${cursor.after}`))
+      .orderBy(asc(idColumn))
+      .limit(limit);
+  }
+
+  const where =
+    cursor.before !== undefined
+      ? and(eq(messages.channelId, channelId), sql`${idColumn} < ${cursor.before}`)
+      : cursor.around !== undefined
+        ? and(eq(messages.channelId, channelId), sql`${idColumn} <= ${cursor.around}`)
+        : eq(messages.channelId, channelId);
+
+  return db.select().from(messages).where(where).orderBy(desc(idColumn)).limit(limit);
+};
+
+// Every cursor returns newest first; `around` includes the target plus up to half the limit on each side.
+export const listChannelMessages = async (
+  channelId: string,
+  viewerId: string,
+  limit: number,
+  cursor: MessageCursor = {},
+): Promise<MessagePayload[]> => {
+  let rows: MessageRow[];
+  if (cursor.around !== undefined) {
+    const newerLimit = Math.floor(limit / 2);
+    const [olderRows, newerRows] = await Promise.all([
+      selectChannelMessageRows(channelId, limit - newerLimit, { around: cursor.around }),
+      newerLimit > 0 ? selectChannelMessageRows(channelId, newerLimit, { after: cursor.around }) : Promise.resolve([]),
+    ]);
+    rows = [...newerRows.reverse(), ...olderRows];
+  } else if (cursor.after !== undefined) {
+    rows = (await selectChannelMessageRows(channelId, limit, cursor)).reverse();
+  } else {
+    rows = await selectChannelMessageRows(channelId, limit, cursor);
+  }
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const channel = await db.query.channels.findFirst({
+    where: eq(channels.id, channelId),
   });
+
+  return hydrateMessagePayloads(rows, channel?.guildId ?? null, viewerId);
 };
 
 export const createInvite = async (
@@ -983,7 +1256,7 @@ export const hydrateInvitePayload = async (
     channel: {
       id: channel.id,
       name: channel.name,
-      type: channel.type === ChannelType.GUILD_CATEGORY ? ChannelType.GUILD_CATEGORY : ChannelType.GUILD_TEXT,
+      type: toGuildChannelType(channel.type),
 
       guild_id: channel.guildId,
       parent_id: channel.parentId,
@@ -1,7 +1,7 @@
-import { S3Client, s3 } from "bun";
+import { S3Client, s3, type NetworkSink } from "bun";
 import { env } from "../env";
 
-export type StorageObjectKind = "avatars" | "attachments";
+export type StorageObjectKind = "avatars" | "attachments" | "emojis" | "exports";
 
 export type S3Acl =
   | "public-read"
@@ -16,6 +16,7 @@ export type S3Acl =
 type MakeObjectKeyParams = {
   kind: StorageObjectKind;
   userId: string;
+  guildId?: string;
   channelId?: string;
   messageId?: string;
   filename: string;
@@ -129,7 +130,7 @@ export const resolveAvatarUrl = (avatarS3Key: string | null | undefined, avatarU
   });
 };
 
-export const makeObjectKey = ({ kind, userId, channelId, filename }: MakeObjectKeyParams): string => {
+export const makeObjectKey = ({ kind, userId, guildId, channelId, filename }: MakeObjectKeyParams): string => {
   const random = randomKeySuffix();
   const ext = safeExtension(filename);
 
@@ -137,7 +138,15 @@ export const makeObjectKey = ({ kind, userId, channelId, filename }: MakeObjectK
     return `avatars/${userId}/${random}.${ext}`;
   }
 
+  if (kind === "emojis") {
+    return `emojis/${guildId ?? userId}/${random}.${ext}`;
+  }
+
   const safeName = sanitizeFilename(filename);
+  if (kind === "exports") {
+    return `exports/${channelId ?? userId}/${random}-${safeName}`;
+  }
+
   const date = new Date();
   const year = date.getUTCFullYear().toString();
   const month = String(date.getUTCMonth() + 1).padStart(2, "0");
@@ -178,6 +187,16 @@ export const presignGet = (
 export const statObject = async (key: string): Promise<Awaited<ReturnType<S3Client["stat"]>>> =>
   s3Client.stat(key);
 
+export const copyObject = async (sourceKey: string, targetKey: string, contentType?: string | null): Promise<void> => {
+  await s3Client.write(targetKey, s3Client.file(sourceKey), contentType ? { type: contentType } : undefined);
+};
+
+export const readObject = async (key: string): Promise<Uint8Array> => s3Client.file(key).bytes();
+
+// Multipart upload, so large artifacts can be written chunk by chunk without holding them in memory.
+export const openObjectWriter = (key: string, contentType: string): NetworkSink =>
+  s3Client.file(key).writer({ type: contentType });
+
 export const deleteObject = async (key: string): Promise<void> => {
   await s3Client.delete(key);
 };
@@ -1,3 +1,8 @@
+import { ChannelType, MessageType } from "@edgewire/types";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { channels } from "../db/schema";
+import { postSystemMessage } from "../lib/system-messages";
 import { emitToGuild } from "../runtime";
 
 export type GuildVoiceParticipant = {
@@ -14,6 +19,7 @@ export type GuildVoiceParticipant = {
 };
 
 const guildVoiceStateByGuildId = new Map<string, Map<string, GuildVoiceParticipant[]>>();
+const activeDmCallChannelIds = new Set<string>();
 
 export const setGuildVoiceChannelState = async (
   guildId: string,
@@ -48,3 +54,24 @@ export const getGuildVoiceState = (guildId: string): Record<string, GuildVoicePa
 
   return Object.fromEntries(byChannel.entries());
 };
+
+// A DM call starts when someone joins an empty room; that moment is recorded as a CALL message by the caller.
+export const setDmCallState = async (channelId: string, participants: GuildVoiceParticipant[]): Promise<void> => {
+  const caller = participants[0];
+  if (!caller) {
+    activeDmCallChannelIds.delete(channelId);
+    return;
+  }
+
+  if (activeDmCallChannelIds.has(channelId)) {
+    return;
+  }
+  activeDmCallChannelIds.add(channelId);
+
+  const channel = await db.query.channels.findFirst({ where: eq(channels.id, channelId) });
+  if (!channel || channel.type !== ChannelType.DM) {
+    return;
+  }
+
+  await postSystemMessage({ channel, authorId: caller.user.id, type: MessageType.CALL });
+};
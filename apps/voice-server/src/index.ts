@@ -49,19 +49,26 @@ const parsePacket = (raw: string): { op: string; d: Record<string, unknown> } |
 
 const connectionById = new Map<string, VoiceConnection>();
 
-const parseGuildRoom = (roomId: string): { guildId: string; channelId: string } | null => {
+// Guild rooms are `guild:<guildId>:voice:<channelId>`; DM calls are `dm:<channelId>` and carry no guild.
+const parseVoiceRoom = (roomId: string): { guildId: string | null; channelId: string } | null => {
+  const dmMatch = roomId.match(/^dm:([^:]+)$/);
+  if (dmMatch) {
+    return { guildId: null, channelId: dmMatch[1] ?? "" };
+  }
+
   const match = roomId.match(/^guild:([^:]+):voice:([^:]+)$/);
   if (!match) {
     return null;
   }
+
   return {
     guildId: match[1] ?? "",
     channelId: match[2] ?? "",
   };
 };
 
-const syncGuildVoiceState = async (roomId: string): Promise<void> => {
-  const parsed = parseGuildRoom(roomId);
+const syncVoiceState = async (roomId: string): Promise<void> => {
+  const parsed = parseVoiceRoom(roomId);
   if (!parsed) {
     return;
   }
@@ -194,7 +201,7 @@ const server = Bun.serve<VoiceSocketData>({
         },
         socketId,
       );
-      void syncGuildVoiceState(roomId);
+      void syncVoiceState(roomId);
     },
 
     message(ws, data) {
@@ -232,7 +239,7 @@ const server = Bun.serve<VoiceSocketData>({
           socketId: connection.socketId,
           state: connection.state,
         });
-        void syncGuildVoiceState(connection.roomId);
+        void syncVoiceState(connection.roomId);
         return;
       }
 
@@ -275,7 +282,7 @@ const server = Bun.serve<VoiceSocketData>({
       connectionById.delete(connection.connectionId);
       removeConnection(connection.socketId);
       broadcastRoom(connection.roomId, "PEER_LEFT", { socketId: connection.socketId });
-      void syncGuildVoiceState(connection.roomId);
+      void syncVoiceState(connection.roomId);
     },
   },
 });
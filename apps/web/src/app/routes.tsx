@@ -15,8 +15,10 @@ export function AppRoutes() {
         <Route path="/app" element={<ChatApp />} />
         <Route path="/app/channels/@me" element={<ChatApp />} />
         <Route path="/app/channels/@me/:channelId" element={<ChatApp />} />
+        <Route path="/app/channels/@me/:channelId/:messageId" element={<ChatApp />} />
         <Route path="/app/channels/:guildId" element={<ChatApp />} />
         <Route path="/app/channels/:guildId/:channelId" element={<ChatApp />} />
+        <Route path="/app/channels/:guildId/:channelId/:messageId" element={<ChatApp />} />
         <Route path="/settings/*" element={<UserSettingsPage />} />
         <Route path="/invite/:code" element={<JoinGuildPage />} />
       </Route>
@@ -1,4 +1,4 @@
-import type { UserSummary } from "@edgewire/types";
+import type { MessagePayload, UserSummary } from "@edgewire/types";
 
 export type SessionUser = {
   id: string;
@@ -11,6 +11,7 @@ export type AppRoute = {
   mode: "dm" | "guild";
   guildId: string | null;
   channelId: string | null;
+  messageId: string | null;
 };
 
 export type ProfileDialogState = {
@@ -18,6 +19,11 @@ export type ProfileDialogState = {
   guildId: string | null;
 };
 
+export type ComposerReply = {
+  message: MessagePayload;
+  mentionAuthor: boolean;
+};
+
 export type ComposerAttachment = {
   local_id: string;
   file: File | null;
@@ -1,5 +1,20 @@
-import { Phone, Users } from "lucide-react";
+import type {
+  DmMessageTtlProposal,
+  GuildRole,
+  MentionPayload,
+  MessageReminderPayload,
+  SavedMessagePayload,
+} from "@edgewire/types";
+import { Archive, ArchiveRestore, BellPlus, ChevronRight, MessagesSquare, Phone, Settings, Timer, Users } from "lucide-react";
+import { DisappearingMessagesPopover } from "@/components/chat/disappearing-messages-popover";
+import { MentionsPopover } from "@/components/chat/mentions-popover";
+import { PinsPopover } from "@/components/chat/pins-popover";
+import { RemindersPopover } from "@/components/chat/reminders-popover";
+import { SavedMessagesPopover } from "@/components/chat/saved-messages-popover";
+import { SearchPopover } from "@/components/chat/search-popover";
 import { Button } from "@/components/ui/button";
+import { formatMessageTtl } from "@/components/utils/message-ttl";
+import type { MessageSearchScope } from "@/lib/api";
 
 type ChatHeaderProps = {
   routeMode: "dm" | "guild";
@@ -7,9 +22,47 @@ type ChatHeaderProps = {
   dmUsername?: string;
   canCreateInvite: boolean;
   onCreateInvite: () => void;
+  onOpenChannelSettings?: () => void;
+  onFollowChannel?: () => void;
   onCall?: () => void;
+  messageTtl?: number;
+  dmMessageTtl?: {
+    proposals: DmMessageTtlProposal[];
+    currentUserId: string | null;
+    isUpdating: boolean;
+  } | null;
+  onProposeMessageTtl?: (seconds: number) => void;
   showMembersToggle?: boolean;
   onToggleMembers?: () => void;
+  pinsChannelId?: string | null;
+  guildRoles?: GuildRole[];
+  canManagePins?: boolean;
+  localePreference?: string;
+  onJumpToMessage?: (messageId: string) => void;
+  onUnpinMessage?: (messageId: string) => void;
+  mentionsGuildId?: string | null;
+  onJumpToMention?: (mention: MentionPayload) => void;
+  onJumpToSavedMessage?: (saved: SavedMessagePayload) => void;
+  onRemoveSavedMessage?: (messageId: string) => void;
+  onUpdateSavedMessageNote?: (messageId: string, note: string | null) => void;
+  onJumpToReminder?: (reminder: MessageReminderPayload) => void;
+  onSnoozeReminder?: (messageId: string, remindAt: Date) => void;
+  onDismissReminder?: (messageId: string) => void;
+  thread?: {
+    parentName: string | null;
+    archived: boolean;
+    memberCount: number | null;
+    joined: boolean;
+    canManage: boolean;
+    isUpdating: boolean;
+  } | null;
+  onOpenParentChannel?: () => void;
+  onToggleThreadMembership?: () => void;
+  onToggleThreadArchived?: () => void;
+  onCreateThread?: () => void;
+  searchScope?: MessageSearchScope | null;
+  searchChannelNameById?: Map<string, string>;
+  onJumpToSearchResult?: (channelId: string, messageId: string) => void;
 };
 
 export function ChatHeader({
@@ -18,21 +71,154 @@ export function ChatHeader({
   dmUsername,
   canCreateInvite,
   onCreateInvite,
+  onOpenChannelSettings,
+  onFollowChannel,
   onCall,
+  messageTtl = 0,
+  dmMessageTtl,
+  onProposeMessageTtl,
   showMembersToggle,
   onToggleMembers,
+  pinsChannelId,
+  guildRoles = [],
+  canManagePins = false,
+  localePreference,
+  onJumpToMessage,
+  onUnpinMessage,
+  mentionsGuildId = null,
+  onJumpToMention,
+  onJumpToSavedMessage,
+  onRemoveSavedMessage,
+  onUpdateSavedMessageNote,
+  onJumpToReminder,
+  onSnoozeReminder,
+  onDismissReminder,
+  thread,
+  onOpenParentChannel,
+  onToggleThreadMembership,
+  onToggleThreadArchived,
+  onCreateThread,
+  searchScope,
+  searchChannelNameById,
+  onJumpToSearchResult,
 }: ChatHeaderProps) {
   return (
     <header className="h-14 shrink-0 border-b px-4 flex items-center justify-between bg-card">
       <div className="min-w-0">
-        <h2 className="font-semibold truncate">
-          {routeMode === "dm" ? channelName : `# ${channelName ?? "channel"}`}
-        </h2>
+        {thread ? (
+          <h2 className="flex min-w-0 items-center gap-1 font-semibold">
+            {thread.parentName ? (
+              <>
+                <button
+                  type="button"
+                  className="truncate text-muted-foreground hover:underline"
+                  onClick={onOpenParentChannel}
+                >
+                  # {thread.parentName}
+                </button>
+                <ChevronRight className="size-4 shrink-0 text-muted-foreground" />
+              </>
+            ) : null}
+            <MessagesSquare className="size-4 shrink-0" />
+            <span className="truncate">{channelName ?? "thread"}</span>
+          </h2>
+        ) : (
+          <h2 className="font-semibold truncate">
+            {routeMode === "dm" ? channelName : `# ${channelName ?? "channel"}`}
+          </h2>
+        )}
         {routeMode === "dm" && dmUsername ? (
           <p className="text-xs truncate">@{dmUsername}</p>
         ) : null}
+        {thread ? (
+          <p className="text-xs truncate text-muted-foreground">
+            {thread.archived ? "Archived" : "Active"}
+            {thread.memberCount !== null
+              ? ` · ${thread.memberCount} ${thread.memberCount === 1 ? "member" : "members"}`
+              : ""}
+          </p>
+        ) : null}
+        {messageTtl > 0 ? (
+          <p className="flex items-center gap-1 text-xs truncate text-muted-foreground">
+            <Timer className="size-3 shrink-0" />
+            Messages disappear after {formatMessageTtl(messageTtl)}
+          </p>
+        ) : null}
       </div>
       <div className="flex items-center gap-2">
+        {searchScope && searchChannelNameById && onJumpToSearchResult ? (
+          <SearchPopover
+            scope={searchScope}
+            channelNameById={searchChannelNameById}
+            guildRoles={guildRoles}
+            localePreference={localePreference}
+            onJumpToResult={onJumpToSearchResult}
+          />
+        ) : null}
+        {thread && onToggleThreadMembership ? (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={thread.isUpdating || thread.archived}
+            onClick={onToggleThreadMembership}
+          >
+            {thread.joined ? "Leave Thread" : "Join Thread"}
+          </Button>
+        ) : null}
+        {thread?.canManage && onToggleThreadArchived ? (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={thread.isUpdating}
+            onClick={onToggleThreadArchived}
+          >
+            {thread.archived ? (
+              <ArchiveRestore className="size-4" />
+            ) : (
+              <Archive className="size-4" />
+            )}
+            {thread.archived ? "Unarchive" : "Archive"}
+          </Button>
+        ) : null}
+        {onCreateThread ? (
+          <Button variant="outline" size="sm" onClick={onCreateThread}>
+            <MessagesSquare className="size-4" />
+            New Thread
+          </Button>
+        ) : null}
+        {pinsChannelId && onJumpToMessage && onUnpinMessage ? (
+          <PinsPopover
+            channelId={pinsChannelId}
+            guildRoles={guildRoles}
+            canManagePins={canManagePins}
+            localePreference={localePreference}
+            onJumpToMessage={onJumpToMessage}
+            onUnpin={onUnpinMessage}
+          />
+        ) : null}
+        {onJumpToMention ? (
+          <MentionsPopover
+            guildId={mentionsGuildId}
+            localePreference={localePreference}
+            onJumpToMessage={onJumpToMention}
+          />
+        ) : null}
+        {onJumpToSavedMessage && onRemoveSavedMessage && onUpdateSavedMessageNote ? (
+          <SavedMessagesPopover
+            localePreference={localePreference}
+            onJumpToMessage={onJumpToSavedMessage}
+            onRemove={onRemoveSavedMessage}
+            onUpdateNote={onUpdateSavedMessageNote}
+          />
+        ) : null}
+        {onJumpToReminder && onSnoozeReminder && onDismissReminder ? (
+          <RemindersPopover
+            localePreference={localePreference}
+            onJumpToMessage={onJumpToReminder}
+            onSnooze={onSnoozeReminder}
+            onDismiss={onDismissReminder}
+          />
+        ) : null}
         {showMembersToggle && onToggleMembers ? (
           <Button
             variant="outline"
@@ -44,11 +230,38 @@ export function ChatHeader({
             Members
           </Button>
         ) : null}
+        {onFollowChannel ? (
+          <Button variant="outline" size="sm" onClick={onFollowChannel}>
+            <BellPlus className="size-4" />
+            Follow
+          </Button>
+        ) : null}
+        {onOpenChannelSettings ? (
+          <Button
+            variant="outline"
+            size="icon-sm"
+            aria-label="Channel settings"
+            title="Channel settings"
+            onClick={onOpenChannelSettings}
+          >
+            <Settings className="size-4" />
+          </Button>
+        ) : null}
         {canCreateInvite ? (
           <Button variant="outline" size="sm" onClick={onCreateInvite}>
             Create Invite
           </Button>
         ) : null}
+        {routeMode === "dm" && dmMessageTtl && onProposeMessageTtl ? (
+          <DisappearingMessagesPopover
+            messageTtl={messageTtl}
+            proposals={dmMessageTtl.proposals}
+            currentUserId={dmMessageTtl.currentUserId}
+            recipientName={channelName ?? dmUsername ?? "They"}
+            isUpdating={dmMessageTtl.isUpdating}
+            onPropose={onProposeMessageTtl}
+          />
+        ) : null}
         {routeMode === "dm" && onCall ? (
           <Button variant="outline" size="sm" onClick={onCall}>
             <Phone className="size-4" />
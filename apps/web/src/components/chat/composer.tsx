@@ -1,14 +1,21 @@
 import type { UserSummary } from "@edgewire/types";
 import { useQuery } from "@tanstack/react-query";
 import type { ChangeEvent } from "react";
-import { useEffect, useMemo, useRef, useState } from "react";
-import { ArrowUp, Paperclip } from "lucide-react";
-import type { ComposerAttachment } from "@/app/types";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ArrowUp, AtSign, BarChart3, Paperclip, X } from "lucide-react";
+import type { ComposerAttachment, ComposerReply } from "@/app/types";
+import CreatePollModal from "@/components/chat/create-poll-modal";
+import MarkdownContent from "@/components/chat/markdown-content";
 import MentionToken from "@/components/chat/mention-token";
+import { ScheduleSendButton, ScheduledMessagesBar } from "@/components/chat/scheduled-messages";
 import { formatBytes, getDisplayInitial } from "@/components/utils/format";
+import { formatCooldown } from "@/components/utils/slowmode";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { api } from "@/lib/api";
+import { api, type PollCreateInput } from "@/lib/api";
+import { serializeComposerEmojis } from "@/lib/emojis";
+import { parseMarkdown } from "@/lib/markdown";
+import { queryKeys } from "@/lib/query-keys";
 import { cn } from "@/lib/utils";
 
 type ComposerProps = {
@@ -16,17 +23,25 @@ type ComposerProps = {
   onValueChange: (value: string) => void;
   canSendInActiveChannel: boolean;
   routeMode: "dm" | "guild";
+  channelId: string;
   guildId?: string | null;
   currentUserId?: string | null;
   dmMentionUser?: UserSummary | null;
   dmUsername?: string;
   channelName?: string | null;
+  localePreference?: string;
   attachments: ComposerAttachment[];
+  replyTo?: ComposerReply | null;
   isSendingMessage: boolean;
   isSendMutationPending: boolean;
   onAttachmentInputChange: (event: ChangeEvent<HTMLInputElement>) => void;
   onRemoveAttachment: (localId: string) => void;
+  onToggleReplyMention?: () => void;
+  onCancelReply?: () => void;
   onSend: (serializedValue?: string) => void;
+  onSchedule: (serializedValue: string, scheduledAt: Date) => void;
+  onSendPoll: (poll: PollCreateInput) => Promise<boolean>;
+  slowmodeRemainingSeconds?: number;
   onTriggerTyping: () => void;
 };
 
@@ -93,17 +108,25 @@ export function Composer({
   onValueChange,
   canSendInActiveChannel,
   routeMode,
+  channelId,
   guildId,
   currentUserId,
   dmMentionUser,
   dmUsername,
   channelName,
+  localePreference,
   attachments,
+  replyTo,
   isSendingMessage,
   isSendMutationPending,
   onAttachmentInputChange,
   onRemoveAttachment,
+  onToggleReplyMention,
+  onCancelReply,
   onSend,
+  onSchedule,
+  onSendPoll,
+  slowmodeRemainingSeconds = 0,
   onTriggerTyping,
 }: ComposerProps) {
   const attachmentInputRef = useRef<HTMLInputElement>(null);
@@ -115,8 +138,11 @@ export function Composer({
   const [activeSuggestionIndex, setActiveSuggestionIndex] = useState(0);
   const [dismissedMentionContext, setDismissedMentionContext] = useState<string | null>(null);
   const [knownMentionUsersById, setKnownMentionUsersById] = useState<Record<string, UserSummary>>({});
+  const [pollModalOpen, setPollModalOpen] = useState(false);
   const isSendDisabled =
     isSendingMessage || isSendMutationPending || !canSendInActiveChannel;
+  // Slowmode only holds back immediate sends; scheduling stays available.
+  const isSlowmoded = slowmodeRemainingSeconds > 0;
   const maxTextareaHeight = 144;
 
   const autosize = (textarea: HTMLTextAreaElement): void => {
@@ -144,6 +170,13 @@ export function Composer({
     pendingCaretPositionRef.current = null;
   }, [value]);
 
+  const replyToMessageId = replyTo?.message.id;
+  useEffect(() => {
+    if (replyToMessageId) {
+      textareaRef.current?.focus();
+    }
+  }, [replyToMessageId]);
+
   const mentionTrigger = useMemo(
     () => findMentionTrigger(value, Math.max(0, Math.min(cursorPosition, value.length))),
     [cursorPosition, value],
@@ -180,6 +213,14 @@ export function Composer({
   });
   const guildMentionMembers = guildMentionQuery.data?.members;
 
+  const guildEmojisQuery = useQuery({
+    queryKey: queryKeys.guildEmojis(guildId ?? "none"),
+    queryFn: () => api.listGuildEmojis(guildId!),
+    enabled: routeMode === "guild" && Boolean(guildId),
+    staleTime: 60_000,
+  });
+  const guildEmojis = guildEmojisQuery.data;
+
   useEffect(() => {
     if (routeMode === "dm") {
       if (!dmMentionUser) {
@@ -297,81 +338,130 @@ export function Composer({
     [knownUserMentionLabels],
   );
 
-  const renderedComposerContent = useMemo(() => {
-    if (!value) {
+  const knownMentionLabelRegex = useMemo(() => {
+    if (knownUserMentionLabels.length === 0) {
       return null;
     }
 
-    const nodes: React.ReactNode[] = [];
-    const knownMentionPattern = knownUserMentionLabels
-      .map(entry => escapeRegex(entry.label))
-      .join("|");
-    const tokenRegex = new RegExp(
-      `<@!?[^\\s>]+>|\\B@(?:everyone|here)\\b${knownMentionPattern ? `|${knownMentionPattern}` : ""}`,
+    return new RegExp(
+      knownUserMentionLabels.map(entry => escapeRegex(entry.label)).join("|"),
       "g",
     );
-    let cursor = 0;
+  }, [knownUserMentionLabels]);
 
-    for (const match of value.matchAll(tokenRegex)) {
-      const token = match[0];
-      const index = match.index ?? 0;
-      if (index > cursor) {
-        nodes.push(value.slice(cursor, index));
-      }
+  const composerBlocks = useMemo(() => (value ? parseMarkdown(value) : null), [value]);
 
+  const renderComposerMention = useCallback(
+    (token: string, key: string): React.ReactNode => {
       const userMatch = token.match(/^<@!?([^\s>]+)>$/);
       if (userMatch) {
         const userId = userMatch[1];
         const user = userId ? knownMentionUsersById[userId] : undefined;
         const fallbackLabel = userId ? `@user-${userId.slice(-4)}` : "@unknown";
-        nodes.push(
+        return (
           <MentionToken
-            key={`composer-user-${index}-${userId ?? "unknown"}`}
+            key={key}
             label={user ? `@${user.display_name}` : fallbackLabel}
             className={COMPOSER_PREVIEW_MENTION_CLASS}
-          />,
+          />
         );
-        cursor = index + token.length;
-        continue;
       }
 
-      const knownUser = knownUserByMentionLabel.get(token);
-      if (knownUser) {
+      return (
+        <MentionToken
+          key={key}
+          label={token}
+          className={`${COMPOSER_PREVIEW_MENTION_CLASS} bg-primary/15 text-primary`}
+        />
+      );
+    },
+    [knownMentionUsersById],
+  );
+
+  // Picked suggestions stay as "@Display Name" until send, so highlight those labels in plain text runs.
+  const renderComposerText = useCallback(
+    (text: string, key: string): React.ReactNode => {
+      if (!knownMentionLabelRegex) {
+        return text;
+      }
+
+      const nodes: React.ReactNode[] = [];
+      let cursor = 0;
+      for (const match of text.matchAll(knownMentionLabelRegex)) {
+        const token = match[0];
+        const index = match.index ?? 0;
+        if (index > cursor) {
+          nodes.push(text.slice(cursor, index));
+        }
+
+        const knownUser = knownUserByMentionLabel.get(token);
         nodes.push(
           <MentionToken
-            key={`composer-user-label-${index}-${knownUser.id}`}
+            key={`${key}-label-${index}-${knownUser?.id ?? "unknown"}`}
             label={token}
             className={COMPOSER_PREVIEW_MENTION_CLASS}
           />,
         );
         cursor = index + token.length;
-        continue;
       }
 
-      nodes.push(
-        <MentionToken
-          key={`composer-everyone-${index}`}
-          label={token}
-          className={`${COMPOSER_PREVIEW_MENTION_CLASS} bg-primary/15 text-primary`}
-        />,
-      );
-      cursor = index + token.length;
-    }
-
-    if (cursor < value.length) {
-      nodes.push(value.slice(cursor));
-    }
+      if (cursor < text.length) {
+        nodes.push(text.slice(cursor));
+      }
 
-    return nodes;
-  }, [knownUserMentionLabels, knownUserByMentionLabel, knownMentionUsersById, value]);
+      return nodes;
+    },
+    [knownMentionLabelRegex, knownUserByMentionLabel],
+  );
 
   const serializedComposerValue = useMemo(
-    () => serializeComposerMentions(value, knownMentionUsersById),
-    [knownMentionUsersById, value],
+    () => serializeComposerEmojis(serializeComposerMentions(value, knownMentionUsersById), guildEmojis ?? []),
+    [guildEmojis, knownMentionUsersById, value],
   );
 
   return (
     <footer className="shrink-0 p-4 bg-card">
+      <ScheduledMessagesBar channelId={channelId} localePreference={localePreference} />
+      {replyTo ? (
+        <div className="mb-2 flex items-center gap-2 rounded-md border bg-muted/40 px-3 py-1.5 text-xs">
+          <p className="min-w-0 flex-1 truncate text-muted-foreground">
+            Replying to{" "}
+            <span className="font-semibold text-foreground">
+              {replyTo.message.author.display_name}
+            </span>
+          </p>
+          {replyTo.message.author.id !== currentUserId ? (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className={cn(
+                "h-6 gap-1 px-2 text-xs",
+                replyTo.mentionAuthor ? "text-primary" : "text-muted-foreground",
+              )}
+              onClick={onToggleReplyMention}
+              aria-pressed={replyTo.mentionAuthor}
+              title={
+                replyTo.mentionAuthor
+                  ? "The author will be pinged"
+                  : "The author will not be pinged"
+              }
+            >
+              <AtSign className="size-3" />
+              {replyTo.mentionAuthor ? "ON" : "OFF"}
+            </Button>
+          ) : null}
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon-sm"
+            onClick={onCancelReply}
+            aria-label="Cancel reply"
+          >
+            <X className="size-4" />
+          </Button>
+        </div>
+      ) : null}
       <div className="relative">
         {mentionMenuOpen ? (
           <div className="absolute bottom-full left-0 right-0 z-20 mb-2 rounded-md border bg-popover shadow-md">
@@ -419,9 +509,19 @@ export function Composer({
           <div
             ref={previewRef}
             aria-hidden
-            className="pointer-events-none absolute inset-px overflow-hidden whitespace-pre-wrap break-words pl-12 pr-12 py-2.5 text-base leading-5 md:text-sm"
+            className="pointer-events-none absolute inset-px overflow-hidden whitespace-pre-wrap break-words pl-20 pr-20 py-2.5 text-base leading-5 md:text-sm"
           >
-            <span className="text-foreground">{renderedComposerContent}</span>
+            <span className="text-foreground">
+              {composerBlocks ? (
+                <MarkdownContent
+                  blocks={composerBlocks}
+                  keyPrefix="composer"
+                  renderMention={renderComposerMention}
+                  renderText={renderComposerText}
+                  variant="source"
+                />
+              ) : null}
+            </span>
           </div>
         ) : null}
 
@@ -486,9 +586,17 @@ export function Composer({
               }
             }
 
+            if (event.key === "Escape" && replyTo) {
+              event.preventDefault();
+              onCancelReply?.();
+              return;
+            }
+
             if (event.key === "Enter" && !event.shiftKey) {
               event.preventDefault();
-              onSend(serializedComposerValue);
+              if (!isSlowmoded) {
+                onSend(serializedComposerValue);
+              }
             }
           }}
           placeholder={
@@ -497,7 +605,7 @@ export function Composer({
               : `Message #${channelName ?? "channel"}`
           }
           className={cn(
-            "min-h-10 max-h-36 resize-none pl-12 pr-12 py-2.5 leading-5",
+            "min-h-10 max-h-36 resize-none pl-20 pr-20 py-2.5 leading-5",
             value
               ? "bg-transparent text-transparent caret-foreground selection:bg-accent/40"
               : "",
@@ -515,10 +623,22 @@ export function Composer({
         >
           <Paperclip />
         </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => setPollModalOpen(true)}
+          disabled={isSendDisabled || isSlowmoded}
+          aria-label="Create poll"
+          title="Create poll"
+          className="absolute bottom-1 left-9"
+        >
+          <BarChart3 />
+        </Button>
         <Button
           onClick={() => onSend(serializedComposerValue)}
           size="icon-sm"
-          disabled={isSendDisabled}
+          disabled={isSendDisabled || isSlowmoded}
           aria-label={
             isSendingMessage || isSendMutationPending ? "Sending..." : "Send"
           }
@@ -529,7 +649,23 @@ export function Composer({
         >
           <ArrowUp />
         </Button>
+        {replyTo ? null : (
+          <ScheduleSendButton
+            disabled={isSendDisabled}
+            onSchedule={(scheduledAt) => onSchedule(serializedComposerValue, scheduledAt)}
+          />
+        )}
       </div>
+      <CreatePollModal
+        open={pollModalOpen}
+        onClose={() => setPollModalOpen(false)}
+        isSubmitting={isSendMutationPending}
+        onSubmit={async (poll) => {
+          if (await onSendPoll(poll)) {
+            setPollModalOpen(false);
+          }
+        }}
+      />
       <input
         ref={attachmentInputRef}
         type="file"
@@ -537,6 +673,11 @@ export function Composer({
         className="hidden"
         onChange={onAttachmentInputChange}
       />
+      {isSlowmoded ? (
+        <p className="mt-2 text-xs text-muted-foreground" aria-live="polite">
+          Slowmode is on. You can send another message in {formatCooldown(slowmodeRemainingSeconds)}.
+        </p>
+      ) : null}
       {!canSendInActiveChannel && routeMode === "guild" ? (
         <p className="mt-2 text-xs">
           You do not have permission to send messages in this server.
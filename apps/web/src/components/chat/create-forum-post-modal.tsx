@@ -0,0 +1,128 @@
+import type { GuildChannelPayload } from "@edgewire/types";
+import { useEffect, useState, type FormEvent } from "react";
+import { Modal } from "@/components/layout/modal";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { MAX_APPLIED_FORUM_TAGS, toggleTagId } from "@/components/utils/forum";
+
+const POST_TITLE_MAX_LENGTH = 100;
+const MESSAGE_MAX_LENGTH = 2_000;
+
+type CreateForumPostModalProps = {
+  open: boolean;
+  channel: GuildChannelPayload | null;
+  canUseModeratedTags: boolean;
+  onClose: () => void;
+  onSubmit: (payload: { name: string; content: string; applied_tags: string[] }) => void | Promise<void>;
+  isSubmitting: boolean;
+};
+
+export function CreateForumPostModal({
+  open,
+  channel,
+  canUseModeratedTags,
+  onClose,
+  onSubmit,
+  isSubmitting,
+}: CreateForumPostModalProps) {
+  const [name, setName] = useState("");
+  const [content, setContent] = useState("");
+  const [appliedTags, setAppliedTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    setName("");
+    setContent("");
+    setAppliedTags([]);
+  }, [open, channel?.id]);
+
+  const selectableTags = (channel?.available_tags ?? []).filter((tag) => canUseModeratedTags || !tag.moderated);
+
+  const submit = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    if (!name.trim() || !content.trim()) {
+      return;
+    }
+
+    await onSubmit({ name: name.trim(), content: content.trim(), applied_tags: appliedTags });
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title="New Post"
+      description={channel ? `Start a post in ${channel.name}.` : undefined}
+    >
+      <form onSubmit={submit} className="space-y-4">
+        <div>
+          <Label htmlFor="forum-post-title">Title</Label>
+          <Input
+            id="forum-post-title"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            maxLength={POST_TITLE_MAX_LENGTH}
+            required
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="forum-post-content">Message</Label>
+          <Textarea
+            id="forum-post-content"
+            value={content}
+            onChange={(event) => setContent(event.target.value)}
+            maxLength={MESSAGE_MAX_LENGTH}
+            rows={6}
+            required
+            className="mt-2"
+          />
+        </div>
+
+        {selectableTags.length > 0 ? (
+          <div>
+            <Label>Tags</Label>
+            <div className="mt-2 flex flex-wrap gap-1">
+              {selectableTags.map((tag) => {
+                const selected = appliedTags.includes(tag.id);
+                return (
+                  <button
+                    key={tag.id}
+                    type="button"
+                    aria-pressed={selected}
+                    disabled={!selected && appliedTags.length >= MAX_APPLIED_FORUM_TAGS}
+                    onClick={() => setAppliedTags((current) => toggleTagId(current, tag.id))}
+                    className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium disabled:opacity-50 ${
+                      selected ? "border-primary bg-primary text-primary-foreground" : "bg-background text-muted-foreground"
+                    }`}
+                  >
+                    {tag.emoji_name ? <span>{tag.emoji_name}</span> : null}
+                    {tag.name}
+                  </button>
+                );
+              })}
+            </div>
+            <p className="mt-1 text-xs text-muted-foreground">Pick up to {MAX_APPLIED_FORUM_TAGS} tags.</p>
+          </div>
+        ) : null}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={!name.trim() || !content.trim() || isSubmitting}>
+            {isSubmitting ? "Posting..." : "Post"}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+export default CreateForumPostModal;
@@ -0,0 +1,154 @@
+import { Plus, X } from "lucide-react";
+import { useEffect, useState, type FormEvent } from "react";
+import { Modal } from "@/components/layout/modal";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { POLL_DURATION_OPTIONS } from "@/components/utils/polls";
+import type { PollCreateInput } from "@/lib/api";
+
+const POLL_QUESTION_MAX_LENGTH = 300;
+const POLL_ANSWER_MAX_LENGTH = 55;
+const POLL_MIN_ANSWERS = 2;
+const POLL_MAX_ANSWERS = 10;
+
+type CreatePollModalProps = {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (poll: PollCreateInput) => void | Promise<void>;
+  isSubmitting: boolean;
+};
+
+export function CreatePollModal({ open, onClose, onSubmit, isSubmitting }: CreatePollModalProps) {
+  const [question, setQuestion] = useState("");
+  const [answers, setAnswers] = useState<string[]>(["", ""]);
+  const [allowMultiselect, setAllowMultiselect] = useState(false);
+  const [duration, setDuration] = useState("24");
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    setQuestion("");
+    setAnswers(["", ""]);
+    setAllowMultiselect(false);
+    setDuration("24");
+  }, [open]);
+
+  const filledAnswers = answers.map((answer) => answer.trim()).filter(Boolean);
+  const canSubmit = Boolean(question.trim()) && filledAnswers.length >= POLL_MIN_ANSWERS;
+
+  const submit = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    if (!canSubmit) {
+      return;
+    }
+
+    await onSubmit({
+      question: question.trim(),
+      answers: filledAnswers.map((text) => ({ text })),
+      allow_multiselect: allowMultiselect,
+      duration: Number(duration),
+    });
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} title="Create Poll" description="Ask the channel a question.">
+      <form onSubmit={submit} className="space-y-4">
+        <div>
+          <Label htmlFor="poll-question">Question</Label>
+          <Input
+            id="poll-question"
+            value={question}
+            onChange={(event) => setQuestion(event.target.value)}
+            maxLength={POLL_QUESTION_MAX_LENGTH}
+            required
+            className="mt-2"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Answers</Label>
+          {answers.map((answer, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={answer}
+                onChange={(event) =>
+                  setAnswers((old) =>
+                    old.map((item, itemIndex) => (itemIndex === index ? event.target.value : item)),
+                  )
+                }
+                maxLength={POLL_ANSWER_MAX_LENGTH}
+                placeholder={`Answer ${index + 1}`}
+                aria-label={`Answer ${index + 1}`}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-sm"
+                disabled={answers.length <= POLL_MIN_ANSWERS}
+                aria-label={`Remove answer ${index + 1}`}
+                title="Remove answer"
+                onClick={() => setAnswers((old) => old.filter((_, itemIndex) => itemIndex !== index))}
+              >
+                <X />
+              </Button>
+            </div>
+          ))}
+          {answers.length < POLL_MAX_ANSWERS ? (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setAnswers((old) => [...old, ""])}
+            >
+              <Plus />
+              Add answer
+            </Button>
+          ) : null}
+        </div>
+
+        <div>
+          <Label>Duration</Label>
+          <Select value={duration} onValueChange={setDuration}>
+            <SelectTrigger className="w-full mt-2">
+              <SelectValue placeholder="Select duration" />
+            </SelectTrigger>
+            <SelectContent>
+              {POLL_DURATION_OPTIONS.map((option) => (
+                <SelectItem key={option.hours} value={String(option.hours)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="poll-multiselect">Allow multiple answers</Label>
+          <Switch id="poll-multiselect" checked={allowMultiselect} onCheckedChange={setAllowMultiselect} />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={!canSubmit || isSubmitting}>
+            {isSubmitting ? "Posting..." : "Post"}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+export default CreatePollModal;
@@ -0,0 +1,142 @@
+import {
+  ChannelType,
+  type MessagePayload,
+  type ThreadAutoArchiveDuration,
+} from "@edgewire/types";
+import { useEffect, useState, type FormEvent } from "react";
+import { Modal } from "@/components/layout/modal";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { THREAD_AUTO_ARCHIVE_OPTIONS } from "@/components/utils/threads";
+
+const THREAD_NAME_MAX_LENGTH = 100;
+
+type CreateThreadModalProps = {
+  open: boolean;
+  onClose: () => void;
+  starterMessage: MessagePayload | null;
+  canCreatePrivate: boolean;
+  onSubmit: (payload: {
+    name: string;
+    type: 11 | 12;
+    auto_archive_duration: ThreadAutoArchiveDuration;
+  }) => void | Promise<void>;
+  isSubmitting: boolean;
+};
+
+const toDefaultThreadName = (message: MessagePayload | null): string =>
+  message?.content.trim().split("\n")[0]?.slice(0, THREAD_NAME_MAX_LENGTH) ?? "";
+
+export function CreateThreadModal({
+  open,
+  onClose,
+  starterMessage,
+  canCreatePrivate,
+  onSubmit,
+  isSubmitting,
+}: CreateThreadModalProps) {
+  const [name, setName] = useState("");
+  const [type, setType] = useState<"11" | "12">("11");
+  const [autoArchiveDuration, setAutoArchiveDuration] = useState("1440");
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    setName(toDefaultThreadName(starterMessage));
+    setType("11");
+    setAutoArchiveDuration("1440");
+  }, [open, starterMessage]);
+
+  const submit = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    await onSubmit({
+      name: trimmed,
+      type: Number(type) as 11 | 12,
+      auto_archive_duration: Number(autoArchiveDuration) as ThreadAutoArchiveDuration,
+    });
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title="Create Thread"
+      description={
+        starterMessage
+          ? "Start a thread from this message."
+          : "Start a new thread in this channel."
+      }
+    >
+      <form onSubmit={submit} className="space-y-4">
+        <div>
+          <Label htmlFor="thread-name">Thread Name</Label>
+          <Input
+            id="thread-name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            maxLength={THREAD_NAME_MAX_LENGTH}
+            required
+            className="mt-2"
+          />
+        </div>
+
+        {!starterMessage && canCreatePrivate ? (
+          <div>
+            <Label>Visibility</Label>
+            <Select value={type} onValueChange={(value) => setType(value as "11" | "12")}>
+              <SelectTrigger className="w-full mt-2">
+                <SelectValue placeholder="Select visibility" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={String(ChannelType.PUBLIC_THREAD)}>Public Thread</SelectItem>
+                <SelectItem value={String(ChannelType.PRIVATE_THREAD)}>Private Thread</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        ) : null}
+
+        <div>
+          <Label>Hide After Inactivity</Label>
+          <Select value={autoArchiveDuration} onValueChange={setAutoArchiveDuration}>
+            <SelectTrigger className="w-full mt-2">
+              <SelectValue placeholder="Select duration" />
+            </SelectTrigger>
+            <SelectContent>
+              {THREAD_AUTO_ARCHIVE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Creating..." : "Create"}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+export default CreateThreadModal;
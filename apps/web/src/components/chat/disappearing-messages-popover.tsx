@@ -0,0 +1,112 @@
+import type { DmMessageTtlProposal } from "@edgewire/types";
+import { Check, Timer } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { MESSAGE_TTL_OPTIONS, formatMessageTtl } from "@/components/utils/message-ttl";
+
+type DisappearingMessagesPopoverProps = {
+  messageTtl: number;
+  proposals: DmMessageTtlProposal[];
+  currentUserId: string | null;
+  recipientName: string;
+  isUpdating: boolean;
+  onPropose: (seconds: number) => void;
+};
+
+const toStatusText = (
+  messageTtl: number,
+  otherProposal: DmMessageTtlProposal | undefined,
+  recipientName: string,
+): string => {
+  if (messageTtl > 0) {
+    return `Messages disappear ${formatMessageTtl(messageTtl)} after they are sent.`;
+  }
+  if (otherProposal && otherProposal.message_ttl > 0) {
+    return `${recipientName} wants messages to disappear after ${formatMessageTtl(otherProposal.message_ttl)}. Pick the same timer to turn it on.`;
+  }
+  return "Both of you need to pick the same timer to turn it on. Either of you can turn it off.";
+};
+
+export function DisappearingMessagesPopover({
+  messageTtl,
+  proposals,
+  currentUserId,
+  recipientName,
+  isUpdating,
+  onPropose,
+}: DisappearingMessagesPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const myProposal = proposals.find((proposal) => proposal.user_id === currentUserId)?.message_ttl ?? 0;
+  const otherProposal = proposals.find((proposal) => proposal.user_id !== currentUserId);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const onPointerDown = (event: MouseEvent): void => {
+      if (
+        containerRef.current &&
+        event.target instanceof Node &&
+        !containerRef.current.contains(event.target)
+      ) {
+        setOpen(false);
+      }
+    };
+
+    const onEscape = (event: KeyboardEvent): void => {
+      if (event.key === "Escape") {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", onPointerDown);
+    document.addEventListener("keydown", onEscape);
+    return () => {
+      document.removeEventListener("mousedown", onPointerDown);
+      document.removeEventListener("keydown", onEscape);
+    };
+  }, [open]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        size="icon-sm"
+        aria-label="Disappearing messages"
+        title="Disappearing messages"
+        aria-expanded={open}
+        onClick={() => setOpen((current) => !current)}
+      >
+        <Timer className="size-4" />
+      </Button>
+      {open ? (
+        <div className="absolute right-0 top-full z-30 mt-2 w-72 max-w-[calc(100vw-2rem)] rounded-md border bg-popover shadow-lg">
+          <div className="border-b px-3 py-2">
+            <p className="text-sm font-semibold">Disappearing Messages</p>
+            <p className="mt-1 text-xs text-muted-foreground">
+              {toStatusText(messageTtl, otherProposal, recipientName)}
+            </p>
+          </div>
+          <div className="space-y-1 p-2">
+            {MESSAGE_TTL_OPTIONS.map((option) => (
+              <button
+                key={option.seconds}
+                type="button"
+                disabled={isUpdating}
+                className="flex w-full items-center justify-between rounded-sm px-2 py-1 text-left text-sm hover:bg-accent disabled:opacity-50"
+                onClick={() => onPropose(option.seconds)}
+              >
+                {option.label}
+                {option.seconds === myProposal ? <Check className="size-4" /> : null}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default DisappearingMessagesPopover;
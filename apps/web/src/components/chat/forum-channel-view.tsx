@@ -0,0 +1,223 @@
+import {
+  ForumLayout,
+  type ForumPostPayload,
+  type ForumSortOrderValue,
+  type ForumTag,
+  type GuildChannelPayload,
+} from "@edgewire/types";
+import { useQuery } from "@tanstack/react-query";
+import { LayoutGrid, List, MessageSquareText, MessagesSquare, Plus, Settings } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FORUM_SORT_OPTIONS, toggleTagId } from "@/components/utils/forum";
+import { formatDateTime } from "@/components/utils/format";
+import { api } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+
+type ForumChannelViewProps = {
+  channel: GuildChannelPayload;
+  canCreatePost: boolean;
+  localePreference?: string;
+  onCreatePost: () => void;
+  onOpenPost: (thread: GuildChannelPayload) => void;
+  onOpenChannelSettings?: () => void;
+};
+
+const TagChip = ({ tag, active, onClick }: { tag: ForumTag; active?: boolean; onClick?: () => void }) => {
+  const className = `inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium ${
+    active ? "border-primary bg-primary text-primary-foreground" : "bg-background text-muted-foreground"
+  }`;
+  const label = (
+    <>
+      {tag.emoji_name ? <span>{tag.emoji_name}</span> : null}
+      {tag.name}
+    </>
+  );
+
+  return onClick ? (
+    <button type="button" className={className} aria-pressed={active} onClick={onClick}>
+      {label}
+    </button>
+  ) : (
+    <span className={className}>{label}</span>
+  );
+};
+
+const PostTags = ({ post, tagsById }: { post: ForumPostPayload; tagsById: Map<string, ForumTag> }) => {
+  const tags = (post.thread.applied_tags ?? []).flatMap((tagId) => tagsById.get(tagId) ?? []);
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <TagChip key={tag.id} tag={tag} />
+      ))}
+    </div>
+  );
+};
+
+const PostMeta = ({ post, localePreference }: { post: ForumPostPayload; localePreference?: string }) => (
+  <p className="flex items-center gap-2 text-xs text-muted-foreground">
+    {post.starter_message ? (
+      <>
+        <span className="truncate font-medium">{post.starter_message.author.display_name}</span>
+        <span>{formatDateTime(post.starter_message.timestamp, localePreference)}</span>
+      </>
+    ) : null}
+    <span className="ml-auto inline-flex items-center gap-1">
+      <MessagesSquare className="size-3" />
+      {post.message_count}
+    </span>
+  </p>
+);
+
+export function ForumChannelView({
+  channel,
+  canCreatePost,
+  localePreference,
+  onCreatePost,
+  onOpenPost,
+  onOpenChannelSettings,
+}: ForumChannelViewProps) {
+  const [sortOrder, setSortOrder] = useState<ForumSortOrderValue | null>(null);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [layout, setLayout] = useState(channel.default_forum_layout ?? ForumLayout.NOT_SET);
+
+  useEffect(() => {
+    setSortOrder(null);
+    setTagFilter([]);
+    setLayout(channel.default_forum_layout ?? ForumLayout.NOT_SET);
+  }, [channel.id, channel.default_forum_layout]);
+
+  const availableTags = channel.available_tags ?? [];
+  const tagsById = useMemo(() => new Map(availableTags.map((tag) => [tag.id, tag])), [availableTags]);
+  // Without an explicit pick the server applies the forum's own default sort order.
+  const effectiveSortOrder = sortOrder ?? channel.default_sort_order ?? FORUM_SORT_OPTIONS[0]!.value;
+
+  const postsQuery = useQuery({
+    queryKey: [...queryKeys.forumPosts(channel.id), sortOrder, tagFilter],
+    queryFn: () =>
+      api.listForumPosts(channel.id, {
+        sort_order: sortOrder ?? undefined,
+        tag_ids: tagFilter,
+      }),
+  });
+  const posts = postsQuery.data ?? [];
+  const isGallery = layout === ForumLayout.GALLERY_VIEW;
+
+  return (
+    <>
+      <header className="h-14 shrink-0 border-b px-4 flex items-center justify-between bg-card">
+        <div className="min-w-0">
+          <h2 className="flex min-w-0 items-center gap-1 font-semibold">
+            <MessageSquareText className="size-4 shrink-0" />
+            <span className="truncate">{channel.name}</span>
+          </h2>
+          {channel.topic ? <p className="text-xs truncate text-muted-foreground">{channel.topic}</p> : null}
+        </div>
+        <div className="flex items-center gap-2">
+          {canCreatePost ? (
+            <Button size="sm" onClick={onCreatePost}>
+              <Plus className="size-4" />
+              New Post
+            </Button>
+          ) : null}
+          {onOpenChannelSettings ? (
+            <Button
+              variant="outline"
+              size="icon-sm"
+              aria-label="Channel settings"
+              title="Channel settings"
+              onClick={onOpenChannelSettings}
+            >
+              <Settings className="size-4" />
+            </Button>
+          ) : null}
+        </div>
+      </header>
+
+      <div className="shrink-0 border-b px-4 py-2 flex flex-wrap items-center gap-2">
+        <Select
+          value={String(effectiveSortOrder)}
+          onValueChange={(value) => setSortOrder(Number(value) as ForumSortOrderValue)}
+        >
+          <SelectTrigger size="sm" className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FORUM_SORT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={String(option.value)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon-sm"
+          aria-label={isGallery ? "Show as list" : "Show as gallery"}
+          title={isGallery ? "Show as list" : "Show as gallery"}
+          onClick={() => setLayout(isGallery ? ForumLayout.LIST_VIEW : ForumLayout.GALLERY_VIEW)}
+        >
+          {isGallery ? <List className="size-4" /> : <LayoutGrid className="size-4" />}
+        </Button>
+        {availableTags.map((tag) => (
+          <TagChip
+            key={tag.id}
+            tag={tag}
+            active={tagFilter.includes(tag.id)}
+            onClick={() => setTagFilter((current) => toggleTagId(current, tag.id))}
+          />
+        ))}
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-y-auto p-4">
+        {postsQuery.isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading posts...</p>
+        ) : posts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {tagFilter.length > 0 ? "No posts match these tags." : "No posts yet."}
+          </p>
+        ) : (
+          <ul className={isGallery ? "grid gap-3 sm:grid-cols-2 xl:grid-cols-3" : "space-y-2"}>
+            {posts.map((post) => (
+              <li key={post.thread.id}>
+                <button
+                  type="button"
+                  onClick={() => onOpenPost(post.thread)}
+                  className={`w-full rounded-md border bg-card p-3 text-left hover:bg-accent flex flex-col gap-2 ${
+                    isGallery ? "h-48" : ""
+                  }`}
+                >
+                  <span className="font-semibold truncate">{post.thread.name}</span>
+                  <PostTags post={post} tagsById={tagsById} />
+                  {post.starter_message ? (
+                    <span
+                      className={`text-sm text-muted-foreground break-words ${
+                        isGallery ? "line-clamp-4 flex-1" : "line-clamp-2"
+                      }`}
+                    >
+                      {post.starter_message.content}
+                    </span>
+                  ) : null}
+                  <PostMeta post={post} localePreference={localePreference} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+}
+
+export default ForumChannelView;
@@ -0,0 +1,300 @@
+import { Fragment, useState, type ReactNode } from "react";
+import { customEmojiUrl } from "@/lib/emojis";
+import { highlightCode, type HighlightTokenType } from "@/lib/highlight";
+import {
+  CODE_FENCE,
+  type MarkdownBlock,
+  type MarkdownInline,
+} from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+
+type MarkdownContentProps = {
+  blocks: MarkdownBlock[];
+  keyPrefix: string;
+  renderMention: (token: string, key: string) => ReactNode;
+  renderText?: (text: string, key: string) => ReactNode;
+  /**
+   * `source` keeps every marker in place and avoids styles that change glyph widths,
+   * so the output can sit exactly underneath the composer textarea.
+   */
+  variant?: "message" | "source";
+};
+
+type RenderContext = Pick<MarkdownContentProps, "renderMention" | "renderText"> & {
+  source: boolean;
+};
+
+const HIGHLIGHT_CLASS_BY_TYPE: Record<HighlightTokenType, string | undefined> = {
+  plain: undefined,
+  keyword: "text-violet-600 dark:text-violet-400",
+  string: "text-emerald-700 dark:text-emerald-400",
+  number: "text-amber-700 dark:text-amber-400",
+  comment: "text-muted-foreground",
+};
+
+const HEADING_CLASS_BY_LEVEL = {
+  1: "text-xl font-bold leading-snug",
+  2: "text-lg font-bold leading-snug",
+  3: "text-base font-bold leading-snug",
+} as const;
+
+const LINK_CLASS = "text-primary hover:underline";
+const SOURCE_BOLD_CLASS = "[text-shadow:0.4px_0_0_currentColor]";
+
+const Marker = ({ children }: { children: ReactNode }) => (
+  <span className="text-muted-foreground">{children}</span>
+);
+
+function Spoiler({ children }: { children: ReactNode }) {
+  const [revealed, setRevealed] = useState(false);
+
+  if (revealed) {
+    return <span className="rounded bg-muted px-0.5">{children}</span>;
+  }
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      aria-label="Reveal spoiler"
+      className="cursor-pointer rounded bg-foreground/80 px-0.5"
+      onClick={() => setRevealed(true)}
+      onKeyDown={(event) => {
+        if (event.key === "Enter" || event.key === " ") {
+          event.preventDefault();
+          setRevealed(true);
+        }
+      }}
+    >
+      <span className="invisible">{children}</span>
+    </span>
+  );
+}
+
+const HighlightedCode = ({ code, language }: { code: string; language: string | null }) => (
+  <>
+    {highlightCode(code, language).map((token, index) => (
+      <span key={index} className={HIGHLIGHT_CLASS_BY_TYPE[token.type]}>
+        {token.content}
+      </span>
+    ))}
+  </>
+);
+
+const renderInline = (
+  nodes: MarkdownInline[],
+  keyPrefix: string,
+  context: RenderContext,
+): ReactNode[] =>
+  nodes.map((node, index) => {
+    const key = `${keyPrefix}-${index}`;
+    const { source } = context;
+
+    switch (node.type) {
+      case "text":
+        return context.renderText ? (
+          <Fragment key={key}>{context.renderText(node.content, key)}</Fragment>
+        ) : (
+          node.content
+        );
+      case "escape":
+        return source ? (
+          <span key={key}>
+            <Marker>\</Marker>
+            {node.content}
+          </span>
+        ) : (
+          node.content
+        );
+      case "mention":
+        return context.renderMention(node.token, key);
+      case "custom_emoji":
+        return source ? (
+          <span key={key} className="text-muted-foreground">
+            {node.token}
+          </span>
+        ) : (
+          <img
+            key={key}
+            src={customEmojiUrl(node.id)}
+            alt={`:${node.name}:`}
+            title={`:${node.name}:`}
+            className="inline-block size-[1.375em] object-contain align-text-bottom"
+            loading="lazy"
+            draggable={false}
+          />
+        );
+      case "url":
+        return source ? (
+          <span key={key} className="text-primary">
+            {node.url}
+          </span>
+        ) : (
+          <a key={key} href={node.url} target="_blank" rel="noopener noreferrer" className={LINK_CLASS}>
+            {node.url}
+          </a>
+        );
+      case "inline_code":
+        return source ? (
+          <span key={key} className="rounded-sm bg-muted">
+            <Marker>{node.marker}</Marker>
+            {node.content}
+            <Marker>{node.marker}</Marker>
+          </span>
+        ) : (
+          <code key={key} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">
+            {node.content}
+          </code>
+        );
+      case "link": {
+        const children = renderInline(node.children, key, context);
+        return source ? (
+          <span key={key}>
+            <Marker>[</Marker>
+            <span className="text-primary">{children}</span>
+            <Marker>]({node.url})</Marker>
+          </span>
+        ) : (
+          // Masked links show their destination on hover so the label cannot disguise it.
+          <a
+            key={key}
+            href={node.url}
+            title={node.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={LINK_CLASS}
+          >
+            {children}
+          </a>
+        );
+      }
+      default: {
+        const children = renderInline(node.children, key, context);
+        if (source) {
+          return (
+            <span
+              key={key}
+              className={cn(
+                node.type === "bold" && SOURCE_BOLD_CLASS,
+                node.type === "underline" && "underline",
+                node.type === "strikethrough" && "line-through",
+                node.type === "spoiler" && "rounded-sm bg-muted",
+              )}
+            >
+              <Marker>{node.marker}</Marker>
+              {children}
+              <Marker>{node.marker}</Marker>
+            </span>
+          );
+        }
+
+        switch (node.type) {
+          case "bold":
+            return <strong key={key}>{children}</strong>;
+          case "italic":
+            return <em key={key}>{children}</em>;
+          case "underline":
+            return (
+              <span key={key} className="underline">
+                {children}
+              </span>
+            );
+          case "strikethrough":
+            return <s key={key}>{children}</s>;
+          case "spoiler":
+            return <Spoiler key={key}>{children}</Spoiler>;
+        }
+      }
+    }
+  });
+
+const renderSourceBlock = (block: MarkdownBlock, key: string, context: RenderContext): ReactNode => {
+  switch (block.type) {
+    case "paragraph":
+      return renderInline(block.children, key, context);
+    case "heading":
+      return (
+        <span className={SOURCE_BOLD_CLASS}>
+          <Marker>{block.marker}</Marker>
+          {renderInline(block.children, key, context)}
+        </span>
+      );
+    case "blockquote":
+      return block.lines.map((line, index) => (
+        <span key={`${key}-${index}`}>
+          {index > 0 ? "\n" : null}
+          <Marker>{line.marker}</Marker>
+          {renderInline(line.children, `${key}-${index}`, context)}
+        </span>
+      ));
+    case "code_block":
+      return (
+        <span className="rounded-sm bg-muted">
+          <Marker>{block.open}</Marker>
+          <HighlightedCode code={block.content} language={block.language} />
+          <Marker>{CODE_FENCE}</Marker>
+        </span>
+      );
+  }
+};
+
+const renderMessageBlock = (block: MarkdownBlock, key: string, context: RenderContext): ReactNode => {
+  switch (block.type) {
+    case "paragraph":
+      return <div key={key}>{renderInline(block.children, key, context)}</div>;
+    case "heading": {
+      const Heading = `h${block.level}` as const;
+      return (
+        <Heading key={key} className={HEADING_CLASS_BY_LEVEL[block.level]}>
+          {renderInline(block.children, key, context)}
+        </Heading>
+      );
+    }
+    case "blockquote":
+      return (
+        <blockquote key={key} className="border-l-4 border-border pl-3">
+          {block.lines.map((line, index) => (
+            <div key={`${key}-${index}`}>{renderInline(line.children, `${key}-${index}`, context)}</div>
+          ))}
+        </blockquote>
+      );
+    case "code_block":
+      return (
+        <pre
+          key={key}
+          className="my-1 overflow-x-auto whitespace-pre rounded-md border bg-muted/50 p-2 font-mono text-xs"
+        >
+          <code>
+            <HighlightedCode code={block.content.replace(/\n$/, "")} language={block.language} />
+          </code>
+        </pre>
+      );
+  }
+};
+
+export function MarkdownContent({
+  blocks,
+  keyPrefix,
+  renderMention,
+  renderText,
+  variant = "message",
+}: MarkdownContentProps) {
+  const context: RenderContext = { renderMention, renderText, source: variant === "source" };
+
+  if (context.source) {
+    return (
+      <>
+        {blocks.map((block, index) => (
+          <span key={`${keyPrefix}-${index}`}>
+            {index > 0 ? "\n" : null}
+            {renderSourceBlock(block, `${keyPrefix}-${index}`, context)}
+          </span>
+        ))}
+      </>
+    );
+  }
+
+  return <>{blocks.map((block, index) => renderMessageBlock(block, `${keyPrefix}-${index}`, context))}</>;
+}
+
+export default MarkdownContent;
@@ -0,0 +1,184 @@
+import type { MentionPayload } from "@edgewire/types";
+import { AtSign } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toReplySnippet } from "@/components/chat/reply-preview";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { formatDateTime, getDisplayInitial } from "@/components/utils/format";
+import { useMentions } from "@/hooks/use-mentions";
+
+type MentionsPopoverProps = {
+  guildId: string | null;
+  localePreference?: string;
+  onJumpToMessage: (mention: MentionPayload) => void;
+};
+
+const toMentionContext = (mention: MentionPayload): string =>
+  mention.guild_id
+    ? `${mention.guild_name ?? "Server"} · #${mention.channel_name ?? "channel"}`
+    : "Direct Message";
+
+const FilterChip = ({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) => (
+  <button
+    type="button"
+    aria-pressed={active}
+    onClick={onClick}
+    className={`rounded-full border px-2 py-0.5 text-xs font-medium ${
+      active ? "border-primary bg-primary text-primary-foreground" : "bg-background text-muted-foreground"
+    }`}
+  >
+    {label}
+  </button>
+);
+
+export function MentionsPopover({ guildId, localePreference, onJumpToMessage }: MentionsPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [thisServerOnly, setThisServerOnly] = useState(false);
+  const [includeEveryone, setIncludeEveryone] = useState(true);
+  const [includeRoles, setIncludeRoles] = useState(true);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { query, mentions } = useMentions(
+    {
+      guild_id: thisServerOnly && guildId ? guildId : undefined,
+      everyone: includeEveryone,
+      roles: includeRoles,
+      unread: unreadOnly,
+    },
+    open,
+  );
+  // Entries read since the list loaded dim in place, or drop out when only unread ones are wanted.
+  const visibleMentions = unreadOnly ? mentions.filter((mention) => mention.unread) : mentions;
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const onPointerDown = (event: MouseEvent): void => {
+      if (
+        containerRef.current &&
+        event.target instanceof Node &&
+        !containerRef.current.contains(event.target)
+      ) {
+        setOpen(false);
+      }
+    };
+
+    const onEscape = (event: KeyboardEvent): void => {
+      if (event.key === "Escape") {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", onPointerDown);
+    document.addEventListener("keydown", onEscape);
+    return () => {
+      document.removeEventListener("mousedown", onPointerDown);
+      document.removeEventListener("keydown", onEscape);
+    };
+  }, [open]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        size="icon-sm"
+        aria-label="Mentions"
+        title="Mentions"
+        aria-expanded={open}
+        onClick={() => setOpen((current) => !current)}
+      >
+        <AtSign className="size-4" />
+      </Button>
+      {open ? (
+        <div className="absolute right-0 top-full z-30 mt-2 w-96 max-w-[calc(100vw-2rem)] rounded-md border bg-popover shadow-lg">
+          <div className="space-y-2 border-b px-3 py-2">
+            <p className="text-sm font-semibold">Mentions</p>
+            <div className="flex flex-wrap gap-1">
+              {guildId ? (
+                <FilterChip
+                  label="This server"
+                  active={thisServerOnly}
+                  onClick={() => setThisServerOnly((current) => !current)}
+                />
+              ) : null}
+              <FilterChip
+                label="@everyone"
+                active={includeEveryone}
+                onClick={() => setIncludeEveryone((current) => !current)}
+              />
+              <FilterChip label="Roles" active={includeRoles} onClick={() => setIncludeRoles((current) => !current)} />
+              <FilterChip label="Unread" active={unreadOnly} onClick={() => setUnreadOnly((current) => !current)} />
+            </div>
+          </div>
+          <div className="max-h-96 overflow-y-auto p-2">
+            {query.isLoading ? (
+              <p className="px-1 py-4 text-center text-sm text-muted-foreground">Loading mentions...</p>
+            ) : query.isError ? (
+              <p className="px-1 py-4 text-center text-sm text-destructive">Could not load mentions.</p>
+            ) : visibleMentions.length === 0 ? (
+              <p className="px-1 py-4 text-center text-sm text-muted-foreground">
+                {unreadOnly ? "You're all caught up." : "No mentions yet."}
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {visibleMentions.map((mention) => (
+                  <li key={mention.message_id}>
+                    <button
+                      type="button"
+                      className={`flex w-full gap-2 rounded-md border bg-card p-2 text-left hover:bg-accent/40 ${
+                        mention.unread ? "" : "opacity-60"
+                      }`}
+                      onClick={() => {
+                        setOpen(false);
+                        onJumpToMessage(mention);
+                      }}
+                    >
+                      <Avatar className="size-8 shrink-0">
+                        {mention.message.author.avatar_url ? (
+                          <AvatarImage
+                            src={mention.message.author.avatar_url}
+                            alt={mention.message.author.display_name}
+                          />
+                        ) : null}
+                        <AvatarFallback>{getDisplayInitial(mention.message.author.display_name)}</AvatarFallback>
+                      </Avatar>
+                      <span className="min-w-0 flex-1">
+                        <span className="block truncate text-xs text-muted-foreground">{toMentionContext(mention)}</span>
+                        <span className="flex items-baseline gap-2">
+                          <span className="truncate text-sm font-semibold">{mention.message.author.display_name}</span>
+                          <span className="shrink-0 text-xs text-muted-foreground">
+                            {formatDateTime(mention.message.timestamp, localePreference)}
+                          </span>
+                          {mention.unread ? (
+                            <span className="ml-auto size-2 shrink-0 rounded-full bg-primary" aria-label="Unread" />
+                          ) : null}
+                        </span>
+                        <span className="line-clamp-3 break-words text-sm">{toReplySnippet(mention.message, [])}</span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {query.hasNextPage ? (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="mt-1 w-full"
+                disabled={query.isFetchingNextPage}
+                onClick={() => void query.fetchNextPage()}
+              >
+                {query.isFetchingNextPage ? "Loading..." : "Load More"}
+              </Button>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default MentionsPopover;
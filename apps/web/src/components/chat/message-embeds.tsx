@@ -0,0 +1,88 @@
+import type { MessageEmbed } from "@edgewire/types";
+import { X } from "lucide-react";
+
+type MessageEmbedsProps = {
+  embeds: MessageEmbed[];
+  canSuppress: boolean;
+  onSuppress: () => void;
+};
+
+const SuppressButton = ({ onSuppress }: { onSuppress: () => void }) => (
+  <button
+    type="button"
+    className="absolute right-1 top-1 hidden rounded-sm p-0.5 text-muted-foreground hover:bg-accent hover:text-foreground group-hover/embed:block"
+    aria-label="Remove embeds"
+    title="Remove embeds"
+    onClick={onSuppress}
+  >
+    <X className="size-3.5" />
+  </button>
+);
+
+export function MessageEmbeds({ embeds, canSuppress, onSuppress }: MessageEmbedsProps) {
+  if (embeds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      {embeds.map((embed) =>
+        embed.type === "image" && embed.thumbnail ? (
+          <div key={embed.url} className="group/embed relative w-fit">
+            <a
+              href={embed.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block max-w-sm overflow-hidden rounded-md border bg-card"
+            >
+              <img
+                src={embed.thumbnail.url}
+                alt=""
+                className="max-h-80 w-full object-cover"
+                loading="lazy"
+              />
+            </a>
+            {canSuppress ? <SuppressButton onSuppress={onSuppress} /> : null}
+          </div>
+        ) : (
+          <div
+            key={embed.url}
+            className="group/embed relative flex max-w-md gap-3 rounded-md border border-l-4 border-l-primary bg-card p-3 pr-7"
+          >
+            <div className="min-w-0 flex-1 space-y-1">
+              {embed.site_name ? (
+                <p className="truncate text-xs text-muted-foreground">{embed.site_name}</p>
+              ) : null}
+              {embed.title ? (
+                <a
+                  href={embed.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-sm font-semibold text-primary hover:underline"
+                >
+                  {embed.title}
+                </a>
+              ) : null}
+              {embed.description ? (
+                <p className="line-clamp-3 whitespace-pre-wrap text-xs text-muted-foreground">
+                  {embed.description}
+                </p>
+              ) : null}
+            </div>
+            {embed.thumbnail ? (
+              <img
+                src={embed.thumbnail.url}
+                alt=""
+                className="size-20 shrink-0 rounded-sm object-cover"
+                loading="lazy"
+              />
+            ) : null}
+            {canSuppress ? <SuppressButton onSuppress={onSuppress} /> : null}
+          </div>
+        ),
+      )}
+    </div>
+  );
+}
+
+export default MessageEmbeds;
@@ -1,17 +1,41 @@
-import type {
-  GuildChannelPayload,
-  GuildRole,
-  MessagePayload,
-  UserSummary,
+import {
+  MessageFlags,
+  MessageType,
+  type GuildChannelPayload,
+  type GuildRole,
+  type MessagePayload,
+  type UserSummary,
 } from "@edgewire/types";
-import { Pencil, Trash2 } from "lucide-react";
-import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  AlarmClock,
+  AlarmClockCheck,
+  Bookmark,
+  BookmarkCheck,
+  Megaphone,
+  MessagesSquare,
+  Pencil,
+  Pin,
+  PinOff,
+  Reply,
+  SmilePlus,
+  Trash2,
+} from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { toast } from "sonner";
 import AttachmentList from "@/components/chat/attachments/attachment-list";
+import MarkdownContent from "@/components/chat/markdown-content";
+import MessageEmbeds from "@/components/chat/message-embeds";
+import { MessagePollCard } from "@/components/chat/message-poll";
 import MentionToken from "@/components/chat/mention-token";
+import MessageRevisionsModal from "@/components/chat/message-revisions-modal";
+import ReactionBar, { QuickReactionPicker } from "@/components/chat/reaction-bar";
+import ReminderPicker from "@/components/chat/reminder-picker";
+import ReplyPreview from "@/components/chat/reply-preview";
+import SystemMessageNotice from "@/components/chat/system-message";
 import { formatTime, getDisplayInitial } from "@/components/utils/format";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { parseMarkdown } from "@/lib/markdown";
 import { PermissionBits, hasPermission } from "@/lib/permissions";
 
 type MessageItemProps = {
@@ -26,19 +50,37 @@ type MessageItemProps = {
   guildRoles: GuildRole[];
   guildChannels: GuildChannelPayload[];
   activeGuildChannelPermissions: bigint;
+  canReply: boolean;
+  canReact: boolean;
+  canManagePins: boolean;
+  canCreateThreads: boolean;
+  canPublish: boolean;
+  isSaved: boolean;
+  hasReminder: boolean;
+  isHighlighted: boolean;
   isDeleting: boolean;
   isEditing: boolean;
   isEditPending: boolean;
   editLocked: boolean;
   onOpenProfile: (user: UserSummary) => void;
+  onReply: (message: MessagePayload) => void;
+  onJumpToMessage: (messageId: string) => void;
+  onTogglePin: (messageId: string, pinned: boolean) => void;
+  onCreateThread: (message: MessagePayload) => void;
+  onPublish: (messageId: string) => void;
+  onToggleSaved: (messageId: string, saved: boolean) => void;
+  onSetReminder: (messageId: string, remindAt: Date) => void;
+  onOpenThread: (thread: GuildChannelPayload) => void;
+  onToggleReaction: (messageId: string, emoji: string, me: boolean) => void;
+  onRemoveAllReactions: (messageId: string) => void;
+  onVotePoll: (messageId: string, answerId: number, voted: boolean) => void;
   onDeleteMessage: (messageId: string) => void;
   onStartEdit: (messageId: string) => void;
   onCancelEdit: () => void;
   onSaveEdit: (messageId: string, content: string) => void;
+  onSuppressEmbeds: (messageId: string) => void;
 };
 
-const MESSAGE_MENTION_TOKEN_REGEX =
-  /<@!?[^\s>]+>|<@&[^\s>]+>|<#[^\s>]+>|\B@(?:everyone|here)\b/g;
 const USER_MENTION_TOKEN_REGEX = /^<@!?([^\s>]+)>$/;
 const ROLE_MENTION_TOKEN_REGEX = /^<@&([^\s>]+)>$/;
 const CHANNEL_MENTION_TOKEN_REGEX = /^<#([^\s>]+)>$/;
@@ -56,22 +98,46 @@ export function MessageItem({
   guildRoles,
   guildChannels,
   activeGuildChannelPermissions,
+  canReply,
+  canReact,
+  canManagePins,
+  canCreateThreads,
+  canPublish,
+  isSaved,
+  hasReminder,
+  isHighlighted,
   isDeleting,
   isEditing,
   isEditPending,
   editLocked,
   onOpenProfile,
+  onReply,
+  onJumpToMessage,
+  onTogglePin,
+  onCreateThread,
+  onPublish,
+  onToggleSaved,
+  onSetReminder,
+  onOpenThread,
+  onToggleReaction,
+  onRemoveAllReactions,
+  onVotePoll,
   onDeleteMessage,
   onStartEdit,
   onCancelEdit,
   onSaveEdit,
+  onSuppressEmbeds,
 }: MessageItemProps) {
   const [draftContent, setDraftContent] = useState(message.content);
+  const [reactionPickerOpen, setReactionPickerOpen] = useState(false);
+  const [reminderPickerOpen, setReminderPickerOpen] = useState(false);
+  const [revisionsOpen, setRevisionsOpen] = useState(false);
   const editTextareaRef = useRef<HTMLTextAreaElement>(null);
   const isOwnMessage = Boolean(
     currentUserId && message.author.id === currentUserId,
   );
-  const canStartEditing = isOwnMessage && !isDeleting && !isEditPending && !editLocked;
+  const canStartEditing =
+    isOwnMessage && message.type === MessageType.DEFAULT && !isDeleting && !isEditPending && !editLocked;
   const canDeleteMessage =
     currentUserId !== null &&
     (routeMode === "dm"
@@ -82,6 +148,25 @@ export function MessageItem({
           PermissionBits.MANAGE_MESSAGES,
         ));
   const canShowDeleteAction = canDeleteMessage && !isEditing;
+  const canShowReplyAction = canReply && !isEditing;
+  const canShowReactAction = canReact && !isEditing;
+  const canShowPinAction = canManagePins && !isEditing;
+  const canShowThreadAction = canCreateThreads && !message.thread && !isEditing;
+  const isPublished = (message.flags & MessageFlags.CROSSPOSTED) !== 0;
+  const canShowPublishAction =
+    canPublish &&
+    !isPublished &&
+    !isEditing &&
+    (isOwnMessage || hasPermission(activeGuildChannelPermissions, PermissionBits.MANAGE_MESSAGES));
+  const canShowSaveAction = !isEditing;
+  const canViewRevisions =
+    isOwnMessage ||
+    (routeMode === "guild" &&
+      hasPermission(activeGuildChannelPermissions, PermissionBits.MANAGE_MESSAGES));
+  const canRemoveAllReactions =
+    routeMode === "guild" &&
+    (message.reactions?.length ?? 0) > 0 &&
+    hasPermission(activeGuildChannelPermissions, PermissionBits.MANAGE_MESSAGES);
   const mentionsMe = Boolean(
     currentUserId &&
     (message.mentions.some((user) => user.id === currentUserId) ||
@@ -120,36 +205,30 @@ export function MessageItem({
     [guildChannels],
   );
 
-  const renderedContent = useMemo(() => {
-    if (!message.content) {
-      return null;
-    }
-
-    const nodes: React.ReactNode[] = [];
-    let cursor = 0;
+  // Prefer the live channel entry so renames and archive changes show up without refetching messages.
+  const thread = message.thread
+    ? (guildChannelById.get(message.thread.id) ?? message.thread)
+    : null;
 
-    for (const match of message.content.matchAll(MESSAGE_MENTION_TOKEN_REGEX)) {
-      const token = match[0];
-      const index = match.index ?? 0;
-
-      if (index > cursor) {
-        nodes.push(message.content.slice(cursor, index));
-      }
+  const contentBlocks = useMemo(
+    () => (message.content ? parseMarkdown(message.content) : null),
+    [message.content],
+  );
 
+  const renderMention = useCallback(
+    (token: string, key: string): React.ReactNode => {
       const userMatch = token.match(USER_MENTION_TOKEN_REGEX);
       if (userMatch) {
         const userId = userMatch[1];
         const user = userId ? mentionUserById.get(userId) : undefined;
         const fallbackLabel = userId ? `@user-${userId.slice(-4)}` : "@unknown";
-        nodes.push(
+        return (
           <MentionToken
-            key={`${message.id}:${index}:user:${userId ?? "unknown"}`}
+            key={key}
             label={user ? `@${user.display_name}` : fallbackLabel}
             onClick={user ? () => onOpenProfile(user) : undefined}
-          />,
+          />
         );
-        cursor = index + token.length;
-        continue;
       }
 
       const roleMatch = token.match(ROLE_MENTION_TOKEN_REGEX);
@@ -160,15 +239,13 @@ export function MessageItem({
           role?.color === null || role?.color === undefined
             ? undefined
             : `#${role.color.toString(16).padStart(6, "0")}`;
-        nodes.push(
+        return (
           <MentionToken
-            key={`${message.id}:${index}:role:${roleId ?? "unknown"}`}
+            key={key}
             label={role ? `@${role.name}` : "@deleted-role"}
             accentColor={roleColor}
-          />,
+          />
         );
-        cursor = index + token.length;
-        continue;
       }
 
       const channelMatch = token.match(CHANNEL_MENTION_TOKEN_REGEX);
@@ -182,216 +259,436 @@ export function MessageItem({
           : undefined;
         const channelName = channelMention?.name ?? guildChannel?.name ?? null;
 
-        nodes.push(
+        return (
           <MentionToken
-            key={`${message.id}:${index}:channel:${channelId ?? "unknown"}`}
+            key={key}
             label={channelName ? `#${channelName}` : "#deleted-channel"}
-          />,
+          />
         );
-        cursor = index + token.length;
-        continue;
       }
 
-      nodes.push(
+      return (
         <MentionToken
-          key={`${message.id}:${index}:everyone`}
+          key={key}
           label={token}
           className="bg-primary/15 text-primary"
-        />,
+        />
       );
-      cursor = index + token.length;
-    }
+    },
+    [guildChannelById, mentionUserById, channelMentionById, roleById, onOpenProfile],
+  );
 
-    if (cursor < message.content.length) {
-      nodes.push(message.content.slice(cursor));
-    }
+  const editedMarker = canViewRevisions ? (
+    <button
+      type="button"
+      className="text-[10px] hover:underline"
+      title="View edit history"
+      onClick={() => setRevisionsOpen(true)}
+    >
+      (edited)
+    </button>
+  ) : (
+    <span className="text-[10px]">(edited)</span>
+  );
 
-    return nodes;
-  }, [
-    guildChannelById,
-    mentionUserById,
-    channelMentionById,
-    roleById,
-    message.content,
-    message.id,
-    onOpenProfile,
-  ]);
+  if (message.type !== MessageType.DEFAULT) {
+    return (
+      <SystemMessageNotice
+        message={message}
+        localePreference={localePreference}
+        guildChannels={guildChannels}
+        onOpenProfile={onOpenProfile}
+        onJumpToMessage={onJumpToMessage}
+        onOpenThread={onOpenThread}
+      />
+    );
+  }
 
   return (
     <article
       tabIndex={0}
+      onMouseLeave={() => setReactionPickerOpen(false)}
       onKeyDown={(event) => {
         const wantsEditShortcut =
           event.key === "e" ||
           event.key === "E" ||
           (event.key === "Enter" && !event.shiftKey && !event.metaKey && !event.ctrlKey && !event.altKey);
-        if (!isEditing && canStartEditing && wantsEditShortcut) {
+        if (!isEditing && !revisionsOpen && canStartEditing && wantsEditShortcut) {
           event.preventDefault();
           onStartEdit(message.id);
         }
       }}
-      className={`group relative flex ${compactMode ? "gap-2" : "gap-3"} ${
+      className={`group relative ${
         groupedWithPrevious ? "py-px" : compactMode ? "py-1" : "py-2"
       } px-2 transition-colors hover:bg-accent/50 ${
         mentionsMe ? "border-l-2 border-primary/80 bg-accent/30" : ""
-      } focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring/60`}
+      } ${isHighlighted ? "bg-primary/10" : ""} focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring/60`}
     >
-      {groupedWithPrevious ? (
-        <div
-          className={`${compactMode ? "w-9" : "w-11"} relative shrink-0 select-none text-right`}
-          aria-hidden
-        >
-          {showTimestamps ? (
-            <span className="absolute right-0 top-0 text-[9px] text-muted-foreground opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100">
-              {formatTime(message.timestamp, localePreference)}
-            </span>
-          ) : null}
+      {message.crosspost_source ? (
+        <div className="mb-1 flex items-center gap-1 pl-12 text-xs text-muted-foreground">
+          <Megaphone className="size-3.5 shrink-0" />
+          <span className="truncate">
+            {message.crosspost_source.guild_name} #{message.crosspost_source.channel_name}
+          </span>
         </div>
-      ) : (
-        <button
-          type="button"
-          onClick={() => onOpenProfile(message.author)}
-          className={`${compactMode ? "h-7 w-7" : "h-9 w-9"} shrink-0 overflow-hidden rounded-full bg-muted grid place-items-center text-xs font-semibold uppercase`}
-          aria-label={`Open profile for ${message.author.display_name}`}
-        >
-          {message.author.avatar_url ? (
-            <img
-              src={message.author.avatar_url}
-              alt={`${message.author.display_name} avatar`}
-              className="h-full w-full object-cover"
-            />
-          ) : (
-            getDisplayInitial(message.author.display_name)
-          )}
-        </button>
-      )}
-      <div className="relative min-w-0 flex-1">
-        {!groupedWithPrevious ? (
-          <div className="flex items-center gap-2">
-            <span
-              className={`font-semibold ${compactMode ? "text-xs" : "text-sm"}`}
-            >
-              {message.author.display_name}
-            </span>
+      ) : null}
+      {message.referenced_message ? (
+        <ReplyPreview
+          referencedMessage={message.referenced_message}
+          guildRoles={guildRoles}
+          compactMode={compactMode}
+          onJumpToMessage={onJumpToMessage}
+        />
+      ) : null}
+      <div className={`flex ${compactMode ? "gap-2" : "gap-3"}`}>
+        {groupedWithPrevious ? (
+          <div
+            className={`${compactMode ? "w-9" : "w-11"} relative shrink-0 select-none text-right`}
+            aria-hidden
+          >
             {showTimestamps ? (
-              <span className="text-xs">
+              <span className="absolute right-0 top-0 text-[9px] text-muted-foreground opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100">
                 {formatTime(message.timestamp, localePreference)}
               </span>
             ) : null}
-            {message.edited_timestamp ? (
-              <span className="text-[10px]">(edited)</span>
-            ) : null}
           </div>
-        ) : null}
-        {isEditing ? (
-          <div className={groupedWithPrevious ? "" : "mt-1"}>
-            <Textarea
-              ref={editTextareaRef}
-              rows={2}
-              maxLength={MESSAGE_MAX_LENGTH}
-              value={draftContent}
-              onChange={(event) => setDraftContent(event.target.value)}
-              onKeyDown={(event) => {
-                if (event.key === "Escape") {
-                  event.preventDefault();
-                  setDraftContent(message.content);
-                  onCancelEdit();
-                  return;
-                }
-
-                if (event.key === "Enter" && !event.shiftKey) {
-                  event.preventDefault();
-                  const trimmed = draftContent.trim();
-                  if (!trimmed && message.attachments.length === 0) {
-                    toast.error("Message must include content or attachments.");
-                    return;
-                  }
-                  if (draftContent.length > MESSAGE_MAX_LENGTH) {
-                    toast.error(`Message must be ${MESSAGE_MAX_LENGTH} characters or fewer.`);
-                    return;
-                  }
-                  onSaveEdit(message.id, draftContent);
-                }
-              }}
-              className="min-h-20 resize-y"
-              disabled={isEditPending}
-            />
-            <div className="mt-2 flex items-center gap-2">
-              <Button
-                type="button"
-                size="sm"
-                onClick={() => {
-                  const trimmed = draftContent.trim();
-                  if (!trimmed && message.attachments.length === 0) {
-                    toast.error("Message must include content or attachments.");
+        ) : (
+          <button
+            type="button"
+            onClick={() => onOpenProfile(message.author)}
+            className={`${compactMode ? "h-7 w-7" : "h-9 w-9"} shrink-0 overflow-hidden rounded-full bg-muted grid place-items-center text-xs font-semibold uppercase`}
+            aria-label={`Open profile for ${message.author.display_name}`}
+          >
+            {message.author.avatar_url ? (
+              <img
+                src={message.author.avatar_url}
+                alt={`${message.author.display_name} avatar`}
+                className="h-full w-full object-cover"
+              />
+            ) : (
+              getDisplayInitial(message.author.display_name)
+            )}
+          </button>
+        )}
+        <div className="relative min-w-0 flex-1">
+          {!groupedWithPrevious ? (
+            <div className="flex items-center gap-2">
+              <span
+                className={`font-semibold ${compactMode ? "text-xs" : "text-sm"}`}
+              >
+                {message.author.display_name}
+              </span>
+              {showTimestamps ? (
+                <span className="text-xs">
+                  {formatTime(message.timestamp, localePreference)}
+                </span>
+              ) : null}
+              {message.edited_timestamp && !groupedWithPrevious ? editedMarker : null}
+              {isPublished ? <span className="text-[10px] text-muted-foreground">(published)</span> : null}
+            </div>
+          ) : null}
+          {isEditing ? (
+            <div className={groupedWithPrevious ? "" : "mt-1"}>
+              <Textarea
+                ref={editTextareaRef}
+                rows={2}
+                maxLength={MESSAGE_MAX_LENGTH}
+                value={draftContent}
+                onChange={(event) => setDraftContent(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === "Escape") {
+                    event.preventDefault();
+                    setDraftContent(message.content);
+                    onCancelEdit();
                     return;
                   }
-                  if (draftContent.length > MESSAGE_MAX_LENGTH) {
-                    toast.error(`Message must be ${MESSAGE_MAX_LENGTH} characters or fewer.`);
-                    return;
+
+                  if (event.key === "Enter" && !event.shiftKey) {
+                    event.preventDefault();
+                    const trimmed = draftContent.trim();
+                    if (!trimmed && message.attachments.length === 0 && !message.poll) {
+                      toast.error("Message must include content, attachments or a poll.");
+                      return;
+                    }
+                    if (draftContent.length > MESSAGE_MAX_LENGTH) {
+                      toast.error(`Message must be ${MESSAGE_MAX_LENGTH} characters or fewer.`);
+                      return;
+                    }
+                    onSaveEdit(message.id, draftContent);
                   }
-                  onSaveEdit(message.id, draftContent);
                 }}
+                className="min-h-20 resize-y"
                 disabled={isEditPending}
-              >
-                Save
-              </Button>
-              <Button
-                type="button"
-                variant="ghost"
-                size="sm"
-                onClick={() => {
-                  setDraftContent(message.content);
-                  onCancelEdit();
-                }}
-                disabled={isEditPending}
-              >
-                Cancel
-              </Button>
-              <span className="text-[11px] text-muted-foreground">
-                Enter to save, Shift+Enter for newline, Esc to cancel
-              </span>
-            </div>
-          </div>
-        ) : renderedContent ? (
-          <p
-            className={`whitespace-pre-wrap break-words ${groupedWithPrevious ? "" : "mt-1"} ${compactMode ? "text-xs" : "text-sm"}`}
-          >
-            {renderedContent}
-          </p>
-        ) : null}
-        <AttachmentList attachments={message.attachments} />
-
-        {canStartEditing || canShowDeleteAction ? (
-          <div className="pointer-events-none absolute -right-1 top-0 z-10 opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100">
-            <div className="pointer-events-auto flex items-center rounded-md border bg-card shadow-sm">
-              {canStartEditing ? (
+              />
+              <div className="mt-2 flex items-center gap-2">
                 <Button
                   type="button"
-                  variant="ghost"
-                  size="icon-sm"
-                  aria-label="Edit message"
-                  onClick={() => onStartEdit(message.id)}
+                  size="sm"
+                  onClick={() => {
+                    const trimmed = draftContent.trim();
+                    if (!trimmed && message.attachments.length === 0 && !message.poll) {
+                      toast.error("Message must include content, attachments or a poll.");
+                      return;
+                    }
+                    if (draftContent.length > MESSAGE_MAX_LENGTH) {
+                      toast.error(`Message must be ${MESSAGE_MAX_LENGTH} characters or fewer.`);
+                      return;
+                    }
+                    onSaveEdit(message.id, draftContent);
+                  }}
+                  disabled={isEditPending}
                 >
-                  <Pencil className="size-4" />
+                  Save
                 </Button>
-              ) : null}
-              {canShowDeleteAction ? (
                 <Button
                   type="button"
                   variant="ghost"
-                  size="icon-sm"
-                  aria-label="Delete message"
-                  disabled={isDeleting || isEditPending}
-                  onClick={() => onDeleteMessage(message.id)}
+                  size="sm"
+                  onClick={() => {
+                    setDraftContent(message.content);
+                    onCancelEdit();
+                  }}
+                  disabled={isEditPending}
                 >
-                  <Trash2 className="size-4" />
+                  Cancel
                 </Button>
+                <span className="text-[11px] text-muted-foreground">
+                  Enter to save, Shift+Enter for newline, Esc to cancel
+                </span>
+              </div>
+            </div>
+          ) : contentBlocks ? (
+            <div
+              className={`whitespace-pre-wrap break-words ${groupedWithPrevious ? "" : "mt-1"} ${compactMode ? "text-xs" : "text-sm"}`}
+            >
+              <MarkdownContent
+                blocks={contentBlocks}
+                keyPrefix={message.id}
+                renderMention={renderMention}
+              />
+              {message.edited_timestamp && groupedWithPrevious ? editedMarker : null}
+            </div>
+          ) : null}
+          <AttachmentList attachments={message.attachments} />
+          {message.poll ? (
+            <MessagePollCard
+              messageId={message.id}
+              poll={message.poll}
+              canVote={currentUserId !== null}
+              localePreference={localePreference}
+              onVote={onVotePoll}
+            />
+          ) : null}
+          <MessageEmbeds
+            embeds={message.embeds}
+            canSuppress={isOwnMessage}
+            onSuppress={() => onSuppressEmbeds(message.id)}
+          />
+          <ReactionBar
+            message={message}
+            canReact={canReact}
+            onToggleReaction={onToggleReaction}
+          />
+          {thread ? (
+            <button
+              type="button"
+              className="mt-1 inline-flex max-w-full items-center gap-2 rounded-md border bg-card px-2 py-1 text-left text-xs hover:bg-accent"
+              onClick={() => onOpenThread(thread)}
+            >
+              <MessagesSquare className="size-3.5 shrink-0" />
+              <span className="truncate font-medium">{thread.name}</span>
+              {thread.member_count !== undefined ? (
+                <span className="shrink-0 text-muted-foreground">
+                  {thread.member_count} {thread.member_count === 1 ? "member" : "members"}
+                </span>
+              ) : null}
+              {thread.thread_metadata?.archived ? (
+                <span className="shrink-0 text-muted-foreground">Archived</span>
               ) : null}
+            </button>
+          ) : null}
+
+          {canShowReactAction ||
+          canShowReplyAction ||
+          canShowPinAction ||
+          canShowThreadAction ||
+          canShowPublishAction ||
+          canShowSaveAction ||
+          canStartEditing ||
+          canShowDeleteAction ? (
+            <div
+              className={`pointer-events-none absolute -right-1 top-0 z-10 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100 ${
+                reactionPickerOpen || reminderPickerOpen ? "opacity-100" : "opacity-0"
+              }`}
+            >
+              <div className="pointer-events-auto relative flex items-center rounded-md border bg-card shadow-sm">
+                {canShowReactAction ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label="Add reaction"
+                    aria-expanded={reactionPickerOpen}
+                    disabled={isDeleting}
+                    onClick={() => {
+                      setReminderPickerOpen(false);
+                      setReactionPickerOpen((open) => !open);
+                    }}
+                  >
+                    <SmilePlus className="size-4" />
+                  </Button>
+                ) : null}
+                {canShowReplyAction ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label="Reply to message"
+                    disabled={isDeleting}
+                    onClick={() => onReply(message)}
+                  >
+                    <Reply className="size-4" />
+                  </Button>
+                ) : null}
+                {canShowPinAction ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label={message.pinned ? "Unpin message" : "Pin message"}
+                    disabled={isDeleting}
+                    onClick={() => onTogglePin(message.id, message.pinned)}
+                  >
+                    {message.pinned ? (
+                      <PinOff className="size-4" />
+                    ) : (
+                      <Pin className="size-4" />
+                    )}
+                  </Button>
+                ) : null}
+                {canShowThreadAction ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label="Create thread"
+                    disabled={isDeleting}
+                    onClick={() => onCreateThread(message)}
+                  >
+                    <MessagesSquare className="size-4" />
+                  </Button>
+                ) : null}
+                {canShowPublishAction ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label="Publish message"
+                    disabled={isDeleting}
+                    onClick={() => onPublish(message.id)}
+                  >
+                    <Megaphone className="size-4" />
+                  </Button>
+                ) : null}
+                {canShowSaveAction ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label={isSaved ? "Remove from saved" : "Save message"}
+                    aria-pressed={isSaved}
+                    disabled={isDeleting}
+                    onClick={() => onToggleSaved(message.id, isSaved)}
+                  >
+                    {isSaved ? (
+                      <BookmarkCheck className="size-4" />
+                    ) : (
+                      <Bookmark className="size-4" />
+                    )}
+                  </Button>
+                ) : null}
+                {canShowSaveAction ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label={hasReminder ? "Change reminder" : "Remind me"}
+                    aria-expanded={reminderPickerOpen}
+                    disabled={isDeleting}
+                    onClick={() => {
+                      setReactionPickerOpen(false);
+                      setReminderPickerOpen((open) => !open);
+                    }}
+                  >
+                    {hasReminder ? (
+                      <AlarmClockCheck className="size-4" />
+                    ) : (
+                      <AlarmClock className="size-4" />
+                    )}
+                  </Button>
+                ) : null}
+                {canStartEditing ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label="Edit message"
+                    onClick={() => onStartEdit(message.id)}
+                  >
+                    <Pencil className="size-4" />
+                  </Button>
+                ) : null}
+                {canShowDeleteAction ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label="Delete message"
+                    disabled={isDeleting || isEditPending}
+                    onClick={() => onDeleteMessage(message.id)}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                ) : null}
+                {reactionPickerOpen ? (
+                  <QuickReactionPicker
+                    canRemoveAll={canRemoveAllReactions}
+                    onPick={(emoji) => {
+                      setReactionPickerOpen(false);
+                      const existing = message.reactions?.find(
+                        (reaction) => reaction.emoji.id === null && reaction.emoji.name === emoji,
+                      );
+                      onToggleReaction(message.id, emoji, Boolean(existing?.me));
+                    }}
+                    onRemoveAll={() => {
+                      setReactionPickerOpen(false);
+                      onRemoveAllReactions(message.id);
+                    }}
+                  />
+                ) : null}
+                {reminderPickerOpen ? (
+                  <ReminderPicker
+                    title="Remind me about this"
+                    className="absolute right-0 top-full z-20 mt-1"
+                    onPick={(remindAt) => {
+                      setReminderPickerOpen(false);
+                      onSetReminder(message.id, remindAt);
+                    }}
+                  />
+                ) : null}
+              </div>
             </div>
-          </div>
-        ) : null}
+          ) : null}
+        </div>
       </div>
+      {revisionsOpen ? (
+        <MessageRevisionsModal
+          open={revisionsOpen}
+          onClose={() => setRevisionsOpen(false)}
+          message={message}
+          localePreference={localePreference}
+        />
+      ) : null}
     </article>
   );
 }
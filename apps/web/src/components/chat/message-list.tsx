@@ -1,4 +1,10 @@
-import type { GuildChannelPayload, GuildRole, MessagePayload, UserSummary } from "@edgewire/types";
+import {
+  MessageType,
+  type GuildChannelPayload,
+  type GuildRole,
+  type MessagePayload,
+  type UserSummary,
+} from "@edgewire/types";
 import type { RefObject } from "react";
 import { Button } from "@/components/ui/button";
 import MessageItem from "./message-item";
@@ -14,17 +20,41 @@ type MessageListProps = {
   guildRoles: GuildRole[];
   guildChannels: GuildChannelPayload[];
   activeGuildChannelPermissions: bigint;
+  canReply: boolean;
+  canReact: boolean;
+  canManagePins: boolean;
+  canCreateThreads: boolean;
+  canPublish: boolean;
+  savedMessageIds: Set<string>;
+  reminderMessageIds: Set<string>;
+  highlightedMessageId: string | null;
   onLoadOlder: () => void;
   canLoadOlder: boolean;
   isLoadingOlder: boolean;
+  onLoadNewer: () => void;
+  canLoadNewer: boolean;
+  isLoadingNewer: boolean;
+  onJumpToPresent: () => void;
   deletingMessageIds: string[];
   editingMessageId: string | null;
   editingInFlightMessageId: string | null;
   onOpenProfile: (user: UserSummary) => void;
+  onReply: (message: MessagePayload) => void;
+  onJumpToMessage: (messageId: string) => void;
+  onTogglePin: (messageId: string, pinned: boolean) => void;
+  onCreateThread: (message: MessagePayload) => void;
+  onPublish: (messageId: string) => void;
+  onToggleSaved: (messageId: string, saved: boolean) => void;
+  onSetReminder: (messageId: string, remindAt: Date) => void;
+  onOpenThread: (thread: GuildChannelPayload) => void;
+  onToggleReaction: (messageId: string, emoji: string, me: boolean) => void;
+  onRemoveAllReactions: (messageId: string) => void;
+  onVotePoll: (messageId: string, answerId: number, voted: boolean) => void;
   onDeleteMessage: (messageId: string) => void;
   onStartEdit: (messageId: string) => void;
   onCancelEdit: () => void;
   onSaveEdit: (messageId: string, content: string) => void;
+  onSuppressEmbeds: (messageId: string) => void;
   containerRef: RefObject<HTMLDivElement | null>;
   bottomRef: RefObject<HTMLDivElement | null>;
 };
@@ -35,7 +65,13 @@ const shouldGroupWithPreviousMessage = (
   previous: MessagePayload | undefined,
   current: MessagePayload,
 ): boolean => {
-  if (!previous || previous.author.id !== current.author.id) {
+  if (
+    !previous ||
+    previous.author.id !== current.author.id ||
+    current.message_reference ||
+    previous.type !== MessageType.DEFAULT ||
+    current.type !== MessageType.DEFAULT
+  ) {
     return false;
   }
 
@@ -59,17 +95,41 @@ export function MessageList({
   guildRoles,
   guildChannels,
   activeGuildChannelPermissions,
+  canReply,
+  canReact,
+  canManagePins,
+  canCreateThreads,
+  canPublish,
+  savedMessageIds,
+  reminderMessageIds,
+  highlightedMessageId,
   onLoadOlder,
   canLoadOlder,
   isLoadingOlder,
+  onLoadNewer,
+  canLoadNewer,
+  isLoadingNewer,
+  onJumpToPresent,
   deletingMessageIds,
   editingMessageId,
   editingInFlightMessageId,
   onOpenProfile,
+  onReply,
+  onJumpToMessage,
+  onTogglePin,
+  onCreateThread,
+  onPublish,
+  onToggleSaved,
+  onSetReminder,
+  onOpenThread,
+  onToggleReaction,
+  onRemoveAllReactions,
+  onVotePoll,
   onDeleteMessage,
   onStartEdit,
   onCancelEdit,
   onSaveEdit,
+  onSuppressEmbeds,
   containerRef,
   bottomRef,
 }: MessageListProps) {
@@ -97,6 +157,7 @@ export function MessageList({
             return (
               <div
                 key={message.id}
+                data-message-id={message.id}
                 className={`${groupedWithPrevious ? "mt-0" : index === 0 ? "mt-0" : "mt-3"} mx-2`}
               >
                 <MessageItem
@@ -111,6 +172,14 @@ export function MessageList({
                   guildRoles={guildRoles}
                   guildChannels={guildChannels}
                   activeGuildChannelPermissions={activeGuildChannelPermissions}
+                  canReply={canReply}
+                  canReact={canReact}
+                  canManagePins={canManagePins}
+                  canCreateThreads={canCreateThreads}
+                  canPublish={canPublish}
+                  isSaved={savedMessageIds.has(message.id)}
+                  hasReminder={reminderMessageIds.has(message.id)}
+                  isHighlighted={highlightedMessageId === message.id}
                   isDeleting={deletingMessageIds.includes(message.id)}
                   isEditing={editingMessageId === message.id}
                   isEditPending={editingInFlightMessageId === message.id}
@@ -119,14 +188,42 @@ export function MessageList({
                     (Boolean(editingInFlightMessageId) && editingInFlightMessageId !== message.id)
                   }
                   onOpenProfile={onOpenProfile}
+                  onReply={onReply}
+                  onJumpToMessage={onJumpToMessage}
+                  onTogglePin={onTogglePin}
+                  onCreateThread={onCreateThread}
+                  onPublish={onPublish}
+                  onToggleSaved={onToggleSaved}
+                  onSetReminder={onSetReminder}
+                  onOpenThread={onOpenThread}
+                  onToggleReaction={onToggleReaction}
+                  onRemoveAllReactions={onRemoveAllReactions}
+                  onVotePoll={onVotePoll}
                   onDeleteMessage={onDeleteMessage}
                   onStartEdit={onStartEdit}
                   onCancelEdit={onCancelEdit}
                   onSaveEdit={onSaveEdit}
+                  onSuppressEmbeds={onSuppressEmbeds}
                 />
               </div>
             );
           })}
+
+          {canLoadNewer ? (
+            <div className="sticky bottom-0 flex justify-center gap-2 bg-gradient-to-t from-card py-3">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isLoadingNewer}
+                onClick={onLoadNewer}
+              >
+                {isLoadingNewer ? "Loading..." : "Load newer"}
+              </Button>
+              <Button size="sm" onClick={onJumpToPresent}>
+                Jump to present
+              </Button>
+            </div>
+          ) : null}
         </div>
         <div ref={bottomRef} className="h-0" />
       </div>
@@ -0,0 +1,145 @@
+import type { MessagePayload, MessagePoll } from "@edgewire/types";
+import { BarChart3, Check } from "lucide-react";
+import { formatDateTime } from "@/components/utils/format";
+import { isPollClosed, totalPollVotes } from "@/components/utils/polls";
+import { cn } from "@/lib/utils";
+
+type MessagePollCardProps = {
+  messageId: string;
+  poll: MessagePoll;
+  canVote: boolean;
+  localePreference?: string;
+  onVote: (messageId: string, answerId: number, voted: boolean) => void;
+};
+
+const formatVoteCount = (count: number): string => `${count} ${count === 1 ? "vote" : "votes"}`;
+
+const toPercent = (count: number, total: number): number =>
+  total === 0 ? 0 : Math.round((count / total) * 100);
+
+export function MessagePollCard({ messageId, poll, canVote, localePreference, onVote }: MessagePollCardProps) {
+  const closed = isPollClosed(poll);
+  const total = totalPollVotes(poll);
+  const hasVoted = poll.results.answer_counts.some((answer) => answer.me_voted);
+  // Tallies stay hidden until the viewer has voted, so they do not sway the answer.
+  const showResults = closed || hasVoted;
+  const countsById = new Map(poll.results.answer_counts.map((answer) => [answer.id, answer]));
+
+  return (
+    <div className="mt-2 max-w-md rounded-md border bg-card p-3">
+      <p className="text-sm font-semibold break-words">{poll.question}</p>
+      <p className="mt-0.5 text-xs text-muted-foreground">
+        {poll.allow_multiselect ? "Select one or more answers" : "Select one answer"}
+      </p>
+      <ul className="mt-2 space-y-1.5">
+        {poll.answers.map((answer) => {
+          const counts = countsById.get(answer.answer_id);
+          const count = counts?.count ?? 0;
+          const voted = counts?.me_voted ?? false;
+          const percent = toPercent(count, total);
+          return (
+            <li key={answer.answer_id}>
+              <button
+                type="button"
+                disabled={closed || !canVote}
+                aria-pressed={voted}
+                onClick={() => onVote(messageId, answer.answer_id, voted)}
+                className={cn(
+                  "relative flex w-full items-center gap-2 overflow-hidden rounded-md border px-3 py-1.5 text-left text-sm enabled:hover:bg-accent disabled:cursor-default",
+                  voted ? "border-primary" : "",
+                )}
+              >
+                {showResults ? (
+                  <span
+                    aria-hidden
+                    className="absolute inset-y-0 left-0 bg-primary/15"
+                    style={{ width: `${percent}%` }}
+                  />
+                ) : null}
+                <span className="relative min-w-0 flex-1 break-words">{answer.text}</span>
+                {voted ? <Check className="relative size-4 shrink-0 text-primary" /> : null}
+                {showResults ? (
+                  <span className="relative shrink-0 text-xs text-muted-foreground">
+                    {formatVoteCount(count)} · {percent}%
+                  </span>
+                ) : null}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <p className="mt-2 text-xs text-muted-foreground">
+        {formatVoteCount(total)} ·{" "}
+        {poll.results.is_finalized
+          ? "Final results"
+          : closed
+            ? "Poll closed"
+            : `Ends ${formatDateTime(poll.expiry, localePreference)}`}
+      </p>
+    </div>
+  );
+}
+
+type PollResultNoticeProps = {
+  message: MessagePayload;
+  onJumpToMessage: (messageId: string) => void;
+};
+
+const toWinningAnswers = (poll: MessagePoll): string[] => {
+  const top = Math.max(0, ...poll.results.answer_counts.map((answer) => answer.count));
+  if (top === 0) {
+    return [];
+  }
+
+  const winningIds = new Set(
+    poll.results.answer_counts.filter((answer) => answer.count === top).map((answer) => answer.id),
+  );
+  return poll.answers.filter((answer) => winningIds.has(answer.answer_id)).map((answer) => answer.text);
+};
+
+const toPollOutcome = (poll: MessagePoll): string => {
+  const winners = toWinningAnswers(poll);
+  if (winners.length === 0) {
+    return "No one voted.";
+  }
+
+  const total = totalPollVotes(poll);
+  const top = Math.max(...poll.results.answer_counts.map((answer) => answer.count));
+  const share = `${toPercent(top, total)}% of ${formatVoteCount(total)}`;
+  return winners.length === 1
+    ? `"${winners[0]}" won with ${share}.`
+    : `Tied between ${winners.map((text) => `"${text}"`).join(", ")} with ${share} each.`;
+};
+
+export function PollResultNotice({ message, onJumpToMessage }: PollResultNoticeProps) {
+  const referenced = message.referenced_message;
+  const pollMessage = referenced && !("deleted" in referenced) ? referenced : null;
+  const poll = pollMessage?.poll ?? null;
+
+  return (
+    <div className="flex items-center gap-2 px-2 py-1.5 text-sm text-muted-foreground">
+      <BarChart3 className="size-4 shrink-0" />
+      <span className="min-w-0 break-words">
+        <span className="font-medium text-foreground">{message.author.display_name}</span>
+        {"'s poll"}
+        {poll ? (
+          <>
+            {" "}
+            <span className="font-medium text-foreground">{poll.question}</span>
+          </>
+        ) : null}
+        {" has closed."}
+        {poll ? ` ${toPollOutcome(poll)}` : null}
+      </span>
+      {pollMessage ? (
+        <button
+          type="button"
+          className="shrink-0 text-xs hover:underline"
+          onClick={() => onJumpToMessage(pollMessage.id)}
+        >
+          View poll
+        </button>
+      ) : null}
+    </div>
+  );
+}
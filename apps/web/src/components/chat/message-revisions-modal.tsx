@@ -0,0 +1,117 @@
+import type { MessagePayload } from "@edgewire/types";
+import { useQuery } from "@tanstack/react-query";
+import { Modal } from "@/components/layout/modal";
+import { diffWords } from "@/components/utils/diff";
+import { formatDateTime } from "@/components/utils/format";
+import { api } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+import { cn } from "@/lib/utils";
+
+type MessageRevisionsModalProps = {
+  open: boolean;
+  onClose: () => void;
+  message: MessagePayload;
+  localePreference?: string;
+};
+
+type MessageVersion = {
+  key: string;
+  label: string;
+  timestamp: string;
+  content: string;
+  previousContent: string | null;
+};
+
+const RevisionDiff = ({ before, after }: { before: string | null; after: string }) => {
+  if (before === null) {
+    return <>{after || <span className="italic text-muted-foreground">(empty)</span>}</>;
+  }
+
+  return (
+    <>
+      {diffWords(before, after).map((segment, index) => (
+        <span
+          key={index}
+          className={cn(
+            segment.type === "insert" && "rounded-sm bg-emerald-500/15 text-emerald-700 dark:text-emerald-300",
+            segment.type === "delete" && "rounded-sm bg-destructive/15 text-destructive line-through",
+          )}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </>
+  );
+};
+
+export function MessageRevisionsModal({
+  open,
+  onClose,
+  message,
+  localePreference,
+}: MessageRevisionsModalProps) {
+  const revisionsQuery = useQuery({
+    queryKey: queryKeys.messageRevisions(message.channel_id, message.id),
+    queryFn: () => api.listMessageRevisions(message.channel_id, message.id),
+    enabled: open,
+  });
+  const revisions = revisionsQuery.data ?? [];
+
+  // Each revision was live from the previous edit (or the original send) until its own `edited_at`.
+  const versions: MessageVersion[] = [
+    ...revisions.map((revision, index) => ({
+      key: revision.id,
+      label: index === 0 ? "Original" : `Edit ${index}`,
+      timestamp: index === 0 ? message.timestamp : revisions[index - 1]!.edited_at,
+      content: revision.content,
+      previousContent: index === 0 ? null : revisions[index - 1]!.content,
+    })),
+    {
+      key: "current",
+      label: "Current",
+      timestamp: message.edited_timestamp ?? message.timestamp,
+      content: message.content,
+      previousContent: revisions[revisions.length - 1]?.content ?? null,
+    },
+  ];
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title="Edit History"
+      description={`Message from ${message.author.display_name}`}
+    >
+      {revisionsQuery.isError ? (
+        <p className="text-sm text-destructive">
+          {revisionsQuery.error instanceof Error
+            ? revisionsQuery.error.message
+            : "Could not load edit history."}
+        </p>
+      ) : revisionsQuery.isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading edit history...</p>
+      ) : (
+        <ol className="max-h-96 space-y-3 overflow-y-auto">
+          {revisions.length === 0 ? (
+            <li className="text-sm text-muted-foreground">No earlier versions were recorded.</li>
+          ) : null}
+          {versions.map((version) => (
+            <li key={version.key} className="rounded-md border p-2">
+              <div className="mb-1 flex items-baseline justify-between gap-2 text-xs">
+                <span className="font-semibold">{version.label}</span>
+                <span className="text-muted-foreground">
+                  {formatDateTime(version.timestamp, localePreference)}
+                </span>
+              </div>
+              <p className="whitespace-pre-wrap break-words text-sm">
+                <RevisionDiff before={version.previousContent} after={version.content} />
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </Modal>
+  );
+}
+
+export default MessageRevisionsModal;
@@ -0,0 +1,154 @@
+import type { GuildRole } from "@edgewire/types";
+import { useQuery } from "@tanstack/react-query";
+import { Pin, X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toReplySnippet } from "@/components/chat/reply-preview";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { formatTime, getDisplayInitial } from "@/components/utils/format";
+import { api } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+
+type PinsPopoverProps = {
+  channelId: string;
+  guildRoles: GuildRole[];
+  canManagePins: boolean;
+  localePreference?: string;
+  onJumpToMessage: (messageId: string) => void;
+  onUnpin: (messageId: string) => void;
+};
+
+export function PinsPopover({
+  channelId,
+  guildRoles,
+  canManagePins,
+  localePreference,
+  onJumpToMessage,
+  onUnpin,
+}: PinsPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pinsQuery = useQuery({
+    queryKey: queryKeys.pins(channelId),
+    queryFn: () => api.listPins(channelId),
+    enabled: open,
+  });
+
+  useEffect(() => {
+    setOpen(false);
+  }, [channelId]);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const onPointerDown = (event: MouseEvent): void => {
+      if (
+        containerRef.current &&
+        event.target instanceof Node &&
+        !containerRef.current.contains(event.target)
+      ) {
+        setOpen(false);
+      }
+    };
+
+    const onEscape = (event: KeyboardEvent): void => {
+      if (event.key === "Escape") {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", onPointerDown);
+    document.addEventListener("keydown", onEscape);
+    return () => {
+      document.removeEventListener("mousedown", onPointerDown);
+      document.removeEventListener("keydown", onEscape);
+    };
+  }, [open]);
+
+  const pins = pinsQuery.data ?? [];
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        aria-expanded={open}
+        onClick={() => setOpen((current) => !current)}
+      >
+        <Pin className="size-4" />
+        Pins
+      </Button>
+      {open ? (
+        <div className="absolute right-0 top-full z-30 mt-2 w-96 max-w-[calc(100vw-2rem)] rounded-md border bg-popover shadow-lg">
+          <div className="border-b px-3 py-2 text-sm font-semibold">Pinned Messages</div>
+          <div className="max-h-96 overflow-y-auto p-2">
+            {pinsQuery.isLoading ? (
+              <p className="px-1 py-4 text-center text-sm text-muted-foreground">Loading pins...</p>
+            ) : pinsQuery.isError ? (
+              <p className="px-1 py-4 text-center text-sm text-destructive">Could not load pins.</p>
+            ) : pins.length === 0 ? (
+              <p className="px-1 py-4 text-center text-sm text-muted-foreground">
+                This channel doesn't have any pinned messages yet.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {pins.map((message) => (
+                  <li
+                    key={message.id}
+                    className="group flex gap-2 rounded-md border bg-card p-2 hover:bg-accent/40"
+                  >
+                    <Avatar className="size-8 shrink-0">
+                      {message.author.avatar_url ? (
+                        <AvatarImage src={message.author.avatar_url} alt={message.author.display_name} />
+                      ) : null}
+                      <AvatarFallback>{getDisplayInitial(message.author.display_name)}</AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-baseline gap-2">
+                        <span className="truncate text-sm font-semibold">{message.author.display_name}</span>
+                        <span className="shrink-0 text-xs text-muted-foreground">
+                          {formatTime(message.timestamp, localePreference)}
+                        </span>
+                      </div>
+                      <p className="line-clamp-3 break-words text-sm">{toReplySnippet(message, guildRoles)}</p>
+                      <div className="mt-1 flex gap-1">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => {
+                            setOpen(false);
+                            onJumpToMessage(message.id);
+                          }}
+                        >
+                          Jump
+                        </Button>
+                      </div>
+                    </div>
+                    {canManagePins ? (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon-sm"
+                        aria-label="Unpin message"
+                        className="opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                        onClick={() => onUnpin(message.id)}
+                      >
+                        <X className="size-4" />
+                      </Button>
+                    ) : null}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default PinsPopover;
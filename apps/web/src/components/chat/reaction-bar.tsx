@@ -0,0 +1,116 @@
+import type { MessagePayload, MessageReaction } from "@edgewire/types";
+import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { QUICK_REACTION_EMOJIS, toReactionKey } from "@/components/utils/reactions";
+import { api } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+import { cn } from "@/lib/utils";
+
+type ReactionChipProps = {
+  message: MessagePayload;
+  reaction: MessageReaction;
+  disabled: boolean;
+  onToggle: (emoji: string, me: boolean) => void;
+};
+
+function ReactionChip({ message, reaction, disabled, onToggle }: ReactionChipProps) {
+  const [hovered, setHovered] = useState(false);
+  const emoji = toReactionKey(reaction.emoji);
+  const reactorsQuery = useQuery({
+    queryKey: queryKeys.reactionUsers(message.channel_id, message.id, emoji),
+    queryFn: () => api.listReactionUsers(message.channel_id, message.id, emoji, 10),
+    enabled: hovered,
+    staleTime: 10_000,
+  });
+
+  const reactorNames = (reactorsQuery.data ?? []).map((user) => user.display_name);
+  const remaining = reaction.count - reactorNames.length;
+  const title =
+    reactorNames.length > 0
+      ? `${reactorNames.join(", ")}${remaining > 0 ? ` and ${remaining} more` : ""} reacted with ${reaction.emoji.name}`
+      : `${reaction.count} reacted with ${reaction.emoji.name}`;
+
+  return (
+    <button
+      type="button"
+      title={title}
+      aria-pressed={reaction.me}
+      disabled={disabled}
+      onMouseEnter={() => setHovered(true)}
+      onClick={() => onToggle(emoji, reaction.me)}
+      className={cn(
+        "inline-flex h-6 items-center gap-1 rounded-md border px-1.5 text-xs transition-colors disabled:opacity-60",
+        reaction.me
+          ? "border-primary/60 bg-primary/15 text-primary"
+          : "border-transparent bg-muted hover:border-border",
+      )}
+    >
+      <span className="text-sm leading-none">{reaction.emoji.name}</span>
+      <span className="font-medium tabular-nums">{reaction.count}</span>
+    </button>
+  );
+}
+
+type ReactionBarProps = {
+  message: MessagePayload;
+  canReact: boolean;
+  onToggleReaction: (messageId: string, emoji: string, me: boolean) => void;
+};
+
+export function ReactionBar({ message, canReact, onToggleReaction }: ReactionBarProps) {
+  const reactions = message.reactions ?? [];
+  if (reactions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {reactions.map((reaction) => (
+        <ReactionChip
+          key={toReactionKey(reaction.emoji)}
+          message={message}
+          reaction={reaction}
+          disabled={!canReact}
+          onToggle={(emoji, me) => onToggleReaction(message.id, emoji, me)}
+        />
+      ))}
+    </div>
+  );
+}
+
+type QuickReactionPickerProps = {
+  canRemoveAll: boolean;
+  onPick: (emoji: string) => void;
+  onRemoveAll: () => void;
+};
+
+export function QuickReactionPicker({ canRemoveAll, onPick, onRemoveAll }: QuickReactionPickerProps) {
+  return (
+    <div className="absolute right-0 top-full z-20 mt-1 rounded-md border bg-popover p-1 shadow-md">
+      <div className="flex items-center gap-0.5">
+        {QUICK_REACTION_EMOJIS.map((emoji) => (
+          <button
+            key={emoji}
+            type="button"
+            className="grid h-8 w-8 place-items-center rounded-sm text-lg hover:bg-accent"
+            aria-label={`React with ${emoji}`}
+            onClick={() => onPick(emoji)}
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+      {canRemoveAll ? (
+        <button
+          type="button"
+          className="mt-1 w-full rounded-sm px-2 py-1 text-left text-xs text-destructive hover:bg-accent"
+          onClick={onRemoveAll}
+        >
+          Remove all reactions
+        </button>
+      ) : null}
+    </div>
+  );
+}
+
+export default ReactionBar;
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { parseFutureDateTimeLocal, toDateTimeLocalValue } from "@/components/utils/format";
+import { REMINDER_PRESETS, toPresetRemindAt } from "@/components/utils/reminders";
+
+type ReminderPickerProps = {
+  title: string;
+  className?: string;
+  onPick: (remindAt: Date) => void;
+};
+
+export function ReminderPicker({ title, className, onPick }: ReminderPickerProps) {
+  const [customValue, setCustomValue] = useState(() =>
+    toDateTimeLocalValue(new Date(Date.now() + 3 * 60 * 60 * 1_000)),
+  );
+  const customRemindAt = parseFutureDateTimeLocal(customValue);
+
+  return (
+    <div className={`w-60 space-y-1 rounded-md border bg-popover p-2 shadow-md ${className ?? ""}`}>
+      <p className="px-1 text-xs font-semibold text-muted-foreground">{title}</p>
+      {REMINDER_PRESETS.map((preset) => (
+        <button
+          key={preset.value}
+          type="button"
+          className="w-full rounded-sm px-2 py-1 text-left text-sm hover:bg-accent"
+          onClick={() => onPick(toPresetRemindAt(preset.value))}
+        >
+          {preset.label}
+        </button>
+      ))}
+      <div className="flex gap-1 border-t pt-2">
+        <Input
+          type="datetime-local"
+          aria-label="Custom reminder time"
+          value={customValue}
+          min={toDateTimeLocalValue(new Date())}
+          onChange={(event) => setCustomValue(event.target.value)}
+          className="h-8 text-xs"
+        />
+        <Button
+          type="button"
+          size="sm"
+          className="h-8"
+          disabled={!customRemindAt}
+          onClick={() => {
+            if (customRemindAt) {
+              onPick(customRemindAt);
+            }
+          }}
+        >
+          Set
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default ReminderPicker;
@@ -0,0 +1,172 @@
+import type { MessageReminderPayload } from "@edgewire/types";
+import { AlarmClock, X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import ReminderPicker from "@/components/chat/reminder-picker";
+import { toReplySnippet } from "@/components/chat/reply-preview";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { formatDateTime, getDisplayInitial } from "@/components/utils/format";
+import { useReminders } from "@/hooks/use-reminders";
+
+type RemindersPopoverProps = {
+  localePreference?: string;
+  onJumpToMessage: (reminder: MessageReminderPayload) => void;
+  onSnooze: (messageId: string, remindAt: Date) => void;
+  onDismiss: (messageId: string) => void;
+};
+
+const toReminderContext = (reminder: MessageReminderPayload): string =>
+  reminder.guild_id
+    ? `${reminder.guild_name ?? "Server"} · #${reminder.channel_name ?? "channel"}`
+    : "Direct Message";
+
+export function RemindersPopover({ localePreference, onJumpToMessage, onSnooze, onDismiss }: RemindersPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [snoozingMessageId, setSnoozingMessageId] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { query, reminders, firedCount } = useReminders();
+
+  useEffect(() => {
+    if (!open) {
+      setSnoozingMessageId(null);
+      return;
+    }
+
+    const onPointerDown = (event: MouseEvent): void => {
+      if (
+        containerRef.current &&
+        event.target instanceof Node &&
+        !containerRef.current.contains(event.target)
+      ) {
+        setOpen(false);
+      }
+    };
+
+    const onEscape = (event: KeyboardEvent): void => {
+      if (event.key === "Escape") {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", onPointerDown);
+    document.addEventListener("keydown", onEscape);
+    return () => {
+      document.removeEventListener("mousedown", onPointerDown);
+      document.removeEventListener("keydown", onEscape);
+    };
+  }, [open]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        aria-expanded={open}
+        onClick={() => setOpen((current) => !current)}
+      >
+        <AlarmClock className="size-4" />
+        Reminders
+        {firedCount > 0 ? (
+          <span className="rounded-full bg-destructive px-1.5 text-xs font-semibold text-destructive-foreground">
+            {firedCount}
+          </span>
+        ) : null}
+      </Button>
+      {open ? (
+        <div className="absolute right-0 top-full z-30 mt-2 w-96 max-w-[calc(100vw-2rem)] rounded-md border bg-popover shadow-lg">
+          <div className="border-b px-3 py-2 text-sm font-semibold">Reminders</div>
+          <div className="max-h-96 overflow-y-auto p-2">
+            {query.isLoading ? (
+              <p className="px-1 py-4 text-center text-sm text-muted-foreground">Loading reminders...</p>
+            ) : query.isError ? (
+              <p className="px-1 py-4 text-center text-sm text-destructive">Could not load reminders.</p>
+            ) : reminders.length === 0 ? (
+              <p className="px-1 py-4 text-center text-sm text-muted-foreground">
+                Set a reminder on a message to be nudged about it later.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {reminders.map((reminder) => (
+                  <li
+                    key={reminder.id}
+                    className={`group flex gap-2 rounded-md border p-2 hover:bg-accent/40 ${
+                      reminder.fired ? "border-primary/50 bg-primary/5" : "bg-card"
+                    }`}
+                  >
+                    <Avatar className="size-8 shrink-0">
+                      {reminder.message.author.avatar_url ? (
+                        <AvatarImage
+                          src={reminder.message.author.avatar_url}
+                          alt={reminder.message.author.display_name}
+                        />
+                      ) : null}
+                      <AvatarFallback>{getDisplayInitial(reminder.message.author.display_name)}</AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-xs text-muted-foreground">{toReminderContext(reminder)}</p>
+                      <p className="truncate text-sm font-semibold">{reminder.message.author.display_name}</p>
+                      <p className="line-clamp-3 break-words text-sm">{toReplySnippet(reminder.message, [])}</p>
+                      <p className={`mt-1 text-xs ${reminder.fired ? "font-semibold text-primary" : "text-muted-foreground"}`}>
+                        {reminder.fired ? "Due" : "Reminds"} {formatDateTime(reminder.remind_at, localePreference)}
+                      </p>
+                      <div className="mt-1 flex gap-1">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => {
+                            setOpen(false);
+                            onJumpToMessage(reminder);
+                          }}
+                        >
+                          Jump
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          aria-expanded={snoozingMessageId === reminder.message_id}
+                          onClick={() =>
+                            setSnoozingMessageId((current) =>
+                              current === reminder.message_id ? null : reminder.message_id,
+                            )
+                          }
+                        >
+                          {reminder.fired ? "Snooze" : "Reschedule"}
+                        </Button>
+                      </div>
+                      {snoozingMessageId === reminder.message_id ? (
+                        <ReminderPicker
+                          title={reminder.fired ? "Snooze until" : "Remind me"}
+                          className="mt-1"
+                          onPick={(remindAt) => {
+                            setSnoozingMessageId(null);
+                            onSnooze(reminder.message_id, remindAt);
+                          }}
+                        />
+                      ) : null}
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon-sm"
+                      aria-label="Dismiss reminder"
+                      className="opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                      onClick={() => onDismiss(reminder.message_id)}
+                    >
+                      <X className="size-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default RemindersPopover;
@@ -0,0 +1,108 @@
+import type { GuildRole, MessagePayload, ReferencedMessage } from "@edgewire/types";
+import { getDisplayInitial } from "@/components/utils/format";
+import { cn } from "@/lib/utils";
+
+type ReplyPreviewProps = {
+  referencedMessage: ReferencedMessage;
+  guildRoles: GuildRole[];
+  compactMode: boolean;
+  onJumpToMessage: (messageId: string) => void;
+};
+
+const USER_MENTION_TOKEN_REGEX = /<@!?([^\s>&]+)>/g;
+const ROLE_MENTION_TOKEN_REGEX = /<@&([^\s>]+)>/g;
+const CHANNEL_MENTION_TOKEN_REGEX = /<#([^\s>]+)>/g;
+
+export const toReplySnippet = (
+  message: MessagePayload,
+  guildRoles: GuildRole[],
+): string => {
+  const userById = new Map(message.mentions.map((user) => [user.id, user]));
+  const channelById = new Map(
+    message.mention_channels.map((channel) => [channel.id, channel]),
+  );
+  const roleById = new Map(guildRoles.map((role) => [role.id, role]));
+
+  const text = message.content
+    .replace(ROLE_MENTION_TOKEN_REGEX, (_token, roleId: string) => {
+      const role = roleById.get(roleId);
+      return role ? `@${role.name}` : "@deleted-role";
+    })
+    .replace(USER_MENTION_TOKEN_REGEX, (_token, userId: string) => {
+      const user = userById.get(userId);
+      return user ? `@${user.display_name}` : `@user-${userId.slice(-4)}`;
+    })
+    .replace(CHANNEL_MENTION_TOKEN_REGEX, (_token, channelId: string) => {
+      const channel = channelById.get(channelId);
+      return channel?.name ? `#${channel.name}` : "#deleted-channel";
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (text) {
+    return text;
+  }
+
+  if (message.poll) {
+    return `Poll: ${message.poll.question}`;
+  }
+
+  return message.attachments.length > 0 ? "Click to see attachment" : "";
+};
+
+export function ReplyPreview({
+  referencedMessage,
+  guildRoles,
+  compactMode,
+  onJumpToMessage,
+}: ReplyPreviewProps) {
+  const connector = (
+    <span
+      aria-hidden
+      className={cn(
+        "mt-2 h-2 shrink-0 rounded-tl-md border-l-2 border-t-2 border-muted-foreground/40",
+        compactMode ? "ml-3.5 w-5" : "ml-[18px] w-7",
+      )}
+    />
+  );
+
+  if ("deleted" in referencedMessage) {
+    return (
+      <div className="flex min-w-0 items-start gap-1 text-xs text-muted-foreground">
+        {connector}
+        <span className="italic">Original message was deleted</span>
+      </div>
+    );
+  }
+
+  const { author } = referencedMessage;
+  const snippet = toReplySnippet(referencedMessage, guildRoles);
+
+  return (
+    <div className="flex min-w-0 items-start gap-1 text-xs">
+      {connector}
+      <button
+        type="button"
+        onClick={() => onJumpToMessage(referencedMessage.id)}
+        className="flex min-w-0 items-center gap-1.5 text-muted-foreground hover:text-foreground"
+        aria-label={`Jump to message from ${author.display_name}`}
+      >
+        <span className="grid h-4 w-4 shrink-0 place-items-center overflow-hidden rounded-full bg-muted text-[8px] font-semibold uppercase">
+          {author.avatar_url ? (
+            <img
+              src={author.avatar_url}
+              alt={`${author.display_name} avatar`}
+              className="h-full w-full object-cover"
+            />
+          ) : (
+            getDisplayInitial(author.display_name)
+          )}
+        </span>
+        <span className="shrink-0 font-semibold">@{author.display_name}</span>
+        <span className="truncate">{snippet}</span>
+      </button>
+    </div>
+  );
+}
+
+export default ReplyPreview;
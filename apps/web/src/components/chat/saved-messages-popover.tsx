@@ -0,0 +1,206 @@
+import type { SavedMessagePayload } from "@edgewire/types";
+import { Bookmark, X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toReplySnippet } from "@/components/chat/reply-preview";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { formatDateTime, getDisplayInitial } from "@/components/utils/format";
+import { useSavedMessages } from "@/hooks/use-saved-messages";
+
+const SAVED_MESSAGE_NOTE_MAX_LENGTH = 500;
+
+type SavedMessagesPopoverProps = {
+  localePreference?: string;
+  onJumpToMessage: (saved: SavedMessagePayload) => void;
+  onRemove: (messageId: string) => void;
+  onUpdateNote: (messageId: string, note: string | null) => void;
+};
+
+const toSavedContext = (saved: SavedMessagePayload): string =>
+  saved.guild_id
+    ? `${saved.guild_name ?? "Server"} · #${saved.channel_name ?? "channel"}`
+    : "Direct Message";
+
+export function SavedMessagesPopover({
+  localePreference,
+  onJumpToMessage,
+  onRemove,
+  onUpdateNote,
+}: SavedMessagesPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState("");
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { query, savedMessages } = useSavedMessages();
+
+  useEffect(() => {
+    if (!open) {
+      setEditingMessageId(null);
+      return;
+    }
+
+    const onPointerDown = (event: MouseEvent): void => {
+      if (
+        containerRef.current &&
+        event.target instanceof Node &&
+        !containerRef.current.contains(event.target)
+      ) {
+        setOpen(false);
+      }
+    };
+
+    const onEscape = (event: KeyboardEvent): void => {
+      if (event.key === "Escape") {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", onPointerDown);
+    document.addEventListener("keydown", onEscape);
+    return () => {
+      document.removeEventListener("mousedown", onPointerDown);
+      document.removeEventListener("keydown", onEscape);
+    };
+  }, [open]);
+
+  const startEditingNote = (saved: SavedMessagePayload): void => {
+    setEditingMessageId(saved.message_id);
+    setNoteDraft(saved.note ?? "");
+  };
+
+  const submitNote = (messageId: string): void => {
+    onUpdateNote(messageId, noteDraft.trim() || null);
+    setEditingMessageId(null);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        aria-expanded={open}
+        onClick={() => setOpen((current) => !current)}
+      >
+        <Bookmark className="size-4" />
+        Saved
+      </Button>
+      {open ? (
+        <div className="absolute right-0 top-full z-30 mt-2 w-96 max-w-[calc(100vw-2rem)] rounded-md border bg-popover shadow-lg">
+          <div className="border-b px-3 py-2 text-sm font-semibold">Saved Messages</div>
+          <div className="max-h-96 overflow-y-auto p-2">
+            {query.isLoading ? (
+              <p className="px-1 py-4 text-center text-sm text-muted-foreground">Loading saved messages...</p>
+            ) : query.isError ? (
+              <p className="px-1 py-4 text-center text-sm text-destructive">Could not load saved messages.</p>
+            ) : savedMessages.length === 0 ? (
+              <p className="px-1 py-4 text-center text-sm text-muted-foreground">
+                Save a message to find it here later.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {savedMessages.map((saved) => (
+                  <li
+                    key={saved.id}
+                    className="group flex gap-2 rounded-md border bg-card p-2 hover:bg-accent/40"
+                  >
+                    <Avatar className="size-8 shrink-0">
+                      {saved.message.author.avatar_url ? (
+                        <AvatarImage
+                          src={saved.message.author.avatar_url}
+                          alt={saved.message.author.display_name}
+                        />
+                      ) : null}
+                      <AvatarFallback>{getDisplayInitial(saved.message.author.display_name)}</AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-xs text-muted-foreground">{toSavedContext(saved)}</p>
+                      <div className="flex items-baseline gap-2">
+                        <span className="truncate text-sm font-semibold">{saved.message.author.display_name}</span>
+                        <span className="shrink-0 text-xs text-muted-foreground">
+                          {formatDateTime(saved.message.timestamp, localePreference)}
+                        </span>
+                      </div>
+                      <p className="line-clamp-3 break-words text-sm">{toReplySnippet(saved.message, [])}</p>
+                      {editingMessageId === saved.message_id ? (
+                        <form
+                          className="mt-1 flex gap-1"
+                          onSubmit={(event) => {
+                            event.preventDefault();
+                            submitNote(saved.message_id);
+                          }}
+                        >
+                          <Input
+                            value={noteDraft}
+                            onChange={(event) => setNoteDraft(event.target.value)}
+                            maxLength={SAVED_MESSAGE_NOTE_MAX_LENGTH}
+                            placeholder="Add a note"
+                            aria-label="Note"
+                            className="h-7 text-xs"
+                            autoFocus
+                          />
+                          <Button type="submit" size="sm" className="h-7 px-2 text-xs">
+                            Save
+                          </Button>
+                        </form>
+                      ) : saved.note ? (
+                        <p className="mt-1 break-words rounded bg-muted px-2 py-1 text-xs">{saved.note}</p>
+                      ) : null}
+                      <div className="mt-1 flex gap-1">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => {
+                            setOpen(false);
+                            onJumpToMessage(saved);
+                          }}
+                        >
+                          Jump
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => startEditingNote(saved)}
+                        >
+                          {saved.note ? "Edit Note" : "Add Note"}
+                        </Button>
+                      </div>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon-sm"
+                      aria-label="Remove from saved"
+                      className="opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                      onClick={() => onRemove(saved.message_id)}
+                    >
+                      <X className="size-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {query.hasNextPage ? (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="mt-1 w-full"
+                disabled={query.isFetchingNextPage}
+                onClick={() => void query.fetchNextPage()}
+              >
+                {query.isFetchingNextPage ? "Loading..." : "Load More"}
+              </Button>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default SavedMessagesPopover;
@@ -0,0 +1,244 @@
+import type { ScheduledMessagePayload } from "@edgewire/types";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Clock, X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { formatDateTime, parseFutureDateTimeLocal, toDateTimeLocalValue } from "@/components/utils/format";
+import { api } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+
+const defaultScheduleValue = (): string => toDateTimeLocalValue(new Date(Date.now() + 60 * 60 * 1_000));
+
+type ScheduleSendButtonProps = {
+  disabled: boolean;
+  onSchedule: (scheduledAt: Date) => void;
+};
+
+export function ScheduleSendButton({ disabled, onSchedule }: ScheduleSendButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState(defaultScheduleValue);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const onPointerDown = (event: MouseEvent): void => {
+      if (
+        containerRef.current &&
+        event.target instanceof Node &&
+        !containerRef.current.contains(event.target)
+      ) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", onPointerDown);
+    return () => {
+      document.removeEventListener("mousedown", onPointerDown);
+    };
+  }, [open]);
+
+  const scheduledAt = parseFutureDateTimeLocal(value);
+
+  return (
+    <div ref={containerRef} className="absolute bottom-1 right-10">
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon-sm"
+        disabled={disabled}
+        aria-expanded={open}
+        aria-label="Schedule message"
+        title="Schedule message"
+        onClick={() => {
+          if (!open) {
+            setValue(defaultScheduleValue());
+          }
+          setOpen((current) => !current);
+        }}
+      >
+        <Clock />
+      </Button>
+      {open ? (
+        <div className="absolute bottom-full right-0 z-30 mb-2 w-72 space-y-2 rounded-md border bg-popover p-3 shadow-lg">
+          <p className="text-sm font-semibold">Send later</p>
+          <Input
+            type="datetime-local"
+            value={value}
+            min={toDateTimeLocalValue(new Date())}
+            onChange={(event) => setValue(event.target.value)}
+          />
+          <Button
+            type="button"
+            size="sm"
+            className="w-full"
+            disabled={!scheduledAt}
+            onClick={() => {
+              if (scheduledAt) {
+                setOpen(false);
+                onSchedule(scheduledAt);
+              }
+            }}
+          >
+            Schedule
+          </Button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+type ScheduledMessagesBarProps = {
+  channelId: string;
+  localePreference?: string;
+};
+
+export function ScheduledMessagesBar({ channelId, localePreference }: ScheduledMessagesBarProps) {
+  const queryClient = useQueryClient();
+  const [expanded, setExpanded] = useState(false);
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
+  const [rescheduleValue, setRescheduleValue] = useState("");
+
+  const scheduledQuery = useQuery({
+    queryKey: queryKeys.scheduledMessages(channelId),
+    queryFn: () => api.listScheduledMessages(channelId),
+  });
+
+  useEffect(() => {
+    setExpanded(false);
+    setReschedulingId(null);
+  }, [channelId]);
+
+  const setScheduled = (update: (old: ScheduledMessagePayload[]) => ScheduledMessagePayload[]) => {
+    queryClient.setQueryData<ScheduledMessagePayload[]>(queryKeys.scheduledMessages(channelId), (old) =>
+      update(old ?? []),
+    );
+  };
+
+  const rescheduleMutation = useMutation({
+    mutationFn: (payload: { id: string; scheduledAt: Date }) =>
+      api.updateScheduledMessage(channelId, payload.id, {
+        scheduled_at: payload.scheduledAt.toISOString(),
+      }),
+    onSuccess: (updated) => {
+      setScheduled((old) => old.map((item) => (item.id === updated.id ? updated : item)));
+      setReschedulingId(null);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Could not reschedule message.");
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => api.deleteScheduledMessage(channelId, id),
+    onSuccess: (_result, id) => {
+      setScheduled((old) => old.filter((item) => item.id !== id));
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Could not cancel scheduled message.");
+    },
+  });
+
+  const scheduled = scheduledQuery.data ?? [];
+  if (scheduled.length === 0) {
+    return null;
+  }
+
+  const failedCount = scheduled.filter((item) => item.status === "failed").length;
+  const rescheduleAt = parseFutureDateTimeLocal(rescheduleValue);
+
+  return (
+    <div className="mb-2 rounded-md border bg-muted/40 text-xs">
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-muted-foreground hover:text-foreground"
+        aria-expanded={expanded}
+        onClick={() => setExpanded((current) => !current)}
+      >
+        <Clock className="size-3.5" />
+        <span className="flex-1">
+          {scheduled.length} scheduled {scheduled.length === 1 ? "message" : "messages"}
+          {failedCount > 0 ? <span className="text-destructive"> · {failedCount} failed</span> : null}
+        </span>
+        <span>{expanded ? "Hide" : "Show"}</span>
+      </button>
+      {expanded ? (
+        <ul className="max-h-60 space-y-1 overflow-y-auto border-t p-2">
+          {scheduled.map((item) => (
+            <li key={item.id} className="rounded-md border bg-card p-2">
+              <div className="flex items-start gap-2">
+                <div className="min-w-0 flex-1">
+                  <p className="text-muted-foreground">
+                    {formatDateTime(item.scheduled_at, localePreference)}
+                    {item.status === "sending" ? " · Sending..." : null}
+                  </p>
+                  <p className="line-clamp-2 break-words text-sm">
+                    {item.content ||
+                      `${item.attachment_upload_ids.length} ${item.attachment_upload_ids.length === 1 ? "attachment" : "attachments"}`}
+                  </p>
+                  {item.status === "failed" ? (
+                    <p className="text-destructive">Not sent: {item.failure_reason ?? "Unknown error."}</p>
+                  ) : null}
+                </div>
+                {item.status !== "sending" ? (
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => {
+                        setReschedulingId((current) => (current === item.id ? null : item.id));
+                        setRescheduleValue(defaultScheduleValue());
+                      }}
+                    >
+                      {item.status === "failed" ? "Retry" : "Reschedule"}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon-sm"
+                      aria-label="Cancel scheduled message"
+                      title="Cancel scheduled message"
+                      disabled={cancelMutation.isPending}
+                      onClick={() => cancelMutation.mutate(item.id)}
+                    >
+                      <X className="size-4" />
+                    </Button>
+                  </div>
+                ) : null}
+              </div>
+              {reschedulingId === item.id ? (
+                <div className="mt-2 flex items-center gap-2">
+                  <Input
+                    type="datetime-local"
+                    className="h-8"
+                    value={rescheduleValue}
+                    min={toDateTimeLocalValue(new Date())}
+                    onChange={(event) => setRescheduleValue(event.target.value)}
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    disabled={!rescheduleAt || rescheduleMutation.isPending}
+                    onClick={() => {
+                      if (rescheduleAt) {
+                        rescheduleMutation.mutate({ id: item.id, scheduledAt: rescheduleAt });
+                      }
+                    }}
+                  >
+                    Save
+                  </Button>
+                </div>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import type { GuildRole, MessagePayload } from "@edgewire/types";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Search, X } from "lucide-react";
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { toReplySnippet } from "@/components/chat/reply-preview";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { formatTime, getDisplayInitial } from "@/components/utils/format";
+import { api, type MessageSearchScope } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+
+const SEARCH_PAGE_SIZE = 25;
+
+type SearchPopoverProps = {
+  scope: MessageSearchScope;
+  channelNameById: Map<string, string>;
+  guildRoles: GuildRole[];
+  localePreference?: string;
+  onJumpToResult: (channelId: string, messageId: string) => void;
+};
+
+const ContextLine = ({
+  message,
+  guildRoles,
+}: {
+  message: MessagePayload;
+  guildRoles: GuildRole[];
+}) => (
+  <p className="truncate pl-10 text-xs text-muted-foreground">
+    <span className="font-medium">{message.author.display_name}</span>{" "}
+    {toReplySnippet(message, guildRoles)}
+  </p>
+);
+
+export function SearchPopover({
+  scope,
+  channelNameById,
+  guildRoles,
+  localePreference,
+  onJumpToResult,
+}: SearchPopoverProps) {
+  const [draft, setDraft] = useState("");
+  const [submittedQuery, setSubmittedQuery] = useState("");
+  const [offset, setOffset] = useState(0);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const scopeId = scope.kind === "guild" ? scope.guildId : "@me";
+  const searchQuery = useQuery({
+    queryKey: queryKeys.messageSearch(scopeId, submittedQuery, offset),
+    queryFn: () => api.searchMessages(scope, submittedQuery, offset),
+    enabled: open && submittedQuery !== "",
+    placeholderData: keepPreviousData,
+  });
+
+  useEffect(() => {
+    setOpen(false);
+    setDraft("");
+    setSubmittedQuery("");
+    setOffset(0);
+  }, [scopeId]);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const onPointerDown = (event: MouseEvent): void => {
+      if (
+        containerRef.current &&
+        event.target instanceof Node &&
+        !containerRef.current.contains(event.target)
+      ) {
+        setOpen(false);
+      }
+    };
+
+    const onEscape = (event: KeyboardEvent): void => {
+      if (event.key === "Escape") {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", onPointerDown);
+    document.addEventListener("keydown", onEscape);
+    return () => {
+      document.removeEventListener("mousedown", onPointerDown);
+      document.removeEventListener("keydown", onEscape);
+    };
+  }, [open]);
+
+  const submit = (event: FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+    const trimmed = draft.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    setSubmittedQuery(trimmed);
+    setOffset(0);
+    setOpen(true);
+  };
+
+  const totalResults = searchQuery.data?.total_results ?? 0;
+  const hits = searchQuery.data?.hits ?? [];
+  const pageEnd = Math.min(offset + SEARCH_PAGE_SIZE, totalResults);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <form onSubmit={submit} className="relative">
+        <Search className="pointer-events-none absolute left-2 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onFocus={() => {
+            if (submittedQuery) {
+              setOpen(true);
+            }
+          }}
+          placeholder="Search"
+          aria-label="Search messages"
+          className="h-8 w-40 pl-8 pr-7 lg:w-56"
+        />
+        {draft ? (
+          <button
+            type="button"
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+            aria-label="Clear search"
+            onClick={() => {
+              setDraft("");
+              setSubmittedQuery("");
+              setOpen(false);
+            }}
+          >
+            <X className="size-3.5" />
+          </button>
+        ) : null}
+      </form>
+      {open && submittedQuery ? (
+        <div className="absolute right-0 top-full z-30 mt-2 w-[28rem] max-w-[calc(100vw-2rem)] rounded-md border bg-popover shadow-lg">
+          <div className="flex items-center justify-between border-b px-3 py-2 text-sm">
+            <span className="font-semibold">
+              {searchQuery.isSuccess
+                ? `${totalResults} ${totalResults === 1 ? "result" : "results"}`
+                : "Searching..."}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              from:, mentions:, has:, in:, before:, after:
+            </span>
+          </div>
+          <div className="max-h-[28rem] overflow-y-auto p-2">
+            {searchQuery.isError ? (
+              <p className="px-1 py-4 text-center text-sm text-destructive">
+                {searchQuery.error instanceof Error
+                  ? searchQuery.error.message
+                  : "Could not search messages."}
+              </p>
+            ) : searchQuery.isLoading ? (
+              <p className="px-1 py-4 text-center text-sm text-muted-foreground">Searching...</p>
+            ) : hits.length === 0 ? (
+              <p className="px-1 py-4 text-center text-sm text-muted-foreground">
+                No messages matched your search.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {hits.map(({ message, context_before, context_after }) => (
+                  <li key={message.id}>
+                    <button
+                      type="button"
+                      className="w-full space-y-1 rounded-md border bg-card p-2 text-left hover:bg-accent/40"
+                      onClick={() => {
+                        setOpen(false);
+                        onJumpToResult(message.channel_id, message.id);
+                      }}
+                    >
+                      <p className="truncate text-xs font-semibold text-muted-foreground">
+                        {scope.kind === "guild" ? "# " : ""}
+                        {channelNameById.get(message.channel_id) ?? "Unknown channel"}
+                      </p>
+                      {context_before.map((item) => (
+                        <ContextLine key={item.id} message={item} guildRoles={guildRoles} />
+                      ))}
+                      <div className="flex gap-2">
+                        <Avatar className="size-8 shrink-0">
+                          {message.author.avatar_url ? (
+                            <AvatarImage src={message.author.avatar_url} alt={message.author.display_name} />
+                          ) : null}
+                          <AvatarFallback>{getDisplayInitial(message.author.display_name)}</AvatarFallback>
+                        </Avatar>
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-baseline gap-2">
+                            <span className="truncate text-sm font-semibold">{message.author.display_name}</span>
+                            <span className="shrink-0 text-xs text-muted-foreground">
+                              {formatTime(message.timestamp, localePreference)}
+                            </span>
+                          </div>
+                          <p className="line-clamp-3 break-words text-sm">{toReplySnippet(message, guildRoles)}</p>
+                        </div>
+                      </div>
+                      {context_after.map((item) => (
+                        <ContextLine key={item.id} message={item} guildRoles={guildRoles} />
+                      ))}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          {totalResults > SEARCH_PAGE_SIZE ? (
+            <div className="flex items-center justify-between border-t px-3 py-2 text-xs">
+              <span className="text-muted-foreground">
+                {offset + 1}-{pageEnd} of {totalResults}
+              </span>
+              <div className="flex gap-1">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  disabled={offset === 0 || searchQuery.isFetching}
+                  onClick={() => setOffset((current) => Math.max(0, current - SEARCH_PAGE_SIZE))}
+                >
+                  Previous
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  disabled={pageEnd >= totalResults || searchQuery.isFetching}
+                  onClick={() => setOffset((current) => current + SEARCH_PAGE_SIZE)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default SearchPopover;
@@ -0,0 +1,143 @@
+import {
+  MessageType,
+  type GuildChannelPayload,
+  type MessagePayload,
+  type UserSummary,
+} from "@edgewire/types";
+import { Hash, Megaphone, MessagesSquare, Phone, Pin, UserMinus, UserPlus, type LucideIcon } from "lucide-react";
+import type { ReactNode } from "react";
+import { PollResultNotice } from "@/components/chat/message-poll";
+import { formatTime } from "@/components/utils/format";
+
+type SystemMessageNoticeProps = {
+  message: MessagePayload;
+  localePreference?: string;
+  guildChannels: GuildChannelPayload[];
+  onOpenProfile: (user: UserSummary) => void;
+  onJumpToMessage: (messageId: string) => void;
+  onOpenThread: (thread: GuildChannelPayload) => void;
+};
+
+type NoticeAction = {
+  label: string;
+  onClick: () => void;
+};
+
+const SYSTEM_MESSAGE_ICONS: Partial<Record<MessagePayload["type"], LucideIcon>> = {
+  [MessageType.CALL]: Phone,
+  [MessageType.CHANNEL_NAME_CHANGE]: Hash,
+  [MessageType.CHANNEL_TOPIC_CHANGE]: Hash,
+  [MessageType.CHANNEL_PINNED_MESSAGE]: Pin,
+  [MessageType.GUILD_MEMBER_JOIN]: UserPlus,
+  [MessageType.GUILD_MEMBER_LEAVE]: UserMinus,
+  [MessageType.CHANNEL_FOLLOW_ADD]: Megaphone,
+  [MessageType.THREAD_CREATED]: MessagesSquare,
+};
+
+const Highlight = ({ children }: { children: ReactNode }) => (
+  <span className="font-medium text-foreground">{children}</span>
+);
+
+export function SystemMessageNotice({
+  message,
+  localePreference,
+  guildChannels,
+  onOpenProfile,
+  onJumpToMessage,
+  onOpenThread,
+}: SystemMessageNoticeProps) {
+  if (message.type === MessageType.POLL_RESULT) {
+    return <PollResultNotice message={message} onJumpToMessage={onJumpToMessage} />;
+  }
+
+  const Icon = SYSTEM_MESSAGE_ICONS[message.type] ?? Hash;
+  let text: ReactNode = null;
+  let action: NoticeAction | null = null;
+
+  switch (message.type) {
+    case MessageType.GUILD_MEMBER_JOIN:
+      text = " joined the server.";
+      break;
+    case MessageType.GUILD_MEMBER_LEAVE:
+      text = " left the server.";
+      break;
+    case MessageType.CALL:
+      text = " started a call.";
+      break;
+    case MessageType.CHANNEL_NAME_CHANGE:
+      text = (
+        <>
+          {" changed the channel name to "}
+          <Highlight>{message.content}</Highlight>.
+        </>
+      );
+      break;
+    case MessageType.CHANNEL_TOPIC_CHANGE:
+      text = message.content ? (
+        <>
+          {" changed the channel topic to "}
+          <Highlight>{message.content}</Highlight>.
+        </>
+      ) : (
+        " removed the channel topic."
+      );
+      break;
+    case MessageType.CHANNEL_FOLLOW_ADD:
+      text = (
+        <>
+          {" has added "}
+          <Highlight>{message.content}</Highlight>
+          {" to this channel. Its most important updates will show up here."}
+        </>
+      );
+      break;
+    case MessageType.CHANNEL_PINNED_MESSAGE: {
+      text = " pinned a message to this channel.";
+      const pinned = message.referenced_message;
+      if (pinned && !("deleted" in pinned)) {
+        action = { label: "View message", onClick: () => onJumpToMessage(pinned.id) };
+      }
+      break;
+    }
+    case MessageType.THREAD_CREATED: {
+      text = (
+        <>
+          {" started a thread: "}
+          <Highlight>{message.content}</Highlight>
+        </>
+      );
+      const threadId = message.mention_channels[0]?.id;
+      const thread = guildChannels.find((channel) => channel.id === threadId);
+      if (thread) {
+        action = { label: "Open thread", onClick: () => onOpenThread(thread) };
+      }
+      break;
+    }
+    default:
+      return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2 px-2 py-1.5 text-sm text-muted-foreground">
+      <Icon className="size-4 shrink-0" />
+      <span className="min-w-0 break-words">
+        <button
+          type="button"
+          className="font-medium text-foreground hover:underline"
+          onClick={() => onOpenProfile(message.author)}
+        >
+          {message.author.display_name}
+        </button>
+        {text}
+      </span>
+      {action ? (
+        <button type="button" className="shrink-0 text-xs hover:underline" onClick={action.onClick}>
+          {action.label}
+        </button>
+      ) : null}
+      <span className="ml-auto shrink-0 text-[10px]">{formatTime(message.timestamp, localePreference)}</span>
+    </div>
+  );
+}
+
+export default SystemMessageNotice;
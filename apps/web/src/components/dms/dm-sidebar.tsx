@@ -4,6 +4,7 @@ import type { PresenceMap } from "@/lib/presence";
 import { presenceDotClassName } from "@/lib/presence";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { PencilLine } from "lucide-react";
 import { Link } from "react-router-dom";
 
 type DmSidebarProps = {
@@ -14,6 +15,7 @@ type DmSidebarProps = {
   presences: PresenceMap;
   channelBadges: Map<string, { unread_count: number; mention_count: number }>;
   activeChannelId: string | null;
+  draftChannelIds: Set<string>;
   onCreateDm: (recipientId: string) => void;
 };
 
@@ -25,6 +27,7 @@ export function DmSidebar({
   presences,
   channelBadges,
   activeChannelId,
+  draftChannelIds,
   onCreateDm,
 }: DmSidebarProps) {
   return (
@@ -84,6 +87,11 @@ export function DmSidebar({
                     {recipient?.display_name ?? "Unknown"}
                   </span>
                 </span>
+                {draftChannelIds.has(channel.id) && !active ? (
+                  <span className="ml-auto" title="Unsent draft" aria-label="Unsent draft">
+                    <PencilLine className="h-3.5 w-3.5 text-muted-foreground" />
+                  </span>
+                ) : null}
                 {mentionCount > 0 ? (
                   <span className="min-w-5 rounded-full bg-destructive px-1.5 py-0.5 text-center text-[10px] font-semibold text-destructive-foreground">
                     {mentionCount > 99 ? "99+" : mentionCount}
@@ -18,15 +18,29 @@ import {
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import { ChevronDown, ChevronRight, GripVertical, Loader2, Plus, Volume2 } from "lucide-react";
-import { useEffect, useMemo, useState } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  GripVertical,
+  Loader2,
+  Megaphone,
+  MessageSquareText,
+  MessagesSquare,
+  PencilLine,
+  Plus,
+  Volume2,
+} from "lucide-react";
+import { Fragment, useEffect, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { isAnnouncementChannel, isForumChannel, isTextChannel } from "@/components/utils/channels";
+import { groupThreadsByParent } from "@/components/utils/threads";
 
 type ChannelTreeProps = {
   guildId: string;
   channels: GuildChannelPayload[];
   channelBadges: Map<string, { unread_count: number; mention_count: number }>;
   activeChannelId: string | null;
+  draftChannelIds: Set<string>;
   canManageChannels: boolean;
   onOpenChannel: (channelId: string) => void;
   onJoinVoiceChannel?: (channelId: string, channelName: string) => void;
@@ -71,7 +85,8 @@ const buildGuildTree = (guildChannels: GuildChannelPayload[]): TreeGroup[] => {
   const textChannels = guildChannels
     .filter(
       (channel) =>
-        channel.type === ChannelType.GUILD_TEXT ||
+        isTextChannel(channel) ||
+        isForumChannel(channel) ||
         channel.type === ChannelType.GUILD_VOICE,
     )
     .sort(byPositionThenId);
@@ -209,6 +224,7 @@ const SortableChannelRow = ({
   channel,
   badge,
   active,
+  hasDraft,
   onOpen,
   onJoinVoiceChannel,
   activeVoiceChannelId,
@@ -220,6 +236,7 @@ const SortableChannelRow = ({
   channel: GuildChannelPayload;
   badge?: { unread_count: number; mention_count: number };
   active: boolean;
+  hasDraft: boolean;
   onOpen: () => void;
   onJoinVoiceChannel?: (channelId: string, channelName: string) => void;
   activeVoiceChannelId?: string | null;
@@ -272,12 +289,17 @@ const SortableChannelRow = ({
               ) : (
                 <Volume2 className="h-3.5 w-3.5" />
               )
+            ) : isAnnouncementChannel(channel) ? (
+              <Megaphone className="h-3.5 w-3.5" />
+            ) : isForumChannel(channel) ? (
+              <MessageSquareText className="h-3.5 w-3.5" />
             ) : (
               "#"
             )}
           </span>
           <span className="truncate">{channel.name}</span>
         </button>
+        {hasDraft && !active ? <DraftIndicator /> : null}
         {mentionCount > 0 ? (
           <span className="min-w-5 rounded-full bg-destructive px-1.5 py-0.5 text-center text-[10px] font-semibold text-destructive-foreground">
             {mentionCount > 99 ? "99+" : mentionCount}
@@ -305,6 +327,61 @@ const SortableChannelRow = ({
   );
 };
 
+const DraftIndicator = () => (
+  <span title="Unsent draft" aria-label="Unsent draft">
+    <PencilLine className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+  </span>
+);
+
+const ThreadRows = ({
+  threads,
+  channelBadges,
+  activeChannelId,
+  draftChannelIds,
+  onOpenChannel,
+}: {
+  threads?: GuildChannelPayload[];
+  channelBadges: Map<string, { unread_count: number; mention_count: number }>;
+  activeChannelId: string | null;
+  draftChannelIds: Set<string>;
+  onOpenChannel: (channelId: string) => void;
+}) => {
+  if (!threads || threads.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="ml-4 space-y-0.5 border-l pl-2">
+      {threads.map((thread) => {
+        const badge = channelBadges.get(thread.id);
+        const mentionCount = badge?.mention_count ?? 0;
+        const unreadCount = badge?.unread_count ?? 0;
+        return (
+          <button
+            key={thread.id}
+            type="button"
+            onClick={() => onOpenChannel(thread.id)}
+            className={`w-full flex items-center gap-2 rounded-md px-2 py-1 text-left text-sm ${
+              activeChannelId === thread.id ? "bg-accent" : "hover:bg-accent"
+            } ${thread.thread_metadata?.archived ? "text-muted-foreground" : ""}`}
+          >
+            <MessagesSquare className="h-3.5 w-3.5 shrink-0" />
+            <span className="min-w-0 flex-1 truncate">{thread.name}</span>
+            {draftChannelIds.has(thread.id) && activeChannelId !== thread.id ? <DraftIndicator /> : null}
+            {mentionCount > 0 ? (
+              <span className="min-w-5 rounded-full bg-destructive px-1.5 py-0.5 text-center text-[10px] font-semibold text-destructive-foreground">
+                {mentionCount > 99 ? "99+" : mentionCount}
+              </span>
+            ) : unreadCount > 0 ? (
+              <span className="h-2 w-2 rounded-full bg-primary" />
+            ) : null}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
 const applyCategoryReorder = (
   channels: GuildChannelPayload[],
   activeCategoryId: string,
@@ -348,7 +425,7 @@ const applyChannelMove = (
   const activeChannel = channels.find(
     (channel) =>
       channel.id === activeChannelId &&
-      (channel.type === ChannelType.GUILD_TEXT ||
+      (isTextChannel(channel) ||
         channel.type === ChannelType.GUILD_VOICE),
   );
   if (!activeChannel) {
@@ -362,7 +439,7 @@ const applyChannelMove = (
     const overChannel = channels.find(
       (channel) =>
         channel.id === fromChannelId(overId) &&
-        (channel.type === ChannelType.GUILD_TEXT ||
+        (isTextChannel(channel) ||
           channel.type === ChannelType.GUILD_VOICE),
     );
     if (!overChannel) {
@@ -372,7 +449,7 @@ const applyChannelMove = (
     const siblings = channels
       .filter(
         (channel) =>
-          (channel.type === ChannelType.GUILD_TEXT ||
+          (isTextChannel(channel) ||
             channel.type === ChannelType.GUILD_VOICE) &&
           channel.parent_id === targetParentId &&
           channel.id !== activeChannel.id,
@@ -390,7 +467,7 @@ const applyChannelMove = (
   const siblings = channels
     .filter(
       (channel) =>
-        (channel.type === ChannelType.GUILD_TEXT ||
+        (isTextChannel(channel) ||
           channel.type === ChannelType.GUILD_VOICE) &&
         channel.parent_id === targetParentId &&
         channel.id !== activeChannel.id,
@@ -421,7 +498,7 @@ const applyChannelMove = (
   const currentParentSiblings = channels
     .filter(
       (channel) =>
-        (channel.type === ChannelType.GUILD_TEXT ||
+        (isTextChannel(channel) ||
           channel.type === ChannelType.GUILD_VOICE) &&
         channel.parent_id === activeChannel.parent_id &&
         channel.id !== activeChannel.id &&
@@ -436,7 +513,7 @@ const applyChannelMove = (
 
   return channels.map((channel) => {
     if (
-      channel.type !== ChannelType.GUILD_TEXT &&
+      !isTextChannel(channel) &&
       channel.type !== ChannelType.GUILD_VOICE
     ) {
       return channel;
@@ -458,7 +535,7 @@ const toBulkPayload = (channels: GuildChannelPayload[]) =>
   channels
     .filter(
       (channel) =>
-        channel.type === ChannelType.GUILD_TEXT ||
+        isTextChannel(channel) ||
         channel.type === ChannelType.GUILD_VOICE ||
         channel.type === ChannelType.GUILD_CATEGORY,
     )
@@ -473,6 +550,7 @@ export const GuildChannelTree = ({
   channels,
   channelBadges,
   activeChannelId,
+  draftChannelIds,
   canManageChannels,
   onOpenChannel,
   onJoinVoiceChannel,
@@ -522,6 +600,16 @@ export const GuildChannelTree = ({
   );
 
   const tree = useMemo(() => buildGuildTree(localChannels), [localChannels]);
+  const threadsByParent = useMemo(() => {
+    const grouped = groupThreadsByParent(channels, activeChannelId);
+    // Forum posts are browsed from the forum's post list; only the open post is listed under the forum.
+    for (const channel of channels) {
+      if (isForumChannel(channel)) {
+        grouped.set(channel.id, (grouped.get(channel.id) ?? []).filter((post) => post.id === activeChannelId));
+      }
+    }
+    return grouped;
+  }, [channels, activeChannelId]);
   const uncategorizedDrop = useDroppable({ id: "uncategorized" });
 
   const categoryIds = tree
@@ -622,18 +710,27 @@ export const GuildChannelTree = ({
                 {tree
                   .find((group) => group.category === null)
                   ?.channels.map((channel) => (
-                    <SortableChannelRow
-                      key={channel.id}
-                      channel={channel}
-                      badge={channelBadges.get(channel.id)}
-                      active={activeChannelId === channel.id}
-                      onOpen={() => onOpenChannel(channel.id)}
-                      onJoinVoiceChannel={onJoinVoiceChannel}
-                      activeVoiceChannelId={activeVoiceChannelId}
-                      joiningVoiceChannelId={joiningVoiceChannelId}
-                      voiceParticipants={voiceParticipantsByChannelId?.[channel.id]}
-                      canManageChannels={canManageChannels}
-                    />
+                    <Fragment key={channel.id}>
+                      <SortableChannelRow
+                        channel={channel}
+                        badge={channelBadges.get(channel.id)}
+                        active={activeChannelId === channel.id}
+                        hasDraft={draftChannelIds.has(channel.id)}
+                        onOpen={() => onOpenChannel(channel.id)}
+                        onJoinVoiceChannel={onJoinVoiceChannel}
+                        activeVoiceChannelId={activeVoiceChannelId}
+                        joiningVoiceChannelId={joiningVoiceChannelId}
+                        voiceParticipants={voiceParticipantsByChannelId?.[channel.id]}
+                        canManageChannels={canManageChannels}
+                      />
+                      <ThreadRows
+                        threads={threadsByParent.get(channel.id)}
+                        channelBadges={channelBadges}
+                        activeChannelId={activeChannelId}
+                        draftChannelIds={draftChannelIds}
+                        onOpenChannel={onOpenChannel}
+                      />
+                    </Fragment>
                   ))}
               </div>
             </SortableContext>
@@ -671,19 +768,28 @@ export const GuildChannelTree = ({
                           id={`category:${category.id}`}
                         >
                           {group.channels.map((channel) => (
-                            <SortableChannelRow
-                              key={channel.id}
-                              channel={channel}
-                              badge={channelBadges.get(channel.id)}
-                              active={activeChannelId === channel.id}
-                              onOpen={() => onOpenChannel(channel.id)}
-                              onJoinVoiceChannel={onJoinVoiceChannel}
-                              activeVoiceChannelId={activeVoiceChannelId}
-                              joiningVoiceChannelId={joiningVoiceChannelId}
-                              voiceParticipants={voiceParticipantsByChannelId?.[channel.id]}
-                              indent
-                              canManageChannels={canManageChannels}
-                            />
+                            <Fragment key={channel.id}>
+                              <SortableChannelRow
+                                channel={channel}
+                                badge={channelBadges.get(channel.id)}
+                                active={activeChannelId === channel.id}
+                                hasDraft={draftChannelIds.has(channel.id)}
+                                onOpen={() => onOpenChannel(channel.id)}
+                                onJoinVoiceChannel={onJoinVoiceChannel}
+                                activeVoiceChannelId={activeVoiceChannelId}
+                                joiningVoiceChannelId={joiningVoiceChannelId}
+                                voiceParticipants={voiceParticipantsByChannelId?.[channel.id]}
+                                indent
+                                canManageChannels={canManageChannels}
+                              />
+                              <ThreadRows
+                                threads={threadsByParent.get(channel.id)}
+                                channelBadges={channelBadges}
+                                activeChannelId={activeChannelId}
+                                draftChannelIds={draftChannelIds}
+                                onOpenChannel={onOpenChannel}
+                              />
+                            </Fragment>
                           ))}
                         </div>
                       </SortableContext>
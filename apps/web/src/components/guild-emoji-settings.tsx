@@ -0,0 +1,204 @@
+import type { GuildEmoji } from "@edgewire/types";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { ChangeEvent } from "react";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { api } from "@/lib/api";
+import { customEmojiUrl } from "@/lib/emojis";
+import { queryKeys } from "@/lib/query-keys";
+import { completeUpload, initEmojiUpload, putToS3 } from "@/lib/uploads";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+
+const GUILD_EMOJI_LIMIT = 50;
+const EMOJI_NAME_REGEX = /^[A-Za-z0-9_]{2,32}$/;
+const EMOJI_ACCEPT = "image/png,image/jpeg,image/gif,image/webp";
+
+// Suggests a valid name from the file name, e.g. "Party Blob!.gif" -> "Party_Blob".
+const suggestEmojiName = (filename: string): string =>
+  filename
+    .replace(/\.[^.]+$/, "")
+    .replace(/[^A-Za-z0-9_]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 32);
+
+type GuildEmojiSettingsProps = {
+  guildId: string;
+  enabled: boolean;
+};
+
+export const GuildEmojiSettings = ({ guildId, enabled }: GuildEmojiSettingsProps) => {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState("");
+  const [renameDrafts, setRenameDrafts] = useState<Record<string, string>>({});
+
+  const emojisQuery = useQuery({
+    queryKey: queryKeys.guildEmojis(guildId),
+    queryFn: () => api.listGuildEmojis(guildId),
+    enabled,
+  });
+  const emojis = emojisQuery.data ?? [];
+
+  const setEmojis = (update: (emojis: GuildEmoji[]) => GuildEmoji[]) => {
+    queryClient.setQueryData<GuildEmoji[]>(queryKeys.guildEmojis(guildId), old => update(old ?? []));
+  };
+
+  const uploadEmojiMutation = useMutation({
+    mutationFn: async (payload: { file: File; name: string }) => {
+      const init = await initEmojiUpload(guildId, payload.file);
+      await putToS3(init.put_url, payload.file, init.headers);
+      await completeUpload(init.upload_id);
+      return api.createGuildEmoji(guildId, { name: payload.name, upload_id: init.upload_id });
+    },
+    onSuccess: createdEmoji => {
+      setEmojis(old => [...old.filter(emoji => emoji.id !== createdEmoji.id), createdEmoji]);
+      setFile(null);
+      setName("");
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+      toast.success("Emoji uploaded.");
+    },
+    onError: error => {
+      toast.error(error instanceof Error ? error.message : "Could not upload emoji.");
+    },
+  });
+
+  const renameEmojiMutation = useMutation({
+    mutationFn: (payload: { emojiId: string; name: string }) =>
+      api.updateGuildEmoji(guildId, payload.emojiId, { name: payload.name }),
+    onSuccess: updatedEmoji => {
+      setEmojis(old => old.map(emoji => (emoji.id === updatedEmoji.id ? updatedEmoji : emoji)));
+      setRenameDrafts(({ [updatedEmoji.id]: _removed, ...rest }) => rest);
+    },
+    onError: error => {
+      toast.error(error instanceof Error ? error.message : "Could not rename emoji.");
+    },
+  });
+
+  const deleteEmojiMutation = useMutation({
+    mutationFn: (emojiId: string) => api.deleteGuildEmoji(guildId, emojiId),
+    onSuccess: (_result, emojiId) => {
+      setEmojis(old => old.filter(emoji => emoji.id !== emojiId));
+    },
+    onError: error => {
+      toast.error(error instanceof Error ? error.message : "Could not delete emoji.");
+    },
+  });
+
+  const onFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0] ?? null;
+    setFile(selected);
+    if (selected && !name) {
+      setName(suggestEmojiName(selected.name));
+    }
+  };
+
+  const trimmedName = name.trim();
+  const atLimit = emojis.length >= GUILD_EMOJI_LIMIT;
+  const canUpload = Boolean(file) && EMOJI_NAME_REGEX.test(trimmedName) && !atLimit;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-semibold">Upload Emoji</p>
+          <p className="text-xs text-muted-foreground">
+            {emojis.length} / {GUILD_EMOJI_LIMIT} slots used
+          </p>
+        </div>
+        <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+          <div>
+            <Label htmlFor="settings-emoji-file">Image</Label>
+            <Input
+              id="settings-emoji-file"
+              ref={fileInputRef}
+              type="file"
+              accept={EMOJI_ACCEPT}
+              onChange={onFileChange}
+            />
+          </div>
+          <div>
+            <Label htmlFor="settings-emoji-name">Name</Label>
+            <Input
+              id="settings-emoji-name"
+              value={name}
+              maxLength={32}
+              placeholder="party_blob"
+              onChange={event => setName(event.target.value)}
+            />
+          </div>
+          <Button
+            disabled={!canUpload || uploadEmojiMutation.isPending}
+            onClick={() => {
+              if (file) {
+                uploadEmojiMutation.mutate({ file, name: trimmedName });
+              }
+            }}
+          >
+            {uploadEmojiMutation.isPending ? "Uploading..." : "Upload"}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          PNG, JPEG, GIF or WebP. Names use 2-32 letters, numbers or underscores. Use them in messages as :name:.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-semibold">Emojis</p>
+        {emojisQuery.isLoading ? <p className="text-sm">Loading emojis...</p> : null}
+        {!emojisQuery.isLoading && emojis.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No custom emojis yet.</p>
+        ) : null}
+        {emojis.map(emoji => {
+          const draft = renameDrafts[emoji.id] ?? emoji.name;
+          const trimmedDraft = draft.trim();
+          const renameChanged = trimmedDraft !== emoji.name;
+
+          return (
+            <div key={emoji.id} className="flex items-center gap-3 rounded border p-2">
+              <img src={customEmojiUrl(emoji.id)} alt={`:${emoji.name}:`} className="size-8 shrink-0 object-contain" />
+              <Input
+                className="max-w-56"
+                value={draft}
+                maxLength={32}
+                aria-label={`Rename :${emoji.name}:`}
+                onChange={event =>
+                  setRenameDrafts(previous => ({
+                    ...previous,
+                    [emoji.id]: event.target.value,
+                  }))
+                }
+              />
+              <p className="min-w-0 flex-1 truncate text-xs text-muted-foreground">
+                {emoji.user ? `Uploaded by ${emoji.user.display_name}` : null}
+              </p>
+              {renameChanged ? (
+                <Button
+                  size="sm"
+                  disabled={!EMOJI_NAME_REGEX.test(trimmedDraft) || renameEmojiMutation.isPending}
+                  onClick={() => renameEmojiMutation.mutate({ emojiId: emoji.id, name: trimmedDraft })}
+                >
+                  Save
+                </Button>
+              ) : null}
+              <Button
+                size="sm"
+                variant="destructive"
+                disabled={deleteEmojiMutation.isPending}
+                onClick={() => deleteEmojiMutation.mutate(emoji.id)}
+              >
+                Delete
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default GuildEmojiSettings;
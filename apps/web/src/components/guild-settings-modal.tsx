@@ -1,4 +1,4 @@
-import { ChannelType, type GuildChannelPayload } from "@edgewire/types";
+import { SystemChannelFlags, type GuildChannelPayload } from "@edgewire/types";
 import {
   DndContext,
   KeyboardSensor,
@@ -29,19 +29,22 @@ import {
   toPermissionString,
 } from "@/lib/permissions";
 import { queryKeys } from "@/lib/query-keys";
+import { GuildEmojiSettings } from "./guild-emoji-settings";
 import { Button } from "./ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { isTextChannel } from "./utils/channels";
 
-type SettingsTab = "overview" | "roles" | "members";
+type SettingsTab = "overview" | "roles" | "emojis" | "members";
 
 type GuildSettingsModalProps = {
   open: boolean;
   guildId: string | null;
   canManageGuild: boolean;
   canManageRoles: boolean;
+  canManageEmojis: boolean;
   channels: GuildChannelPayload[];
   onClose: () => void;
 };
@@ -54,6 +57,7 @@ type OverviewDraft = {
   explicit_content_filter: string;
   preferred_locale: string;
   system_channel_id: string;
+  system_channel_flags: number;
   rules_channel_id: string;
   public_updates_channel_id: string;
 };
@@ -74,10 +78,22 @@ const defaultOverviewDraft: OverviewDraft = {
   explicit_content_filter: "0",
   preferred_locale: "en-US",
   system_channel_id: "none",
+  system_channel_flags: 0,
   rules_channel_id: "none",
   public_updates_channel_id: "none",
 };
 
+const systemMessageToggles = [
+  { flag: SystemChannelFlags.SUPPRESS_JOIN_NOTIFICATIONS, label: "Post a message when someone joins" },
+  { flag: SystemChannelFlags.SUPPRESS_LEAVE_NOTIFICATIONS, label: "Post a message when someone leaves" },
+  { flag: SystemChannelFlags.SUPPRESS_PIN_NOTIFICATIONS, label: "Post a message when a message is pinned" },
+  {
+    flag: SystemChannelFlags.SUPPRESS_CHANNEL_UPDATE_NOTIFICATIONS,
+    label: "Post a message when a channel name or topic changes",
+  },
+  { flag: SystemChannelFlags.SUPPRESS_THREAD_NOTIFICATIONS, label: "Post a message when a thread is started" },
+];
+
 const roleSortDesc = (a: Role, b: Role): number => {
   if (a.position !== b.position) {
     return b.position - a.position;
@@ -190,6 +206,7 @@ export const GuildSettingsModal = ({
   guildId,
   canManageGuild,
   canManageRoles,
+  canManageEmojis,
   channels,
   onClose,
 }: GuildSettingsModalProps) => {
@@ -364,7 +381,7 @@ export const GuildSettingsModal = ({
   const members = guildMembersQuery.data?.members ?? [];
   const hasMoreMembers = Boolean(guildMembersQuery.data?.next_after);
   const textChannels = useMemo(
-    () => dedupeById(channels).filter(channel => channel.type === ChannelType.GUILD_TEXT),
+    () => dedupeById(channels).filter(channel => isTextChannel(channel)),
     [channels],
   );
 
@@ -404,6 +421,7 @@ export const GuildSettingsModal = ({
       explicit_content_filter: String(guild.explicit_content_filter ?? 0),
       preferred_locale: guild.preferred_locale ?? "en-US",
       system_channel_id: guild.system_channel_id ?? "none",
+      system_channel_flags: guild.system_channel_flags ?? 0,
       rules_channel_id: guild.rules_channel_id ?? "none",
       public_updates_channel_id: guild.public_updates_channel_id ?? "none",
     });
@@ -455,6 +473,7 @@ export const GuildSettingsModal = ({
       explicit_content_filter: Number(overviewDraft.explicit_content_filter) || 0,
       preferred_locale: overviewDraft.preferred_locale.trim() || "en-US",
       system_channel_id: overviewDraft.system_channel_id === "none" ? null : overviewDraft.system_channel_id,
+      system_channel_flags: overviewDraft.system_channel_flags,
       rules_channel_id: overviewDraft.rules_channel_id === "none" ? null : overviewDraft.rules_channel_id,
       public_updates_channel_id:
         overviewDraft.public_updates_channel_id === "none" ? null : overviewDraft.public_updates_channel_id,
@@ -552,6 +571,13 @@ export const GuildSettingsModal = ({
             >
               Roles
             </Button>
+            <Button
+              className="w-full justify-start"
+              variant={tab === "emojis" ? "secondary" : "ghost"}
+              onClick={() => setTab("emojis")}
+            >
+              Emoji
+            </Button>
             <Button
               className="w-full justify-start"
               variant={tab === "members" ? "secondary" : "ghost"}
@@ -733,6 +759,32 @@ export const GuildSettingsModal = ({
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <Label>System Messages</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Join and leave messages go to the system channel; the others appear in the channel they concern.
+                  </p>
+                  <div className="grid gap-2 md:grid-cols-2">
+                    {systemMessageToggles.map(toggle => (
+                      <label key={toggle.flag} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={(overviewDraft.system_channel_flags & toggle.flag) === 0}
+                          onChange={event =>
+                            setOverviewDraft(previous => ({
+                              ...previous,
+                              system_channel_flags: event.target.checked
+                                ? previous.system_channel_flags & ~toggle.flag
+                                : previous.system_channel_flags | toggle.flag,
+                            }))
+                          }
+                        />
+                        {toggle.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
                 <div className="flex justify-end">
                   <Button onClick={() => submitOverview()} disabled={updateGuildMutation.isPending}>
                     {updateGuildMutation.isPending ? "Saving..." : "Save Changes"}
@@ -897,6 +949,14 @@ export const GuildSettingsModal = ({
               )
             ) : null}
 
+            {canManageGuild && tab === "emojis" && guildId ? (
+              !canManageEmojis ? (
+                <p className="text-sm">Missing `MANAGE_EMOJIS` permission.</p>
+              ) : (
+                <GuildEmojiSettings guildId={guildId} enabled={open} />
+              )
+            ) : null}
+
             {canManageGuild && tab === "members" ? (
               <div className="space-y-4">
                 <p className="text-sm">Members</p>
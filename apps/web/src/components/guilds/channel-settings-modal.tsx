@@ -0,0 +1,279 @@
+import {
+  ForumLayout,
+  type ForumLayoutValue,
+  type ForumSortOrderValue,
+  type GuildChannelPayload,
+} from "@edgewire/types";
+import { Plus, Trash2 } from "lucide-react";
+import { useEffect, useState, type FormEvent } from "react";
+import { Modal } from "@/components/layout/modal";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { isForumChannel, isTextChannel } from "@/components/utils/channels";
+import { FORUM_LAYOUT_OPTIONS, FORUM_SORT_OPTIONS, MAX_FORUM_TAGS } from "@/components/utils/forum";
+import { MESSAGE_TTL_OPTIONS } from "@/components/utils/message-ttl";
+import { SLOWMODE_OPTIONS } from "@/components/utils/slowmode";
+import type { ForumTagInput } from "@/lib/api";
+
+const CHANNEL_TOPIC_MAX_LENGTH = 1_024;
+const FORUM_TAG_NAME_MAX_LENGTH = 20;
+const DEFAULT_SORT_ORDER_UNSET = "unset";
+
+export type ChannelSettingsInput = {
+  name: string;
+  topic: string | null;
+  rate_limit_per_user?: number;
+  message_ttl?: number;
+  available_tags?: ForumTagInput[];
+  default_sort_order?: ForumSortOrderValue | null;
+  default_forum_layout?: ForumLayoutValue;
+};
+
+type ChannelSettingsModalProps = {
+  open: boolean;
+  channel: GuildChannelPayload | null;
+  onClose: () => void;
+  onSubmit: (settings: ChannelSettingsInput) => void | Promise<void>;
+  isSubmitting: boolean;
+};
+
+export function ChannelSettingsModal({ open, channel, onClose, onSubmit, isSubmitting }: ChannelSettingsModalProps) {
+  const [name, setName] = useState("");
+  const [topic, setTopic] = useState("");
+  const [slowmode, setSlowmode] = useState("0");
+  const [messageTtl, setMessageTtl] = useState("0");
+  const [tags, setTags] = useState<ForumTagInput[]>([]);
+  const [defaultSortOrder, setDefaultSortOrder] = useState(DEFAULT_SORT_ORDER_UNSET);
+  const [defaultLayout, setDefaultLayout] = useState(String(ForumLayout.NOT_SET));
+  const isForum = isForumChannel(channel);
+
+  useEffect(() => {
+    if (!open || !channel) {
+      return;
+    }
+
+    setName(channel.name);
+    setTopic(channel.topic ?? "");
+    setSlowmode(String(channel.rate_limit_per_user ?? 0));
+    setMessageTtl(String(channel.message_ttl ?? 0));
+    setTags(channel.available_tags ?? []);
+    setDefaultSortOrder(
+      channel.default_sort_order === null || channel.default_sort_order === undefined
+        ? DEFAULT_SORT_ORDER_UNSET
+        : String(channel.default_sort_order),
+    );
+    setDefaultLayout(String(channel.default_forum_layout ?? ForumLayout.NOT_SET));
+  }, [open, channel]);
+
+  const updateTag = (index: number, patch: Partial<ForumTagInput>): void => {
+    setTags((current) => current.map((tag, tagIndex) => (tagIndex === index ? { ...tag, ...patch } : tag)));
+  };
+
+  const submit = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    if (!name.trim()) {
+      return;
+    }
+
+    if (isForum) {
+      await onSubmit({
+        name: name.trim(),
+        topic: topic.trim() || null,
+        available_tags: tags
+          .map((tag) => ({ ...tag, name: tag.name.trim() }))
+          .filter((tag) => tag.name.length > 0),
+        default_sort_order:
+          defaultSortOrder === DEFAULT_SORT_ORDER_UNSET ? null : (Number(defaultSortOrder) as ForumSortOrderValue),
+        default_forum_layout: Number(defaultLayout) as ForumLayoutValue,
+        rate_limit_per_user: Number(slowmode),
+      });
+      return;
+    }
+
+    await onSubmit({
+      name: name.trim(),
+      topic: topic.trim() || null,
+      rate_limit_per_user: Number(slowmode),
+      ...(isTextChannel(channel) ? { message_ttl: Number(messageTtl) } : {}),
+    });
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} title="Channel Settings" description={channel ? `#${channel.name}` : undefined}>
+      <form onSubmit={submit} className="space-y-4">
+        <div>
+          <Label htmlFor="channel-settings-name">Name</Label>
+          <Input
+            id="channel-settings-name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            maxLength={100}
+            required
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="channel-settings-topic">{isForum ? "Post Guidelines" : "Topic"}</Label>
+          <Textarea
+            id="channel-settings-topic"
+            value={topic}
+            onChange={(event) => setTopic(event.target.value)}
+            maxLength={CHANNEL_TOPIC_MAX_LENGTH}
+            rows={3}
+            className="mt-2"
+          />
+        </div>
+
+        {isForum ? (
+          <>
+            <div>
+              <Label>Tags</Label>
+              <div className="mt-2 space-y-2">
+                {tags.map((tag, index) => (
+                  <div key={tag.id ?? `new-${index}`} className="flex items-center gap-2">
+                    <Input
+                      value={tag.name}
+                      onChange={(event) => updateTag(index, { name: event.target.value })}
+                      maxLength={FORUM_TAG_NAME_MAX_LENGTH}
+                      placeholder="Tag name"
+                      aria-label="Tag name"
+                    />
+                    <label className="flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+                      <Switch
+                        checked={tag.moderated}
+                        onCheckedChange={(moderated) => updateTag(index, { moderated })}
+                        aria-label="Moderators only"
+                      />
+                      Mods only
+                    </label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon-sm"
+                      aria-label="Remove tag"
+                      title="Remove tag"
+                      onClick={() => setTags((current) => current.filter((_, tagIndex) => tagIndex !== index))}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={tags.length >= MAX_FORUM_TAGS}
+                  onClick={() =>
+                    setTags((current) => [...current, { name: "", moderated: false, emoji_name: null }])
+                  }
+                >
+                  <Plus className="size-4" />
+                  Add Tag
+                </Button>
+              </div>
+              <p className="mt-1 text-xs text-muted-foreground">
+                Removing a tag also removes it from every post that uses it.
+              </p>
+            </div>
+
+            <div>
+              <Label>Default Sort Order</Label>
+              <Select value={defaultSortOrder} onValueChange={setDefaultSortOrder}>
+                <SelectTrigger className="w-full mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_SORT_ORDER_UNSET}>Not set</SelectItem>
+                  {FORUM_SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Default Layout</Label>
+              <Select value={defaultLayout} onValueChange={setDefaultLayout}>
+                <SelectTrigger className="w-full mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORUM_LAYOUT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        ) : null}
+
+        <div>
+          <Label>Slowmode</Label>
+          <Select value={slowmode} onValueChange={setSlowmode}>
+            <SelectTrigger className="w-full mt-2">
+              <SelectValue placeholder="Off" />
+            </SelectTrigger>
+            <SelectContent>
+              {SLOWMODE_OPTIONS.map((option) => (
+                <SelectItem key={option.seconds} value={String(option.seconds)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Members wait this long between {isForum ? "new posts" : "messages"}. Members who can manage messages or
+            channels are exempt.
+          </p>
+        </div>
+
+        {isTextChannel(channel) ? (
+          <div>
+            <Label>Disappearing Messages</Label>
+            <Select value={messageTtl} onValueChange={setMessageTtl}>
+              <SelectTrigger className="w-full mt-2">
+                <SelectValue placeholder="Off" />
+              </SelectTrigger>
+              <SelectContent>
+                {MESSAGE_TTL_OPTIONS.map((option) => (
+                  <SelectItem key={option.seconds} value={String(option.seconds)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="mt-1 text-xs text-muted-foreground">
+              Messages in this channel and its threads are permanently deleted once they are older than this.
+            </p>
+          </div>
+        ) : null}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={!name.trim() || isSubmitting}>
+            {isSubmitting ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+export default ChannelSettingsModal;
@@ -0,0 +1,132 @@
+import type { GuildChannelPayload } from "@edgewire/types";
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import { Modal } from "@/components/layout/modal";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { isTextChannel } from "@/components/utils/channels";
+import { byPositionThenId } from "@/components/utils/sort";
+import { api, type Guild } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+
+type FollowChannelModalProps = {
+  open: boolean;
+  channel: GuildChannelPayload | null;
+  guilds: Guild[];
+  onClose: () => void;
+  onSubmit: (targetChannelId: string) => void | Promise<void>;
+  isSubmitting: boolean;
+};
+
+export function FollowChannelModal({ open, channel, guilds, onClose, onSubmit, isSubmitting }: FollowChannelModalProps) {
+  const [guildId, setGuildId] = useState("");
+  const [targetChannelId, setTargetChannelId] = useState("");
+
+  // Follows always cross guilds, so the announcement's own guild is never offered.
+  const targetGuilds = useMemo(
+    () => guilds.filter((guild) => guild.id !== channel?.guild_id),
+    [guilds, channel?.guild_id],
+  );
+
+  const channelsQuery = useQuery({
+    queryKey: queryKeys.guildChannels(guildId),
+    queryFn: () => api.listGuildChannels(guildId),
+    enabled: open && Boolean(guildId),
+  });
+  const targetChannels = useMemo(
+    () => (channelsQuery.data ?? []).filter((candidate) => isTextChannel(candidate)).sort(byPositionThenId),
+    [channelsQuery.data],
+  );
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    setGuildId("");
+    setTargetChannelId("");
+  }, [open, channel?.id]);
+
+  const submit = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    if (!targetChannelId) {
+      return;
+    }
+
+    await onSubmit(targetChannelId);
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title="Follow Channel"
+      description={
+        channel
+          ? `Publish announcements from #${channel.name} into a channel in one of your servers.`
+          : undefined
+      }
+    >
+      <form onSubmit={submit} className="space-y-4">
+        <div>
+          <Label>Server</Label>
+          <Select
+            value={guildId}
+            onValueChange={(value) => {
+              setGuildId(value);
+              setTargetChannelId("");
+            }}
+          >
+            <SelectTrigger className="w-full mt-2">
+              <SelectValue placeholder="Select a server" />
+            </SelectTrigger>
+            <SelectContent>
+              {targetGuilds.map((guild) => (
+                <SelectItem key={guild.id} value={guild.id}>
+                  {guild.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label>Channel</Label>
+          <Select value={targetChannelId} onValueChange={setTargetChannelId} disabled={!guildId}>
+            <SelectTrigger className="w-full mt-2">
+              <SelectValue placeholder={channelsQuery.isFetching ? "Loading channels..." : "Select a channel"} />
+            </SelectTrigger>
+            <SelectContent>
+              {targetChannels.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  # {candidate.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="mt-1 text-xs text-muted-foreground">
+            You need the Manage Channels permission in the channel you pick.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={!targetChannelId || isSubmitting}>
+            {isSubmitting ? "Following..." : "Follow"}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+export default FollowChannelModal;
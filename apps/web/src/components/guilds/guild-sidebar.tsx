@@ -18,6 +18,7 @@ type GuildSidebarProps = {
   channels: GuildChannelPayload[];
   channelBadges: Map<string, { unread_count: number; mention_count: number }>;
   activeChannelId: string | null;
+  draftChannelIds: Set<string>;
   canManageGuild: boolean;
   canLeaveGuild: boolean;
   isLeavingGuild: boolean;
@@ -43,6 +44,7 @@ export function GuildSidebar({
   channels,
   channelBadges,
   activeChannelId,
+  draftChannelIds,
   canManageGuild,
   canLeaveGuild,
   isLeavingGuild,
@@ -151,6 +153,7 @@ export function GuildSidebar({
         channels={channels}
         channelBadges={channelBadges}
         activeChannelId={activeChannelId}
+        draftChannelIds={draftChannelIds}
         canManageChannels={canManageChannels}
         onOpenChannel={onOpenChannel}
         onJoinVoiceChannel={onJoinVoiceChannel}
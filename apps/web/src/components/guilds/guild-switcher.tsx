@@ -1,4 +1,5 @@
 import { Home, Plus } from "lucide-react";
+import { useState, type MouseEvent } from "react";
 import { Link } from "react-router-dom";
 import type { AppRoute } from "@/app/types";
 import type { Guild } from "@/lib/api";
@@ -9,15 +10,48 @@ type GuildSwitcherProps = {
   guilds: Guild[];
   guildBadges: Map<string, { unread_count: number; mention_count: number }>;
   onCreateGuild: () => void;
+  onMarkGuildRead: (guildId: string) => void;
+  onMarkDmsRead: () => void;
 };
 
-export function GuildSwitcher({ route, guilds, guildBadges, onCreateGuild }: GuildSwitcherProps) {
+type ReadMenu = {
+  x: number;
+  y: number;
+  guildId: string | null;
+};
+
+export function GuildSwitcher({
+  route,
+  guilds,
+  guildBadges,
+  onCreateGuild,
+  onMarkGuildRead,
+  onMarkDmsRead,
+}: GuildSwitcherProps) {
+  const [readMenu, setReadMenu] = useState<ReadMenu | null>(null);
+
+  const openReadMenu = (event: MouseEvent, guildId: string | null): void => {
+    event.preventDefault();
+    const menuWidth = 196;
+    const menuHeight = 44;
+    setReadMenu({
+      x: Math.max(8, Math.min(event.clientX, window.innerWidth - menuWidth - 8)),
+      y: Math.max(8, Math.min(event.clientY, window.innerHeight - menuHeight - 8)),
+      guildId,
+    });
+  };
+
+  const readMenuBadge = readMenu?.guildId ? guildBadges.get(readMenu.guildId) : undefined;
+  const readMenuHasUnread =
+    readMenu?.guildId === null || (readMenuBadge?.unread_count ?? 0) + (readMenuBadge?.mention_count ?? 0) > 0;
+
   return (
     <aside className="border-r bg-card flex flex-col items-center py-3 gap-3">
       <Button
         asChild
         size="icon"
         variant={route.mode === "dm" ? "secondary" : "ghost"}
+        onContextMenu={(event) => openReadMenu(event, null)}
       >
         <Link to="/app/channels/@me" aria-label="Direct Messages">
           <Home />
@@ -39,6 +73,7 @@ export function GuildSwitcher({ route, guilds, guildBadges, onCreateGuild }: Gui
                 size="icon"
                 variant={active ? "secondary" : "ghost"}
                 className="mx-auto rounded-full"
+                onContextMenu={(event) => openReadMenu(event, guild.id)}
               >
                 <Link to={`/app/channels/${guild.id}`} aria-label={guild.name}>
                   {guild.name.slice(0, 1).toUpperCase()}
@@ -64,6 +99,46 @@ export function GuildSwitcher({ route, guilds, guildBadges, onCreateGuild }: Gui
       >
         <Plus />
       </Button>
+
+      {readMenu ? (
+        <>
+          <button
+            type="button"
+            className="fixed inset-0 z-40 cursor-default"
+            aria-label="Close menu"
+            onClick={() => setReadMenu(null)}
+            onContextMenu={(event) => {
+              event.preventDefault();
+              setReadMenu(null);
+            }}
+          />
+          <div
+            role="menu"
+            aria-label={readMenu.guildId ? "Server menu" : "Direct messages menu"}
+            className="fixed z-50 w-48 rounded-md border bg-card p-1 shadow-md"
+            style={{ left: readMenu.x, top: readMenu.y }}
+            onContextMenu={(event) => event.preventDefault()}
+          >
+            <button
+              type="button"
+              role="menuitem"
+              disabled={!readMenuHasUnread}
+              className="w-full rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent disabled:opacity-50 disabled:hover:bg-transparent"
+              onClick={() => {
+                const guildId = readMenu.guildId;
+                setReadMenu(null);
+                if (guildId) {
+                  onMarkGuildRead(guildId);
+                } else {
+                  onMarkDmsRead();
+                }
+              }}
+            >
+              Mark as read
+            </button>
+          </div>
+        </>
+      ) : null}
     </aside>
   );
 }
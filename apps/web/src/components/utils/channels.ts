@@ -0,0 +1,10 @@
+import { ChannelType, type GuildChannelPayload } from "@edgewire/types";
+
+export const isTextChannel = (channel: Pick<GuildChannelPayload, "type"> | null | undefined): boolean =>
+  channel?.type === ChannelType.GUILD_TEXT || channel?.type === ChannelType.GUILD_ANNOUNCEMENT;
+
+export const isAnnouncementChannel = (channel: Pick<GuildChannelPayload, "type"> | null | undefined): boolean =>
+  channel?.type === ChannelType.GUILD_ANNOUNCEMENT;
+
+export const isForumChannel = (channel: Pick<GuildChannelPayload, "type"> | null | undefined): boolean =>
+  channel?.type === ChannelType.GUILD_FORUM;
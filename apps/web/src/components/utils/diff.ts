@@ -0,0 +1,57 @@
+export type DiffSegment = {
+  type: "equal" | "insert" | "delete";
+  text: string;
+};
+
+const tokenize = (value: string): string[] => value.split(/(\s+)/).filter(Boolean);
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegment["type"], text: string): void => {
+  const previous = segments[segments.length - 1];
+  if (previous && previous.type === type) {
+    previous.text += text;
+    return;
+  }
+  segments.push({ type, text });
+};
+
+// Word-level LCS; messages are capped at 2000 characters so the quadratic table stays small.
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const left = tokenize(before);
+  const right = tokenize(after);
+  const columns = right.length + 1;
+  const lengths = new Uint16Array((left.length + 1) * columns);
+
+  for (let i = left.length - 1; i >= 0; i -= 1) {
+    for (let j = right.length - 1; j >= 0; j -= 1) {
+      lengths[i * columns + j] =
+        left[i] === right[j]
+          ? lengths[(i + 1) * columns + j + 1]! + 1
+          : Math.max(lengths[(i + 1) * columns + j]!, lengths[i * columns + j + 1]!);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      pushSegment(segments, "equal", left[i]!);
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * columns + j]! >= lengths[i * columns + j + 1]!) {
+      pushSegment(segments, "delete", left[i]!);
+      i += 1;
+    } else {
+      pushSegment(segments, "insert", right[j]!);
+      j += 1;
+    }
+  }
+  for (; i < left.length; i += 1) {
+    pushSegment(segments, "delete", left[i]!);
+  }
+  for (; j < right.length; j += 1) {
+    pushSegment(segments, "insert", right[j]!);
+  }
+
+  return segments;
+};
@@ -4,6 +4,23 @@ export const formatTime = (timestamp: string, locale?: string): string =>
     minute: "2-digit",
   });
 
+export const formatDateTime = (timestamp: string, locale?: string): string =>
+  new Date(timestamp).toLocaleString(locale ? [locale] : [], {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+// `<input type="datetime-local">` wants local wall-clock time without a zone suffix.
+export const toDateTimeLocalValue = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const parseFutureDateTimeLocal = (value: string): Date | null => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) || date.getTime() <= Date.now() ? null : date;
+};
+
 export const formatBytes = (value: number): string => {
   if (value < 1024) {
     return `${value} B`;
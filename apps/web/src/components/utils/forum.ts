@@ -0,0 +1,18 @@
+import { ForumLayout, ForumSortOrder, type ForumLayoutValue, type ForumSortOrderValue } from "@edgewire/types";
+
+export const MAX_FORUM_TAGS = 20;
+export const MAX_APPLIED_FORUM_TAGS = 5;
+
+export const FORUM_SORT_OPTIONS: Array<{ value: ForumSortOrderValue; label: string }> = [
+  { value: ForumSortOrder.LATEST_ACTIVITY, label: "Latest Activity" },
+  { value: ForumSortOrder.CREATION_DATE, label: "Creation Date" },
+];
+
+export const FORUM_LAYOUT_OPTIONS: Array<{ value: ForumLayoutValue; label: string }> = [
+  { value: ForumLayout.NOT_SET, label: "Not set" },
+  { value: ForumLayout.LIST_VIEW, label: "List" },
+  { value: ForumLayout.GALLERY_VIEW, label: "Gallery" },
+];
+
+export const toggleTagId = (tagIds: string[], tagId: string): string[] =>
+  tagIds.includes(tagId) ? tagIds.filter((id) => id !== tagId) : [...tagIds, tagId];
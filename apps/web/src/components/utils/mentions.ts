@@ -0,0 +1,27 @@
+import type { MentionsPage, ReadStateUpdateEvent } from "@edgewire/types";
+import type { InfiniteData } from "@tanstack/react-query";
+
+// Mirrors the server's check: a bare ack without a message id reads the whole channel.
+export const applyMentionReadState = (
+  data: InfiniteData<MentionsPage> | undefined,
+  event: ReadStateUpdateEvent,
+): InfiniteData<MentionsPage> | undefined => {
+  if (!data) {
+    return data;
+  }
+
+  const lastReadId = event.last_read_message_id ? BigInt(event.last_read_message_id) : null;
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({
+      ...page,
+      mentions: page.mentions.map((mention) =>
+        mention.unread &&
+        mention.channel_id === event.channel_id &&
+        (lastReadId === null || BigInt(mention.message_id) <= lastReadId)
+          ? { ...mention, unread: false }
+          : mention,
+      ),
+    })),
+  };
+};
@@ -0,0 +1,47 @@
+import type { MessagePayload } from "@edgewire/types";
+import type { InfiniteData } from "@tanstack/react-query";
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+export type MessagePageParam = {
+  before?: string;
+  after?: string;
+  around?: string;
+};
+
+// Pages are stored newest first, so the last page holds the oldest loaded message.
+export const getOlderMessagesCursor = (
+  lastPage: MessagePayload[],
+): MessagePageParam | undefined => {
+  const oldest = lastPage[lastPage.length - 1];
+  return oldest ? { before: oldest.id } : undefined;
+};
+
+// Windows opened with `around` or `after` keep loading newer pages until one comes back short.
+export const getNewerMessagesCursor = (
+  firstPage: MessagePayload[],
+  firstPageParam: MessagePageParam | undefined,
+): MessagePageParam | undefined => {
+  const newest = firstPage[0];
+  if (!newest || (!firstPageParam?.after && !firstPageParam?.around)) {
+    return undefined;
+  }
+
+  const around = firstPageParam.around;
+  const newerCount = around
+    ? firstPage.filter((message) => BigInt(message.id) > BigInt(around)).length
+    : firstPage.length;
+  const expected = around ? Math.floor(MESSAGE_PAGE_SIZE / 2) : MESSAGE_PAGE_SIZE;
+  return newerCount < expected ? undefined : { after: newest.id };
+};
+
+export const isDetachedFromLatest = (
+  data: InfiniteData<MessagePayload[]> | undefined,
+): boolean =>
+  Boolean(
+    data &&
+      getNewerMessagesCursor(
+        data.pages[0] ?? [],
+        data.pageParams[0] as MessagePageParam | undefined,
+      ),
+  );
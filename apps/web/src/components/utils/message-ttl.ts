@@ -0,0 +1,22 @@
+export const MESSAGE_TTL_OPTIONS = [
+  { seconds: 0, label: "Off" },
+  { seconds: 300, label: "5 minutes" },
+  { seconds: 3_600, label: "1 hour" },
+  { seconds: 28_800, label: "8 hours" },
+  { seconds: 86_400, label: "1 day" },
+  { seconds: 604_800, label: "7 days" },
+];
+
+export const formatMessageTtl = (seconds: number): string => {
+  const option = MESSAGE_TTL_OPTIONS.find((item) => item.seconds === seconds);
+  if (option) {
+    return option.label;
+  }
+  if (seconds % 86_400 === 0) {
+    return `${seconds / 86_400} days`;
+  }
+  if (seconds % 3_600 === 0) {
+    return `${seconds / 3_600} hours`;
+  }
+  return `${Math.round(seconds / 60)} minutes`;
+};
@@ -0,0 +1,61 @@
+import type { MessagePoll } from "@edgewire/types";
+
+export const POLL_DURATION_OPTIONS = [
+  { hours: 1, label: "1 hour" },
+  { hours: 4, label: "4 hours" },
+  { hours: 8, label: "8 hours" },
+  { hours: 24, label: "24 hours" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "1 week" },
+  { hours: 336, label: "2 weeks" },
+];
+
+export const isPollClosed = (poll: MessagePoll, now = Date.now()): boolean =>
+  poll.results.is_finalized || new Date(poll.expiry).getTime() <= now;
+
+export const totalPollVotes = (poll: MessagePoll): number =>
+  poll.results.answer_counts.reduce((total, answer) => total + answer.count, 0);
+
+// Own votes are applied optimistically, so a later gateway echo must not count them twice.
+export const applyPollVoteAdd = (poll: MessagePoll, answerId: number, isMe: boolean): MessagePoll => ({
+  ...poll,
+  results: {
+    ...poll.results,
+    answer_counts: poll.results.answer_counts.map((answer) => {
+      if (answer.id !== answerId || (isMe && answer.me_voted)) {
+        return answer;
+      }
+      return { ...answer, count: answer.count + 1, me_voted: answer.me_voted || isMe };
+    }),
+  },
+});
+
+export const applyPollVoteRemove = (poll: MessagePoll, answerId: number, isMe: boolean): MessagePoll => ({
+  ...poll,
+  results: {
+    ...poll.results,
+    answer_counts: poll.results.answer_counts.map((answer) => {
+      if (answer.id !== answerId || (isMe && !answer.me_voted)) {
+        return answer;
+      }
+      return {
+        ...answer,
+        count: Math.max(0, answer.count - 1),
+        me_voted: isMe ? false : answer.me_voted,
+      };
+    }),
+  },
+});
+
+// Poll updates from the server carry counts for everyone; `me_voted` stays with the local copy.
+export const mergePollUpdate = (current: MessagePoll | null | undefined, next: MessagePoll): MessagePoll => ({
+  ...next,
+  results: {
+    ...next.results,
+    answer_counts: next.results.answer_counts.map((answer) => ({
+      ...answer,
+      me_voted:
+        current?.results.answer_counts.find((existing) => existing.id === answer.id)?.me_voted ?? false,
+    })),
+  },
+});
@@ -0,0 +1,54 @@
+import type { MessageReaction, ReactionEmoji } from "@edgewire/types";
+
+export const QUICK_REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🎉", "🔥", "👀"];
+
+export const toReactionKey = (emoji: ReactionEmoji): string =>
+  emoji.id ? `${emoji.name}:${emoji.id}` : emoji.name;
+
+const sameEmoji = (left: ReactionEmoji, right: ReactionEmoji): boolean =>
+  toReactionKey(left) === toReactionKey(right);
+
+// Own reactions are applied optimistically, so a later gateway echo must not count them twice.
+export const applyReactionAdd = (
+  reactions: MessageReaction[] | undefined,
+  emoji: ReactionEmoji,
+  isMe: boolean,
+): MessageReaction[] => {
+  const current = reactions ?? [];
+  const existing = current.find((reaction) => sameEmoji(reaction.emoji, emoji));
+  if (!existing) {
+    return [...current, { emoji, count: 1, me: isMe }];
+  }
+
+  if (isMe && existing.me) {
+    return current;
+  }
+
+  return current.map((reaction) =>
+    reaction === existing
+      ? { ...reaction, count: reaction.count + 1, me: reaction.me || isMe }
+      : reaction,
+  );
+};
+
+export const applyReactionRemove = (
+  reactions: MessageReaction[] | undefined,
+  emoji: ReactionEmoji,
+  isMe: boolean,
+): MessageReaction[] => {
+  const current = reactions ?? [];
+  const existing = current.find((reaction) => sameEmoji(reaction.emoji, emoji));
+  if (!existing || (isMe && !existing.me)) {
+    return current;
+  }
+
+  if (existing.count <= 1) {
+    return current.filter((reaction) => reaction !== existing);
+  }
+
+  return current.map((reaction) =>
+    reaction === existing
+      ? { ...reaction, count: reaction.count - 1, me: isMe ? false : reaction.me }
+      : reaction,
+  );
+};
@@ -0,0 +1,43 @@
+import type { MessageReminderPayload, ReminderUpdateEvent } from "@edgewire/types";
+
+export type ReminderPreset = "20m" | "1h" | "tomorrow";
+
+export const REMINDER_PRESETS: { value: ReminderPreset; label: string }[] = [
+  { value: "20m", label: "In 20 minutes" },
+  { value: "1h", label: "In 1 hour" },
+  { value: "tomorrow", label: "Tomorrow at 9:00" },
+];
+
+export const toPresetRemindAt = (preset: ReminderPreset, now: Date = new Date()): Date => {
+  switch (preset) {
+    case "20m":
+      return new Date(now.getTime() + 20 * 60 * 1_000);
+    case "1h":
+      return new Date(now.getTime() + 60 * 60 * 1_000);
+    case "tomorrow": {
+      const tomorrow = new Date(now);
+      tomorrow.setDate(tomorrow.getDate() + 1);
+      tomorrow.setHours(9, 0, 0, 0);
+      return tomorrow;
+    }
+  }
+};
+
+// The list stays ordered by due time, matching what the server returns.
+export const applyReminderUpdate = (
+  data: MessageReminderPayload[] | undefined,
+  event: ReminderUpdateEvent,
+): MessageReminderPayload[] | undefined => {
+  if (!data) {
+    return data;
+  }
+
+  const rest = data.filter((item) => item.message_id !== event.message_id);
+  if (!event.reminder) {
+    return rest;
+  }
+
+  return [...rest, event.reminder].sort(
+    (a, b) => Date.parse(a.remind_at) - Date.parse(b.remind_at) || a.id.localeCompare(b.id),
+  );
+};
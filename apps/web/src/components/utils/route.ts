@@ -5,11 +5,11 @@ export type { AppRoute } from "@/app/types";
 export const parseRoute = (pathname: string): AppRoute => {
   const parts = pathname.split("/").filter(Boolean);
   if (parts[0] !== "app") {
-    return { mode: "dm", guildId: null, channelId: null };
+    return { mode: "dm", guildId: null, channelId: null, messageId: null };
   }
 
   if (parts[1] !== "channels") {
-    return { mode: "dm", guildId: null, channelId: null };
+    return { mode: "dm", guildId: null, channelId: null, messageId: null };
   }
 
   if (parts[2] === "@me") {
@@ -17,6 +17,7 @@ export const parseRoute = (pathname: string): AppRoute => {
       mode: "dm",
       guildId: null,
       channelId: parts[3] ?? null,
+      messageId: parts[4] ?? null,
     };
   }
 
@@ -25,8 +26,16 @@ export const parseRoute = (pathname: string): AppRoute => {
       mode: "guild",
       guildId: parts[2],
       channelId: parts[3] ?? null,
+      messageId: parts[4] ?? null,
     };
   }
 
-  return { mode: "dm", guildId: null, channelId: null };
+  return { mode: "dm", guildId: null, channelId: null, messageId: null };
 };
+
+export const toChannelPath = (
+  guildId: string | null,
+  channelId: string,
+  messageId?: string | null,
+): string =>
+  `/app/channels/${guildId ?? "@me"}/${channelId}${messageId ? `/${messageId}` : ""}`;
@@ -0,0 +1,33 @@
+import type { SavedMessagesPage, SavedMessageUpdateEvent } from "@edgewire/types";
+import type { InfiniteData } from "@tanstack/react-query";
+
+// Edits stay in place; newly saved messages go to the top of the first page.
+export const applySavedMessageUpdate = (
+  data: InfiniteData<SavedMessagesPage> | undefined,
+  event: SavedMessageUpdateEvent,
+): InfiniteData<SavedMessagesPage> | undefined => {
+  if (!data) {
+    return data;
+  }
+
+  const saved = event.saved_message;
+  const exists = data.pages.some((page) =>
+    page.saved_messages.some((item) => item.message_id === event.message_id),
+  );
+
+  return {
+    ...data,
+    pages: data.pages.map((page, index) => {
+      const items = page.saved_messages.flatMap((item) => {
+        if (item.message_id !== event.message_id) {
+          return [item];
+        }
+        return saved ? [saved] : [];
+      });
+      return {
+        ...page,
+        saved_messages: saved && !exists && index === 0 ? [saved, ...items] : items,
+      };
+    }),
+  };
+};
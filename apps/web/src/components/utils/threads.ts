@@ -0,0 +1,38 @@
+import { ChannelType, type GuildChannelPayload, type ThreadAutoArchiveDuration } from "@edgewire/types";
+
+export const THREAD_AUTO_ARCHIVE_OPTIONS: Array<{ value: ThreadAutoArchiveDuration; label: string }> = [
+  { value: 60, label: "1 hour" },
+  { value: 1440, label: "24 hours" },
+  { value: 4320, label: "3 days" },
+  { value: 10080, label: "1 week" },
+];
+
+export const isThreadChannel = (channel: Pick<GuildChannelPayload, "type"> | null | undefined): boolean =>
+  channel?.type === ChannelType.PUBLIC_THREAD || channel?.type === ChannelType.PRIVATE_THREAD;
+
+// Active threads live alongside regular channels in the guild channel cache, keyed by parent.
+export const groupThreadsByParent = (
+  channels: GuildChannelPayload[],
+  activeChannelId: string | null,
+): Map<string, GuildChannelPayload[]> => {
+  const grouped = new Map<string, GuildChannelPayload[]>();
+  for (const channel of channels) {
+    if (!isThreadChannel(channel) || !channel.parent_id) {
+      continue;
+    }
+
+    if (channel.thread_metadata?.archived && channel.id !== activeChannelId) {
+      continue;
+    }
+
+    const existing = grouped.get(channel.parent_id) ?? [];
+    existing.push(channel);
+    grouped.set(channel.parent_id, existing);
+  }
+
+  for (const threads of grouped.values()) {
+    threads.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  return grouped;
+};
@@ -0,0 +1,136 @@
+import type { MessageDraftPayload } from "@edgewire/types";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { ComposerAttachment } from "@/app/types";
+import { api } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+
+const DRAFT_SAVE_DELAY_MS = 1_000;
+
+type PendingDraft = {
+  channelId: string;
+  content: string;
+  uploadIds: string[];
+};
+
+type UseComposerDraftParams = {
+  channelId: string | null;
+  value: string;
+  attachments: ComposerAttachment[];
+  onRestore: (draft: { value: string; attachments: ComposerAttachment[] }) => void;
+};
+
+const draftSignature = (content: string, uploadIds: string[]): string => JSON.stringify([content, uploadIds]);
+
+const toComposerAttachments = (draft: MessageDraftPayload): ComposerAttachment[] =>
+  draft.attachments.map((attachment) => ({
+    local_id: attachment.upload_id,
+    file: null,
+    filename: attachment.filename,
+    size: attachment.size,
+    content_type: attachment.content_type ?? "application/octet-stream",
+    status: "uploaded",
+    upload_id: attachment.upload_id,
+  }));
+
+/**
+ * Keeps the composer in sync with the server-side draft of the open channel: restores it
+ * when a channel is opened and saves edits after a short pause. Only uploaded attachments
+ * are part of a draft. Returns the ids of channels that currently have a draft.
+ */
+export const useComposerDraft = ({ channelId, value, attachments, onRestore }: UseComposerDraftParams) => {
+  const queryClient = useQueryClient();
+  const [restoredChannelId, setRestoredChannelId] = useState<string | null>(null);
+  const savedSignatureRef = useRef<string | null>(null);
+  const pendingDraftRef = useRef<PendingDraft | null>(null);
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  const draftsQuery = useQuery({
+    queryKey: queryKeys.drafts,
+    queryFn: api.listDrafts,
+    staleTime: Infinity,
+  });
+  const drafts = draftsQuery.data;
+
+  const saveDraft = (pending: PendingDraft): void => {
+    const isEmpty = !pending.content.trim() && pending.uploadIds.length === 0;
+    const request = isEmpty
+      ? api.deleteDraft(pending.channelId).then(() => null)
+      : api.putDraft(pending.channelId, {
+          content: pending.content,
+          attachment_upload_ids: pending.uploadIds,
+        });
+
+    void request
+      .then((saved) => {
+        queryClient.setQueryData<MessageDraftPayload[]>(queryKeys.drafts, (old) => {
+          const others = (old ?? []).filter((draft) => draft.channel_id !== pending.channelId);
+          return saved ? [...others, saved] : others;
+        });
+      })
+      .catch(() => undefined);
+  };
+
+  useEffect(() => {
+    if (!channelId || !drafts || restoredChannelId === channelId) {
+      return;
+    }
+
+    // Whatever was typed in the previous channel is saved before its state is replaced.
+    const pending = pendingDraftRef.current;
+    if (pending && pending.channelId !== channelId) {
+      saveDraft(pending);
+    }
+    pendingDraftRef.current = null;
+
+    const draft = drafts.find((item) => item.channel_id === channelId);
+    const restored = draft
+      ? { value: draft.content, attachments: toComposerAttachments(draft) }
+      : { value: "", attachments: [] };
+    // On first load, keep anything typed before drafts arrived unless there is a draft to show.
+    if (draft || restoredChannelId !== null) {
+      onRestoreRef.current(restored);
+    }
+    savedSignatureRef.current = draftSignature(
+      restored.value,
+      restored.attachments.map((attachment) => attachment.upload_id!),
+    );
+    setRestoredChannelId(channelId);
+  }, [channelId, drafts, restoredChannelId]);
+
+  const uploadIds = useMemo(
+    () =>
+      attachments
+        .map((attachment) => attachment.upload_id)
+        .filter((uploadId): uploadId is string => Boolean(uploadId)),
+    [attachments],
+  );
+  const uploadIdsKey = uploadIds.join(",");
+
+  useEffect(() => {
+    if (!channelId || restoredChannelId !== channelId) {
+      return;
+    }
+
+    const signature = draftSignature(value, uploadIds);
+    if (signature === savedSignatureRef.current) {
+      pendingDraftRef.current = null;
+      return;
+    }
+
+    const pending = { channelId, content: value, uploadIds };
+    pendingDraftRef.current = pending;
+    const timeout = window.setTimeout(() => {
+      pendingDraftRef.current = null;
+      savedSignatureRef.current = signature;
+      saveDraft(pending);
+    }, DRAFT_SAVE_DELAY_MS);
+
+    return () => {
+      window.clearTimeout(timeout);
+    };
+  }, [channelId, restoredChannelId, value, uploadIdsKey]);
+
+  return useMemo(() => new Set((drafts ?? []).map((draft) => draft.channel_id)), [drafts]);
+};
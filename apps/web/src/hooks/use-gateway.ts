@@ -1,13 +1,34 @@
 import type {
   ChannelBadgePayload,
+  ChannelPinsUpdateEvent,
+  DraftUpdateEvent,
   DmChannelPayload,
   GatewayPacket,
   GuildBadgePayload,
   GuildChannelPayload,
   GuildCreateEvent,
+  GuildEmojisUpdateEvent,
   GuildRole,
+  MessageDeleteBulkEvent,
+  MessageDraftPayload,
   MessagePayload,
+  MessagePoll,
+  MessagePollVoteEvent,
+  MessageReaction,
+  MessageReactionEvent,
+  MessageReactionRemoveAllEvent,
+  MentionsPage,
+  MessageReminderPayload,
+  NotificationCreateEvent,
+  ReadStateUpdateEvent,
   ReadyEvent,
+  ReminderUpdateEvent,
+  SavedMessageUpdateEvent,
+  SavedMessagesPage,
+  ScheduledMessageDeleteEvent,
+  ScheduledMessagePayload,
+  ThreadMemberUpdateEvent,
+  ThreadMembersUpdateEvent,
   UserSummary,
 } from "@edgewire/types";
 import { useQueryClient } from "@tanstack/react-query";
@@ -27,6 +48,12 @@ import {
   type Role,
   type TypingEvent,
 } from "@/lib/api";
+import { applyMentionReadState } from "@/components/utils/mentions";
+import { isDetachedFromLatest } from "@/components/utils/message-pages";
+import { applyPollVoteAdd, applyPollVoteRemove, mergePollUpdate } from "@/components/utils/polls";
+import { applyReactionAdd, applyReactionRemove } from "@/components/utils/reactions";
+import { applyReminderUpdate } from "@/components/utils/reminders";
+import { applySavedMessageUpdate } from "@/components/utils/saved-messages";
 import { GATEWAY_URL } from "@/lib/env";
 import { type PresenceMap, presenceQueryKeys } from "@/lib/presence";
 import { queryKeys } from "@/lib/query-keys";
@@ -35,6 +62,7 @@ type GatewayParams = {
   enabled: boolean;
   userId: string | null;
   activeChannelId: string | null;
+  onOpenMessage?: (guildId: string | null, channelId: string, messageId: string) => void;
 };
 
 const insertNewestMessage = (
@@ -48,7 +76,8 @@ const insertNewestMessage = (
     };
   }
 
-  if (current.pages.some(page => page.some(item => item.id === message.id))) {
+  // A window opened on an older message picks new messages up when it pages forward.
+  if (isDetachedFromLatest(current) || current.pages.some(page => page.some(item => item.id === message.id))) {
     return current;
   }
 
@@ -71,7 +100,18 @@ const updateMessage = (
     pages: current.pages.map(page =>
       page.map(item => {
         if (item.id !== update.id) {
-          return item;
+          const referenced = item.referenced_message;
+          if (!referenced || "deleted" in referenced || referenced.id !== update.id) {
+            return item;
+          }
+          return {
+            ...item,
+            referenced_message: {
+              ...referenced,
+              ...update,
+              referenced_message: referenced.referenced_message,
+            },
+          };
         }
         return {
           ...item,
@@ -79,15 +119,63 @@ const updateMessage = (
           mentions: update.mentions ?? item.mentions,
           mention_roles: update.mention_roles ?? item.mention_roles,
           mention_channels: update.mention_channels ?? item.mention_channels,
+          poll: update.poll ? mergePollUpdate(item.poll, update.poll) : item.poll,
         };
       }),
     ),
   };
 };
 
-const deleteMessage = (
+const deleteMessages = (
+  current: InfiniteData<MessagePayload[]> | undefined,
+  messageIds: Set<string>,
+): InfiniteData<MessagePayload[]> | undefined => {
+  if (!current) {
+    return current;
+  }
+
+  return {
+    ...current,
+    pages: current.pages.map(page =>
+      page
+        .filter(item => !messageIds.has(item.id))
+        .map(item =>
+          item.referenced_message && messageIds.has(item.referenced_message.id)
+            ? {
+                ...item,
+                referenced_message: {
+                  id: item.referenced_message.id,
+                  channel_id: item.channel_id,
+                  deleted: true,
+                },
+              }
+            : item,
+        ),
+    ),
+  };
+};
+
+const patchMessageReactions = (
+  current: InfiniteData<MessagePayload[]> | undefined,
+  messageId: string,
+  patch: (reactions: MessageReaction[] | undefined) => MessageReaction[],
+): InfiniteData<MessagePayload[]> | undefined => {
+  if (!current) {
+    return current;
+  }
+
+  return {
+    ...current,
+    pages: current.pages.map(page =>
+      page.map(item => (item.id === messageId ? { ...item, reactions: patch(item.reactions) } : item)),
+    ),
+  };
+};
+
+const patchMessagePoll = (
   current: InfiniteData<MessagePayload[]> | undefined,
   messageId: string,
+  patch: (poll: MessagePoll) => MessagePoll,
 ): InfiniteData<MessagePayload[]> | undefined => {
   if (!current) {
     return current;
@@ -95,7 +183,9 @@ const deleteMessage = (
 
   return {
     ...current,
-    pages: current.pages.map(page => page.filter(item => item.id !== messageId)),
+    pages: current.pages.map(page =>
+      page.map(item => (item.id === messageId && item.poll ? { ...item, poll: patch(item.poll) } : item)),
+    ),
   };
 };
 
@@ -329,7 +419,7 @@ const upsertGuildBadge = (
   };
 };
 
-export const useGateway = ({ enabled, userId, activeChannelId }: GatewayParams) => {
+export const useGateway = ({ enabled, userId, activeChannelId, onOpenMessage }: GatewayParams) => {
   const queryClient = useQueryClient();
   const socketRef = useRef<WebSocket | null>(null);
   const heartbeatIntervalRef = useRef<number | null>(null);
@@ -338,6 +428,12 @@ export const useGateway = ({ enabled, userId, activeChannelId }: GatewayParams)
   const lastSequenceRef = useRef<number | null>(null);
   const typingTimeoutsRef = useRef<Map<string, number>>(new Map());
   const sendPresenceUpdateRef = useRef<(status: SelfPresenceStatus) => void>(() => undefined);
+  // Kept in a ref so a new navigation callback never forces a reconnect.
+  const openMessageRef = useRef(onOpenMessage);
+
+  useEffect(() => {
+    openMessageRef.current = onOpenMessage;
+  }, [onOpenMessage]);
 
   useEffect(() => {
     if (!enabled || !userId) {
@@ -543,18 +639,27 @@ export const useGateway = ({ enabled, userId, activeChannelId }: GatewayParams)
             break;
           }
           case "CHANNEL_UPDATE": {
-            const channel = packet.d as GuildChannelPayload;
-            queryClient.setQueryData<GuildChannelPayload[]>(queryKeys.guildChannels(channel.guild_id), old =>
-              (old ?? [])
-                .map(item => (item.id === channel.id ? channel : item))
-                .sort((a, b) => a.position - b.position || a.id.localeCompare(b.id)),
-            );
+            const channel = packet.d as DmChannelPayload | GuildChannelPayload;
+            if ((channel as GuildChannelPayload).guild_id) {
+              const guildChannel = channel as GuildChannelPayload;
+              queryClient.setQueryData<GuildChannelPayload[]>(queryKeys.guildChannels(guildChannel.guild_id), old =>
+                (old ?? [])
+                  .map(item => (item.id === guildChannel.id ? guildChannel : item))
+                  .sort((a, b) => a.position - b.position || a.id.localeCompare(b.id)),
+              );
+            } else {
+              const dmChannel = ensureDmChannel(channel as DmChannelPayload);
+              queryClient.setQueryData<DmChannel[]>(queryKeys.dmChannels, old =>
+                (old ?? []).map(item => (item.id === dmChannel.id ? dmChannel : item)),
+              );
+            }
             break;
           }
           case "CHANNEL_DELETE": {
             const channel = packet.d as GuildChannelPayload;
+            // Threads are deleted along with their parent without events of their own.
             queryClient.setQueryData<GuildChannelPayload[]>(queryKeys.guildChannels(channel.guild_id), old =>
-              (old ?? []).filter(item => item.id !== channel.id),
+              (old ?? []).filter(item => item.id !== channel.id && item.parent_id !== channel.id),
             );
             queryClient.removeQueries({ queryKey: queryKeys.messages(channel.id) });
             queryClient.setQueryData<BadgesResponse>(queryKeys.badges, old => {
@@ -593,6 +698,44 @@ export const useGateway = ({ enabled, userId, activeChannelId }: GatewayParams)
             queryClient.removeQueries({ queryKey: queryKeys.channelBadge(channel.id) });
             break;
           }
+          case "THREAD_CREATE":
+          case "THREAD_UPDATE": {
+            const thread = packet.d as GuildChannelPayload;
+            queryClient.setQueryData<GuildChannelPayload[]>(queryKeys.guildChannels(thread.guild_id), old =>
+              [...(old ?? []).filter(item => item.id !== thread.id), thread].sort(
+                (a, b) => a.position - b.position || a.id.localeCompare(b.id),
+              ),
+            );
+            if (thread.parent_id) {
+              void queryClient.invalidateQueries({ queryKey: queryKeys.forumPosts(thread.parent_id) });
+            }
+            break;
+          }
+          case "THREAD_DELETE": {
+            const thread = packet.d as GuildChannelPayload;
+            queryClient.setQueryData<GuildChannelPayload[]>(queryKeys.guildChannels(thread.guild_id), old =>
+              (old ?? []).filter(item => item.id !== thread.id),
+            );
+            queryClient.removeQueries({ queryKey: queryKeys.messages(thread.id) });
+            queryClient.removeQueries({ queryKey: queryKeys.threadMembers(thread.id) });
+            if (thread.parent_id) {
+              void queryClient.invalidateQueries({ queryKey: queryKeys.forumPosts(thread.parent_id) });
+            }
+            break;
+          }
+          case "THREAD_MEMBER_UPDATE": {
+            const payload = packet.d as ThreadMemberUpdateEvent;
+            void queryClient.invalidateQueries({ queryKey: queryKeys.threadMembers(payload.id) });
+            break;
+          }
+          case "THREAD_MEMBERS_UPDATE": {
+            const payload = packet.d as ThreadMembersUpdateEvent;
+            queryClient.setQueryData<GuildChannelPayload[]>(queryKeys.guildChannels(payload.guild_id), old =>
+              old?.map(item => (item.id === payload.id ? { ...item, member_count: payload.member_count } : item)),
+            );
+            void queryClient.invalidateQueries({ queryKey: queryKeys.threadMembers(payload.id) });
+            break;
+          }
           case "MESSAGE_CREATE": {
             const message = packet.d as MessagePayload;
             queryClient.setQueryData<InfiniteData<MessagePayload[]>>(
@@ -600,6 +743,15 @@ export const useGateway = ({ enabled, userId, activeChannelId }: GatewayParams)
               old => insertNewestMessage(old, message),
             );
 
+            if (
+              message.author.id !== userId &&
+              (message.mention_everyone ||
+                message.mention_roles.length > 0 ||
+                message.mentions.some(user => user.id === userId))
+            ) {
+              void queryClient.invalidateQueries({ queryKey: queryKeys.mentions });
+            }
+
             if (message.guild_id === null) {
               queryClient.setQueryData<DmChannel[]>(queryKeys.dmChannels, old => {
                 const channels = old ?? [];
@@ -636,6 +788,11 @@ export const useGateway = ({ enabled, userId, activeChannelId }: GatewayParams)
               queryKeys.messages(message.channel_id),
               old => updateMessage(old, message),
             );
+            if (message.edited_timestamp) {
+              void queryClient.invalidateQueries({
+                queryKey: queryKeys.messageRevisions(message.channel_id, message.id),
+              });
+            }
 
             if (message.guild_id === null || message.guild_id === undefined) {
               queryClient.setQueryData<DmChannel[]>(queryKeys.dmChannels, old =>
@@ -704,7 +861,7 @@ export const useGateway = ({ enabled, userId, activeChannelId }: GatewayParams)
             };
             queryClient.setQueryData<InfiniteData<MessagePayload[]>>(
               queryKeys.messages(payload.channel_id),
-              old => deleteMessage(old, payload.id),
+              old => deleteMessages(old, new Set([payload.id])),
             );
 
             const dmChannels = queryClient.getQueryData<DmChannel[]>(queryKeys.dmChannels) ?? [];
@@ -719,18 +876,115 @@ export const useGateway = ({ enabled, userId, activeChannelId }: GatewayParams)
             }
             break;
           }
+          case "DRAFT_UPDATE": {
+            const payload = packet.d as DraftUpdateEvent;
+            queryClient.setQueryData<MessageDraftPayload[]>(queryKeys.drafts, old => {
+              const others = (old ?? []).filter(draft => draft.channel_id !== payload.channel_id);
+              return payload.draft ? [...others, payload.draft] : others;
+            });
+            break;
+          }
+          case "SAVED_MESSAGE_UPDATE": {
+            const payload = packet.d as SavedMessageUpdateEvent;
+            queryClient.setQueryData<InfiniteData<SavedMessagesPage>>(queryKeys.savedMessages, old =>
+              applySavedMessageUpdate(old, payload),
+            );
+            break;
+          }
+          case "REMINDER_UPDATE": {
+            const payload = packet.d as ReminderUpdateEvent;
+            queryClient.setQueryData<MessageReminderPayload[]>(queryKeys.reminders, old =>
+              applyReminderUpdate(old, payload),
+            );
+            break;
+          }
+          case "SCHEDULED_MESSAGE_CREATE":
+          case "SCHEDULED_MESSAGE_UPDATE": {
+            const payload = packet.d as ScheduledMessagePayload;
+            queryClient.setQueryData<ScheduledMessagePayload[]>(
+              queryKeys.scheduledMessages(payload.channel_id),
+              old => {
+                const existing = old ?? [];
+                const next = existing.some(item => item.id === payload.id)
+                  ? existing.map(item => (item.id === payload.id ? payload : item))
+                  : [...existing, payload];
+                return next.sort((a, b) => a.scheduled_at.localeCompare(b.scheduled_at));
+              },
+            );
+            break;
+          }
+          case "SCHEDULED_MESSAGE_DELETE": {
+            const payload = packet.d as ScheduledMessageDeleteEvent;
+            queryClient.setQueryData<ScheduledMessagePayload[]>(
+              queryKeys.scheduledMessages(payload.channel_id),
+              old => old?.filter(item => item.id !== payload.id),
+            );
+            break;
+          }
+          case "MESSAGE_DELETE_BULK": {
+            const payload = packet.d as MessageDeleteBulkEvent;
+            const deletedIds = new Set(payload.ids);
+            queryClient.setQueryData<InfiniteData<MessagePayload[]>>(
+              queryKeys.messages(payload.channel_id),
+              old => deleteMessages(old, deletedIds),
+            );
+            void queryClient.invalidateQueries({ queryKey: queryKeys.pins(payload.channel_id) });
+            break;
+          }
+          case "MESSAGE_REACTION_ADD":
+          case "MESSAGE_REACTION_REMOVE": {
+            const payload = packet.d as MessageReactionEvent;
+            const isMe = payload.user_id === userId;
+            queryClient.setQueryData<InfiniteData<MessagePayload[]>>(
+              queryKeys.messages(payload.channel_id),
+              old =>
+                patchMessageReactions(old, payload.message_id, reactions =>
+                  packet.t === "MESSAGE_REACTION_ADD"
+                    ? applyReactionAdd(reactions, payload.emoji, isMe)
+                    : applyReactionRemove(reactions, payload.emoji, isMe),
+                ),
+            );
+            break;
+          }
+          case "MESSAGE_REACTION_REMOVE_ALL": {
+            const payload = packet.d as MessageReactionRemoveAllEvent;
+            queryClient.setQueryData<InfiniteData<MessagePayload[]>>(
+              queryKeys.messages(payload.channel_id),
+              old => patchMessageReactions(old, payload.message_id, () => []),
+            );
+            break;
+          }
+          case "MESSAGE_POLL_VOTE_ADD":
+          case "MESSAGE_POLL_VOTE_REMOVE": {
+            const payload = packet.d as MessagePollVoteEvent;
+            const isMe = payload.user_id === userId;
+            queryClient.setQueryData<InfiniteData<MessagePayload[]>>(
+              queryKeys.messages(payload.channel_id),
+              old =>
+                patchMessagePoll(old, payload.message_id, poll =>
+                  packet.t === "MESSAGE_POLL_VOTE_ADD"
+                    ? applyPollVoteAdd(poll, payload.answer_id, isMe)
+                    : applyPollVoteRemove(poll, payload.answer_id, isMe),
+                ),
+            );
+            break;
+          }
+          case "CHANNEL_PINS_UPDATE": {
+            const payload = packet.d as ChannelPinsUpdateEvent;
+            void queryClient.invalidateQueries({ queryKey: queryKeys.pins(payload.channel_id) });
+            break;
+          }
           case "TYPING_START": {
             setTyping(packet.d as TypingEvent);
             break;
           }
           case "READ_STATE_UPDATE": {
-            const payload = packet.d as {
-              channel_id: string;
-              user_id: string;
-              last_read_message_id: string | null;
-            };
+            const payload = packet.d as ReadStateUpdateEvent;
 
             if (payload.user_id === userId) {
+              queryClient.setQueriesData<InfiniteData<MentionsPage>>({ queryKey: queryKeys.mentions }, old =>
+                applyMentionReadState(old, payload),
+              );
               queryClient.setQueryData<DmChannel[]>(queryKeys.dmChannels, old =>
                 (old ?? []).map(channel =>
                   channel.id === payload.channel_id ? { ...channel, unread: false } : channel,
@@ -762,15 +1016,10 @@ export const useGateway = ({ enabled, userId, activeChannelId }: GatewayParams)
             break;
           }
           case "NOTIFICATION_CREATE": {
-            const payload = packet.d as {
-              channel_id: string;
-              guild_id: string | null;
-              message_id: string;
-              author: UserSummary;
-              mentioned: boolean;
-            };
+            const payload = packet.d as NotificationCreateEvent;
 
-            if (payload.channel_id === activeChannelId) {
+            // Reminders were asked for explicitly, so they show even for the open channel.
+            if (!payload.reminder && payload.channel_id === activeChannelId) {
               break;
             }
 
@@ -784,19 +1033,29 @@ export const useGateway = ({ enabled, userId, activeChannelId }: GatewayParams)
             const guildChannel = guildChannels.find(channel => channel.id === payload.channel_id);
             const channelLabel = guildChannel?.name ?? dmChannel?.recipients[0]?.display_name ?? "channel";
 
-            const title = payload.mentioned
-              ? `Mentioned by ${authorName}`
-              : payload.guild_id
-                ? "New message"
-                : `New DM from ${authorName}`;
-            const body = payload.mentioned
-              ? `Mentioned in #${channelLabel}`
-              : payload.guild_id
-                ? `New message in #${channelLabel}`
-                : `Message from ${authorName}`;
+            const title = payload.reminder
+              ? "Reminder"
+              : payload.mentioned
+                ? `Mentioned by ${authorName}`
+                : payload.guild_id
+                  ? "New message"
+                  : `New DM from ${authorName}`;
+            const body = payload.reminder
+              ? payload.guild_id
+                ? `Message from ${authorName} in #${channelLabel}`
+                : `Message from ${authorName}`
+              : payload.mentioned
+                ? `Mentioned in #${channelLabel}`
+                : payload.guild_id
+                  ? `New message in #${channelLabel}`
+                  : `Message from ${authorName}`;
+
+            const openMessage = (): void =>
+              openMessageRef.current?.(payload.guild_id, payload.channel_id, payload.message_id);
 
             toast.message(title, {
               description: body,
+              action: payload.reminder ? { label: "Jump", onClick: openMessage } : undefined,
             });
 
             const me = queryClient.getQueryData<CurrentUser>(queryKeys.me);
@@ -808,9 +1067,15 @@ export const useGateway = ({ enabled, userId, activeChannelId }: GatewayParams)
               "Notification" in window &&
               Notification.permission === "granted"
             ) {
-              void new Notification(title, {
+              const notification = new Notification(title, {
                 body,
               });
+              if (payload.reminder) {
+                notification.onclick = () => {
+                  window.focus();
+                  openMessage();
+                };
+              }
             }
             break;
           }
@@ -836,6 +1101,11 @@ export const useGateway = ({ enabled, userId, activeChannelId }: GatewayParams)
             );
             break;
           }
+          case "GUILD_EMOJIS_UPDATE": {
+            const payload = packet.d as GuildEmojisUpdateEvent;
+            queryClient.setQueryData(queryKeys.guildEmojis(payload.guild_id), payload.emojis);
+            break;
+          }
           case "GUILD_MEMBER_UPDATE": {
             const payload = packet.d as {
               guild_id: string;
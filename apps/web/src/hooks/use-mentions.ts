@@ -0,0 +1,22 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { api, type MentionFilters } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+
+/** Loads messages that mentioned the current user, newest first, while `enabled` is set. */
+export const useMentions = (filters: MentionFilters, enabled: boolean) => {
+  const query = useInfiniteQuery({
+    queryKey: [...queryKeys.mentions, filters],
+    queryFn: ({ pageParam }) => api.listMentions(filters, pageParam || undefined),
+    initialPageParam: "",
+    getNextPageParam: (lastPage) => lastPage.next_before ?? undefined,
+    enabled,
+  });
+
+  const mentions = useMemo(
+    () => query.data?.pages.flatMap((page) => page.mentions) ?? [],
+    [query.data],
+  );
+
+  return { query, mentions };
+};
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { api } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+
+/** Loads the current user's message reminders, soonest first. Fired reminders stay until dismissed. */
+export const useReminders = () => {
+  const query = useQuery({
+    queryKey: queryKeys.reminders,
+    queryFn: api.listReminders,
+  });
+
+  const reminders = useMemo(() => query.data ?? [], [query.data]);
+  const reminderMessageIds = useMemo(
+    () => new Set(reminders.map((reminder) => reminder.message_id)),
+    [reminders],
+  );
+  const firedCount = useMemo(() => reminders.filter((reminder) => reminder.fired).length, [reminders]);
+
+  return { query, reminders, reminderMessageIds, firedCount };
+};
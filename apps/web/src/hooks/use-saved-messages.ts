@@ -0,0 +1,25 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { api } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+
+/** Loads the current user's saved messages page by page, newest save first. */
+export const useSavedMessages = () => {
+  const query = useInfiniteQuery({
+    queryKey: queryKeys.savedMessages,
+    queryFn: ({ pageParam }) => api.listSavedMessages(pageParam || undefined),
+    initialPageParam: "",
+    getNextPageParam: (lastPage) => lastPage.next_before ?? undefined,
+  });
+
+  const savedMessages = useMemo(
+    () => query.data?.pages.flatMap((page) => page.saved_messages) ?? [],
+    [query.data],
+  );
+  const savedMessageIds = useMemo(
+    () => new Set(savedMessages.map((saved) => saved.message_id)),
+    [savedMessages],
+  );
+
+  return { query, savedMessages, savedMessageIds };
+};
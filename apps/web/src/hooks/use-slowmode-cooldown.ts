@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from "react";
+
+const COOLDOWN_TICK_MS = 250;
+
+// Mirrors the server's per-channel slowmode so the composer can count down instead of failing sends.
+export const useSlowmodeCooldown = (channelId: string | null) => {
+  const [cooldownUntilByChannelId, setCooldownUntilByChannelId] = useState<Record<string, number>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const cooldownUntil = channelId ? (cooldownUntilByChannelId[channelId] ?? 0) : 0;
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (cooldownUntil <= Date.now()) {
+      return;
+    }
+
+    const timer = window.setInterval(() => {
+      const tick = Date.now();
+      setNow(tick);
+      if (tick >= cooldownUntil) {
+        window.clearInterval(timer);
+      }
+    }, COOLDOWN_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [cooldownUntil]);
+
+  const startCooldown = useCallback((targetChannelId: string, seconds: number): void => {
+    setCooldownUntilByChannelId((old) => ({ ...old, [targetChannelId]: Date.now() + seconds * 1_000 }));
+  }, []);
+
+  return {
+    remainingSeconds: Math.max(0, Math.ceil((cooldownUntil - now) / 1_000)),
+    startCooldown,
+  };
+};
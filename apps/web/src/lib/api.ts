@@ -2,14 +2,29 @@ import type {
   BadgesPayload,
   ChannelBadgePayload,
   DmChannelPayload,
+  FollowedChannelPayload,
+  ForumLayoutValue,
+  ForumPostPayload,
+  ForumSortOrderValue,
   GuildBadgePayload,
   GuildChannelPayload,
+  GuildEmoji,
   GuildMemberListItem,
   GuildRole,
   InvitePayload,
+  MentionsPage,
+  MessageDraftPayload,
+  MessageReminderPayload,
   MessagePayload,
+  MessageRevision,
+  MessageSearchResponse,
   NotificationLevel,
   PartialGuild,
+  SavedMessagePayload,
+  SavedMessagesPage,
+  ScheduledMessagePayload,
+  ThreadAutoArchiveDuration,
+  ThreadMemberPayload,
   UserSummary,
 } from "@edgewire/types";
 import { apiFetch } from "./http";
@@ -69,6 +84,37 @@ export type AllowedMentions = {
   parse?: Array<"users" | "roles" | "everyone">;
   users?: string[];
   roles?: string[];
+  replied_user?: boolean;
+};
+
+export type MessageReferenceInput = {
+  message_id: string;
+  fail_if_not_exists?: boolean;
+};
+
+export type PollCreateInput = {
+  question: string;
+  answers: Array<{ text: string }>;
+  allow_multiselect?: boolean;
+  duration: number;
+};
+
+export type ForumTagInput = {
+  id?: string;
+  name: string;
+  moderated: boolean;
+  emoji_name: string | null;
+};
+
+export type MessageSearchScope =
+  | { kind: "guild"; guildId: string }
+  | { kind: "dm" };
+
+export type MentionFilters = {
+  guild_id?: string;
+  everyone?: boolean;
+  roles?: boolean;
+  unread?: boolean;
 };
 
 export type ChannelBadge = ChannelBadgePayload;
@@ -117,6 +163,13 @@ export type CompleteUploadResponse =
       filename: string;
       size: number;
       content_type: string | null;
+    }
+  | {
+      upload_id: string;
+      kind: "emoji";
+      guild_id: string;
+      size: number;
+      content_type: string | null;
     };
 
 export const api = {
@@ -147,6 +200,14 @@ export const api = {
   getGuildVoiceState: (guildId: string) =>
     apiFetch<GuildVoiceStateMap>(`/api/guilds/${guildId}/voice-state`),
   getBadges: () => apiFetch<BadgesResponse>("/api/badges"),
+  ackGuild: (guildId: string) =>
+    apiFetch<BadgesResponse>(`/api/guilds/${guildId}/ack`, {
+      method: "POST",
+    }),
+  ackDmChannels: () =>
+    apiFetch<BadgesResponse>("/api/users/@me/channels/ack", {
+      method: "POST",
+    }),
   patchGuildNotificationSettings: (
     guildId: string,
     body: Partial<{
@@ -218,6 +279,7 @@ export const api = {
       explicit_content_filter: number;
       preferred_locale: string;
       system_channel_id: string | null;
+      system_channel_flags: number;
       rules_channel_id: string | null;
       public_updates_channel_id: string | null;
     }>,
@@ -239,10 +301,13 @@ export const api = {
     guildId: string,
     payload: {
       name: string;
-      type: 0 | 2 | 4;
+      type: 0 | 2 | 4 | 5 | 15;
       parent_id?: string | null;
       position?: number;
       topic?: string | null;
+      available_tags?: ForumTagInput[];
+      default_sort_order?: ForumSortOrderValue | null;
+      default_forum_layout?: ForumLayoutValue;
     },
   ) =>
     apiFetch<GuildChannel>(`/api/guilds/${guildId}/channels`, {
@@ -256,6 +321,14 @@ export const api = {
       topic?: string | null;
       parent_id?: string | null;
       position?: number;
+      rate_limit_per_user?: number;
+      message_ttl?: number;
+      archived?: boolean;
+      auto_archive_duration?: ThreadAutoArchiveDuration;
+      available_tags?: ForumTagInput[];
+      applied_tags?: string[];
+      default_sort_order?: ForumSortOrderValue | null;
+      default_forum_layout?: ForumLayoutValue;
     },
   ) =>
     apiFetch<GuildChannel | { id: string }>(`/api/channels/${channelId}`, {
@@ -266,6 +339,15 @@ export const api = {
     apiFetch<void>(`/api/channels/${channelId}`, {
       method: "DELETE",
     }),
+  followChannel: (channelId: string, targetChannelId: string) =>
+    apiFetch<FollowedChannelPayload>(`/api/channels/${channelId}/followers`, {
+      method: "POST",
+      body: JSON.stringify({ target_channel_id: targetChannelId }),
+    }),
+  unfollowChannel: (channelId: string, targetChannelId: string) =>
+    apiFetch<void>(`/api/channels/${channelId}/followers/${targetChannelId}`, {
+      method: "DELETE",
+    }),
   editChannelPermissionOverwrite: (
     channelId: string,
     overwriteId: string,
@@ -308,6 +390,22 @@ export const api = {
       method: "DELETE",
     }),
 
+  listGuildEmojis: (guildId: string) => apiFetch<GuildEmoji[]>(`/api/guilds/${guildId}/emojis`),
+  createGuildEmoji: (guildId: string, payload: { name: string; upload_id: string }) =>
+    apiFetch<GuildEmoji>(`/api/guilds/${guildId}/emojis`, {
+      method: "POST",
+      body: JSON.stringify(payload),
+    }),
+  updateGuildEmoji: (guildId: string, emojiId: string, payload: { name: string }) =>
+    apiFetch<GuildEmoji>(`/api/guilds/${guildId}/emojis/${emojiId}`, {
+      method: "PATCH",
+      body: JSON.stringify(payload),
+    }),
+  deleteGuildEmoji: (guildId: string, emojiId: string) =>
+    apiFetch<void>(`/api/guilds/${guildId}/emojis/${emojiId}`, {
+      method: "DELETE",
+    }),
+
   listGuildMembers: (
     guildId: string,
     params?: {
@@ -338,20 +436,126 @@ export const api = {
       { method: "DELETE" },
     ),
 
-  listMessages: (channelId: string, before?: string, limit = 50) => {
+  listMessages: (
+    channelId: string,
+    cursor: { before?: string; after?: string; around?: string } = {},
+    limit = 50,
+  ) => {
     const params = new URLSearchParams();
     params.set("limit", String(limit));
+    if (cursor.before) {
+      params.set("before", cursor.before);
+    } else if (cursor.after) {
+      params.set("after", cursor.after);
+    } else if (cursor.around) {
+      params.set("around", cursor.around);
+    }
+    return apiFetch<MessagePayload[]>(`/api/channels/${channelId}/messages?${params.toString()}`);
+  },
+  searchMessages: (scope: MessageSearchScope, q: string, offset = 0) => {
+    const params = new URLSearchParams();
+    params.set("q", q);
+    params.set("offset", String(offset));
+    const path =
+      scope.kind === "guild"
+        ? `/api/guilds/${scope.guildId}/messages/search`
+        : "/api/users/@me/messages/search";
+    return apiFetch<MessageSearchResponse>(`${path}?${params.toString()}`);
+  },
+  listSavedMessages: (before?: string) => {
+    const params = new URLSearchParams();
     if (before) {
       params.set("before", before);
     }
-    return apiFetch<MessagePayload[]>(`/api/channels/${channelId}/messages?${params.toString()}`);
+    const suffix = params.toString();
+    return apiFetch<SavedMessagesPage>(`/api/users/@me/saved-messages${suffix ? `?${suffix}` : ""}`);
   },
+  saveMessage: (messageId: string, payload: { note?: string | null } = {}) =>
+    apiFetch<SavedMessagePayload>(`/api/users/@me/saved-messages/${messageId}`, {
+      method: "PUT",
+      body: JSON.stringify(payload),
+    }),
+  unsaveMessage: (messageId: string) =>
+    apiFetch<void>(`/api/users/@me/saved-messages/${messageId}`, {
+      method: "DELETE",
+    }),
+  listMentions: (filters: MentionFilters = {}, before?: string) => {
+    const query = new URLSearchParams();
+    if (before) {
+      query.set("before", before);
+    }
+    if (filters.guild_id) {
+      query.set("guild_id", filters.guild_id);
+    }
+    if (filters.everyone === false) {
+      query.set("everyone", "false");
+    }
+    if (filters.roles === false) {
+      query.set("roles", "false");
+    }
+    if (filters.unread) {
+      query.set("unread", "true");
+    }
+    const suffix = query.toString();
+    return apiFetch<MentionsPage>(`/api/users/@me/mentions${suffix ? `?${suffix}` : ""}`);
+  },
+  listReminders: () => apiFetch<MessageReminderPayload[]>("/api/users/@me/reminders"),
+  setReminder: (messageId: string, payload: { remind_at: string }) =>
+    apiFetch<MessageReminderPayload>(`/api/users/@me/reminders/${messageId}`, {
+      method: "PUT",
+      body: JSON.stringify(payload),
+    }),
+  deleteReminder: (messageId: string) =>
+    apiFetch<void>(`/api/users/@me/reminders/${messageId}`, {
+      method: "DELETE",
+    }),
+  listDrafts: () => apiFetch<MessageDraftPayload[]>("/api/users/@me/drafts"),
+  putDraft: (channelId: string, payload: { content: string; attachment_upload_ids?: string[] }) =>
+    apiFetch<MessageDraftPayload | undefined>(`/api/users/@me/drafts/${channelId}`, {
+      method: "PUT",
+      body: JSON.stringify(payload),
+    }),
+  deleteDraft: (channelId: string) =>
+    apiFetch<void>(`/api/users/@me/drafts/${channelId}`, {
+      method: "DELETE",
+    }),
+
+  listScheduledMessages: (channelId: string) =>
+    apiFetch<ScheduledMessagePayload[]>(`/api/channels/${channelId}/scheduled-messages`),
+  createScheduledMessage: (
+    channelId: string,
+    payload: {
+      content?: string;
+      attachment_upload_ids?: string[];
+      allowed_mentions?: AllowedMentions;
+      scheduled_at: string;
+    },
+  ) =>
+    apiFetch<ScheduledMessagePayload>(`/api/channels/${channelId}/scheduled-messages`, {
+      method: "POST",
+      body: JSON.stringify(payload),
+    }),
+  updateScheduledMessage: (
+    channelId: string,
+    scheduledMessageId: string,
+    payload: { content?: string; allowed_mentions?: AllowedMentions | null; scheduled_at?: string },
+  ) =>
+    apiFetch<ScheduledMessagePayload>(`/api/channels/${channelId}/scheduled-messages/${scheduledMessageId}`, {
+      method: "PATCH",
+      body: JSON.stringify(payload),
+    }),
+  deleteScheduledMessage: (channelId: string, scheduledMessageId: string) =>
+    apiFetch<void>(`/api/channels/${channelId}/scheduled-messages/${scheduledMessageId}`, {
+      method: "DELETE",
+    }),
   createMessage: (
     channelId: string,
     payload: {
       content?: string;
       attachment_upload_ids?: string[];
       allowed_mentions?: AllowedMentions;
+      message_reference?: MessageReferenceInput;
+      poll?: PollCreateInput;
     },
   ) =>
     apiFetch<MessagePayload>(`/api/channels/${channelId}/messages`, {
@@ -361,7 +565,7 @@ export const api = {
   editMessage: (
     channelId: string,
     messageId: string,
-    body: { content: string; allowed_mentions?: AllowedMentions },
+    body: { content?: string; allowed_mentions?: AllowedMentions; flags?: number },
   ) =>
     apiFetch<MessagePayload>(`/api/channels/${channelId}/messages/${messageId}`, {
       method: "PATCH",
@@ -371,6 +575,104 @@ export const api = {
     apiFetch<void>(`/api/channels/${channelId}/messages/${messageId}`, {
       method: "DELETE",
     }),
+  addReaction: (channelId: string, messageId: string, emoji: string) =>
+    apiFetch<void>(
+      `/api/channels/${channelId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}/@me`,
+      { method: "PUT" },
+    ),
+  removeReaction: (channelId: string, messageId: string, emoji: string) =>
+    apiFetch<void>(
+      `/api/channels/${channelId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}/@me`,
+      { method: "DELETE" },
+    ),
+  addPollVote: (channelId: string, messageId: string, answerId: number) =>
+    apiFetch<void>(`/api/channels/${channelId}/messages/${messageId}/poll/answers/${answerId}/@me`, {
+      method: "PUT",
+    }),
+  removePollVote: (channelId: string, messageId: string, answerId: number) =>
+    apiFetch<void>(`/api/channels/${channelId}/messages/${messageId}/poll/answers/${answerId}/@me`, {
+      method: "DELETE",
+    }),
+  listReactionUsers: (channelId: string, messageId: string, emoji: string, limit = 25) =>
+    apiFetch<UserSummary[]>(
+      `/api/channels/${channelId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}?limit=${limit}`,
+    ),
+  removeAllReactions: (channelId: string, messageId: string) =>
+    apiFetch<void>(`/api/channels/${channelId}/messages/${messageId}/reactions`, {
+      method: "DELETE",
+    }),
+  listMessageRevisions: (channelId: string, messageId: string) =>
+    apiFetch<MessageRevision[]>(`/api/channels/${channelId}/messages/${messageId}/revisions`),
+
+  createThreadFromMessage: (
+    channelId: string,
+    messageId: string,
+    payload: { name: string; auto_archive_duration?: ThreadAutoArchiveDuration },
+  ) =>
+    apiFetch<GuildChannel>(`/api/channels/${channelId}/messages/${messageId}/threads`, {
+      method: "POST",
+      body: JSON.stringify(payload),
+    }),
+  createThread: (
+    channelId: string,
+    payload: { name: string; type?: 11 | 12; auto_archive_duration?: ThreadAutoArchiveDuration },
+  ) =>
+    apiFetch<GuildChannel>(`/api/channels/${channelId}/threads`, {
+      method: "POST",
+      body: JSON.stringify(payload),
+    }),
+  listThreads: (channelId: string, archived = false) =>
+    apiFetch<GuildChannel[]>(`/api/channels/${channelId}/threads?archived=${archived}`),
+  listForumPosts: (
+    channelId: string,
+    filters: { sort_order?: ForumSortOrderValue; tag_ids?: string[]; archived?: boolean } = {},
+  ) => {
+    const params = new URLSearchParams();
+    if (filters.sort_order !== undefined) {
+      params.set("sort_order", String(filters.sort_order));
+    }
+    for (const tagId of filters.tag_ids ?? []) {
+      params.append("tag_id", tagId);
+    }
+    if (filters.archived) {
+      params.set("archived", "true");
+    }
+    const suffix = params.toString();
+    return apiFetch<ForumPostPayload[]>(`/api/channels/${channelId}/forum-posts${suffix ? `?${suffix}` : ""}`);
+  },
+  createForumPost: (
+    channelId: string,
+    payload: { name: string; applied_tags?: string[]; message: { content: string } },
+  ) =>
+    apiFetch<ForumPostPayload>(`/api/channels/${channelId}/threads`, {
+      method: "POST",
+      body: JSON.stringify(payload),
+    }),
+  listThreadMembers: (threadId: string) =>
+    apiFetch<ThreadMemberPayload[]>(`/api/channels/${threadId}/thread-members`),
+  addThreadMember: (threadId: string, userId = "@me") =>
+    apiFetch<void>(`/api/channels/${threadId}/thread-members/${userId}`, {
+      method: "PUT",
+    }),
+  removeThreadMember: (threadId: string, userId = "@me") =>
+    apiFetch<void>(`/api/channels/${threadId}/thread-members/${userId}`, {
+      method: "DELETE",
+    }),
+
+  listPins: (channelId: string) =>
+    apiFetch<MessagePayload[]>(`/api/channels/${channelId}/pins`),
+  crosspostMessage: (channelId: string, messageId: string) =>
+    apiFetch<MessagePayload>(`/api/channels/${channelId}/messages/${messageId}/crosspost`, {
+      method: "POST",
+    }),
+  pinMessage: (channelId: string, messageId: string) =>
+    apiFetch<void>(`/api/channels/${channelId}/pins/${messageId}`, {
+      method: "PUT",
+    }),
+  unpinMessage: (channelId: string, messageId: string) =>
+    apiFetch<void>(`/api/channels/${channelId}/pins/${messageId}`, {
+      method: "DELETE",
+    }),
 
   triggerTyping: (channelId: string) =>
     apiFetch<void>(`/api/channels/${channelId}/typing`, {
@@ -407,6 +709,11 @@ export const api = {
       method: "POST",
       body: JSON.stringify(payload),
     }),
+  initEmojiUpload: (payload: { guild_id: string; filename: string; content_type: string; size: number }) =>
+    apiFetch<UploadInitResponse>("/api/uploads/emoji", {
+      method: "POST",
+      body: JSON.stringify(payload),
+    }),
   completeUpload: (uploadId: string) =>
     apiFetch<CompleteUploadResponse>(`/api/uploads/${uploadId}/complete`, {
       method: "POST",
@@ -0,0 +1,26 @@
+import type { GuildEmoji } from "@edgewire/types";
+import { API_BASE_URL } from "./env";
+
+// Code spans are matched first so `:name:` inside them is left exactly as typed.
+const EMOJI_SHORTCODE_OR_CODE_REGEX = /(```[\s\S]*?```|`[^`\n]*`)|(?<![<\w]):([A-Za-z0-9_]{2,32}):(?!\d)/g;
+
+export const customEmojiUrl = (emojiId: string): string => `${API_BASE_URL}/api/emojis/${emojiId}`;
+
+export const formatCustomEmoji = (emoji: Pick<GuildEmoji, "id" | "name" | "animated">): string =>
+  `<${emoji.animated ? "a" : ""}:${emoji.name}:${emoji.id}>`;
+
+/** Turns typed `:name:` shortcodes into `<:name:id>` tokens for the guild's custom emojis. */
+export const serializeComposerEmojis = (value: string, emojis: GuildEmoji[]): string => {
+  if (emojis.length === 0 || !value.includes(":")) {
+    return value;
+  }
+
+  const emojisByName = new Map(emojis.map(emoji => [emoji.name, emoji]));
+  return value.replace(EMOJI_SHORTCODE_OR_CODE_REGEX, (match, code: string | undefined, name: string) => {
+    if (code) {
+      return match;
+    }
+    const emoji = emojisByName.get(name);
+    return emoji ? formatCustomEmoji(emoji) : match;
+  });
+};
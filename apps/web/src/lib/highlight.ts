@@ -0,0 +1,238 @@
+export type HighlightTokenType = "plain" | "keyword" | "string" | "number" | "comment";
+
+export type HighlightToken = {
+  type: HighlightTokenType;
+  content: string;
+};
+
+type LanguageSpec = {
+  keywords: Set<string>;
+  caseInsensitive?: boolean;
+  lineComments: string[];
+  blockComment?: [string, string];
+  quotes: string[];
+};
+
+const C_LIKE_COMMENTS = { lineComments: ["//"], blockComment: ["/*", "*/"] as [string, string] };
+
+const JAVASCRIPT_KEYWORDS = [
+  "async", "await", "break", "case", "catch", "class", "const", "continue", "default", "delete", "do",
+  "else", "export", "extends", "false", "finally", "for", "from", "function", "if", "import", "in",
+  "instanceof", "let", "new", "null", "of", "return", "static", "super", "switch", "this", "throw",
+  "true", "try", "typeof", "undefined", "var", "void", "while", "yield",
+];
+
+const LANGUAGE_SPECS: Record<string, LanguageSpec> = {
+  javascript: { ...C_LIKE_COMMENTS, keywords: new Set(JAVASCRIPT_KEYWORDS), quotes: ['"', "'", "`"] },
+  typescript: {
+    ...C_LIKE_COMMENTS,
+    keywords: new Set([
+      ...JAVASCRIPT_KEYWORDS,
+      "any", "as", "boolean", "enum", "implements", "interface", "keyof", "never", "number",
+      "private", "protected", "public", "readonly", "satisfies", "string", "type", "unknown",
+    ]),
+    quotes: ['"', "'", "`"],
+  },
+  python: {
+    keywords: new Set([
+      "and", "as", "assert", "async", "await", "break", "class", "continue", "def", "del", "elif",
+      "else", "except", "False", "finally", "for", "from", "global", "if", "import", "in", "is",
+      "lambda", "None", "nonlocal", "not", "or", "pass", "raise", "return", "True", "try", "while",
+      "with", "yield",
+    ]),
+    lineComments: ["#"],
+    quotes: ['"', "'"],
+  },
+  bash: {
+    keywords: new Set([
+      "case", "do", "done", "echo", "elif", "else", "esac", "exit", "export", "fi", "for", "function",
+      "if", "in", "local", "return", "then", "until", "while",
+    ]),
+    lineComments: ["#"],
+    quotes: ['"', "'"],
+  },
+  json: { keywords: new Set(["true", "false", "null"]), lineComments: [], quotes: ['"'] },
+  go: {
+    ...C_LIKE_COMMENTS,
+    keywords: new Set([
+      "break", "case", "chan", "const", "continue", "default", "defer", "else", "false", "for", "func",
+      "go", "if", "import", "interface", "map", "nil", "package", "range", "return", "select", "struct",
+      "switch", "true", "type", "var",
+    ]),
+    quotes: ['"', "'", "`"],
+  },
+  rust: {
+    ...C_LIKE_COMMENTS,
+    keywords: new Set([
+      "as", "async", "await", "break", "const", "continue", "crate", "else", "enum", "false", "fn",
+      "for", "if", "impl", "in", "let", "loop", "match", "mod", "move", "mut", "pub", "ref", "return",
+      "self", "Self", "static", "struct", "trait", "true", "type", "use", "where", "while",
+    ]),
+    quotes: ['"'],
+  },
+  c: {
+    ...C_LIKE_COMMENTS,
+    keywords: new Set([
+      "auto", "bool", "break", "case", "char", "class", "const", "continue", "default", "delete", "do",
+      "double", "else", "enum", "extern", "false", "float", "for", "if", "int", "long", "namespace",
+      "new", "nullptr", "private", "public", "return", "short", "signed", "sizeof", "static", "struct",
+      "switch", "template", "this", "true", "typedef", "unsigned", "using", "void", "while",
+    ]),
+    quotes: ['"', "'"],
+  },
+  java: {
+    ...C_LIKE_COMMENTS,
+    keywords: new Set([
+      "abstract", "boolean", "break", "case", "catch", "class", "const", "continue", "default", "do",
+      "double", "else", "enum", "extends", "false", "final", "finally", "float", "for", "if",
+      "implements", "import", "int", "interface", "long", "namespace", "new", "null", "override",
+      "package", "private", "protected", "public", "return", "static", "string", "super", "switch",
+      "this", "throw", "true", "try", "using", "var", "void", "while",
+    ]),
+    quotes: ['"', "'"],
+  },
+  sql: {
+    keywords: new Set([
+      "and", "as", "asc", "by", "create", "delete", "desc", "distinct", "drop", "from", "group",
+      "having", "in", "index", "insert", "into", "is", "join", "left", "limit", "not", "null", "on",
+      "or", "order", "select", "set", "table", "update", "values", "where",
+    ]),
+    caseInsensitive: true,
+    lineComments: ["--"],
+    blockComment: ["/*", "*/"],
+    quotes: ["'", '"'],
+  },
+  yaml: { keywords: new Set(["true", "false", "null", "yes", "no"]), lineComments: ["#"], quotes: ['"', "'"] },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  ts: "typescript",
+  tsx: "typescript",
+  py: "python",
+  sh: "bash",
+  shell: "bash",
+  zsh: "bash",
+  golang: "go",
+  rs: "rust",
+  h: "c",
+  cpp: "c",
+  "c++": "c",
+  cs: "java",
+  csharp: "java",
+  kotlin: "java",
+  kt: "java",
+  yml: "yaml",
+};
+
+const NUMBER_REGEX = /\d[\w.]*/y;
+const IDENTIFIER_REGEX = /[A-Za-z_$][\w$]*/y;
+
+const resolveLanguageSpec = (language: string | null): LanguageSpec | null => {
+  if (!language) {
+    return null;
+  }
+
+  const normalized = language.toLowerCase();
+  return LANGUAGE_SPECS[LANGUAGE_ALIASES[normalized] ?? normalized] ?? null;
+};
+
+const matchSticky = (regex: RegExp, source: string, position: number): string | null => {
+  regex.lastIndex = position;
+  return regex.exec(source)?.[0] ?? null;
+};
+
+const findStringEnd = (source: string, start: number, quote: string): number => {
+  let position = start + 1;
+  while (position < source.length) {
+    const character = source[position];
+    if (character === "\\") {
+      position += 2;
+      continue;
+    }
+    if (character === quote) {
+      return position + 1;
+    }
+    // Only template literals may span lines; anything else stops at the newline.
+    if (character === "\n" && quote !== "`") {
+      return position;
+    }
+    position += 1;
+  }
+
+  return source.length;
+};
+
+/**
+ * Splits code into coloured runs for fenced code blocks. This is a deliberately small
+ * lexer — keywords, strings, numbers and comments — rather than a full grammar.
+ */
+export const highlightCode = (code: string, language: string | null): HighlightToken[] => {
+  const spec = resolveLanguageSpec(language);
+  if (!spec) {
+    return [{ type: "plain", content: code }];
+  }
+
+  const tokens: HighlightToken[] = [];
+  const push = (type: HighlightTokenType, content: string): void => {
+    const previous = tokens[tokens.length - 1];
+    if (previous && previous.type === type) {
+      previous.content += content;
+      return;
+    }
+    tokens.push({ type, content });
+  };
+
+  let position = 0;
+  while (position < code.length) {
+    const blockComment = spec.blockComment;
+    if (blockComment && code.startsWith(blockComment[0], position)) {
+      const close = code.indexOf(blockComment[1], position + blockComment[0].length);
+      const end = close === -1 ? code.length : close + blockComment[1].length;
+      push("comment", code.slice(position, end));
+      position = end;
+      continue;
+    }
+
+    if (spec.lineComments.some(marker => code.startsWith(marker, position))) {
+      const newline = code.indexOf("\n", position);
+      const end = newline === -1 ? code.length : newline;
+      push("comment", code.slice(position, end));
+      position = end;
+      continue;
+    }
+
+    const character = code[position]!;
+    if (spec.quotes.includes(character)) {
+      const end = findStringEnd(code, position, character);
+      push("string", code.slice(position, end));
+      position = end;
+      continue;
+    }
+
+    const previous = code[position - 1];
+    const atWordStart = previous === undefined || !/[\w$]/.test(previous);
+    const number = atWordStart ? matchSticky(NUMBER_REGEX, code, position) : null;
+    if (number) {
+      push("number", number);
+      position += number.length;
+      continue;
+    }
+
+    const identifier = atWordStart ? matchSticky(IDENTIFIER_REGEX, code, position) : null;
+    if (identifier) {
+      const keyword = spec.caseInsensitive ? identifier.toLowerCase() : identifier;
+      push(spec.keywords.has(keyword) ? "keyword" : "plain", identifier);
+      position += identifier.length;
+      continue;
+    }
+
+    push("plain", character);
+    position += 1;
+  }
+
+  return tokens;
+};
@@ -2,11 +2,13 @@ import { API_BASE_URL } from "./env";
 
 export class ApiError extends Error {
   readonly status: number;
+  readonly retryAfter: number | null;
 
-  constructor(status: number, message: string) {
+  constructor(status: number, message: string, retryAfter: number | null = null) {
     super(message);
     this.name = "ApiError";
     this.status = status;
+    this.retryAfter = retryAfter;
   }
 }
 
@@ -36,7 +38,11 @@ export const apiFetch = async <T>(path: string, init?: RequestInit): Promise<T>
       typeof body === "object" && body !== null && "error" in body && typeof (body as Record<string, unknown>).error === "string"
         ? String((body as Record<string, unknown>).error)
         : `Request failed (${response.status})`;
-    throw new ApiError(response.status, message);
+    const retryAfter =
+      typeof body === "object" && body !== null && typeof (body as Record<string, unknown>).retry_after === "number"
+        ? Number((body as Record<string, unknown>).retry_after)
+        : null;
+    throw new ApiError(response.status, message, retryAfter);
   }
 
   return body as T;
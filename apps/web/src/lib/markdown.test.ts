@@ -0,0 +1,102 @@
+import { describe, expect, it } from "bun:test";
+import { parseMarkdown, toMarkdownSource } from "./markdown";
+
+describe("markdown parsing", () => {
+  it("parses nested inline styles", () => {
+    expect(parseMarkdown("***hi*** __under__ ~~gone~~ ||secret||")).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          {
+            type: "bold",
+            marker: "**",
+            children: [{ type: "italic", marker: "*", children: [{ type: "text", content: "hi" }] }],
+          },
+          { type: "text", content: " " },
+          { type: "underline", marker: "__", children: [{ type: "text", content: "under" }] },
+          { type: "text", content: " " },
+          { type: "strikethrough", marker: "~~", children: [{ type: "text", content: "gone" }] },
+          { type: "text", content: " " },
+          { type: "spoiler", marker: "||", children: [{ type: "text", content: "secret" }] },
+        ],
+      },
+    ]);
+  });
+
+  it("leaves markdown inside inline code and snake_case words alone", () => {
+    expect(parseMarkdown("`**not bold**` snake_case_name")).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          { type: "inline_code", marker: "`", content: "**not bold**" },
+          { type: "text", content: " snake_case_name" },
+        ],
+      },
+    ]);
+  });
+
+  it("keeps mention tokens as leaves", () => {
+    expect(parseMarkdown("**<@123>** hi @everyone")).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          { type: "bold", marker: "**", children: [{ type: "mention", token: "<@123>" }] },
+          { type: "text", content: " hi " },
+          { type: "mention", token: "@everyone" },
+        ],
+      },
+    ]);
+  });
+
+  it("parses custom emoji tokens before mentions", () => {
+    expect(parseMarkdown("hi <a:party_blob:42> <:bad:x>")).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          { type: "text", content: "hi " },
+          { type: "custom_emoji", token: "<a:party_blob:42>", name: "party_blob", id: "42", animated: true },
+          { type: "text", content: " <:bad:x>" },
+        ],
+      },
+    ]);
+  });
+
+  it("only accepts http links as masked link targets", () => {
+    const [safe] = parseMarkdown("[docs](https://example.com/a)");
+    const [unsafe] = parseMarkdown("[click](javascript:alert(1))");
+
+    expect(safe).toEqual({
+      type: "paragraph",
+      children: [{ type: "link", url: "https://example.com/a", children: [{ type: "text", content: "docs" }] }],
+    });
+    expect(unsafe).toEqual({
+      type: "paragraph",
+      children: [{ type: "text", content: "[click](javascript:alert(1))" }],
+    });
+  });
+
+  it("parses headings, quotes and fenced code blocks", () => {
+    const blocks = parseMarkdown("# Title\n> quoted\n> more\n```ts\nconst a = 1;\n```\nafter");
+
+    expect(blocks.map(block => block.type)).toEqual(["heading", "blockquote", "code_block", "paragraph"]);
+    expect(blocks[0]).toMatchObject({ level: 1, children: [{ type: "text", content: "Title" }] });
+    expect(blocks[1]).toMatchObject({ lines: [{ marker: "> " }, { marker: "> " }] });
+    expect(blocks[2]).toEqual({ type: "code_block", language: "ts", open: "```ts\n", content: "const a = 1;\n" });
+  });
+
+  it("round-trips any input back to its source", () => {
+    const samples = [
+      "",
+      "plain\n\ntext\n",
+      "**unclosed *italic",
+      ">>> everything\nis quoted",
+      "```\nno closing fence",
+      "\\*escaped\\* [x](https://a.b) https://c.d/e. ||a **b|| c**",
+      "# h\n## h2\n###nope\n> q\n```js\nlet x = `y`;\n```",
+    ];
+
+    for (const sample of samples) {
+      expect(toMarkdownSource(parseMarkdown(sample))).toBe(sample);
+    }
+  });
+});
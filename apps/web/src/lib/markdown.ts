@@ -0,0 +1,398 @@
+export type MarkdownStyle = "bold" | "italic" | "underline" | "strikethrough" | "spoiler";
+
+export type MarkdownInline =
+  | { type: "text"; content: string }
+  | { type: "escape"; content: string }
+  | { type: "mention"; token: string }
+  | { type: "custom_emoji"; token: string; name: string; id: string; animated: boolean }
+  | { type: "url"; url: string }
+  | { type: "inline_code"; marker: string; content: string }
+  | { type: "link"; url: string; children: MarkdownInline[] }
+  | { type: MarkdownStyle; marker: string; children: MarkdownInline[] };
+
+export type MarkdownQuoteLine = {
+  marker: string;
+  children: MarkdownInline[];
+};
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: 1 | 2 | 3; marker: string; children: MarkdownInline[] }
+  | { type: "blockquote"; lines: MarkdownQuoteLine[] }
+  | { type: "code_block"; language: string | null; open: string; content: string };
+
+export const CODE_FENCE = "```";
+
+const STYLE_DELIMITERS: { marker: string; style: MarkdownStyle }[] = [
+  { marker: "||", style: "spoiler" },
+  { marker: "**", style: "bold" },
+  { marker: "__", style: "underline" },
+  { marker: "~~", style: "strikethrough" },
+  { marker: "*", style: "italic" },
+  { marker: "_", style: "italic" },
+];
+
+const ESCAPABLE_CHARACTERS = "\\*_~|`>#[]()<@:";
+const CUSTOM_EMOJI_TOKEN_REGEX = /<(a?):([A-Za-z0-9_]{2,32}):(\d+)>/y;
+const MENTION_TOKEN_REGEX = /<@!?[^\s>]+>|<@&[^\s>]+>|<#[^\s>]+>|@(?:everyone|here)\b/y;
+const URL_REGEX = /https?:\/\/[^\s<]*[^\s<.,:;"')\]!?*_~|]/y;
+const LINK_URL_REGEX = /https?:\/\/[^\s()<>]+/y;
+const HEADING_REGEX = /^(#{1,3}) (?=\S)/;
+const CODE_FENCE_OPEN_REGEX = /^```[\w+#.-]*\n/;
+const WORD_CHARACTER_REGEX = /\w/;
+const WHITESPACE_REGEX = /\s/;
+
+type InlineMatch = { node: MarkdownInline; end: number };
+type InlineResult = { nodes: MarkdownInline[]; end: number; closed: boolean };
+
+const isWordCharacter = (value: string | undefined): boolean =>
+  value !== undefined && WORD_CHARACTER_REGEX.test(value);
+
+const isWhitespace = (value: string | undefined): boolean =>
+  value === undefined || WHITESPACE_REGEX.test(value);
+
+const matchSticky = (regex: RegExp, source: string, position: number): string | null => {
+  regex.lastIndex = position;
+  return regex.exec(source)?.[0] ?? null;
+};
+
+const parseInline = (source: string): MarkdownInline[] => {
+  const memo = new Map<string, InlineResult>();
+  const lastClosableByCloser = new Map<string, number>();
+
+  const canOpen = (position: number, marker: string): boolean => {
+    if (isWhitespace(source[position + marker.length])) {
+      return false;
+    }
+
+    return marker !== "_" || !isWordCharacter(source[position - 1]);
+  };
+
+  const canClose = (position: number, marker: string): boolean => {
+    if (!source.startsWith(marker, position)) {
+      return false;
+    }
+    if (marker.length === 1 && isWhitespace(source[position - 1])) {
+      return false;
+    }
+
+    return marker !== "_" || !isWordCharacter(source[position + 1]);
+  };
+
+  const findLastClosable = (closer: string): number => {
+    let last = lastClosableByCloser.get(closer);
+    if (last === undefined) {
+      last = -1;
+      for (let position = source.length - closer.length; position > 0; position -= 1) {
+        if (canClose(position, closer)) {
+          last = position;
+          break;
+        }
+      }
+      lastClosableByCloser.set(closer, last);
+    }
+
+    return last;
+  };
+
+  const matchInline = (position: number): InlineMatch | null => {
+    const character = source[position];
+
+    if (character === "\\") {
+      const escaped = source[position + 1];
+      if (escaped && ESCAPABLE_CHARACTERS.includes(escaped)) {
+        return { node: { type: "escape", content: escaped }, end: position + 2 };
+      }
+      return null;
+    }
+
+    if (character === "`") {
+      let runEnd = position;
+      while (source[runEnd] === "`") {
+        runEnd += 1;
+      }
+      const marker = source.slice(position, runEnd);
+      const close = source.indexOf(marker, runEnd + 1);
+      if (close === -1) {
+        return null;
+      }
+      return {
+        node: { type: "inline_code", marker, content: source.slice(runEnd, close) },
+        end: close + marker.length,
+      };
+    }
+
+    if (character === "<") {
+      CUSTOM_EMOJI_TOKEN_REGEX.lastIndex = position;
+      const emoji = CUSTOM_EMOJI_TOKEN_REGEX.exec(source);
+      if (emoji) {
+        return {
+          node: {
+            type: "custom_emoji",
+            token: emoji[0],
+            name: emoji[2]!,
+            id: emoji[3]!,
+            animated: emoji[1] === "a",
+          },
+          end: position + emoji[0].length,
+        };
+      }
+    }
+
+    if (character === "<" || (character === "@" && !isWordCharacter(source[position - 1]))) {
+      const token = matchSticky(MENTION_TOKEN_REGEX, source, position);
+      if (token) {
+        return { node: { type: "mention", token }, end: position + token.length };
+      }
+    }
+
+    if (character === "[") {
+      const label = parseUntil(position + 1, "]");
+      if (label.closed && source[label.end] === "(") {
+        const url = matchSticky(LINK_URL_REGEX, source, label.end + 1);
+        const urlEnd = label.end + 1 + (url?.length ?? 0);
+        if (url && source[urlEnd] === ")") {
+          return { node: { type: "link", url, children: label.nodes }, end: urlEnd + 1 };
+        }
+      }
+      return null;
+    }
+
+    if (character === "h" && !isWordCharacter(source[position - 1])) {
+      const url = matchSticky(URL_REGEX, source, position);
+      if (url) {
+        return { node: { type: "url", url }, end: position + url.length };
+      }
+      return null;
+    }
+
+    for (const { marker, style } of STYLE_DELIMITERS) {
+      const styled = matchStyle(position, marker, style);
+      if (styled) {
+        return styled;
+      }
+    }
+
+    return null;
+  };
+
+  const matchStyle = (position: number, marker: string, style: MarkdownStyle): InlineMatch | null => {
+    if (!source.startsWith(marker, position) || !canOpen(position, marker)) {
+      return null;
+    }
+
+    const inner = parseUntil(position + marker.length, marker);
+    return inner.closed
+      ? { node: { type: style, marker, children: inner.nodes }, end: inner.end }
+      : null;
+  };
+
+  const parseUntil = (start: number, closer: string | null): InlineResult => {
+    const key = `${start}:${closer ?? ""}`;
+    const cached = memo.get(key);
+    if (cached) {
+      return cached;
+    }
+    // Bail out before scanning when nothing after `start` could close this run, which keeps
+    // unmatched delimiters like `[[[[` or `*a *b *c` from rescanning the rest of the input.
+    if (closer !== null && findLastClosable(closer) <= start) {
+      return { nodes: [], end: start, closed: false };
+    }
+
+    const nodes: MarkdownInline[] = [];
+    let text = "";
+    const flushText = (): void => {
+      if (text) {
+        nodes.push({ type: "text", content: text });
+        text = "";
+      }
+    };
+
+    let position = start;
+    let closed = false;
+    while (position < source.length) {
+      const closes = closer !== null && position > start && canClose(position, closer);
+      // Inside `*italic*`, a `**` usually opens bold rather than closing the italic run.
+      const doubled = closes && closer.length === 1 ? `${closer}${closer}` : null;
+      const doubledStyle = doubled
+        ? STYLE_DELIMITERS.find(delimiter => delimiter.marker === doubled)?.style
+        : undefined;
+      const nested = doubled && doubledStyle ? matchStyle(position, doubled, doubledStyle) : null;
+      if (closes && !nested) {
+        closed = true;
+        break;
+      }
+
+      const match = nested ?? matchInline(position);
+      if (match) {
+        flushText();
+        nodes.push(match.node);
+        position = match.end;
+        continue;
+      }
+
+      text += source[position];
+      position += 1;
+    }
+
+    flushText();
+    const result: InlineResult = {
+      nodes,
+      end: closed && closer ? position + closer.length : position,
+      closed,
+    };
+    memo.set(key, result);
+    return result;
+  };
+
+  return parseUntil(0, null).nodes;
+};
+
+const matchCodeBlock = (
+  lines: string[],
+  index: number,
+): { block: MarkdownBlock; lastLine: number } | null => {
+  const rest = lines.slice(index).join("\n");
+  const open = CODE_FENCE_OPEN_REGEX.exec(rest)?.[0] ?? CODE_FENCE;
+
+  for (
+    let close = rest.indexOf(CODE_FENCE, open.length);
+    close !== -1;
+    close = rest.indexOf(CODE_FENCE, close + 1)
+  ) {
+    const after = rest[close + CODE_FENCE.length];
+    if (after !== undefined && after !== "\n") {
+      continue;
+    }
+
+    const content = rest.slice(open.length, close);
+    if (!content.trim()) {
+      return null;
+    }
+
+    const consumed = rest.slice(0, close + CODE_FENCE.length);
+    const language = open.slice(CODE_FENCE.length).trim().toLowerCase();
+    return {
+      block: { type: "code_block", language: language || null, open, content },
+      lastLine: index + consumed.split("\n").length - 1,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Parses Discord-flavoured markdown into blocks. The tree keeps every marker, so
+ * `toMarkdownSource(parseMarkdown(value)) === value` holds for any input; the composer
+ * overlay depends on that to line its preview up with the textarea.
+ */
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = (): void => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+      paragraph = [];
+    }
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index]!;
+
+    if (line.startsWith(CODE_FENCE)) {
+      const codeBlock = matchCodeBlock(lines, index);
+      if (codeBlock) {
+        flushParagraph();
+        blocks.push(codeBlock.block);
+        index = codeBlock.lastLine;
+        continue;
+      }
+    }
+
+    const heading = HEADING_REGEX.exec(line);
+    if (heading) {
+      flushParagraph();
+      const marker = heading[0];
+      blocks.push({
+        type: "heading",
+        level: heading[1]!.length as 1 | 2 | 3,
+        marker,
+        children: parseInline(line.slice(marker.length)),
+      });
+      continue;
+    }
+
+    // `>>> ` quotes everything that follows, `> ` only the line it starts.
+    if (line.startsWith(">>> ")) {
+      flushParagraph();
+      blocks.push({
+        type: "blockquote",
+        lines: lines.slice(index).map((quoted, offset) => {
+          const marker = offset === 0 ? ">>> " : "";
+          return { marker, children: parseInline(quoted.slice(marker.length)) };
+        }),
+      });
+      break;
+    }
+
+    if (line.startsWith("> ")) {
+      flushParagraph();
+      const quoteLines: MarkdownQuoteLine[] = [];
+      while (index < lines.length && lines[index]!.startsWith("> ")) {
+        quoteLines.push({ marker: "> ", children: parseInline(lines[index]!.slice(2)) });
+        index += 1;
+      }
+      blocks.push({ type: "blockquote", lines: quoteLines });
+      index -= 1;
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+export const inlineToMarkdownSource = (nodes: MarkdownInline[]): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case "text":
+          return node.content;
+        case "escape":
+          return `\\${node.content}`;
+        case "mention":
+        case "custom_emoji":
+          return node.token;
+        case "url":
+          return node.url;
+        case "inline_code":
+          return `${node.marker}${node.content}${node.marker}`;
+        case "link":
+          return `[${inlineToMarkdownSource(node.children)}](${node.url})`;
+        default:
+          return `${node.marker}${inlineToMarkdownSource(node.children)}${node.marker}`;
+      }
+    })
+    .join("");
+
+export const toMarkdownSource = (blocks: MarkdownBlock[]): string =>
+  blocks
+    .map(block => {
+      switch (block.type) {
+        case "paragraph":
+          return inlineToMarkdownSource(block.children);
+        case "heading":
+          return `${block.marker}${inlineToMarkdownSource(block.children)}`;
+        case "blockquote":
+          return block.lines
+            .map(line => `${line.marker}${inlineToMarkdownSource(line.children)}`)
+            .join("\n");
+        case "code_block":
+          return `${block.open}${block.content}${CODE_FENCE}`;
+      }
+    })
+    .join("\n");
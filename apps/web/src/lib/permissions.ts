@@ -9,6 +9,11 @@ export const PermissionBits = {
   CONNECT: 1n << 20n,
   SPEAK: 1n << 21n,
   MANAGE_ROLES: 1n << 28n,
+  MANAGE_EMOJIS: 1n << 30n,
+  MANAGE_THREADS: 1n << 34n,
+  CREATE_PUBLIC_THREADS: 1n << 35n,
+  CREATE_PRIVATE_THREADS: 1n << 36n,
+  SEND_MESSAGES_IN_THREADS: 1n << 38n,
   ADMINISTRATOR: 1n << 3n,
 } as const;
 
@@ -95,6 +100,7 @@ export const permissionChecklist = [
   { key: "VIEW_CHANNEL", label: "View Channels", bit: PermissionBits.VIEW_CHANNEL, group: "General" },
   { key: "MANAGE_GUILD", label: "Manage Server", bit: PermissionBits.MANAGE_GUILD, group: "General" },
   { key: "MANAGE_CHANNELS", label: "Manage Channels", bit: PermissionBits.MANAGE_CHANNELS, group: "General" },
+  { key: "MANAGE_EMOJIS", label: "Manage Emojis", bit: PermissionBits.MANAGE_EMOJIS, group: "General" },
   { key: "SEND_MESSAGES", label: "Send Messages", bit: PermissionBits.SEND_MESSAGES, group: "Text" },
   {
     key: "MENTION_EVERYONE",
@@ -109,6 +115,25 @@ export const permissionChecklist = [
     bit: PermissionBits.READ_MESSAGE_HISTORY,
     group: "Text",
   },
+  {
+    key: "CREATE_PUBLIC_THREADS",
+    label: "Create Public Threads",
+    bit: PermissionBits.CREATE_PUBLIC_THREADS,
+    group: "Text",
+  },
+  {
+    key: "CREATE_PRIVATE_THREADS",
+    label: "Create Private Threads",
+    bit: PermissionBits.CREATE_PRIVATE_THREADS,
+    group: "Text",
+  },
+  {
+    key: "SEND_MESSAGES_IN_THREADS",
+    label: "Send Messages in Threads",
+    bit: PermissionBits.SEND_MESSAGES_IN_THREADS,
+    group: "Text",
+  },
+  { key: "MANAGE_THREADS", label: "Manage Threads", bit: PermissionBits.MANAGE_THREADS, group: "Text" },
   { key: "CONNECT", label: "Connect", bit: PermissionBits.CONNECT, group: "Voice" },
   { key: "SPEAK", label: "Speak", bit: PermissionBits.SPEAK, group: "Voice" },
   { key: "MANAGE_ROLES", label: "Manage Roles", bit: PermissionBits.MANAGE_ROLES, group: "Moderation" },
@@ -3,15 +3,30 @@ export const queryKeys = {
   badges: ["badges"] as const,
   channelBadge: (channelId: string) => ["channel-badge", channelId] as const,
   dmChannels: ["dm-channels"] as const,
+  drafts: ["drafts"] as const,
+  savedMessages: ["saved-messages"] as const,
+  reminders: ["reminders"] as const,
+  mentions: ["mentions"] as const,
   guilds: ["guilds"] as const,
   guildSettings: (guildId: string) => ["guild-settings", guildId] as const,
   guildPermissions: (guildId: string) => ["guild-permissions", guildId] as const,
   guildChannels: (guildId: string) => ["guild-channels", guildId] as const,
   guildRoles: (guildId: string) => ["guild-roles", guildId] as const,
+  guildEmojis: (guildId: string) => ["guild-emojis", guildId] as const,
   guildMembers: (guildId: string, query: string) => ["guild-members", guildId, query] as const,
   guildMember: (guildId: string, userId: string) => ["guild-member", guildId, userId] as const,
   guildVoiceState: (guildId: string) => ["guild-voice-state", guildId] as const,
   messages: (channelId: string) => ["messages", channelId] as const,
+  threadMembers: (threadId: string) => ["thread-members", threadId] as const,
+  forumPosts: (channelId: string) => ["forum-posts", channelId] as const,
+  pins: (channelId: string) => ["pins", channelId] as const,
+  scheduledMessages: (channelId: string) => ["scheduled-messages", channelId] as const,
+  messageSearch: (scopeId: string, query: string, offset: number) =>
+    ["message-search", scopeId, query, offset] as const,
+  messageRevisions: (channelId: string, messageId: string) =>
+    ["message-revisions", channelId, messageId] as const,
+  reactionUsers: (channelId: string, messageId: string, emoji: string) =>
+    ["reaction-users", channelId, messageId, emoji] as const,
   typing: (channelId: string) => ["typing", channelId] as const,
   usersSearch: (query: string) => ["users-search", query] as const,
   invite: (code: string) => ["invite", code] as const,
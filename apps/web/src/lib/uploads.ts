@@ -19,6 +19,14 @@ export const initAttachmentUpload = (channelId: string, file: File): Promise<Upl
     size: file.size,
   });
 
+export const initEmojiUpload = (guildId: string, file: File): Promise<UploadInitResponse> =>
+  api.initEmojiUpload({
+    guild_id: guildId,
+    filename: file.name,
+    content_type: inferContentType(file),
+    size: file.size,
+  });
+
 export const completeUpload = (uploadId: string): Promise<CompleteUploadResponse> => api.completeUpload(uploadId);
 
 export const putToS3 = async (
@@ -2,9 +2,13 @@ import type {
   ChannelBadgePayload,
   GuildChannelPayload,
   MessagePayload,
+  MessageReminderPayload,
+  SavedMessagesPage,
+  ScheduledMessagePayload,
+  ThreadAutoArchiveDuration,
   UserSummary,
 } from "@edgewire/types";
-import { ChannelType } from "@edgewire/types";
+import { ChannelType, MessageFlags } from "@edgewire/types";
 import {
   useInfiniteQuery,
   useMutation,
@@ -24,6 +28,7 @@ import {
 import {
   type ChangeEvent,
   type FormEvent,
+  useCallback,
   useEffect,
   useMemo,
   useRef,
@@ -31,14 +36,23 @@ import {
 } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import { toast } from "sonner";
-import type { ComposerAttachment, ProfileDialogState } from "@/app/types";
+import type {
+  ComposerAttachment,
+  ComposerReply,
+  ProfileDialogState,
+} from "@/app/types";
 import ChatHeader from "@/components/chat/chat-header";
 import Composer from "@/components/chat/composer";
+import CreateForumPostModal from "@/components/chat/create-forum-post-modal";
+import CreateThreadModal from "@/components/chat/create-thread-modal";
+import ForumChannelView from "@/components/chat/forum-channel-view";
 import MessageList from "@/components/chat/message-list";
 import DmSidebar from "@/components/dms/dm-sidebar";
 import { getSessionUser } from "@/components/auth/session";
+import ChannelSettingsModal, { type ChannelSettingsInput } from "@/components/guilds/channel-settings-modal";
 import CreateChannelModal from "@/components/guilds/create-channel-modal";
 import CreateGuildModal from "@/components/guilds/create-guild-modal";
+import FollowChannelModal from "@/components/guilds/follow-channel-modal";
 import GuildSidebar from "@/components/guilds/guild-sidebar";
 import GuildSwitcher from "@/components/guilds/guild-switcher";
 import InviteModal from "@/components/guilds/invite-modal";
@@ -48,12 +62,35 @@ import ProfileSettingsModal from "@/components/profile/profile-settings-modal";
 import GuildSettingsModal from "@/components/guild-settings-modal";
 import MemberList from "@/components/members/member-list";
 import VoiceFullscreenView from "@/components/voice/fullscreen/voice-fullscreen-view";
-import { getDisplayInitial } from "@/components/utils/format";
+import { formatDateTime, getDisplayInitial } from "@/components/utils/format";
 import { applyChannelBulkPatch } from "@/components/utils/channel-patch";
 import { dedupeById, dedupeChronological } from "@/components/utils/dedupe";
-import { parseRoute } from "@/components/utils/route";
+import {
+  applyPollVoteAdd,
+  applyPollVoteRemove,
+} from "@/components/utils/polls";
+import {
+  applyReactionAdd,
+  applyReactionRemove,
+} from "@/components/utils/reactions";
+import { applyReminderUpdate } from "@/components/utils/reminders";
+import { applySavedMessageUpdate } from "@/components/utils/saved-messages";
+import {
+  MESSAGE_PAGE_SIZE,
+  getNewerMessagesCursor,
+  getOlderMessagesCursor,
+  isDetachedFromLatest,
+  type MessagePageParam,
+} from "@/components/utils/message-pages";
+import { parseRoute, toChannelPath } from "@/components/utils/route";
 import { byPositionThenId, roleSortDesc } from "@/components/utils/sort";
+import { isAnnouncementChannel, isForumChannel, isTextChannel } from "@/components/utils/channels";
+import { isThreadChannel } from "@/components/utils/threads";
 import { Button } from "@/components/ui/button";
+import { useComposerDraft } from "@/hooks/use-composer-draft";
+import { useReminders } from "@/hooks/use-reminders";
+import { useSavedMessages } from "@/hooks/use-saved-messages";
+import { useSlowmodeCooldown } from "@/hooks/use-slowmode-cooldown";
 import { useGateway } from "@/hooks/use-gateway";
 import { authClient } from "@/lib/auth-client";
 import {
@@ -63,6 +100,7 @@ import {
   type DmChannel,
   type Guild,
   type Invite,
+  type PollCreateInput,
   type SelfPresenceStatus,
   type Role,
   type TypingEvent,
@@ -97,6 +135,8 @@ type ReorderPayloadItem = {
   lock_permissions?: boolean;
 };
 
+const MESSAGE_HIGHLIGHT_MS = 2_000;
+
 const removeMessageFromInfinite = (
   current: InfiniteData<MessagePayload[]> | undefined,
   messageId: string,
@@ -160,7 +200,7 @@ export function ChatApp() {
   const [createGuildOpen, setCreateGuildOpen] = useState(false);
   const [createGuildName, setCreateGuildName] = useState("");
   const [createChannelOpen, setCreateChannelOpen] = useState(false);
-  const [createChannelType, setCreateChannelType] = useState<"0" | "2" | "4">(
+  const [createChannelType, setCreateChannelType] = useState<"0" | "2" | "4" | "5" | "15">(
     "0",
   );
   const [createChannelName, setCreateChannelName] = useState("");
@@ -177,6 +217,12 @@ export function ChatApp() {
   const [composerAttachments, setComposerAttachments] = useState<
     ComposerAttachment[]
   >([]);
+  const [composerReply, setComposerReply] = useState<ComposerReply | null>(
+    null,
+  );
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
   const [isSendingMessage, setIsSendingMessage] = useState(false);
   const [deletingMessageIds, setDeletingMessageIds] = useState<string[]>([]);
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
@@ -190,11 +236,19 @@ export function ChatApp() {
   const [lastTextChannelByGuild, setLastTextChannelByGuild] = useState<
     Record<string, string>
   >({});
+  const [createThreadTarget, setCreateThreadTarget] = useState<{
+    channelId: string;
+    starterMessage: MessagePayload | null;
+  } | null>(null);
+  const [channelSettingsOpen, setChannelSettingsOpen] = useState(false);
+  const [followChannelOpen, setFollowChannelOpen] = useState(false);
+  const [createForumPostOpen, setCreateForumPostOpen] = useState(false);
 
   const typingThrottleRef = useRef(0);
   const messageListContainerRef = useRef<HTMLDivElement>(null);
   const listBottomRef = useRef<HTMLDivElement>(null);
   const presencePickerRef = useRef<HTMLDivElement>(null);
+  const highlightTimeoutRef = useRef<number | null>(null);
   const lastPresenceActivityAtRef = useRef(Date.now());
 
   const meQuery = useQuery({
@@ -316,10 +370,22 @@ export function ChatApp() {
         null)
       : null;
 
+  const isActiveThread = isThreadChannel(activeGuildChannel);
+  const activeThreadParent = isActiveThread
+    ? (guildChannels.find(
+        (channel) => channel.id === activeGuildChannel?.parent_id,
+      ) ?? null)
+    : null;
+
   const isGuildTextChannel =
     route.mode === "guild" &&
     Boolean(route.guildId) &&
-    activeGuildChannel?.type === ChannelType.GUILD_TEXT;
+    (isTextChannel(activeGuildChannel) || isActiveThread);
+
+  const isGuildForumChannel =
+    route.mode === "guild" &&
+    Boolean(route.guildId) &&
+    isForumChannel(activeGuildChannel);
 
   const isGuildVoiceChannel =
     route.mode === "guild" &&
@@ -329,7 +395,7 @@ export function ChatApp() {
   const activeMessageChannelId =
     route.mode === "dm"
       ? (activeDm?.id ?? null)
-      : isGuildTextChannel
+      : isGuildTextChannel && activeGuildChannel
         ? activeGuildChannel.id
         : null;
 
@@ -338,10 +404,18 @@ export function ChatApp() {
       ? (activeDm?.recipients[0]?.display_name ?? null)
       : (activeGuildChannel?.name ?? null);
 
+  const threadMembersQuery = useQuery({
+    queryKey: queryKeys.threadMembers(activeGuildChannel?.id ?? "none"),
+    queryFn: () => api.listThreadMembers(activeGuildChannel!.id),
+    enabled: isActiveThread,
+  });
+
   const canManageGuild =
     route.mode === "guild" && hasGuildPermission(PermissionBits.MANAGE_GUILD);
   const canManageRoles =
     route.mode === "guild" && hasGuildPermission(PermissionBits.MANAGE_ROLES);
+  const canManageEmojis =
+    route.mode === "guild" && hasGuildPermission(PermissionBits.MANAGE_EMOJIS);
   const canManageChannels =
     route.mode === "guild" &&
     hasGuildPermission(PermissionBits.MANAGE_CHANNELS);
@@ -353,10 +427,17 @@ export function ChatApp() {
     activeGuild.owner_id !== currentUserId,
   );
 
+  const openMessageFromNotification = useCallback(
+    (guildId: string | null, channelId: string, messageId: string) =>
+      navigate(toChannelPath(guildId, channelId, messageId)),
+    [navigate],
+  );
+
   const { sendPresenceUpdate } = useGateway({
     enabled: Boolean(sessionUser?.id),
     userId: sessionUser?.id ?? null,
     activeChannelId: activeMessageChannelId,
+    onOpenMessage: openMessageFromNotification,
   });
 
   const voice = useVoice();
@@ -383,20 +464,15 @@ export function ChatApp() {
   const messagesQuery = useInfiniteQuery({
     queryKey: queryKeys.messages(activeMessageChannelId ?? "none"),
     queryFn: ({ pageParam }) =>
-      api.listMessages(
-        activeMessageChannelId!,
-        pageParam ? String(pageParam) : undefined,
-        50,
-      ),
+      api.listMessages(activeMessageChannelId!, pageParam, MESSAGE_PAGE_SIZE),
     enabled: Boolean(activeMessageChannelId),
-    initialPageParam: "",
-    getNextPageParam: (lastPage) => {
-      if (lastPage.length === 0) {
-        return undefined;
-      }
-
-      return lastPage[lastPage.length - 1]?.id;
-    },
+    // Only used when the cache is empty or reset; permalinks open a window around their target.
+    initialPageParam: (route.messageId
+      ? { around: route.messageId }
+      : {}) as MessagePageParam,
+    getNextPageParam: (lastPage) => getOlderMessagesCursor(lastPage),
+    getPreviousPageParam: (firstPage, _allPages, firstPageParam) =>
+      getNewerMessagesCursor(firstPage, firstPageParam),
   });
 
   const typingQuery = useQuery({
@@ -487,7 +563,7 @@ export function ChatApp() {
   const createGuildChannelMutation = useMutation({
     mutationFn: (payload: {
       name: string;
-      type: 0 | 2 | 4;
+      type: 0 | 2 | 4 | 5 | 15;
       parent_id?: string | null;
     }) => api.createGuildChannel(route.guildId!, payload),
     onSuccess: (channel) => {
@@ -507,7 +583,7 @@ export function ChatApp() {
       setCreateChannelParentId("none");
       setCreateChannelType("0");
 
-      if (channel.type === ChannelType.GUILD_TEXT) {
+      if (isTextChannel(channel) || isForumChannel(channel)) {
         navigate(`/app/channels/${channel.guild_id}/${channel.id}`);
       }
     },
@@ -579,34 +655,59 @@ export function ChatApp() {
       channelId: string;
       content?: string;
       attachmentUploadIds?: string[];
+      reply?: ComposerReply | null;
+      poll?: PollCreateInput;
     }) =>
       api.createMessage(payload.channelId, {
         content: payload.content,
         attachment_upload_ids: payload.attachmentUploadIds,
+        poll: payload.poll,
+        ...(payload.reply
+          ? {
+              message_reference: {
+                message_id: payload.reply.message.id,
+                fail_if_not_exists: false,
+              },
+              allowed_mentions: {
+                replied_user: payload.reply.mentionAuthor,
+              },
+            }
+          : {}),
       }),
     onSuccess: (message) => {
-      queryClient.setQueryData<InfiniteData<MessagePayload[]>>(
-        queryKeys.messages(message.channel_id),
-        (old) => {
-          if (!old) {
+      const cachedMessages = queryClient.getQueryData<
+        InfiniteData<MessagePayload[]>
+      >(queryKeys.messages(message.channel_id));
+      // Sending while reading an older window snaps the channel back to the present.
+      if (isDetachedFromLatest(cachedMessages)) {
+        void queryClient.resetQueries({
+          queryKey: queryKeys.messages(message.channel_id),
+          exact: true,
+        });
+      } else {
+        queryClient.setQueryData<InfiniteData<MessagePayload[]>>(
+          queryKeys.messages(message.channel_id),
+          (old) => {
+            if (!old) {
+              return {
+                pages: [[message]],
+                pageParams: [undefined],
+              };
+            }
+            if (
+              old.pages.some((page) =>
+                page.some((item) => item.id === message.id),
+              )
+            ) {
+              return old;
+            }
             return {
-              pages: [[message]],
-              pageParams: [undefined],
+              ...old,
+              pages: [[message, ...(old.pages[0] ?? [])], ...old.pages.slice(1)],
             };
-          }
-          if (
-            old.pages.some((page) =>
-              page.some((item) => item.id === message.id),
-            )
-          ) {
-            return old;
-          }
-          return {
-            ...old,
-            pages: [[message, ...(old.pages[0] ?? [])], ...old.pages.slice(1)],
-          };
-        },
-      );
+          },
+        );
+      }
 
       if (message.guild_id === null) {
         queryClient.setQueryData<DmChannel[]>(queryKeys.dmChannels, (old) => {
@@ -808,6 +909,358 @@ export function ChatApp() {
     },
   });
 
+  const toggleReactionMutation = useMutation({
+    mutationFn: (payload: {
+      channelId: string;
+      messageId: string;
+      emoji: string;
+      remove: boolean;
+    }) =>
+      payload.remove
+        ? api.removeReaction(payload.channelId, payload.messageId, payload.emoji)
+        : api.addReaction(payload.channelId, payload.messageId, payload.emoji),
+    onMutate: ({ channelId, messageId, emoji, remove }) => {
+      const reactionEmoji = { id: null, name: emoji };
+      queryClient.setQueryData<InfiniteData<MessagePayload[]>>(
+        queryKeys.messages(channelId),
+        (old) =>
+          patchMessageInInfinite(old, messageId, (message) => ({
+            ...message,
+            reactions: remove
+              ? applyReactionRemove(message.reactions, reactionEmoji, true)
+              : applyReactionAdd(message.reactions, reactionEmoji, true),
+          })),
+      );
+    },
+    onError: (error, { channelId, messageId, emoji, remove }) => {
+      const reactionEmoji = { id: null, name: emoji };
+      queryClient.setQueryData<InfiniteData<MessagePayload[]>>(
+        queryKeys.messages(channelId),
+        (old) =>
+          patchMessageInInfinite(old, messageId, (message) => ({
+            ...message,
+            reactions: remove
+              ? applyReactionAdd(message.reactions, reactionEmoji, true)
+              : applyReactionRemove(message.reactions, reactionEmoji, true),
+          })),
+      );
+      toast.error(
+        error instanceof Error ? error.message : "Could not update reaction.",
+      );
+    },
+  });
+
+  const togglePollVoteMutation = useMutation({
+    mutationFn: (payload: {
+      channelId: string;
+      messageId: string;
+      answerId: number;
+      remove: boolean;
+    }) =>
+      payload.remove
+        ? api.removePollVote(payload.channelId, payload.messageId, payload.answerId)
+        : api.addPollVote(payload.channelId, payload.messageId, payload.answerId),
+    onMutate: ({ channelId, messageId, answerId, remove }) => {
+      let previousPoll: MessagePayload["poll"];
+      queryClient.setQueryData<InfiniteData<MessagePayload[]>>(
+        queryKeys.messages(channelId),
+        (old) =>
+          patchMessageInInfinite(old, messageId, (message) => {
+            previousPoll = message.poll;
+            if (!message.poll) {
+              return message;
+            }
+
+            if (remove) {
+              return { ...message, poll: applyPollVoteRemove(message.poll, answerId, true) };
+            }
+
+            // Single-choice polls move the vote, so the previous answer loses it.
+            const cleared = message.poll.allow_multiselect
+              ? message.poll
+              : message.poll.results.answer_counts
+                  .filter((answer) => answer.me_voted && answer.id !== answerId)
+                  .reduce((poll, answer) => applyPollVoteRemove(poll, answer.id, true), message.poll);
+            return { ...message, poll: applyPollVoteAdd(cleared, answerId, true) };
+          }),
+      );
+      return { previousPoll };
+    },
+    onError: (error, { channelId, messageId }, context) => {
+      queryClient.setQueryData<InfiniteData<MessagePayload[]>>(
+        queryKeys.messages(channelId),
+        (old) =>
+          patchMessageInInfinite(old, messageId, (message) => ({
+            ...message,
+            poll: context?.previousPoll ?? message.poll,
+          })),
+      );
+      toast.error(
+        error instanceof Error ? error.message : "Could not update vote.",
+      );
+    },
+  });
+
+  const removeAllReactionsMutation = useMutation({
+    mutationFn: (payload: { channelId: string; messageId: string }) =>
+      api.removeAllReactions(payload.channelId, payload.messageId),
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Could not remove reactions.",
+      );
+    },
+  });
+
+  const suppressEmbedsMutation = useMutation({
+    mutationFn: (payload: { channelId: string; messageId: string }) =>
+      api.editMessage(payload.channelId, payload.messageId, {
+        flags: MessageFlags.SUPPRESS_EMBEDS,
+      }),
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Could not remove embeds.",
+      );
+    },
+  });
+
+  const togglePinMutation = useMutation({
+    mutationFn: (payload: {
+      channelId: string;
+      messageId: string;
+      unpin: boolean;
+    }) =>
+      payload.unpin
+        ? api.unpinMessage(payload.channelId, payload.messageId)
+        : api.pinMessage(payload.channelId, payload.messageId),
+    onSuccess: (_data, { channelId, unpin }) => {
+      void queryClient.invalidateQueries({
+        queryKey: queryKeys.pins(channelId),
+      });
+      toast.success(unpin ? "Message unpinned." : "Message pinned.");
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Could not update pin.",
+      );
+    },
+  });
+
+  const savedMessageMutation = useMutation({
+    mutationFn: (payload: { messageId: string; unsave?: boolean; note?: string | null }) =>
+      payload.unsave
+        ? api.unsaveMessage(payload.messageId).then(() => null)
+        : api.saveMessage(payload.messageId, payload.note === undefined ? {} : { note: payload.note }),
+    onSuccess: (savedMessage, { messageId, unsave, note }) => {
+      queryClient.setQueryData<InfiniteData<SavedMessagesPage>>(queryKeys.savedMessages, (old) =>
+        applySavedMessageUpdate(old, { message_id: messageId, saved_message: savedMessage }),
+      );
+      if (note === undefined) {
+        toast.success(unsave ? "Removed from saved messages." : "Message saved.");
+      }
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Could not update saved messages.",
+      );
+    },
+  });
+
+  // Badges and read state update through the gateway events the ack emits.
+  const ackMutation = useMutation({
+    mutationFn: (guildId: string | null) => (guildId ? api.ackGuild(guildId) : api.ackDmChannels()),
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Could not mark as read.",
+      );
+    },
+  });
+
+  const dmMessageTtlMutation = useMutation({
+    mutationFn: (payload: { channelId: string; messageTtl: number }) =>
+      api.patchChannel(payload.channelId, { message_ttl: payload.messageTtl }),
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Could not update disappearing messages.",
+      );
+    },
+  });
+
+  const reminderMutation = useMutation({
+    mutationFn: (payload: { messageId: string; remindAt?: Date }) =>
+      payload.remindAt
+        ? api.setReminder(payload.messageId, { remind_at: payload.remindAt.toISOString() })
+        : api.deleteReminder(payload.messageId).then(() => null),
+    onSuccess: (reminder, { messageId, remindAt }) => {
+      queryClient.setQueryData<MessageReminderPayload[]>(queryKeys.reminders, (old) =>
+        applyReminderUpdate(old, { message_id: messageId, reminder }),
+      );
+      if (remindAt) {
+        toast.success(`Reminder set for ${formatDateTime(remindAt.toISOString(), localePreference)}.`);
+      }
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Could not update reminder.",
+      );
+    },
+  });
+
+  const crosspostMutation = useMutation({
+    mutationFn: (payload: { channelId: string; messageId: string }) =>
+      api.crosspostMessage(payload.channelId, payload.messageId),
+    onSuccess: () => {
+      toast.success("Message published to following channels.");
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Could not publish message.",
+      );
+    },
+  });
+
+  const upsertGuildChannel = (channel: GuildChannelPayload): void => {
+    if (!channel.guild_id) {
+      return;
+    }
+
+    queryClient.setQueryData<GuildChannelPayload[]>(
+      queryKeys.guildChannels(channel.guild_id),
+      (old) =>
+        [
+          ...(old ?? []).filter((item) => item.id !== channel.id),
+          channel,
+        ].sort(byPositionThenId),
+    );
+  };
+
+  // Archived threads are not part of the channel list, so seed the cache before navigating.
+  const openThread = (thread: GuildChannelPayload): void => {
+    if (!thread.guild_id) {
+      return;
+    }
+
+    if (!guildChannels.some((channel) => channel.id === thread.id)) {
+      upsertGuildChannel(thread);
+    }
+    navigate(`/app/channels/${thread.guild_id}/${thread.id}`);
+  };
+
+  const createThreadMutation = useMutation({
+    mutationFn: (payload: {
+      channelId: string;
+      starterMessageId: string | null;
+      name: string;
+      type: 11 | 12;
+      auto_archive_duration: ThreadAutoArchiveDuration;
+    }) =>
+      payload.starterMessageId
+        ? api.createThreadFromMessage(payload.channelId, payload.starterMessageId, {
+            name: payload.name,
+            auto_archive_duration: payload.auto_archive_duration,
+          })
+        : api.createThread(payload.channelId, {
+            name: payload.name,
+            type: payload.type,
+            auto_archive_duration: payload.auto_archive_duration,
+          }),
+    onSuccess: (thread) => {
+      setCreateThreadTarget(null);
+      openThread(thread);
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Could not create thread.",
+      );
+    },
+  });
+
+  const updateThreadMembershipMutation = useMutation({
+    mutationFn: (payload: { threadId: string; leave: boolean }) =>
+      payload.leave
+        ? api.removeThreadMember(payload.threadId)
+        : api.addThreadMember(payload.threadId),
+    onSuccess: (_data, { threadId }) => {
+      void queryClient.invalidateQueries({
+        queryKey: queryKeys.threadMembers(threadId),
+      });
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Could not update thread membership.",
+      );
+    },
+  });
+
+  const updateChannelSettingsMutation = useMutation({
+    mutationFn: (payload: { channelId: string; settings: ChannelSettingsInput }) =>
+      api.patchChannel(payload.channelId, payload.settings),
+    onSuccess: (channel) => {
+      if ("guild_id" in channel) {
+        upsertGuildChannel(channel);
+      }
+      setChannelSettingsOpen(false);
+      toast.success("Channel updated.");
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Could not update channel.",
+      );
+    },
+  });
+
+  const createForumPostMutation = useMutation({
+    mutationFn: (payload: {
+      channelId: string;
+      name: string;
+      content: string;
+      applied_tags: string[];
+    }) =>
+      api.createForumPost(payload.channelId, {
+        name: payload.name,
+        applied_tags: payload.applied_tags,
+        message: { content: payload.content },
+      }),
+    onSuccess: (post) => {
+      setCreateForumPostOpen(false);
+      openThread(post.thread);
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Could not create post.",
+      );
+    },
+  });
+
+  const followChannelMutation = useMutation({
+    mutationFn: (payload: { channelId: string; targetChannelId: string }) =>
+      api.followChannel(payload.channelId, payload.targetChannelId),
+    onSuccess: () => {
+      setFollowChannelOpen(false);
+      toast.success("Channel followed.");
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Could not follow channel.",
+      );
+    },
+  });
+
+  const archiveThreadMutation = useMutation({
+    mutationFn: (payload: { threadId: string; archived: boolean }) =>
+      api.patchChannel(payload.threadId, { archived: payload.archived }),
+    onSuccess: (channel, { archived }) => {
+      if ("guild_id" in channel) {
+        upsertGuildChannel(channel);
+      }
+      toast.success(archived ? "Thread archived." : "Thread reopened.");
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Could not update thread.",
+      );
+    },
+  });
+
   useEffect(() => {
     if (location.pathname === "/app") {
       navigate("/app/channels/@me", { replace: true });
@@ -870,7 +1323,7 @@ export function ChatApp() {
     ) {
       const fallbackTextChannelId =
         lastTextChannelByGuild[route.guildId] ??
-        guildChannels.find(channel => channel.type === ChannelType.GUILD_TEXT)?.id;
+        guildChannels.find(channel => isTextChannel(channel))?.id;
 
       if (fallbackTextChannelId) {
         navigate(`/app/channels/${route.guildId}/${fallbackTextChannelId}`);
@@ -897,7 +1350,7 @@ export function ChatApp() {
       return;
     }
 
-    if (activeGuildChannel.type !== ChannelType.GUILD_TEXT) {
+    if (!isTextChannel(activeGuildChannel)) {
       return;
     }
 
@@ -1045,7 +1498,7 @@ export function ChatApp() {
       (channel) => channel.id === route.channelId,
     );
     const firstText = guildChannels
-      .filter((channel) => channel.type === ChannelType.GUILD_TEXT)
+      .filter((channel) => isTextChannel(channel))
       .sort(byPositionThenId)[0];
 
     if (!firstText) {
@@ -1053,8 +1506,10 @@ export function ChatApp() {
     }
 
     const isSelectableGuildChannel =
-      selected?.type === ChannelType.GUILD_TEXT ||
-      selected?.type === ChannelType.GUILD_VOICE;
+      isTextChannel(selected) ||
+      isForumChannel(selected) ||
+      selected?.type === ChannelType.GUILD_VOICE ||
+      isThreadChannel(selected);
 
     if (!selected || !isSelectableGuildChannel) {
       navigate(`/app/channels/${route.guildId}/${firstText.id}`, {
@@ -1067,9 +1522,11 @@ export function ChatApp() {
     | InfiniteData<MessagePayload[]>
     | undefined;
   const newestMessageId = messagesData?.pages?.[0]?.[0]?.id;
+  const isViewingOlderMessages = isDetachedFromLatest(messagesData);
 
   useEffect(() => {
-    if (!activeMessageChannelId || !newestMessageId) {
+    // Reading an older window must not move the read marker back.
+    if (!activeMessageChannelId || !newestMessageId || isViewingOlderMessages) {
       return;
     }
 
@@ -1171,6 +1628,7 @@ export function ChatApp() {
     });
   }, [
     activeMessageChannelId,
+    isViewingOlderMessages,
     newestMessageId,
     queryClient,
     route.guildId,
@@ -1178,7 +1636,7 @@ export function ChatApp() {
   ]);
 
   useEffect(() => {
-    if (!activeMessageChannelId) {
+    if (!activeMessageChannelId || route.messageId) {
       return;
     }
     const raf = requestAnimationFrame(() => {
@@ -1200,7 +1658,7 @@ export function ChatApp() {
   }, [activeMessageChannelId]);
 
   useEffect(() => {
-    if (!newestMessageId) {
+    if (!newestMessageId || route.messageId || isViewingOlderMessages) {
       return;
     }
     const raf = requestAnimationFrame(() => {
@@ -1247,14 +1705,129 @@ export function ChatApp() {
 
   useEffect(() => {
     setComposerAttachments([]);
+    setComposerReply(null);
+    setHighlightedMessageId(null);
   }, [activeMessageChannelId]);
 
+  const draftChannelIds = useComposerDraft({
+    channelId: activeMessageChannelId,
+    value: composerValue,
+    attachments: composerAttachments,
+    onRestore: (draft) => {
+      setComposerValue(draft.value);
+      setComposerAttachments(draft.attachments);
+    },
+  });
+  const slowmode = useSlowmodeCooldown(activeMessageChannelId);
+  const { savedMessageIds } = useSavedMessages();
+  const { reminderMessageIds } = useReminders();
+
+  useEffect(() => {
+    return () => {
+      if (highlightTimeoutRef.current !== null) {
+        window.clearTimeout(highlightTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  const jumpToMessage = (messageId: string): void => {
+    const target = messageListContainerRef.current?.querySelector<HTMLElement>(
+      `[data-message-id="${messageId}"]`,
+    );
+    if (!target) {
+      if (activeMessageChannelId) {
+        navigate(toChannelPath(route.guildId, activeMessageChannelId, messageId));
+      }
+      return;
+    }
+
+    target.scrollIntoView({ block: "center", behavior: "smooth" });
+    setHighlightedMessageId(messageId);
+    if (highlightTimeoutRef.current !== null) {
+      window.clearTimeout(highlightTimeoutRef.current);
+    }
+    highlightTimeoutRef.current = window.setTimeout(() => {
+      setHighlightedMessageId(null);
+      highlightTimeoutRef.current = null;
+    }, MESSAGE_HIGHLIGHT_MS);
+  };
+
   const messagesNewestFirst = messagesData?.pages.flatMap((page) => page) ?? [];
   const chronologicalMessages = useMemo(
     () => dedupeChronological(messagesNewestFirst),
     [messagesNewestFirst],
   );
 
+  // Permalinks jump once their target is loaded, then drop the message id from the URL.
+  useEffect(() => {
+    const targetMessageId = route.messageId;
+    if (
+      !targetMessageId ||
+      !activeMessageChannelId ||
+      !messagesData ||
+      messagesQuery.isFetching
+    ) {
+      return;
+    }
+
+    const isLoaded = messagesData.pages.some((page) =>
+      page.some((message) => message.id === targetMessageId),
+    );
+    const fetchedAround = messagesData.pageParams.some(
+      (param) => (param as MessagePageParam | undefined)?.around === targetMessageId,
+    );
+    if (!isLoaded && !fetchedAround) {
+      void queryClient.resetQueries({
+        queryKey: queryKeys.messages(activeMessageChannelId),
+        exact: true,
+      });
+      return;
+    }
+
+    if (isLoaded) {
+      jumpToMessage(targetMessageId);
+    } else {
+      toast.error("That message could not be found.");
+    }
+    navigate(toChannelPath(route.guildId, activeMessageChannelId), {
+      replace: true,
+    });
+  }, [
+    activeMessageChannelId,
+    messagesData,
+    messagesQuery.isFetching,
+    route.guildId,
+    route.messageId,
+  ]);
+
+  const jumpToPresent = (): void => {
+    if (!activeMessageChannelId) {
+      return;
+    }
+
+    void queryClient.resetQueries({
+      queryKey: queryKeys.messages(activeMessageChannelId),
+      exact: true,
+    });
+  };
+
+  const jumpToSearchResult = (channelId: string, messageId: string): void => {
+    navigate(toChannelPath(route.guildId, channelId, messageId));
+  };
+
+  const searchChannelNameById = useMemo(
+    () =>
+      route.mode === "guild"
+        ? new Map(guildChannels.map((channel) => [channel.id, channel.name]))
+        : new Map(
+            dmChannels.map((channel) => [
+              channel.id,
+              channel.recipients[0]?.display_name ?? "Direct Message",
+            ]),
+          ),
+    [dmChannels, guildChannels, route.mode],
+  );
+
   const typingEvents = typingQuery.data;
   const typingUserIds = useMemo(
     () => [...new Set((typingEvents ?? []).map((event) => event.user_id))],
@@ -1354,9 +1927,13 @@ export function ChatApp() {
       return guildPermissions;
     }
 
+    // Threads carry no overwrites of their own; they inherit the parent's.
+    const overwriteSource = isActiveThread
+      ? activeThreadParent
+      : activeGuildChannel;
     return computeChannelPermissions({
       basePermissions: guildPermissions,
-      overwrites: activeGuildChannel.permission_overwrites ?? [],
+      overwrites: overwriteSource?.permission_overwrites ?? [],
       memberRoleIds: myGuildRoleIds.filter(
         (roleId) => roleId !== route.guildId,
       ),
@@ -1365,7 +1942,9 @@ export function ChatApp() {
     });
   }, [
     activeGuildChannel,
+    activeThreadParent,
     guildPermissions,
+    isActiveThread,
     myGuildRoleIds,
     route.guildId,
     route.mode,
@@ -1375,12 +1954,79 @@ export function ChatApp() {
   const canSendInActiveChannel =
     route.mode === "dm" ||
     (route.mode === "guild" &&
-      activeGuildChannel?.type === ChannelType.GUILD_TEXT &&
+      isGuildTextChannel &&
       hasPermission(
         activeGuildChannelPermissions,
-        PermissionBits.SEND_MESSAGES,
+        isActiveThread
+          ? PermissionBits.SEND_MESSAGES_IN_THREADS
+          : PermissionBits.SEND_MESSAGES,
       ));
 
+  const canReadActiveChannelHistory =
+    route.mode === "dm" ||
+    (route.mode === "guild" &&
+      isGuildTextChannel &&
+      hasPermission(
+        activeGuildChannelPermissions,
+        PermissionBits.READ_MESSAGE_HISTORY,
+      ));
+
+  // Either DM participant may pin; guild pins follow MANAGE_MESSAGES.
+  const canManageActiveChannelPins =
+    route.mode === "dm" ||
+    (route.mode === "guild" &&
+      isGuildTextChannel &&
+      hasPermission(
+        activeGuildChannelPermissions,
+        PermissionBits.MANAGE_MESSAGES,
+      ));
+
+  // The server exempts moderators, so only start a local countdown for everyone else.
+  const activeSlowmodeSeconds =
+    route.mode === "guild" &&
+    !hasPermission(activeGuildChannelPermissions, PermissionBits.MANAGE_MESSAGES) &&
+    !hasPermission(activeGuildChannelPermissions, PermissionBits.MANAGE_CHANNELS)
+      ? (activeGuildChannel?.rate_limit_per_user ?? 0)
+      : 0;
+
+  const noteSlowmodeSend = (channelId: string, error?: unknown): void => {
+    if (error instanceof ApiError && error.status === 429 && error.retryAfter !== null) {
+      slowmode.startCooldown(channelId, error.retryAfter);
+    } else if (!error && activeSlowmodeSeconds > 0) {
+      slowmode.startCooldown(channelId, activeSlowmodeSeconds);
+    }
+  };
+
+  const canCreateThreadsInActiveChannel =
+    route.mode === "guild" &&
+    isTextChannel(activeGuildChannel) &&
+    hasPermission(
+      activeGuildChannelPermissions,
+      PermissionBits.CREATE_PUBLIC_THREADS,
+    ) &&
+    hasPermission(
+      activeGuildChannelPermissions,
+      PermissionBits.READ_MESSAGE_HISTORY,
+    );
+  const canCreatePrivateThreadsInActiveChannel =
+    canCreateThreadsInActiveChannel &&
+    hasPermission(
+      activeGuildChannelPermissions,
+      PermissionBits.CREATE_PRIVATE_THREADS,
+    );
+
+  const canManageActiveThread =
+    isActiveThread &&
+    (activeGuildChannel?.owner_id === currentUserId ||
+      hasPermission(
+        activeGuildChannelPermissions,
+        PermissionBits.MANAGE_THREADS,
+      ));
+  const isActiveThreadMember = Boolean(
+    currentUserId &&
+      threadMembersQuery.data?.some((member) => member.user_id === currentUserId),
+  );
+
   const isUploadingAttachments = composerAttachments.some(
     (attachment) => attachment.status === "uploading",
   );
@@ -1443,17 +2089,22 @@ export function ChatApp() {
       return;
     }
 
-    setComposerAttachments((old) => [
-      ...old,
-      ...files.map((file) => ({
-        local_id: crypto.randomUUID(),
-        file,
-        filename: file.name,
-        size: file.size,
-        content_type: file.type || "application/octet-stream",
-        status: "queued" as const,
-      })),
-    ]);
+    const added = files.map((file) => ({
+      local_id: crypto.randomUUID(),
+      file,
+      filename: file.name,
+      size: file.size,
+      content_type: file.type || "application/octet-stream",
+      status: "queued" as const,
+    }));
+    setComposerAttachments((old) => [...old, ...added]);
+
+    // Uploading right away lets the attachments be saved with the channel draft.
+    if (activeMessageChannelId) {
+      void uploadComposerAttachments(activeMessageChannelId, added).catch(
+        () => undefined,
+      );
+    }
   };
 
   const removeComposerAttachment = (localId: string): void => {
@@ -1467,8 +2118,13 @@ export function ChatApp() {
 
   const uploadComposerAttachments = async (
     channelId: string,
+    attachments: ComposerAttachment[] = composerAttachments,
   ): Promise<string[]> => {
-    const current = [...composerAttachments];
+    const current = [...attachments];
+    if (current.some((attachment) => attachment.status === "uploading")) {
+      throw new Error("Wait for attachments to finish uploading.");
+    }
+
     const uploadIds: string[] = [];
     const pending = current.filter((attachment) => !attachment.upload_id);
 
@@ -1528,7 +2184,8 @@ export function ChatApp() {
     if (
       !activeMessageChannelId ||
       !canSendInActiveChannel ||
-      isSendingMessage
+      isSendingMessage ||
+      slowmode.remainingSeconds > 0
     ) {
       return;
     }
@@ -1548,10 +2205,14 @@ export function ChatApp() {
         content: content || undefined,
         attachmentUploadIds:
           attachmentUploadIds.length > 0 ? attachmentUploadIds : undefined,
+        reply: composerReply,
       });
+      noteSlowmodeSend(activeMessageChannelId);
       setComposerValue("");
       setComposerAttachments([]);
+      setComposerReply(null);
     } catch (error) {
+      noteSlowmodeSend(activeMessageChannelId, error);
       toast.error(
         error instanceof Error ? error.message : "Could not send message.",
       );
@@ -1560,6 +2221,80 @@ export function ChatApp() {
     }
   };
 
+  const sendPoll = async (poll: PollCreateInput): Promise<boolean> => {
+    if (!activeMessageChannelId || !canSendInActiveChannel || slowmode.remainingSeconds > 0) {
+      return false;
+    }
+
+    try {
+      await sendMessageMutation.mutateAsync({
+        channelId: activeMessageChannelId,
+        poll,
+      });
+      noteSlowmodeSend(activeMessageChannelId);
+      return true;
+    } catch (error) {
+      noteSlowmodeSend(activeMessageChannelId, error);
+      toast.error(
+        error instanceof Error ? error.message : "Could not post poll.",
+      );
+      return false;
+    }
+  };
+
+  const scheduleMessage = async (
+    serializedContent: string,
+    scheduledAt: Date,
+  ): Promise<void> => {
+    if (
+      !activeMessageChannelId ||
+      !canSendInActiveChannel ||
+      isSendingMessage
+    ) {
+      return;
+    }
+
+    const content = serializedContent.trim();
+    if (!content && composerAttachments.length === 0) {
+      return;
+    }
+
+    setIsSendingMessage(true);
+    try {
+      const attachmentUploadIds = await uploadComposerAttachments(
+        activeMessageChannelId,
+      );
+      const scheduled = await api.createScheduledMessage(
+        activeMessageChannelId,
+        {
+          content: content || undefined,
+          attachment_upload_ids:
+            attachmentUploadIds.length > 0 ? attachmentUploadIds : undefined,
+          scheduled_at: scheduledAt.toISOString(),
+        },
+      );
+      queryClient.setQueryData<ScheduledMessagePayload[]>(
+        queryKeys.scheduledMessages(scheduled.channel_id),
+        (old) =>
+          [
+            ...(old ?? []).filter((item) => item.id !== scheduled.id),
+            scheduled,
+          ].sort((a, b) => a.scheduled_at.localeCompare(b.scheduled_at)),
+      );
+      setComposerValue("");
+      setComposerAttachments([]);
+      toast.success(
+        `Message scheduled for ${formatDateTime(scheduled.scheduled_at, localePreference)}.`,
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Could not schedule message.",
+      );
+    } finally {
+      setIsSendingMessage(false);
+    }
+  };
+
   const triggerTyping = (): void => {
     if (!activeMessageChannelId) {
       return;
@@ -1619,9 +2354,9 @@ export function ChatApp() {
       return;
     }
 
-    const type = Number(createChannelType) as 0 | 2 | 4;
+    const type = Number(createChannelType) as 0 | 2 | 4 | 5 | 15;
     const parentId =
-      (type === ChannelType.GUILD_TEXT || type === ChannelType.GUILD_VOICE) &&
+      type !== ChannelType.GUILD_CATEGORY &&
       createChannelParentId !== "none"
         ? createChannelParentId
         : null;
@@ -1676,6 +2411,8 @@ export function ChatApp() {
               guilds={guilds}
               guildBadges={guildBadgeById}
               onCreateGuild={() => setCreateGuildOpen(true)}
+              onMarkGuildRead={(guildId) => ackMutation.mutate(guildId)}
+              onMarkDmsRead={() => ackMutation.mutate(null)}
             />
 
             <aside className="border-r bg-card flex flex-col overflow-hidden">
@@ -1688,6 +2425,7 @@ export function ChatApp() {
                   presences={presences}
                   channelBadges={channelBadgeById}
                   activeChannelId={route.channelId}
+                  draftChannelIds={draftChannelIds}
                   onCreateDm={(recipientId) =>
                     createDmMutation.mutate(recipientId)
                   }
@@ -1699,6 +2437,7 @@ export function ChatApp() {
                   channels={guildChannels}
                   channelBadges={channelBadgeById}
                   activeChannelId={route.channelId}
+                  draftChannelIds={draftChannelIds}
                   canManageGuild={canManageGuild}
                   canLeaveGuild={canLeaveActiveGuild}
                   isLeavingGuild={leaveGuildMutation.isPending}
@@ -1846,7 +2585,7 @@ export function ChatApp() {
                   const fallbackTextChannelId =
                     lastTextChannelByGuild[route.guildId!] ??
                     guildChannels.find(
-                      (channel) => channel.type === ChannelType.GUILD_TEXT,
+                      (channel) => isTextChannel(channel),
                     )?.id;
                   if (fallbackTextChannelId) {
                     navigate(
@@ -1857,6 +2596,20 @@ export function ChatApp() {
                 onOpenChannelsOverlay={() => setVoiceChannelsOverlayOpen(true)}
               />
             ) : null
+          ) : isGuildForumChannel && activeGuildChannel ? (
+            <ForumChannelView
+              channel={activeGuildChannel}
+              canCreatePost={hasPermission(
+                activeGuildChannelPermissions,
+                PermissionBits.SEND_MESSAGES,
+              )}
+              localePreference={localePreference}
+              onCreatePost={() => setCreateForumPostOpen(true)}
+              onOpenPost={openThread}
+              onOpenChannelSettings={
+                canManageChannels ? () => setChannelSettingsOpen(true) : undefined
+              }
+            />
           ) : activeMessageChannelId ? (
             <>
               <ChatHeader
@@ -1865,6 +2618,17 @@ export function ChatApp() {
                 dmUsername={activeDm?.recipients[0]?.username}
                 canCreateInvite={canManageChannels && route.mode === "guild"}
                 onCreateInvite={openInvite}
+                onOpenChannelSettings={
+                  canManageChannels &&
+                  isTextChannel(activeGuildChannel)
+                    ? () => setChannelSettingsOpen(true)
+                    : undefined
+                }
+                onFollowChannel={
+                  isAnnouncementChannel(activeGuildChannel)
+                    ? () => setFollowChannelOpen(true)
+                    : undefined
+                }
                 onCall={() => {
                   if (!activeDm) {
                     return;
@@ -1873,8 +2637,127 @@ export function ChatApp() {
                     activeDm.recipients[0]?.display_name ?? "DM Call";
                   void voice.joinDmVoice(activeDm.id, label);
                 }}
+                messageTtl={
+                  route.mode === "dm"
+                    ? (activeDm?.message_ttl ?? 0)
+                    : ((isActiveThread ? activeThreadParent : activeGuildChannel)?.message_ttl ?? 0)
+                }
+                dmMessageTtl={
+                  activeDm
+                    ? {
+                        proposals: activeDm.message_ttl_proposals ?? [],
+                        currentUserId,
+                        isUpdating: dmMessageTtlMutation.isPending,
+                      }
+                    : null
+                }
+                onProposeMessageTtl={(messageTtl) => {
+                  if (activeDm) {
+                    dmMessageTtlMutation.mutate({ channelId: activeDm.id, messageTtl });
+                  }
+                }}
                 showMembersToggle={isGuildTextChannel}
                 onToggleMembers={() => setMobileMembersOpen(true)}
+                thread={
+                  isActiveThread && activeGuildChannel
+                    ? {
+                        parentName: activeThreadParent?.name ?? null,
+                        archived: Boolean(
+                          activeGuildChannel.thread_metadata?.archived,
+                        ),
+                        memberCount:
+                          threadMembersQuery.data?.length ??
+                          activeGuildChannel.member_count ??
+                          null,
+                        joined: isActiveThreadMember,
+                        canManage: canManageActiveThread,
+                        isUpdating:
+                          updateThreadMembershipMutation.isPending ||
+                          archiveThreadMutation.isPending,
+                      }
+                    : null
+                }
+                onOpenParentChannel={() => {
+                  if (activeThreadParent) {
+                    navigate(
+                      `/app/channels/${route.guildId}/${activeThreadParent.id}`,
+                    );
+                  }
+                }}
+                onToggleThreadMembership={() => {
+                  if (!activeGuildChannel) {
+                    return;
+                  }
+
+                  updateThreadMembershipMutation.mutate({
+                    threadId: activeGuildChannel.id,
+                    leave: isActiveThreadMember,
+                  });
+                }}
+                onToggleThreadArchived={() => {
+                  if (!activeGuildChannel) {
+                    return;
+                  }
+
+                  archiveThreadMutation.mutate({
+                    threadId: activeGuildChannel.id,
+                    archived: !activeGuildChannel.thread_metadata?.archived,
+                  });
+                }}
+                searchScope={
+                  route.mode === "guild" && route.guildId
+                    ? { kind: "guild", guildId: route.guildId }
+                    : { kind: "dm" }
+                }
+                searchChannelNameById={searchChannelNameById}
+                onJumpToSearchResult={jumpToSearchResult}
+                onCreateThread={
+                  canCreateThreadsInActiveChannel && activeMessageChannelId
+                    ? () =>
+                        setCreateThreadTarget({
+                          channelId: activeMessageChannelId,
+                          starterMessage: null,
+                        })
+                    : undefined
+                }
+                pinsChannelId={
+                  canReadActiveChannelHistory ? activeMessageChannelId : null
+                }
+                guildRoles={activeGuildRoles}
+                canManagePins={canManageActiveChannelPins}
+                localePreference={localePreference}
+                onJumpToMessage={jumpToMessage}
+                mentionsGuildId={route.mode === "guild" ? route.guildId : null}
+                onJumpToMention={(mention) =>
+                  navigate(toChannelPath(mention.guild_id, mention.channel_id, mention.message_id))
+                }
+                onJumpToSavedMessage={(saved) =>
+                  navigate(toChannelPath(saved.guild_id, saved.channel_id, saved.message_id))
+                }
+                onRemoveSavedMessage={(messageId) =>
+                  savedMessageMutation.mutate({ messageId, unsave: true })
+                }
+                onUpdateSavedMessageNote={(messageId, note) =>
+                  savedMessageMutation.mutate({ messageId, note })
+                }
+                onJumpToReminder={(reminder) =>
+                  navigate(toChannelPath(reminder.guild_id, reminder.channel_id, reminder.message_id))
+                }
+                onSnoozeReminder={(messageId, remindAt) =>
+                  reminderMutation.mutate({ messageId, remindAt })
+                }
+                onDismissReminder={(messageId) => reminderMutation.mutate({ messageId })}
+                onUnpinMessage={(messageId) => {
+                  if (!activeMessageChannelId) {
+                    return;
+                  }
+
+                  togglePinMutation.mutate({
+                    channelId: activeMessageChannelId,
+                    messageId,
+                    unpin: true,
+                  });
+                }}
               />
 
               <MessageList
@@ -1888,13 +2771,105 @@ export function ChatApp() {
                 guildRoles={activeGuildRoles}
                 guildChannels={guildChannels}
                 activeGuildChannelPermissions={activeGuildChannelPermissions}
+                canReply={canSendInActiveChannel}
+                canReact={canReadActiveChannelHistory}
+                canManagePins={canManageActiveChannelPins}
+                canCreateThreads={canCreateThreadsInActiveChannel}
+                canPublish={isAnnouncementChannel(activeGuildChannel)}
+                savedMessageIds={savedMessageIds}
+                reminderMessageIds={reminderMessageIds}
+                highlightedMessageId={highlightedMessageId}
                 onLoadOlder={() => messagesQuery.fetchNextPage()}
                 canLoadOlder={Boolean(messagesQuery.hasNextPage)}
                 isLoadingOlder={messagesQuery.isFetchingNextPage}
+                onLoadNewer={() => messagesQuery.fetchPreviousPage()}
+                canLoadNewer={Boolean(messagesQuery.hasPreviousPage)}
+                isLoadingNewer={messagesQuery.isFetchingPreviousPage}
+                onJumpToPresent={jumpToPresent}
                 deletingMessageIds={deletingMessageIds}
                 editingMessageId={editingMessageId}
                 editingInFlightMessageId={editingInFlightMessageId}
                 onOpenProfile={openProfile}
+                onReply={(message) => {
+                  setComposerReply({
+                    message,
+                    mentionAuthor:
+                      message.author.id !== (me?.id ?? sessionUser?.id),
+                  });
+                }}
+                onJumpToMessage={jumpToMessage}
+                onTogglePin={(messageId, pinned) => {
+                  if (!activeMessageChannelId) {
+                    return;
+                  }
+
+                  togglePinMutation.mutate({
+                    channelId: activeMessageChannelId,
+                    messageId,
+                    unpin: pinned,
+                  });
+                }}
+                onCreateThread={(message) => {
+                  if (!activeMessageChannelId) {
+                    return;
+                  }
+
+                  setCreateThreadTarget({
+                    channelId: activeMessageChannelId,
+                    starterMessage: message,
+                  });
+                }}
+                onOpenThread={openThread}
+                onToggleSaved={(messageId, saved) =>
+                  savedMessageMutation.mutate({ messageId, unsave: saved })
+                }
+                onSetReminder={(messageId, remindAt) =>
+                  reminderMutation.mutate({ messageId, remindAt })
+                }
+                onPublish={(messageId) => {
+                  if (!activeMessageChannelId) {
+                    return;
+                  }
+
+                  crosspostMutation.mutate({
+                    channelId: activeMessageChannelId,
+                    messageId,
+                  });
+                }}
+                onToggleReaction={(messageId, emoji, me) => {
+                  if (!activeMessageChannelId) {
+                    return;
+                  }
+
+                  toggleReactionMutation.mutate({
+                    channelId: activeMessageChannelId,
+                    messageId,
+                    emoji,
+                    remove: me,
+                  });
+                }}
+                onRemoveAllReactions={(messageId) => {
+                  if (!activeMessageChannelId) {
+                    return;
+                  }
+
+                  removeAllReactionsMutation.mutate({
+                    channelId: activeMessageChannelId,
+                    messageId,
+                  });
+                }}
+                onVotePoll={(messageId, answerId, voted) => {
+                  if (!activeMessageChannelId) {
+                    return;
+                  }
+
+                  togglePollVoteMutation.mutate({
+                    channelId: activeMessageChannelId,
+                    messageId,
+                    answerId,
+                    remove: voted,
+                  });
+                }}
                 onDeleteMessage={(messageId) => {
                   if (
                     !activeMessageChannelId ||
@@ -1928,6 +2903,16 @@ export function ChatApp() {
                     content,
                   });
                 }}
+                onSuppressEmbeds={(messageId) => {
+                  if (!activeMessageChannelId) {
+                    return;
+                  }
+
+                  suppressEmbedsMutation.mutate({
+                    channelId: activeMessageChannelId,
+                    messageId,
+                  });
+                }}
                 containerRef={messageListContainerRef}
                 bottomRef={listBottomRef}
               />
@@ -1943,6 +2928,7 @@ export function ChatApp() {
                 onValueChange={setComposerValue}
                 canSendInActiveChannel={canSendInActiveChannel}
                 routeMode={route.mode}
+                channelId={activeMessageChannelId}
                 guildId={
                   route.mode === "guild" ? (route.guildId ?? null) : null
                 }
@@ -1950,14 +2936,29 @@ export function ChatApp() {
                 dmMentionUser={activeDm?.recipients[0] ?? null}
                 dmUsername={activeDm?.recipients[0]?.username}
                 channelName={activeGuildChannel?.name}
+                localePreference={localePreference}
                 attachments={composerAttachments}
+                replyTo={composerReply}
                 isSendingMessage={isSendingMessage}
                 isSendMutationPending={sendMessageMutation.isPending}
                 onAttachmentInputChange={handleAttachmentInputChange}
                 onRemoveAttachment={removeComposerAttachment}
+                onToggleReplyMention={() => {
+                  setComposerReply((current) =>
+                    current
+                      ? { ...current, mentionAuthor: !current.mentionAuthor }
+                      : current,
+                  );
+                }}
+                onCancelReply={() => setComposerReply(null)}
                 onSend={(serializedContent) => {
                   void sendMessage(serializedContent);
                 }}
+                onSchedule={(serializedContent, scheduledAt) => {
+                  void scheduleMessage(serializedContent, scheduledAt);
+                }}
+                onSendPoll={sendPoll}
+                slowmodeRemainingSeconds={slowmode.remainingSeconds}
                 onTriggerTyping={triggerTyping}
               />
             </>
@@ -2127,6 +3128,7 @@ export function ChatApp() {
                   channels={guildChannels}
                   channelBadges={channelBadgeById}
                   activeChannelId={route.channelId}
+                  draftChannelIds={draftChannelIds}
                   canManageGuild={canManageGuild}
                   canLeaveGuild={canLeaveActiveGuild}
                   isLeavingGuild={leaveGuildMutation.isPending}
@@ -2281,6 +3283,81 @@ export function ChatApp() {
         isSubmitting={createGuildChannelMutation.isPending}
       />
 
+      <CreateThreadModal
+        open={createThreadTarget !== null}
+        onClose={() => setCreateThreadTarget(null)}
+        starterMessage={createThreadTarget?.starterMessage ?? null}
+        canCreatePrivate={canCreatePrivateThreadsInActiveChannel}
+        onSubmit={(payload) => {
+          if (!createThreadTarget) {
+            return;
+          }
+
+          createThreadMutation.mutate({
+            ...payload,
+            channelId: createThreadTarget.channelId,
+            starterMessageId: createThreadTarget.starterMessage?.id ?? null,
+          });
+        }}
+        isSubmitting={createThreadMutation.isPending}
+      />
+
+      <ChannelSettingsModal
+        open={channelSettingsOpen}
+        channel={activeGuildChannel ?? null}
+        onClose={() => setChannelSettingsOpen(false)}
+        onSubmit={(settings) => {
+          if (!activeGuildChannel) {
+            return;
+          }
+
+          updateChannelSettingsMutation.mutate({
+            channelId: activeGuildChannel.id,
+            settings,
+          });
+        }}
+        isSubmitting={updateChannelSettingsMutation.isPending}
+      />
+
+      <CreateForumPostModal
+        open={createForumPostOpen}
+        channel={isGuildForumChannel ? activeGuildChannel : null}
+        canUseModeratedTags={hasPermission(
+          activeGuildChannelPermissions,
+          PermissionBits.MANAGE_THREADS,
+        )}
+        onClose={() => setCreateForumPostOpen(false)}
+        onSubmit={(payload) => {
+          if (!activeGuildChannel) {
+            return;
+          }
+
+          createForumPostMutation.mutate({
+            ...payload,
+            channelId: activeGuildChannel.id,
+          });
+        }}
+        isSubmitting={createForumPostMutation.isPending}
+      />
+
+      <FollowChannelModal
+        open={followChannelOpen}
+        channel={activeGuildChannel ?? null}
+        guilds={guilds}
+        onClose={() => setFollowChannelOpen(false)}
+        onSubmit={(targetChannelId) => {
+          if (!activeGuildChannel) {
+            return;
+          }
+
+          followChannelMutation.mutate({
+            channelId: activeGuildChannel.id,
+            targetChannelId,
+          });
+        }}
+        isSubmitting={followChannelMutation.isPending}
+      />
+
       <InviteModal
         open={inviteOpen}
         onClose={() => setInviteOpen(false)}
@@ -2301,6 +3378,7 @@ export function ChatApp() {
         guildId={route.mode === "guild" ? route.guildId : null}
         canManageGuild={canManageGuild}
         canManageRoles={canManageRoles}
+        canManageEmojis={canManageEmojis}
         channels={guildChannels}
         onClose={() => setSettingsOpen(false)}
       />
@@ -3,10 +3,58 @@ export const ChannelType = {
   GUILD_VOICE: 2,
   DM: 1,
   GUILD_CATEGORY: 4,
+  GUILD_ANNOUNCEMENT: 5,
+  PUBLIC_THREAD: 11,
+  PRIVATE_THREAD: 12,
+  GUILD_FORUM: 15,
 } as const;
 
 export type ChannelTypeValue = (typeof ChannelType)[keyof typeof ChannelType];
 
+export const MessageType = {
+  DEFAULT: 0,
+  CALL: 3,
+  CHANNEL_NAME_CHANGE: 4,
+  CHANNEL_PINNED_MESSAGE: 6,
+  GUILD_MEMBER_JOIN: 7,
+  CHANNEL_FOLLOW_ADD: 12,
+  THREAD_CREATED: 18,
+  POLL_RESULT: 46,
+  GUILD_MEMBER_LEAVE: 100,
+  CHANNEL_TOPIC_CHANGE: 101,
+} as const;
+
+export type MessageTypeValue = (typeof MessageType)[keyof typeof MessageType];
+
+export const SystemChannelFlags = {
+  SUPPRESS_JOIN_NOTIFICATIONS: 1 << 0,
+  SUPPRESS_LEAVE_NOTIFICATIONS: 1 << 1,
+  SUPPRESS_PIN_NOTIFICATIONS: 1 << 2,
+  SUPPRESS_CHANNEL_UPDATE_NOTIFICATIONS: 1 << 3,
+  SUPPRESS_THREAD_NOTIFICATIONS: 1 << 4,
+} as const;
+
+export const MessageFlags = {
+  CROSSPOSTED: 1 << 0,
+  IS_CROSSPOST: 1 << 1,
+  SUPPRESS_EMBEDS: 1 << 2,
+} as const;
+
+export const ForumSortOrder = {
+  LATEST_ACTIVITY: 0,
+  CREATION_DATE: 1,
+} as const;
+
+export type ForumSortOrderValue = (typeof ForumSortOrder)[keyof typeof ForumSortOrder];
+
+export const ForumLayout = {
+  NOT_SET: 0,
+  LIST_VIEW: 1,
+  GALLERY_VIEW: 2,
+} as const;
+
+export type ForumLayoutValue = (typeof ForumLayout)[keyof typeof ForumLayout];
+
 export interface UserSummary {
   id: string;
   username: string;
@@ -31,6 +79,86 @@ export interface MessageChannelMention {
   name: string | null;
 }
 
+export interface MessageReference {
+  message_id: string;
+  channel_id: string;
+  guild_id: string | null;
+}
+
+export interface MessageCrosspostSource {
+  message_id: string;
+  channel_id: string;
+  guild_id: string;
+  channel_name: string;
+  guild_name: string;
+}
+
+export interface DeletedMessageTombstone {
+  id: string;
+  channel_id: string;
+  deleted: true;
+}
+
+export type ReferencedMessage = MessagePayload | DeletedMessageTombstone;
+
+export interface ReactionEmoji {
+  id: string | null;
+  name: string;
+}
+
+export interface MessageReaction {
+  emoji: ReactionEmoji;
+  count: number;
+  me: boolean;
+}
+
+export interface MessageEmbedImage {
+  url: string;
+  width: number | null;
+  height: number | null;
+}
+
+export interface MessageEmbed {
+  type: "link" | "image";
+  url: string;
+  title: string | null;
+  description: string | null;
+  site_name: string | null;
+  thumbnail: MessageEmbedImage | null;
+}
+
+export interface PollAnswer {
+  answer_id: number;
+  text: string;
+}
+
+export interface PollAnswerCount {
+  id: number;
+  count: number;
+  me_voted: boolean;
+}
+
+export interface PollResults {
+  is_finalized: boolean;
+  answer_counts: PollAnswerCount[];
+}
+
+export interface MessagePoll {
+  question: string;
+  answers: PollAnswer[];
+  allow_multiselect: boolean;
+  expiry: string;
+  results: PollResults;
+}
+
+export interface MessagePollVoteEvent {
+  user_id: string;
+  channel_id: string;
+  message_id: string;
+  guild_id: string | null;
+  answer_id: number;
+}
+
 export interface MessagePayload {
   id: string;
   channel_id: string;
@@ -38,13 +166,187 @@ export interface MessagePayload {
   author: UserSummary;
   content: string;
   attachments: APIAttachment[];
+  embeds: MessageEmbed[];
   mention_everyone: boolean;
   mentions: UserSummary[];
   mention_roles: string[];
   mention_channels: MessageChannelMention[];
   timestamp: string;
   edited_timestamp: string | null;
-  type: 0;
+  type: MessageTypeValue;
+  flags: number;
+  pinned: boolean;
+  message_reference?: MessageReference | null;
+  referenced_message?: ReferencedMessage | null;
+  reactions?: MessageReaction[];
+  thread?: GuildChannelPayload | null;
+  poll?: MessagePoll | null;
+  crosspost_source?: MessageCrosspostSource | null;
+}
+
+export interface AllowedMentions {
+  parse?: Array<"users" | "roles" | "everyone">;
+  users?: string[];
+  roles?: string[];
+  replied_user?: boolean;
+}
+
+export type ScheduledMessageStatus = "pending" | "sending" | "failed";
+
+export interface ScheduledMessagePayload {
+  id: string;
+  channel_id: string;
+  guild_id: string | null;
+  content: string;
+  attachment_upload_ids: string[];
+  allowed_mentions: AllowedMentions | null;
+  scheduled_at: string;
+  status: ScheduledMessageStatus;
+  failure_reason: string | null;
+  created_at: string;
+}
+
+export interface ScheduledMessageDeleteEvent {
+  id: string;
+  channel_id: string;
+  message_id: string | null;
+}
+
+export interface MessageDraftAttachment {
+  upload_id: string;
+  filename: string;
+  size: number;
+  content_type: string | null;
+}
+
+export interface MessageDraftPayload {
+  channel_id: string;
+  content: string;
+  attachments: MessageDraftAttachment[];
+  updated_at: string;
+}
+
+export interface DraftUpdateEvent {
+  channel_id: string;
+  draft: MessageDraftPayload | null;
+}
+
+export interface SavedMessagePayload {
+  id: string;
+  message_id: string;
+  channel_id: string;
+  guild_id: string | null;
+  channel_name: string | null;
+  guild_name: string | null;
+  note: string | null;
+  saved_at: string;
+  message: MessagePayload;
+}
+
+export interface SavedMessagesPage {
+  saved_messages: SavedMessagePayload[];
+  next_before: string | null;
+}
+
+export interface SavedMessageUpdateEvent {
+  message_id: string;
+  saved_message: SavedMessagePayload | null;
+}
+
+export interface MessageReminderPayload {
+  id: string;
+  message_id: string;
+  channel_id: string;
+  guild_id: string | null;
+  channel_name: string | null;
+  guild_name: string | null;
+  remind_at: string;
+  fired: boolean;
+  created_at: string;
+  message: MessagePayload;
+}
+
+export interface ReminderUpdateEvent {
+  message_id: string;
+  reminder: MessageReminderPayload | null;
+}
+
+export type ChannelExportFormat = "json" | "html" | "csv";
+
+export type ChannelExportStatus = "pending" | "running" | "completed" | "failed";
+
+export interface ChannelExportPayload {
+  id: string;
+  channel_id: string;
+  guild_id: string | null;
+  format: ChannelExportFormat;
+  bundle_attachments: boolean;
+  after: string | null;
+  before: string | null;
+  status: ChannelExportStatus;
+  message_count: number;
+  failure_reason: string | null;
+  download_url: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface DiscordImportPayload {
+  guild_id: string;
+  role_count: number;
+  channel_count: number;
+  message_count: number;
+  placeholder_user_count: number;
+  skipped_channels: string[];
+  skipped_message_count: number;
+  warnings: string[];
+}
+
+export interface MentionPayload {
+  message_id: string;
+  channel_id: string;
+  guild_id: string | null;
+  channel_name: string | null;
+  guild_name: string | null;
+  unread: boolean;
+  message: MessagePayload;
+}
+
+export interface MentionsPage {
+  mentions: MentionPayload[];
+  next_before: string | null;
+}
+
+export interface NotificationCreateEvent {
+  channel_id: string;
+  guild_id: string | null;
+  message_id: string;
+  author: UserSummary;
+  mentioned: boolean;
+  reminder?: boolean;
+}
+
+export interface MessageRevision {
+  id: string;
+  message_id: string;
+  content: string;
+  mention_everyone: boolean;
+  mentions: UserSummary[];
+  mention_roles: string[];
+  mention_channels: MessageChannelMention[];
+  edited_at: string;
+}
+
+export interface MessageSearchHit {
+  message: MessagePayload;
+  context_before: MessagePayload[];
+  context_after: MessagePayload[];
+}
+
+export interface MessageSearchResponse {
+  total_results: number;
+  offset: number;
+  hits: MessageSearchHit[];
 }
 
 export interface APIAttachment {
@@ -68,21 +370,73 @@ export interface DmChannelPayload {
   last_message_id: string | null;
   last_message?: MessagePayload | null;
   unread?: boolean;
+  message_ttl?: number;
+  message_ttl_proposals?: DmMessageTtlProposal[];
+}
+
+// Disappearing messages in a DM only turn on once every participant has proposed the same timer.
+export interface DmMessageTtlProposal {
+  user_id: string;
+  message_ttl: number;
+}
+
+export type ThreadAutoArchiveDuration = 60 | 1440 | 4320 | 10080;
+
+export interface ThreadMetadata {
+  archived: boolean;
+  auto_archive_duration: ThreadAutoArchiveDuration;
+  archive_timestamp: string;
+  create_timestamp: string;
+}
+
+export interface ForumTag {
+  id: string;
+  name: string;
+  moderated: boolean;
+  emoji_name: string | null;
 }
 
 export interface GuildChannelPayload {
   id: string;
-  type: 0 | 2 | 4;
+  type: 0 | 2 | 4 | 5 | 11 | 12 | 15;
   guild_id: string;
   parent_id: string | null;
   name: string;
   topic: string | null;
   position: number;
+  rate_limit_per_user?: number;
+  message_ttl?: number;
   permission_overwrites?: ChannelPermissionOverwrite[];
+  owner_id?: string | null;
+  thread_metadata?: ThreadMetadata;
+  member_count?: number;
+  available_tags?: ForumTag[];
+  applied_tags?: string[];
+  default_sort_order?: ForumSortOrderValue | null;
+  default_forum_layout?: ForumLayoutValue;
+}
+
+export interface ForumPostPayload {
+  thread: GuildChannelPayload;
+  starter_message: MessagePayload | null;
+  message_count: number;
+  last_message_id: string | null;
+}
+
+export interface ThreadMemberPayload {
+  id: string;
+  user_id: string;
+  join_timestamp: string;
+  user?: UserSummary;
 }
 
 export type ChannelPayload = DmChannelPayload | GuildChannelPayload;
 
+export interface FollowedChannelPayload {
+  channel_id: string;
+  target_channel_id: string;
+}
+
 export interface Guild {
   id: string;
   name: string;
@@ -93,6 +447,7 @@ export interface Guild {
   explicit_content_filter?: number;
   preferred_locale?: string;
   system_channel_id?: string | null;
+  system_channel_flags?: number;
   rules_channel_id?: string | null;
   public_updates_channel_id?: string | null;
 }
@@ -107,6 +462,7 @@ export interface PartialGuild {
   explicit_content_filter?: number;
   preferred_locale?: string;
   system_channel_id?: string | null;
+  system_channel_flags?: number;
   rules_channel_id?: string | null;
   public_updates_channel_id?: string | null;
 }
@@ -123,6 +479,14 @@ export interface GuildRole {
   managed: boolean;
 }
 
+export interface GuildEmoji {
+  id: string;
+  guild_id: string;
+  name: string;
+  animated: boolean;
+  user: UserSummary | null;
+}
+
 export interface GuildMemberListItem {
   guild_id: string;
   user: UserSummary;
@@ -185,6 +549,44 @@ export interface TypingStartEvent {
   timestamp: number;
 }
 
+export interface MessageDeleteBulkEvent {
+  ids: string[];
+  channel_id: string;
+  guild_id: string | null;
+}
+
+export interface MessageReactionEvent {
+  user_id: string;
+  channel_id: string;
+  message_id: string;
+  guild_id: string | null;
+  emoji: ReactionEmoji;
+}
+
+export interface MessageReactionRemoveAllEvent {
+  channel_id: string;
+  message_id: string;
+  guild_id: string | null;
+}
+
+export interface ThreadMemberUpdateEvent extends ThreadMemberPayload {
+  guild_id: string;
+}
+
+export interface ThreadMembersUpdateEvent {
+  id: string;
+  guild_id: string;
+  member_count: number;
+  added_members?: ThreadMemberPayload[];
+  removed_member_ids?: string[];
+}
+
+export interface ChannelPinsUpdateEvent {
+  channel_id: string;
+  guild_id: string | null;
+  last_pin_timestamp: string | null;
+}
+
 export interface ReadStateUpdateEvent {
   channel_id: string;
   user_id: string;
@@ -220,6 +622,11 @@ export interface GuildRoleDeleteEvent {
   role_id: string;
 }
 
+export interface GuildEmojisUpdateEvent {
+  guild_id: string;
+  emojis: GuildEmoji[];
+}
+
 export interface GuildMemberUpdateEvent {
   guild_id: string;
   user: Pick<UserSummary, "id">;